@@ -0,0 +1,2 @@
+// 测试环境下提供必需的环境变量，避免加载配置时退出
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret'
@@ -10,7 +10,13 @@ import { errorHandler } from './middleware/errorHandler'
 import { authRoutes } from './routes/auth'
 import problemRoutes from './routes/problemsMySQL'
 import submissionRoutes from './routes/submissionsMySQL'
+import contestRoutes from './routes/contestsMySQL'
+import userRoutes from './routes/usersMySQL'
+import assignmentRoutes from './routes/assignmentsMySQL'
+import plagiarismRoutes from './routes/plagiarismMySQL'
 import adminRoutes from './routes/adminMySQL'
+import languageRoutes from './routes/languagesMySQL'
+import judgeWorkerRoutes from './routes/judgeWorkers'
 
 const app = express()
 
@@ -33,6 +39,9 @@ app.use(morgan('combined'))
 app.use(express.json({ limit: '10mb' }))
 app.use(express.urlencoded({ extended: true, limit: '10mb' }))
 
+// 远程判题机接口（令牌认证，长轮询频繁，不参与速率限制）
+app.use('/api/judge', judgeWorkerRoutes)
+
 // 速率限制
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15分钟
@@ -56,7 +65,12 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRoutes)
 app.use('/api/problems', problemRoutes)
 app.use('/api/submissions', submissionRoutes)
+app.use('/api/contests', contestRoutes)
+app.use('/api/users', userRoutes)
+app.use('/api/assignments', assignmentRoutes)
+app.use('/api/plagiarism', plagiarismRoutes)
 app.use('/api/admin', adminRoutes)
+app.use('/api/languages', languageRoutes)
 
 // 404处理
 app.use('*', (req, res) => {
@@ -34,6 +34,36 @@ interface Config {
     timeLimit: number
     memoryLimit: number
     languages: string[]
+    wallTimeMultiplier: number
+    testlibPath: string
+    testDataPath: string
+    compileCacheSize: number
+    compile: {
+      timeLimit: number
+      memoryLimit: number
+      processLimit: number
+    }
+    queue: {
+      concurrency: number
+      leaseTimeout: number
+      maxRetries: number
+      runConcurrency: number
+    }
+    worker: {
+      token: string
+      pollTimeout: number
+      serverUrl: string
+      name: string
+      concurrency: number
+      languages: string[]
+    }
+    sandbox: {
+      type: string
+      nsjailPath: string
+      cgroupRoot: string
+      rootfs: string
+      processLimit: number
+    }
   }
   upload: {
     maxSize: number
@@ -45,6 +75,7 @@ export const config: Config = {
   env: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '5000', 10),
   
+  // 旧版SQLite用户库，仅供 npm run migrate:users 迁移使用
   database: {
     path: process.env.DATABASE_PATH || './database.sqlite',
     type: 'sqlite' as const
@@ -79,7 +110,49 @@ export const config: Config = {
   judge: {
     timeLimit: parseInt(process.env.DEFAULT_TIME_LIMIT || '1000', 10), // ms
     memoryLimit: parseInt(process.env.DEFAULT_MEMORY_LIMIT || '128', 10), // MB
-    languages: ['cpp', 'c', 'java', 'python', 'javascript']
+    languages: ['cpp', 'c', 'java', 'python', 'javascript'],
+    // 时间限制按CPU时间计算，墙钟上限 = CPU时间限制 × 倍数 + 1秒
+    wallTimeMultiplier: parseFloat(process.env.JUDGE_WALL_TIME_MULTIPLIER || '3'),
+    // testlib.h 所在目录，编译自定义检查器时使用
+    testlibPath: process.env.TESTLIB_INCLUDE_DIR || '/usr/local/include/testlib',
+    // 测试数据存储目录（按内容哈希去重的数据文件 + 每题的 N.in/N.ans）
+    testDataPath: process.env.TEST_DATA_PATH || './data/testdata',
+    // 编译缓存容量（MB，按语言、编译命令与源码哈希缓存编译产物，超出时淘汰最久未使用的条目；0 表示不缓存）
+    compileCacheSize: parseInt(process.env.JUDGE_COMPILE_CACHE_SIZE || '1024', 10) * 1024 * 1024,
+    // 编译器在沙箱中运行：CPU时间（毫秒）、内存（MB）与进程数限制
+    compile: {
+      timeLimit: parseInt(process.env.JUDGE_COMPILE_TIMEOUT || '10000', 10),
+      memoryLimit: parseInt(process.env.JUDGE_COMPILE_MEMORY_LIMIT || '1024', 10),
+      processLimit: parseInt(process.env.JUDGE_COMPILE_PROCESS_LIMIT || '64', 10)
+    },
+    // 判题队列（任务持久化在 judge_tasks 表中）
+    queue: {
+      concurrency: parseInt(process.env.JUDGE_CONCURRENT_LIMIT || '3', 10),
+      // 租约时长（毫秒），判题进程每隔三分之一租约时长心跳续期，超时未续期的任务会被重新领取
+      leaseTimeout: parseInt(process.env.JUDGE_LEASE_TIMEOUT || '60000', 10),
+      maxRetries: parseInt(process.env.JUDGE_MAX_RETRIES || '3', 10),
+      // 自定义运行的并发数，自定义运行只在本进程没有判题任务时执行
+      runConcurrency: parseInt(process.env.JUDGE_RUN_CONCURRENT_LIMIT || '1', 10)
+    },
+    // 远程判题机：服务端用 token 校验判题机，其余为判题机进程（src/worker.ts）自身的配置
+    worker: {
+      token: process.env.JUDGE_WORKER_TOKEN || '',
+      pollTimeout: parseInt(process.env.JUDGE_WORKER_POLL_TIMEOUT || '20000', 10), // 长轮询等待时长（毫秒）
+      serverUrl: process.env.JUDGE_SERVER_URL || 'http://localhost:5000',
+      name: process.env.JUDGE_WORKER_NAME || '',
+      concurrency: parseInt(process.env.JUDGE_WORKER_CONCURRENCY || '2', 10),
+      // 判题机支持的语言（逗号分隔），为空时使用全部已配置的语言
+      languages: (process.env.JUDGE_WORKER_LANGUAGES || '').split(',').map(language => language.trim()).filter(Boolean)
+    },
+    sandbox: {
+      // none: 直接运行（仅限开发环境）; nsjail: 命名空间 + cgroup v2 + seccomp 隔离
+      type: process.env.JUDGE_SANDBOX || (process.env.NODE_ENV === 'production' ? 'nsjail' : 'none'),
+      nsjailPath: process.env.NSJAIL_PATH || 'nsjail',
+      cgroupRoot: process.env.JUDGE_CGROUP_ROOT || '/sys/fs/cgroup/ssl-oj',
+      // 沙箱根文件系统（只读挂载）：只包含编译器与运行时的最小目录，不能是宿主机根目录
+      rootfs: process.env.JUDGE_SANDBOX_ROOTFS || '',
+      processLimit: parseInt(process.env.JUDGE_PROCESS_LIMIT || '16', 10)
+    }
   },
   
   upload: {
@@ -2,9 +2,14 @@
 import { Request, Response } from 'express'
 import { Problem, ProblemStatus } from '../models/ProblemMySQL'
 import { Submission, SubmissionStatus } from '../models/SubmissionMySQL'
+import { User } from '../models/UserMySQL'
 import { AppError, catchAsync } from '../middleware/errorHandler'
 import { Op, WhereOptions } from 'sequelize'
 import os from 'os'
+import { removeTestData } from '../utils/testData'
+import { listWorkers } from '../utils/workerRegistry'
+import { getJudgeQueueInfo, addRejudgeTask } from '../utils/judgeQueue'
+import { getCompileCacheStats, clearCompileCache } from '../utils/compileCache'
 
 // 获取仪表板统计信息
 export const getDashboardStats = catchAsync(async (req: Request, res: Response) => {
@@ -14,7 +19,8 @@ export const getDashboardStats = catchAsync(async (req: Request, res: Response)
   const thisMonth = new Date(now.getFullYear(), now.getMonth(), 1)
 
   // 获取基本统计
-  const [totalProblems, totalSubmissions] = await Promise.all([
+  const [totalUsers, totalProblems, totalSubmissions] = await Promise.all([
+    User.count(),
     Problem.count(),
     Submission.count()
   ])
@@ -74,6 +80,7 @@ export const getDashboardStats = catchAsync(async (req: Request, res: Response)
 
   const stats = {
     overview: {
+      totalUsers,
       totalProblems,
       totalSubmissions
     },
@@ -134,7 +141,9 @@ export const getSystemInfo = catchAsync(async (req: Request, res: Response) => {
       version: process.env.npm_package_version || '1.0.0',
       environment: process.env.NODE_ENV || 'development',
       port: process.env.PORT || 3000
-    }
+    },
+    // 编译缓存（本进程，远程判题机各自维护缓存）
+    compileCache: getCompileCacheStats()
   }
 
   res.json({
@@ -143,6 +152,19 @@ export const getSystemInfo = catchAsync(async (req: Request, res: Response) => {
   })
 })
 
+// 获取判题机与判题队列状态
+export const getJudgeWorkers = catchAsync(async (req: Request, res: Response) => {
+  const { tasks, ...queue } = await getJudgeQueueInfo()
+
+  res.json({
+    success: true,
+    data: {
+      workers: listWorkers(),
+      queue
+    }
+  })
+})
+
 // 获取系统设置
 export const getSystemSettings = catchAsync(async (req: Request, res: Response) => {
   const settings = {
@@ -293,6 +315,7 @@ export const deleteProblem = catchAsync(async (req: Request, res: Response) => {
   }
 
   await problem.destroy()
+  removeTestData(problem.problemId)
 
   res.json({
     success: true,
@@ -344,6 +367,10 @@ export const getSubmissionManagement = catchAsync(async (req: Request, res: Resp
     offset,
     limit: Number(limit),
     include: [
+      {
+        association: 'user',
+        attributes: ['username', 'realName']
+      },
       {
         association: 'problem',
         attributes: ['title']
@@ -394,26 +421,18 @@ export const rejudgeSubmissions = catchAsync(async (req: Request, res: Response)
     }
   }
 
-  // 重置提交状态
-  const [affectedCount] = await Submission.update(
-    {
-      status: SubmissionStatus.PENDING,
-      result: {
-        status: SubmissionStatus.PENDING,
-        score: 0,
-        timeUsed: 0,
-        memoryUsed: 0,
-        testCases: []
-      },
-      judgedAt: undefined
-    },
-    { where }
-  )
+  // 不允许无条件重判全部提交
+  if (Object.keys(where).length === 0) {
+    throw new AppError('请指定要重新判题的提交', 400)
+  }
 
-  // TODO: 将提交重新加入判题队列
-  // for (const submission of submissions) {
-  //   await judgeQueue.add('judge', { submissionId: submission.submissionId })
-  // }
+  const submissions = await Submission.findAll({ where })
+
+  // 重置提交状态并重新加入判题队列
+  for (const submission of submissions) {
+    await addRejudgeTask(submission)
+  }
+  const affectedCount = submissions.length
 
   res.json({
     success: true,
@@ -512,11 +531,12 @@ export const getSystemStatistics = catchAsync(async (req: Request, res: Response
 
 // 清除缓存
 export const clearCache = catchAsync(async (req: Request, res: Response) => {
-  // TODO: 实现缓存清除逻辑
-  
+  const compileCache = clearCompileCache()
+
   res.json({
     success: true,
-    message: '缓存清除成功'
+    message: '缓存清除成功',
+    data: { compileCache }
   })
 })
 
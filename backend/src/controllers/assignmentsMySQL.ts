@@ -0,0 +1,303 @@
+import { Request, Response } from 'express'
+import { Op, WhereOptions } from 'sequelize'
+import { Assignment } from '../models/AssignmentMySQL'
+import { Problem } from '../models/ProblemMySQL'
+import { User, UserRole, UserStatus } from '../models/UserMySQL'
+import { AppError, catchAsync } from '../middleware/errorHandler'
+import { buildCompletionMatrix, computeCompletionRows, matrixToCsv } from '../utils/assignmentMatrix'
+
+// 获取作业，不存在时抛出404
+const findAssignment = async (assignmentId: string | undefined): Promise<Assignment> => {
+  const assignment = await Assignment.findByPk(Number(assignmentId), {
+    include: [
+      {
+        association: 'creator',
+        attributes: ['id', 'username', 'realName']
+      }
+    ]
+  })
+  if (!assignment) {
+    throw new AppError('作业不存在', 404)
+  }
+  return assignment
+}
+
+// 检查作业管理权限
+const requireManager = (assignment: Assignment, req: Request): void => {
+  if (!assignment.isManagedBy(req.user?.id, req.user?.role)) {
+    throw new AppError('只有作业布置者或管理员可以执行此操作', 403)
+  }
+}
+
+// 当前用户所在班级（令牌中不包含班级信息）
+const findUserClass = async (req: Request): Promise<string | undefined> => {
+  const user = await User.findByPk(req.user!.id, { attributes: ['id', 'class'] })
+  return user?.class
+}
+
+// 作业响应数据
+const formatAssignment = (assignment: Assignment) => {
+  const { creator, ...values } = assignment.toJSON() as any
+  return {
+    ...values,
+    assignmentId: assignment.id,
+    latePenalty: assignment.latePenalty ?? null,
+    isStarted: assignment.startTime <= new Date(),
+    isPastDeadline: assignment.isPastDeadline(),
+    createdBy: {
+      id: assignment.createdBy,
+      username: creator?.username || '',
+      realName: creator?.realName || ''
+    }
+  }
+}
+
+// 校验作业题目：不能重复且必须存在
+const checkAssignmentProblems = async (problems: string[]): Promise<string[]> => {
+  if (new Set(problems).size !== problems.length) {
+    throw new AppError('作业题目不能重复', 400)
+  }
+
+  const existing = await Problem.findAll({
+    where: { problemId: { [Op.in]: problems } },
+    attributes: ['problemId']
+  })
+  const missing = problems.filter(problemId => !existing.some(problem => problem.problemId === problemId))
+  if (missing.length > 0) {
+    throw new AppError(`题目不存在: ${missing.join(', ')}`, 400)
+  }
+
+  return problems
+}
+
+// 截止时间必须晚于布置时间
+const checkDeadline = (startTime: Date, deadline: Date): void => {
+  if (deadline <= startTime) {
+    throw new AppError('截止时间必须晚于布置时间', 400)
+  }
+}
+
+// 获取作业列表：教师看到自己布置的作业（管理员看到全部），学生看到布置给本班且已开始的作业及自己的完成情况
+export const getAssignments = catchAsync(async (req: Request, res: Response) => {
+  const { page = 1, limit = 20, search } = req.query
+  const student = req.user!.role === UserRole.STUDENT
+  const conditions: WhereOptions[] = []
+
+  if (student) {
+    const userClass = await findUserClass(req)
+    if (!userClass) {
+      // 未设置班级的学生没有作业
+      conditions.push({ id: null })
+    } else {
+      const sequelize = Assignment.sequelize!
+      conditions.push(sequelize.where(
+        sequelize.fn('JSON_CONTAINS', sequelize.col('classes'), JSON.stringify(userClass)),
+        1
+      ))
+      conditions.push({ startTime: { [Op.lte]: new Date() } })
+    }
+  } else if (req.user!.role !== UserRole.ADMIN) {
+    conditions.push({ createdBy: req.user!.id })
+  }
+
+  if (search) {
+    conditions.push({ title: { [Op.like]: `%${search}%` } })
+  }
+
+  const offset = (Number(page) - 1) * Number(limit)
+
+  const { rows: assignments, count: total } = await Assignment.findAndCountAll({
+    where: { [Op.and]: conditions },
+    order: [['deadline', 'DESC']],
+    offset,
+    limit: Number(limit),
+    include: [
+      {
+        association: 'creator',
+        attributes: ['id', 'username', 'realName']
+      }
+    ]
+  })
+
+  // 学生附带自己的完成情况
+  const me = student ? await User.findByPk(req.user!.id) : null
+  const data = await Promise.all(assignments.map(async assignment => {
+    const [progress] = me ? await computeCompletionRows(assignment, [me]) : []
+    return {
+      ...formatAssignment(assignment),
+      ...(progress ? { solvedCount: progress.solvedCount, score: progress.score } : {})
+    }
+  }))
+
+  const totalPages = Math.ceil(total / Number(limit))
+
+  res.json({
+    success: true,
+    data: {
+      assignments: data,
+      pagination: {
+        currentPage: Number(page),
+        totalPages,
+        totalItems: total,
+        itemsPerPage: Number(limit),
+        hasNextPage: Number(page) < totalPages,
+        hasPrevPage: Number(page) > 1
+      }
+    }
+  })
+})
+
+// 获取可布置作业的班级及人数
+export const getAssignmentClasses = catchAsync(async (req: Request, res: Response) => {
+  const sequelize = User.sequelize!
+  const classes = await User.findAll({
+    where: {
+      role: UserRole.STUDENT,
+      status: UserStatus.ACTIVE,
+      class: { [Op.and]: [{ [Op.ne]: null }, { [Op.ne]: '' }] }
+    },
+    attributes: [
+      'class',
+      [sequelize.fn('COUNT', sequelize.col('id')), 'count']
+    ],
+    group: ['class'],
+    order: [['class', 'ASC']],
+    raw: true
+  })
+
+  res.json({
+    success: true,
+    data: {
+      classes: (classes as any[]).map(item => ({ class: item.class, studentCount: Number(item.count) }))
+    }
+  })
+})
+
+// 获取作业详情：学生只能查看布置给本班且已开始的作业
+export const getAssignmentById = catchAsync(async (req: Request, res: Response) => {
+  const assignment = await findAssignment(req.params.assignmentId)
+  const manager = assignment.isManagedBy(req.user!.id, req.user!.role)
+
+  let progress
+  if (!manager) {
+    const me = await User.findByPk(req.user!.id)
+    if (!me || !assignment.isAssignedTo(me.class) || assignment.startTime > new Date()) {
+      throw new AppError('无权查看此作业', 403)
+    }
+    [progress] = await computeCompletionRows(assignment, [me])
+  }
+
+  const problems = await Problem.findAll({
+    where: { problemId: { [Op.in]: assignment.problems } },
+    attributes: ['problemId', 'title', 'difficulty']
+  })
+
+  res.json({
+    success: true,
+    data: {
+      assignment: {
+        ...formatAssignment(assignment),
+        problems: assignment.problems.map(problemId => {
+          const problem = problems.find(item => item.problemId === problemId)
+          return { problemId, title: problem?.title || '', difficulty: problem?.difficulty }
+        })
+      },
+      progress
+    }
+  })
+})
+
+// 布置作业
+export const createAssignment = catchAsync(async (req: Request, res: Response) => {
+  const { title, description, problems, classes, startTime, deadline, latePenalty } = req.body
+
+  const start = startTime ? new Date(startTime) : new Date()
+  const end = new Date(deadline)
+  checkDeadline(start, end)
+
+  const assignment = await Assignment.create({
+    title,
+    description: description || null,
+    problems: await checkAssignmentProblems(problems),
+    classes: Array.from(new Set<string>(classes)),
+    startTime: start,
+    deadline: end,
+    latePenalty: latePenalty ?? null,
+    createdBy: req.user!.id
+  })
+
+  const created = await findAssignment(String(assignment.id))
+
+  res.status(201).json({
+    success: true,
+    message: '作业布置成功',
+    data: { assignment: formatAssignment(created) }
+  })
+})
+
+// 更新作业
+export const updateAssignment = catchAsync(async (req: Request, res: Response) => {
+  const assignment = await findAssignment(req.params.assignmentId)
+  requireManager(assignment, req)
+
+  const updateData: any = {}
+  if (req.body.title !== undefined) updateData.title = req.body.title
+  if (req.body.description !== undefined) updateData.description = req.body.description || null
+  if (req.body.latePenalty !== undefined) updateData.latePenalty = req.body.latePenalty
+  if (req.body.problems !== undefined) {
+    updateData.problems = await checkAssignmentProblems(req.body.problems)
+  }
+  if (req.body.classes !== undefined) {
+    updateData.classes = Array.from(new Set<string>(req.body.classes))
+  }
+  if (req.body.startTime !== undefined) updateData.startTime = new Date(req.body.startTime)
+  if (req.body.deadline !== undefined) updateData.deadline = new Date(req.body.deadline)
+  checkDeadline(updateData.startTime || assignment.startTime, updateData.deadline || assignment.deadline)
+
+  await assignment.update(updateData)
+
+  res.json({
+    success: true,
+    message: '作业更新成功',
+    data: { assignment: formatAssignment(assignment) }
+  })
+})
+
+// 删除作业
+export const deleteAssignment = catchAsync(async (req: Request, res: Response) => {
+  const assignment = await findAssignment(req.params.assignmentId)
+  requireManager(assignment, req)
+
+  await assignment.destroy()
+
+  res.json({
+    success: true,
+    message: '作业删除成功'
+  })
+})
+
+// 获取作业完成情况矩阵
+export const getCompletionMatrix = catchAsync(async (req: Request, res: Response) => {
+  const assignment = await findAssignment(req.params.assignmentId)
+  requireManager(assignment, req)
+
+  const matrix = await buildCompletionMatrix(assignment)
+
+  res.json({
+    success: true,
+    data: { matrix }
+  })
+})
+
+// 导出作业完成情况（CSV，带BOM以便Excel识别中文）
+export const exportCompletionMatrix = catchAsync(async (req: Request, res: Response) => {
+  const assignment = await findAssignment(req.params.assignmentId)
+  requireManager(assignment, req)
+
+  const matrix = await buildCompletionMatrix(assignment)
+  const filename = encodeURIComponent(`${assignment.title}-完成情况.csv`)
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+  res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${filename}`)
+  res.send('\ufeff' + matrixToCsv(matrix))
+})
@@ -1,7 +1,6 @@
 import { Request, Response, NextFunction } from 'express'
-import bcrypt from 'bcryptjs'
 import jwt from 'jsonwebtoken'
-import { User, UserModel, UserRole, UserStatus, IUser } from '../models/UserSQLite'
+import { User, UserRole, UserStatus, UserCreationAttributes } from '../models/UserMySQL'
 import { AppError, catchAsync } from '../middleware/errorHandler'
 import { config } from '../config'
 
@@ -37,34 +36,32 @@ export const register = catchAsync(async (req: Request, res: Response) => {
   const { username, email, password, realName, studentId, class: userClass } = req.body
   
   // 检查用户名是否已存在
-  const existingUserByUsername = User.findByUsername(username)
+  const existingUserByUsername = await User.findByUsername(username)
   if (existingUserByUsername) {
     throw new AppError('用户名已存在', 400)
   }
   
   // 检查邮箱是否已存在
-  const existingUserByEmail = User.findByEmail(email)
+  const existingUserByEmail = await User.findByEmail(email)
   if (existingUserByEmail) {
     throw new AppError('邮箱已被注册', 400)
   }
   
   // 创建新用户
-  const userData: Omit<IUser, 'id' | 'createdAt' | 'updatedAt'> = {
+  const user = await User.create({
     username,
     email,
-    password,
+    password: await User.hashPassword(password),
     realName,
     studentId,
     class: userClass,
     role: UserRole.STUDENT, // 默认为学生角色
     status: UserStatus.ACTIVE
-  }
-  
-  const user = await User.create(userData)
+  })
   
   // 生成token
   const tokens = generateTokens({
-    id: user.id!,
+    id: user.id,
     username: user.username,
     role: user.role
   })
@@ -98,7 +95,7 @@ export const login = catchAsync(async (req: Request, res: Response) => {
   const { identifier, password, rememberMe } = req.body
   
   // 查找用户（通过用户名或邮箱）
-  const user = User.findByUsernameOrEmail(identifier)
+  const user = await User.findByUsernameOrEmail(identifier)
   
   if (!user) {
     throw new AppError('用户名或密码错误', 401)
@@ -110,17 +107,17 @@ export const login = catchAsync(async (req: Request, res: Response) => {
   }
   
   // 验证密码
-  const isPasswordValid = await UserModel.comparePassword(password, user.password)
+  const isPasswordValid = await user.comparePassword(password)
   if (!isPasswordValid) {
     throw new AppError('用户名或密码错误', 401)
   }
   
   // 更新最后登录时间
-  const updatedUser = User.update(user.id!, { lastLoginAt: new Date().toISOString() })
+  await user.update({ lastLoginAt: new Date() })
   
   // 生成token（如果选择记住我，延长过期时间）
   const payload = {
-    id: user.id!,
+    id: user.id,
     username: user.username,
     role: user.role
   }
@@ -154,7 +151,7 @@ export const login = catchAsync(async (req: Request, res: Response) => {
     totalSubmissions: user.totalSubmissions || 0,
     acceptedSubmissions: user.acceptedSubmissions || 0,
     solvedProblems: user.solvedProblems || 0,
-    lastLoginAt: updatedUser?.lastLoginAt || user.lastLoginAt
+    lastLoginAt: user.lastLoginAt
   }
   
   res.json({
@@ -180,7 +177,7 @@ export const refreshToken = catchAsync(async (req: Request, res: Response) => {
     const decoded = jwt.verify(refreshToken, config.jwt.refreshSecret) as JWTPayload
     
     // 检查用户是否存在且状态正常
-    const user = User.findById(Number(decoded.id))
+    const user = await User.findByPk(Number(decoded.id))
     
     if (!user || user.status !== UserStatus.ACTIVE) {
       throw new AppError('用户不存在或已被禁用', 401)
@@ -188,7 +185,7 @@ export const refreshToken = catchAsync(async (req: Request, res: Response) => {
     
     // 生成新的token
     const tokens = generateTokens({
-      id: user.id!,
+      id: user.id,
       username: user.username,
       role: user.role
     })
@@ -221,7 +218,7 @@ export const logout = catchAsync(async (req: Request, res: Response) => {
 
 // 获取当前用户信息
 export const getProfile = catchAsync(async (req: Request, res: Response) => {
-  const user = User.findById(Number(req.user!.id))
+  const user = await User.findByPk(Number(req.user!.id))
   
   if (!user) {
     throw new AppError('用户不存在', 404)
@@ -266,7 +263,7 @@ export const getProfile = catchAsync(async (req: Request, res: Response) => {
 export const updateProfile = catchAsync(async (req: Request, res: Response) => {
   const { realName, email, bio, school, grade, avatar } = req.body
   
-  const user = User.findById(Number(req.user!.id))
+  const user = await User.findByPk(Number(req.user!.id))
   
   if (!user) {
     throw new AppError('用户不存在', 404)
@@ -274,14 +271,14 @@ export const updateProfile = catchAsync(async (req: Request, res: Response) => {
   
   // 检查邮箱是否被其他用户使用
   if (email && email !== user.email) {
-    const existingUser = User.findByEmail(email)
+    const existingUser = await User.findByEmail(email)
     if (existingUser) {
       throw new AppError('邮箱已被其他用户使用', 400)
     }
   }
   
   // 构建更新数据
-  const updateData: Partial<IUser> = {}
+  const updateData: Partial<UserCreationAttributes> = {}
   if (realName !== undefined) updateData.realName = realName
   if (email !== undefined) updateData.email = email
   if (bio !== undefined) updateData.bio = bio
@@ -290,11 +287,7 @@ export const updateProfile = catchAsync(async (req: Request, res: Response) => {
   if (avatar !== undefined) updateData.avatar = avatar
   
   // 更新用户信息
-  const updatedUser = User.update(Number(req.user!.id), updateData)
-  
-  if (!updatedUser) {
-    throw new AppError('更新失败', 500)
-  }
+  const updatedUser = await user.update(updateData)
   
   // 返回更新后的用户信息
   const userResponse = {
@@ -325,27 +318,27 @@ export const updateProfile = catchAsync(async (req: Request, res: Response) => {
 export const changePassword = catchAsync(async (req: Request, res: Response) => {
   const { currentPassword, newPassword } = req.body
   
-  const user = User.findById(Number(req.user!.id))
+  const user = await User.findByPk(Number(req.user!.id))
   
   if (!user) {
     throw new AppError('用户不存在', 404)
   }
   
   // 验证当前密码
-  const isCurrentPasswordValid = await UserModel.comparePassword(currentPassword, user.password)
+  const isCurrentPasswordValid = await user.comparePassword(currentPassword)
   if (!isCurrentPasswordValid) {
     throw new AppError('当前密码错误', 400)
   }
 
   // 检查新密码是否与当前密码相同
-  const isSamePassword = await UserModel.comparePassword(newPassword, user.password)
+  const isSamePassword = await user.comparePassword(newPassword)
   if (isSamePassword) {
     throw new AppError('新密码不能与当前密码相同', 400)
   }
 
   // 哈希新密码
-  const hashedPassword = UserModel.hashPassword(newPassword)
-  User.update(Number(req.user!.id), { password: hashedPassword })
+  const hashedPassword = await User.hashPassword(newPassword)
+  await user.update({ password: hashedPassword })
   
   res.json({
     success: true,
@@ -0,0 +1,1191 @@
+import { Request, Response } from 'express'
+import { Op, WhereOptions } from 'sequelize'
+import { Contest, ContestStatus, ContestType, IContestProblem, contestLabel } from '../models/ContestMySQL'
+import { ContestParticipant } from '../models/ContestParticipantMySQL'
+import { Problem } from '../models/ProblemMySQL'
+import { Submission, SubmissionStatus } from '../models/SubmissionMySQL'
+import { User } from '../models/UserMySQL'
+import { Clarification } from '../models/ClarificationMySQL'
+import { AppError, catchAsync } from '../middleware/errorHandler'
+import {
+  getContestScoreboard,
+  getFrozenScoreboard,
+  getViewerRanking,
+  invalidateContestScoreboard,
+  unfreezeContestRanking,
+  revealNextContestCell,
+  computeVirtualRanking,
+  addScoreboardParticipant,
+  removeScoreboardParticipant
+} from '../utils/contestRanking'
+import { finalizeContestRatings, unrateContest } from '../utils/rating'
+import { emitToRoom, emitToUser } from '../server'
+
+// 获取比赛，不存在时抛出404
+const findContest = async (contestId: string | undefined): Promise<Contest> => {
+  const contest = await Contest.findByPk(Number(contestId), {
+    include: [
+      {
+        association: 'creator',
+        attributes: ['id', 'username', 'realName']
+      }
+    ]
+  })
+  if (!contest) {
+    throw new AppError('比赛不存在', 404)
+  }
+  return contest
+}
+
+// 当前用户的报名记录
+const findEntry = async (contest: Contest, req: Request): Promise<ContestParticipant | null> => {
+  return req.user ? await ContestParticipant.findEntry(contest.id, req.user.id) : null
+}
+
+// 是否为比赛管理者
+const isManager = (contest: Contest, req: Request): boolean => {
+  return contest.isManagedBy(req.user?.id, req.user?.role)
+}
+
+// 检查比赛管理权限
+const requireManager = (contest: Contest, req: Request): void => {
+  if (!isManager(contest, req)) {
+    throw new AppError('只有比赛创建者或管理员可以执行此操作', 403)
+  }
+}
+
+// 是否可以查看比赛题目：管理者随时可见，比赛进行中仅报名者可见，结束后所有人可见
+const canViewProblems = (contest: Contest, req: Request, entry: ContestParticipant | null): boolean => {
+  if (isManager(contest, req)) return true
+  const status = contest.getStatus()
+  return status === ContestStatus.ENDED || (status === ContestStatus.RUNNING && entry !== null)
+}
+
+// 私有比赛的排行榜、提交与统计仅报名者和管理者可见
+const requireBoardAccess = (contest: Contest, req: Request, entry: ContestParticipant | null): void => {
+  if (!contest.isPublic && !entry && !isManager(contest, req)) {
+    throw new AppError('无权查看此比赛', 403)
+  }
+}
+
+// 封榜期间非管理者看不到其他选手封榜后的提交结果
+const isFrozenView = (contest: Contest, req: Request): boolean => {
+  return contest.isFrozen() && !isManager(contest, req)
+}
+
+// 是否为封榜后其他选手的提交（结果需要隐藏）
+const isHiddenSubmission = (contest: Contest, req: Request, submission: Submission): boolean => {
+  return contest.hidesResultFrom(submission, req.user?.id, req.user?.role)
+}
+
+// 报名列表
+const formatParticipants = (participants: ContestParticipant[]) => {
+  return participants.map(participant => {
+    const user = (participant as any).user as User | undefined
+    return {
+      userId: participant.userId,
+      username: user?.username || '',
+      realName: user?.realName || '',
+      registeredAt: participant.registeredAt,
+      isOfficial: participant.isOfficial,
+      isVirtual: participant.isVirtual
+    }
+  })
+}
+
+// 比赛响应数据：不返回报名密码，开赛前对非管理者隐藏题目
+const formatContest = (contest: Contest, req: Request, participants: ContestParticipant[]) => {
+  const { password, isCancelled, revealedCells, creator, participants: _, ...values } = contest.toJSON() as any
+  const status = contest.getStatus()
+  const manager = isManager(contest, req)
+
+  return {
+    ...values,
+    contestId: contest.id,
+    status,
+    hasPassword: !!password,
+    password: manager ? password : undefined,
+    problems: manager || status !== ContestStatus.UPCOMING
+      ? contest.problems
+      : contest.problems.map(problem => ({ label: problem.label })),
+    participants: formatParticipants(participants),
+    participantCount: participants.filter(participant => !participant.isVirtual).length,
+    isUpcoming: status === ContestStatus.UPCOMING,
+    isRunning: status === ContestStatus.RUNNING,
+    isEnded: status === ContestStatus.ENDED,
+    isFrozen: contest.isFrozen(),
+    createdBy: {
+      id: contest.createdBy,
+      username: creator?.username || '',
+      realName: creator?.realName || ''
+    }
+  }
+}
+
+// 整理比赛题目：支持题目ID列表或 {problemId, label, score} 列表，校验题目存在并分配题号
+const normalizeContestProblems = async (problems: any[]): Promise<IContestProblem[]> => {
+  const normalized: IContestProblem[] = problems.map((item, index) => {
+    const problem = typeof item === 'string' ? { problemId: item } : item
+    return {
+      problemId: problem.problemId,
+      label: problem.label || contestLabel(index),
+      ...(problem.score !== undefined ? { score: Number(problem.score) } : {})
+    }
+  })
+
+  const problemIds = normalized.map(problem => problem.problemId)
+  if (new Set(problemIds).size !== problemIds.length) {
+    throw new AppError('比赛题目不能重复', 400)
+  }
+  const labels = normalized.map(problem => problem.label)
+  if (new Set(labels).size !== labels.length) {
+    throw new AppError('比赛题号不能重复', 400)
+  }
+
+  const existing = await Problem.findAll({
+    where: { problemId: { [Op.in]: problemIds } },
+    attributes: ['problemId']
+  })
+  const missing = problemIds.filter(problemId => !existing.some(problem => problem.problemId === problemId))
+  if (missing.length > 0) {
+    throw new AppError(`题目不存在: ${missing.join(', ')}`, 400)
+  }
+
+  return normalized
+}
+
+// 封榜时间必须在比赛时间内
+const checkFreezeTime = (freezeTime: Date | null | undefined, startTime: Date, endTime: Date): void => {
+  if (freezeTime && (freezeTime < startTime || freezeTime >= endTime)) {
+    throw new AppError('封榜时间必须在比赛开始与结束之间', 400)
+  }
+}
+
+// 检查报名密码：设置了密码的比赛需要密码，未设置密码的私有比赛不开放报名
+const checkContestPassword = (contest: Contest, password: string | undefined): void => {
+  if (contest.password) {
+    if (password !== contest.password) {
+      throw new AppError('比赛密码错误', 403)
+    }
+  } else if (contest.type === ContestType.PRIVATE) {
+    throw new AppError('私有比赛需要密码才能报名', 403)
+  }
+}
+
+// 答疑响应数据：提问者信息仅管理者和提问者本人可见
+const formatClarification = (clarification: Clarification, showAsker: boolean) => {
+  const user = (clarification as any).user as User | undefined
+  return {
+    clarificationId: clarification.id,
+    contestId: clarification.contestId,
+    problemLabel: clarification.problemLabel || null,
+    question: clarification.question || null,
+    answer: clarification.answer || null,
+    isPublic: clarification.isPublic,
+    isBroadcast: clarification.isBroadcast(),
+    isAnswered: !!clarification.answer,
+    user: showAsker
+      ? { id: clarification.userId, username: user?.username || '', realName: user?.realName || '' }
+      : undefined,
+    answeredAt: clarification.answeredAt || null,
+    createdAt: clarification.createdAt
+  }
+}
+
+// 检查答疑关联的题号
+const checkProblemLabel = (contest: Contest, problemLabel: string | undefined): void => {
+  if (problemLabel && !contest.problems.some(problem => problem.label === problemLabel)) {
+    throw new AppError('比赛中没有该题目', 400)
+  }
+}
+
+// 比赛状态对应的时间条件
+const statusCondition = (status: string): WhereOptions => {
+  const now = new Date()
+  switch (status) {
+    case ContestStatus.UPCOMING:
+      return { isCancelled: false, startTime: { [Op.gt]: now } }
+    case ContestStatus.RUNNING:
+      return { isCancelled: false, startTime: { [Op.lte]: now }, endTime: { [Op.gt]: now } }
+    case ContestStatus.ENDED:
+      return { isCancelled: false, endTime: { [Op.lte]: now } }
+    default:
+      return { isCancelled: true }
+  }
+}
+
+// 获取比赛列表
+export const getContests = catchAsync(async (req: Request, res: Response) => {
+  const {
+    page = 1,
+    limit = 20,
+    status,
+    type,
+    search,
+    sortBy = 'startTime',
+    sortOrder = 'desc'
+  } = req.query
+
+  const conditions: WhereOptions[] = []
+
+  // 非管理员只能看到公开比赛、自己创建或已报名的比赛
+  if (req.user?.role !== 'admin') {
+    const visible: WhereOptions[] = [{ isPublic: true }]
+    if (req.user) {
+      const entries = await ContestParticipant.findAll({
+        where: { userId: req.user.id },
+        attributes: ['contestId']
+      })
+      visible.push({ createdBy: req.user.id })
+      visible.push({ id: { [Op.in]: entries.map(entry => entry.contestId) } })
+    }
+    conditions.push({ [Op.or]: visible })
+  }
+
+  if (status) {
+    conditions.push(statusCondition(status as string))
+  }
+
+  if (type) {
+    conditions.push({ type })
+  }
+
+  if (search) {
+    conditions.push({
+      [Op.or]: [
+        { title: { [Op.like]: `%${search}%` } },
+        { description: { [Op.like]: `%${search}%` } }
+      ]
+    })
+  }
+
+  const offset = (Number(page) - 1) * Number(limit)
+
+  const { rows: contests, count: total } = await Contest.findAndCountAll({
+    where: { [Op.and]: conditions },
+    order: [[sortBy as string, sortOrder === 'asc' ? 'ASC' : 'DESC']],
+    offset,
+    limit: Number(limit),
+    include: [
+      {
+        association: 'creator',
+        attributes: ['id', 'username', 'realName']
+      }
+    ]
+  })
+
+  // 批量查询报名记录
+  const participants = await ContestParticipant.findAll({
+    where: { contestId: { [Op.in]: contests.map(contest => contest.id) } },
+    include: [
+      {
+        association: 'user',
+        attributes: ['username', 'realName']
+      }
+    ],
+    order: [['registeredAt', 'ASC']]
+  })
+
+  const totalPages = Math.ceil(total / Number(limit))
+
+  res.json({
+    success: true,
+    data: {
+      contests: contests.map(contest => formatContest(
+        contest,
+        req,
+        participants.filter(participant => participant.contestId === contest.id)
+      )),
+      pagination: {
+        currentPage: Number(page),
+        totalPages,
+        totalItems: total,
+        itemsPerPage: Number(limit),
+        hasNextPage: Number(page) < totalPages,
+        hasPrevPage: Number(page) > 1
+      }
+    }
+  })
+})
+
+// 获取比赛详情
+export const getContestById = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+
+  const participants = await ContestParticipant.findAll({
+    where: { contestId: contest.id },
+    include: [
+      {
+        association: 'user',
+        attributes: ['username', 'realName']
+      }
+    ],
+    order: [['registeredAt', 'ASC']]
+  })
+
+  res.json({
+    success: true,
+    data: { contest: formatContest(contest, req, participants) }
+  })
+})
+
+// 创建比赛
+export const createContest = catchAsync(async (req: Request, res: Response) => {
+  const {
+    title,
+    description,
+    type = ContestType.PUBLIC,
+    rule,
+    startTime,
+    duration,
+    maxParticipants,
+    password,
+    isPublic,
+    allowedLanguages = [],
+    problems,
+    announcement,
+    prizes = [],
+    tags = [],
+    freezeTime,
+    isRated = false
+  } = req.body
+
+  const start = new Date(startTime)
+  const end = new Date(start.getTime() + Number(duration) * 60 * 1000)
+  const freeze = freezeTime ? new Date(freezeTime) : null
+  checkFreezeTime(freeze, start, end)
+
+  const contest = await Contest.create({
+    title,
+    description,
+    type,
+    rule,
+    startTime: start,
+    endTime: end,
+    duration: Number(duration),
+    maxParticipants: maxParticipants || null,
+    password: password || null,
+    // 私有比赛不在列表中展示
+    isPublic: type === ContestType.PRIVATE ? false : isPublic !== false,
+    allowedLanguages,
+    problems: await normalizeContestProblems(problems),
+    announcement,
+    prizes,
+    tags,
+    freezeTime: freeze,
+    isRated,
+    createdBy: req.user!.id
+  })
+
+  const created = await findContest(String(contest.id))
+
+  res.status(201).json({
+    success: true,
+    message: '比赛创建成功',
+    data: { contest: formatContest(created, req, []) }
+  })
+})
+
+// 更新比赛
+export const updateContest = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  requireManager(contest, req)
+
+  const fields = [
+    'title', 'description', 'type', 'rule', 'maxParticipants', 'password',
+    'isPublic', 'allowedLanguages', 'announcement', 'prizes', 'tags', 'isRated'
+  ] as const
+  // 已计算积分的比赛需通过取消计分接口回滚，不能直接修改
+  if (req.body.isRated !== undefined && contest.ratedAt) {
+    throw new AppError('比赛积分已计算，请使用取消计分功能', 400)
+  }
+
+  const updateData: any = {}
+  for (const field of fields) {
+    if (req.body[field] !== undefined) {
+      updateData[field] = req.body[field]
+    }
+  }
+
+  if (req.body.problems !== undefined) {
+    updateData.problems = await normalizeContestProblems(req.body.problems)
+  }
+
+  // 调整开始时间或时长时重新计算结束时间
+  if (req.body.startTime !== undefined || req.body.duration !== undefined) {
+    const start = req.body.startTime !== undefined ? new Date(req.body.startTime) : contest.startTime
+    const duration = req.body.duration !== undefined ? Number(req.body.duration) : contest.duration
+    updateData.startTime = start
+    updateData.duration = duration
+    updateData.endTime = new Date(start.getTime() + duration * 60 * 1000)
+  }
+
+  // 重新设置封榜时间后清除之前的解除封榜与揭晓进度
+  if (req.body.freezeTime !== undefined) {
+    updateData.freezeTime = req.body.freezeTime ? new Date(req.body.freezeTime) : null
+    updateData.unfrozenAt = null
+    updateData.revealedCells = []
+  }
+  checkFreezeTime(
+    updateData.freezeTime !== undefined ? updateData.freezeTime : contest.freezeTime,
+    updateData.startTime || contest.startTime,
+    updateData.endTime || contest.endTime
+  )
+
+  if ((updateData.type || contest.type) === ContestType.PRIVATE) {
+    updateData.isPublic = false
+  }
+
+  await contest.update(updateData)
+  invalidateContestScoreboard(contest.id)
+
+  const participants = await ContestParticipant.findAll({
+    where: { contestId: contest.id },
+    include: [
+      {
+        association: 'user',
+        attributes: ['username', 'realName']
+      }
+    ],
+    order: [['registeredAt', 'ASC']]
+  })
+
+  res.json({
+    success: true,
+    message: '比赛更新成功',
+    data: { contest: formatContest(contest, req, participants) }
+  })
+})
+
+// 删除比赛（已有提交的比赛只能取消，不能删除）
+export const deleteContest = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  requireManager(contest, req)
+
+  const submissionCount = await Submission.count({ where: { contestId: contest.id } })
+  if (submissionCount > 0) {
+    throw new AppError('比赛已有提交记录，无法删除，请改为取消比赛', 400)
+  }
+
+  await ContestParticipant.destroy({ where: { contestId: contest.id } })
+  await contest.destroy()
+  invalidateContestScoreboard(contest.id)
+
+  res.json({
+    success: true,
+    message: '比赛删除成功'
+  })
+})
+
+// 报名比赛
+export const joinContest = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  const userId = req.user!.id
+
+  const status = contest.getStatus()
+  if (status === ContestStatus.CANCELLED) {
+    throw new AppError('比赛已取消', 400)
+  }
+  if (status === ContestStatus.ENDED) {
+    throw new AppError('比赛已结束', 400)
+  }
+
+  if (await ContestParticipant.findEntry(contest.id, userId)) {
+    throw new AppError('已报名此比赛', 400)
+  }
+
+  const manager = isManager(contest, req)
+  if (!manager) {
+    checkContestPassword(contest, req.body.password)
+
+    if (contest.maxParticipants) {
+      const count = await ContestParticipant.count({ where: { contestId: contest.id, isVirtual: false } })
+      if (count >= contest.maxParticipants) {
+        throw new AppError('比赛报名人数已满', 400)
+      }
+    }
+  }
+
+  const participant = await ContestParticipant.create({
+    contestId: contest.id,
+    userId,
+    // 管理者报名用于测试，不计入正式排名
+    isOfficial: !manager
+  })
+  await addScoreboardParticipant(participant)
+
+  res.status(201).json({
+    success: true,
+    message: '报名成功'
+  })
+})
+
+// 开始虚拟参赛（比赛结束后按比赛时长单独计时）
+export const startVirtualContest = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  const userId = req.user!.id
+
+  if (contest.getStatus() !== ContestStatus.ENDED) {
+    throw new AppError('只能虚拟参加已结束的比赛', 400)
+  }
+  if (contest.isFrozen()) {
+    throw new AppError('封榜结果公布后才能虚拟参赛', 400)
+  }
+
+  const entry = await ContestParticipant.findEntry(contest.id, userId)
+  if (entry) {
+    throw new AppError(entry.isVirtual ? '已虚拟参加过此比赛' : '已参加过此比赛，不能虚拟参赛', 400)
+  }
+
+  if (!isManager(contest, req)) {
+    checkContestPassword(contest, req.body.password)
+  }
+
+  const participant = await ContestParticipant.create({
+    contestId: contest.id,
+    userId,
+    isOfficial: false,
+    isVirtual: true,
+    startTime: new Date()
+  })
+
+  res.status(201).json({
+    success: true,
+    message: '虚拟参赛已开始',
+    data: {
+      startTime: participant.startTime,
+      endTime: participant.getVirtualEndTime(contest.duration)
+    }
+  })
+})
+
+// 获取虚拟参赛排行榜（按已用时间回放正式选手的提交）
+export const getVirtualRanking = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+
+  const entry = await ContestParticipant.findEntry(contest.id, req.user!.id)
+  if (!entry || !entry.isVirtual) {
+    throw new AppError('未虚拟参加此比赛', 400)
+  }
+
+  const now = new Date()
+  const ranking = await computeVirtualRanking(contest, entry, now)
+
+  res.json({
+    success: true,
+    data: {
+      rule: contest.rule,
+      startTime: entry.startTime,
+      endTime: entry.getVirtualEndTime(contest.duration),
+      isRunning: entry.isVirtualRunning(contest.duration, now),
+      problems: contest.problems.map(problem => ({ problemId: problem.problemId, label: problem.label })),
+      ranking
+    }
+  })
+})
+
+// 退出比赛（仅限比赛开始前）
+export const leaveContest = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+
+  const entry = await ContestParticipant.findEntry(contest.id, req.user!.id)
+  if (!entry) {
+    throw new AppError('未报名此比赛', 400)
+  }
+
+  if (contest.getStatus() !== ContestStatus.UPCOMING) {
+    throw new AppError('比赛已开始，无法退出', 400)
+  }
+
+  await entry.destroy()
+  await removeScoreboardParticipant(contest.id, entry.userId)
+
+  res.json({
+    success: true,
+    message: '已退出比赛'
+  })
+})
+
+// 获取比赛排行榜（封榜期间非管理者看到封榜排行榜，其他选手封榜后的提交显示为待揭晓）
+export const getContestRanking = catchAsync(async (req: Request, res: Response) => {
+  const { page = 1, limit = 50 } = req.query
+  const contest = await findContest(req.params.contestId)
+  const entry = await findEntry(contest, req)
+  requireBoardAccess(contest, req, entry)
+
+  const live = await getContestScoreboard(contest)
+  const frozenView = isFrozenView(contest, req)
+  const ranking = frozenView
+    ? getViewerRanking(await getFrozenScoreboard(contest), live, entry?.userId)
+    : live.getRanking()
+
+  const offset = (Number(page) - 1) * Number(limit)
+  const totalPages = Math.ceil(ranking.length / Number(limit))
+
+  res.json({
+    success: true,
+    data: {
+      rule: contest.rule,
+      isFrozen: contest.isFrozen(),
+      freezeTime: contest.freezeTime,
+      frozenView,
+      problems: contest.problems.map(problem => ({ problemId: problem.problemId, label: problem.label })),
+      ranking: ranking.slice(offset, offset + Number(limit)),
+      pagination: {
+        currentPage: Number(page),
+        totalPages,
+        totalItems: ranking.length,
+        itemsPerPage: Number(limit),
+        hasNextPage: Number(page) < totalPages,
+        hasPrevPage: Number(page) > 1
+      }
+    }
+  })
+})
+
+// 获取比赛题目列表
+export const getContestProblems = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  const entry = await findEntry(contest, req)
+
+  if (!canViewProblems(contest, req, entry)) {
+    throw new AppError(contest.getStatus() === ContestStatus.UPCOMING ? '比赛尚未开始' : '请先报名比赛', 403)
+  }
+
+  const problemIds = contest.problems.map(problem => problem.problemId)
+  const [problems, submissions] = await Promise.all([
+    Problem.findAll({
+      where: { problemId: { [Op.in]: problemIds } },
+      attributes: ['problemId', 'title', 'timeLimit', 'memoryLimit']
+    }),
+    Submission.findAll({
+      where: { contestId: contest.id },
+      attributes: ['userId', 'problemId', 'status', 'isVirtual', 'submittedAt']
+    })
+  ])
+
+  const result = contest.problems.map(contestProblem => {
+    const problem = problems.find(item => item.problemId === contestProblem.problemId)
+    const allSubmissions = submissions.filter(submission => submission.problemId === contestProblem.problemId)
+    // 通过人数与提交数不含虚拟参赛
+    const problemSubmissions = allSubmissions.filter(submission => !submission.isVirtual)
+    const solvers = new Set(problemSubmissions
+      .filter(submission => submission.status === SubmissionStatus.ACCEPTED && !isHiddenSubmission(contest, req, submission))
+      .map(submission => submission.userId))
+
+    let userStatus: 'unattempted' | 'attempted' | 'solved' | undefined
+    if (req.user) {
+      const own = allSubmissions.filter(submission => submission.userId === req.user!.id)
+      userStatus = own.some(submission => submission.status === SubmissionStatus.ACCEPTED)
+        ? 'solved'
+        : own.length > 0 ? 'attempted' : 'unattempted'
+    }
+
+    return {
+      problemId: contestProblem.problemId,
+      label: contestProblem.label,
+      title: problem?.title || '',
+      score: contestProblem.score,
+      solved: solvers.size,
+      attempts: problemSubmissions.length,
+      timeLimit: problem?.timeLimit,
+      memoryLimit: problem?.memoryLimit,
+      userStatus
+    }
+  })
+
+  res.json({
+    success: true,
+    data: { problems: result }
+  })
+})
+
+// 获取比赛提交记录（比赛结束前非管理者只能看到自己的提交）
+export const getContestSubmissions = catchAsync(async (req: Request, res: Response) => {
+  const {
+    page = 1,
+    limit = 20,
+    problemId,
+    userId,
+    status,
+    language
+  } = req.query
+  const contest = await findContest(req.params.contestId)
+  const entry = await findEntry(contest, req)
+  requireBoardAccess(contest, req, entry)
+
+  const where: WhereOptions = { contestId: contest.id }
+
+  if (!isManager(contest, req) && contest.getStatus() !== ContestStatus.ENDED) {
+    if (!req.user) {
+      throw new AppError('请先登录', 401)
+    }
+    where.userId = req.user.id
+  } else if (userId) {
+    where.userId = Number(userId)
+  }
+
+  if (problemId) {
+    where.problemId = problemId
+  }
+
+  if (status) {
+    where.status = status
+    // 封榜期间按结果筛选时不包含其他选手封榜后的提交
+    if (isFrozenView(contest, req)) {
+      Object.assign(where, {
+        [Op.or]: [
+          { userId: req.user?.id ?? null },
+          { submittedAt: { [Op.lt]: contest.freezeTime! } }
+        ]
+      })
+    }
+  }
+
+  if (language) {
+    where.language = language
+  }
+
+  const offset = (Number(page) - 1) * Number(limit)
+
+  const { rows: submissions, count: total } = await Submission.findAndCountAll({
+    where,
+    order: [['submittedAt', 'DESC']],
+    offset,
+    limit: Number(limit),
+    include: [
+      {
+        association: 'user',
+        attributes: ['username', 'realName']
+      },
+      {
+        association: 'problem',
+        attributes: ['title']
+      }
+    ],
+    attributes: [
+      'submissionId', 'userId', 'problemId', 'contestId', 'language',
+      'status', 'score', 'timeUsed', 'memoryUsed', 'submittedAt'
+    ]
+  })
+
+  const totalPages = Math.ceil(total / Number(limit))
+
+  res.json({
+    success: true,
+    data: {
+      submissions: submissions.map(submission => ({
+        ...submission.toJSON(),
+        ...(isHiddenSubmission(contest, req, submission)
+          ? { status: SubmissionStatus.PENDING, score: 0, timeUsed: 0, memoryUsed: 0 }
+          : {}),
+        label: contest.getProblem(submission.problemId)?.label
+      })),
+      pagination: {
+        currentPage: Number(page),
+        totalPages,
+        totalItems: total,
+        itemsPerPage: Number(limit),
+        hasNextPage: Number(page) < totalPages,
+        hasPrevPage: Number(page) > 1
+      }
+    }
+  })
+})
+
+// 获取比赛统计信息
+export const getContestStatistics = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  const entry = await findEntry(contest, req)
+  requireBoardAccess(contest, req, entry)
+
+  const [participantCount, submissions] = await Promise.all([
+    ContestParticipant.count({ where: { contestId: contest.id, isVirtual: false } }),
+    Submission.findAll({
+      // 不统计虚拟参赛的提交；封榜期间非管理者只统计封榜前的提交
+      where: isFrozenView(contest, req)
+        ? { contestId: contest.id, isVirtual: false, submittedAt: { [Op.lt]: contest.freezeTime! } }
+        : { contestId: contest.id, isVirtual: false },
+      attributes: ['userId', 'problemId', 'language', 'status']
+    })
+  ])
+
+  const isAccepted = (submission: Submission) => submission.status === SubmissionStatus.ACCEPTED
+  const rate = (accepted: number, total: number) => total > 0 ? Math.round(accepted / total * 10000) / 100 : 0
+
+  const acceptedSubmissions = submissions.filter(isAccepted).length
+
+  const problemStatistics = contest.problems.map(contestProblem => {
+    const problemSubmissions = submissions.filter(submission => submission.problemId === contestProblem.problemId)
+    const accepted = problemSubmissions.filter(isAccepted)
+    return {
+      problemId: contestProblem.problemId,
+      label: contestProblem.label,
+      totalSubmissions: problemSubmissions.length,
+      acceptedSubmissions: accepted.length,
+      uniqueSolvers: new Set(accepted.map(submission => submission.userId)).size,
+      acceptanceRate: rate(accepted.length, problemSubmissions.length)
+    }
+  })
+
+  const languages = new Map<string, { _id: string; count: number; accepted: number }>()
+  for (const submission of submissions) {
+    const item = languages.get(submission.language) || { _id: submission.language, count: 0, accepted: 0 }
+    item.count++
+    if (isAccepted(submission)) item.accepted++
+    languages.set(submission.language, item)
+  }
+
+  res.json({
+    success: true,
+    data: {
+      statistics: {
+        overview: {
+          participantCount,
+          totalSubmissions: submissions.length,
+          acceptedSubmissions,
+          acceptanceRate: rate(acceptedSubmissions, submissions.length)
+        },
+        problemStatistics,
+        languageDistribution: Array.from(languages.values()).sort((a, b) => b.count - a.count)
+      }
+    }
+  })
+})
+
+// 更新比赛状态：提前开始、提前结束、取消或恢复
+export const updateContestStatus = catchAsync(async (req: Request, res: Response) => {
+  const { status } = req.body
+  const contest = await findContest(req.params.contestId)
+  requireManager(contest, req)
+
+  const now = new Date()
+  const current = contest.getStatus(now)
+
+  switch (status) {
+    case ContestStatus.RUNNING:
+      if (current !== ContestStatus.UPCOMING) {
+        throw new AppError('只有未开始的比赛可以提前开始', 400)
+      }
+      await contest.update({
+        startTime: now,
+        endTime: new Date(now.getTime() + contest.duration * 60 * 1000)
+      })
+      break
+    case ContestStatus.ENDED:
+      if (current !== ContestStatus.RUNNING) {
+        throw new AppError('只有进行中的比赛可以提前结束', 400)
+      }
+      await contest.update({ endTime: now })
+      break
+    case ContestStatus.CANCELLED:
+      await contest.update({ isCancelled: true })
+      break
+    case ContestStatus.UPCOMING:
+      if (current !== ContestStatus.CANCELLED) {
+        throw new AppError('只有已取消的比赛可以恢复', 400)
+      }
+      await contest.update({ isCancelled: false })
+      break
+  }
+  invalidateContestScoreboard(contest.id)
+
+  res.json({
+    success: true,
+    message: '比赛状态更新成功',
+    data: {
+      contestId: contest.id,
+      status: contest.getStatus()
+    }
+  })
+})
+
+// 立即封榜
+export const freezeRanking = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  requireManager(contest, req)
+
+  if (contest.getStatus() !== ContestStatus.RUNNING) {
+    throw new AppError('只能冻结进行中比赛的排行榜', 400)
+  }
+  if (contest.isFrozen()) {
+    throw new AppError('排行榜已冻结', 400)
+  }
+
+  await contest.update({ freezeTime: new Date(), unfrozenAt: null, revealedCells: [] })
+  invalidateContestScoreboard(contest.id)
+
+  res.json({
+    success: true,
+    message: '排行榜已冻结',
+    data: { freezeTime: contest.freezeTime }
+  })
+})
+
+// 一次性解除封榜
+export const unfreezeRanking = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  requireManager(contest, req)
+
+  if (!contest.isFrozen()) {
+    throw new AppError('排行榜未冻结', 400)
+  }
+
+  await unfreezeContestRanking(contest)
+
+  res.json({
+    success: true,
+    message: '排行榜已解冻'
+  })
+})
+
+// 获取揭晓前的封榜排行榜（管理者用于颁奖揭晓）
+export const getResolver = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  requireManager(contest, req)
+
+  if (!contest.isFrozen()) {
+    throw new AppError('排行榜未冻结', 400)
+  }
+
+  const frozen = await getFrozenScoreboard(contest)
+
+  res.json({
+    success: true,
+    data: {
+      rule: contest.rule,
+      freezeTime: contest.freezeTime,
+      problems: contest.problems.map(problem => ({ problemId: problem.problemId, label: problem.label })),
+      ranking: frozen.getRanking(),
+      remaining: frozen.countPendingCells(),
+      next: frozen.nextPendingCell()
+    }
+  })
+})
+
+// 揭晓下一个待揭晓单元格（按排名从后往前，全部揭晓后自动解除封榜）
+export const resolveNext = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  requireManager(contest, req)
+
+  if (contest.getStatus() !== ContestStatus.ENDED) {
+    throw new AppError('比赛结束后才能揭晓封榜结果', 400)
+  }
+  if (!contest.isFrozen()) {
+    throw new AppError('排行榜未冻结', 400)
+  }
+
+  const { step, remaining } = await revealNextContestCell(contest)
+
+  res.json({
+    success: true,
+    message: remaining === 0 ? '封榜结果已全部揭晓' : '已揭晓',
+    data: { step, remaining, unfrozen: remaining === 0 }
+  })
+})
+
+// 计算比赛积分（仅限管理员，比赛结束并解除封榜后）
+export const finalizeRating = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+
+  if (!contest.isRated) {
+    throw new AppError('该比赛不计积分', 400)
+  }
+  if (contest.ratedAt) {
+    throw new AppError('比赛积分已计算', 400)
+  }
+  if (contest.getStatus() !== ContestStatus.ENDED) {
+    throw new AppError('比赛结束后才能计算积分', 400)
+  }
+  if (contest.isFrozen()) {
+    throw new AppError('请先解除封榜再计算积分', 400)
+  }
+
+  const changes = await finalizeContestRatings(contest)
+
+  res.json({
+    success: true,
+    message: '比赛积分计算完成',
+    data: { ratedAt: contest.ratedAt, changes }
+  })
+})
+
+// 取消比赛计分（仅限管理员），已计算的积分会被撤销并重新计算之后的比赛
+export const unrateContestRating = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+
+  if (!contest.isRated) {
+    throw new AppError('该比赛不计积分', 400)
+  }
+
+  const { recomputed } = await unrateContest(contest)
+
+  res.json({
+    success: true,
+    message: '已取消比赛计分',
+    data: { recomputed }
+  })
+})
+
+// 获取比赛答疑列表：管理者看到全部，其他用户看到公开答疑与自己的提问
+export const getClarifications = catchAsync(async (req: Request, res: Response) => {
+  const contest = await findContest(req.params.contestId)
+  const entry = await findEntry(contest, req)
+  requireBoardAccess(contest, req, entry)
+
+  const manager = isManager(contest, req)
+  const where: WhereOptions = { contestId: contest.id }
+  if (!manager) {
+    // 开赛前或无权查看题目时只能看到自己的提问
+    const visible: WhereOptions[] = req.user ? [{ userId: req.user.id, question: { [Op.ne]: null } }] : []
+    if (canViewProblems(contest, req, entry)) {
+      visible.push({ isPublic: true })
+    }
+    Object.assign(where, { [Op.or]: visible })
+  }
+  if (req.query.problemLabel) {
+    Object.assign(where, { problemLabel: req.query.problemLabel })
+  }
+
+  const clarifications = await Clarification.findAll({
+    where,
+    include: [
+      {
+        association: 'user',
+        attributes: ['username', 'realName']
+      }
+    ],
+    order: [['createdAt', 'DESC']]
+  })
+
+  res.json({
+    success: true,
+    data: {
+      clarifications: clarifications.map(clarification =>
+        formatClarification(clarification, manager || clarification.userId === req.user?.id)
+      )
+    }
+  })
+})
+
+// 提交答疑问题（比赛进行中的报名者，含正在进行的虚拟参赛）
+export const askClarification = catchAsync(async (req: Request, res: Response) => {
+  const { problemLabel, question } = req.body
+  const contest = await findContest(req.params.contestId)
+
+  if (isManager(contest, req)) {
+    throw new AppError('比赛管理者请直接发布公告', 400)
+  }
+  const entry = await findEntry(contest, req)
+  const running = entry && (entry.isVirtual
+    ? entry.isVirtualRunning(contest.duration)
+    : contest.getStatus() === ContestStatus.RUNNING)
+  if (!running) {
+    throw new AppError('只有比赛进行中的参赛者可以提问', 403)
+  }
+  checkProblemLabel(contest, problemLabel)
+
+  const clarification = await Clarification.create({
+    contestId: contest.id,
+    userId: req.user!.id,
+    problemLabel: problemLabel || null,
+    question
+  })
+  await clarification.reload({
+    include: [
+      {
+        association: 'user',
+        attributes: ['username', 'realName']
+      }
+    ]
+  })
+
+  // 通知比赛创建者有新的提问
+  emitToUser(String(contest.createdBy), 'clarification:question', {
+    contestId: contest.id,
+    clarification: formatClarification(clarification, true)
+  })
+
+  res.status(201).json({
+    success: true,
+    message: '提问已提交',
+    data: { clarification: formatClarification(clarification, true) }
+  })
+})
+
+// 回复答疑（比赛创建者或管理员）：公开回复推送到比赛房间，私有回复只推送给提问者
+export const answerClarification = catchAsync(async (req: Request, res: Response) => {
+  const { answer, isPublic = false } = req.body
+  const contest = await findContest(req.params.contestId)
+  requireManager(contest, req)
+
+  const clarification = await Clarification.findOne({
+    where: { id: Number(req.params.clarificationId), contestId: contest.id },
+    include: [
+      {
+        association: 'user',
+        attributes: ['username', 'realName']
+      }
+    ]
+  })
+  if (!clarification) {
+    throw new AppError('答疑不存在', 404)
+  }
+  if (clarification.isBroadcast()) {
+    throw new AppError('比赛公告无需回复', 400)
+  }
+
+  await clarification.update({
+    answer,
+    isPublic,
+    answeredBy: req.user!.id,
+    answeredAt: new Date()
+  })
+
+  if (clarification.isPublic) {
+    emitToRoom(`contest:${contest.id}`, 'clarification:answer', {
+      contestId: contest.id,
+      clarification: formatClarification(clarification, false)
+    })
+  }
+  emitToUser(String(clarification.userId), 'clarification:answer', {
+    contestId: contest.id,
+    clarification: formatClarification(clarification, true)
+  })
+
+  res.json({
+    success: true,
+    message: '回复成功',
+    data: { clarification: formatClarification(clarification, true) }
+  })
+})
+
+// 发布比赛公告（比赛创建者或管理员），推送给比赛房间内的所有用户
+export const broadcastClarification = catchAsync(async (req: Request, res: Response) => {
+  const { problemLabel, content } = req.body
+  const contest = await findContest(req.params.contestId)
+  requireManager(contest, req)
+  checkProblemLabel(contest, problemLabel)
+
+  const clarification = await Clarification.create({
+    contestId: contest.id,
+    userId: req.user!.id,
+    problemLabel: problemLabel || null,
+    question: null,
+    answer: content,
+    isPublic: true,
+    answeredBy: req.user!.id,
+    answeredAt: new Date()
+  })
+
+  emitToRoom(`contest:${contest.id}`, 'clarification:broadcast', {
+    contestId: contest.id,
+    clarification: formatClarification(clarification, false)
+  })
+
+  res.status(201).json({
+    success: true,
+    message: '公告已发布',
+    data: { clarification: formatClarification(clarification, false) }
+  })
+})
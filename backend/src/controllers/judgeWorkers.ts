@@ -0,0 +1,183 @@
+import { Request, Response } from 'express'
+import { AppError, catchAsync } from '../middleware/errorHandler'
+import { config } from '../config'
+import { judgeQueue } from '../utils/judgeQueue'
+import { getBlobPath, hasBlob } from '../utils/testData'
+import {
+  registerWorker as addWorker,
+  getWorker,
+  touchWorker,
+  recordWorkerResult,
+  unregisterWorker as removeWorker,
+  JudgeWorkerInfo
+} from '../utils/workerRegistry'
+
+// 长轮询期间重新尝试领取的间隔（等待重试退避到期的任务）
+const POLL_RETRY_INTERVAL = 1000
+
+// 获取请求对应的判题机，未注册（或服务重启后注册已失效）时返回404，判题机据此重新注册
+const findWorker = (req: Request): JudgeWorkerInfo => {
+  const worker = getWorker(req.params.workerId || '')
+  if (!worker) {
+    throw new AppError('判题机未注册', 404)
+  }
+  touchWorker(worker, req.body || {})
+  return worker
+}
+
+// 注册判题机
+export const registerWorker = catchAsync(async (req: Request, res: Response) => {
+  const { name, hostname, version, languages, concurrency } = req.body
+
+  const worker = addWorker({
+    name,
+    hostname: hostname || name,
+    address: req.ip || '',
+    version,
+    languages,
+    concurrency
+  })
+
+  res.status(201).json({
+    success: true,
+    message: '判题机注册成功',
+    data: {
+      workerId: worker.id,
+      leaseTimeout: judgeQueue.getLeaseTimeout(),
+      pollTimeout: config.judge.worker.pollTimeout
+    }
+  })
+})
+
+// 注销判题机（正常退出时调用）
+export const unregisterWorker = catchAsync(async (req: Request, res: Response) => {
+  removeWorker(req.params.workerId || '')
+
+  res.json({
+    success: true,
+    message: '判题机已注销'
+  })
+})
+
+// 长轮询领取判题任务：有任务时立即返回，否则最多等待 pollTimeout 后返回空
+export const pollTask = catchAsync(async (req: Request, res: Response) => {
+  const worker = findWorker(req)
+  const deadline = Date.now() + config.judge.worker.pollTimeout
+
+  let disconnected = false
+  res.on('close', () => {
+    disconnected = true
+  })
+
+  while (!disconnected && Date.now() < deadline) {
+    const claimed = await judgeQueue.claimRemoteTask(worker.id, worker.languages)
+
+    if (claimed) {
+      if (disconnected) {
+        await judgeQueue.releaseRemoteTask(worker.id, claimed.task.taskId)
+        return
+      }
+
+      const { judgeConfig } = claimed
+      res.json({
+        success: true,
+        data: {
+          taskId: claimed.task.taskId,
+          submissionId: claimed.task.submissionId,
+          judgeConfig: {
+            ...judgeConfig,
+            // 判题机按哈希下载并缓存测试数据，不使用服务端的文件路径
+            testCases: judgeConfig.testCases.map((testCase: any) => ({
+              id: testCase.id,
+              inputHash: testCase.inputHash,
+              answerHash: testCase.answerHash,
+              score: testCase.score
+            }))
+          }
+        }
+      })
+      return
+    }
+
+    await judgeQueue.waitForTask(Math.min(POLL_RETRY_INTERVAL, Math.max(deadline - Date.now(), 0)))
+  }
+
+  if (!disconnected) {
+    touchWorker(worker)
+    res.json({
+      success: true,
+      data: null
+    })
+  }
+})
+
+// 判题机心跳：更新状态并续期其持有的任务
+export const workerHeartbeat = catchAsync(async (req: Request, res: Response) => {
+  const worker = findWorker(req)
+  const renewed = await judgeQueue.renewRemoteLeases(worker.id)
+
+  res.json({
+    success: true,
+    data: { renewed }
+  })
+})
+
+// 下载测试数据文件（按内容哈希）
+export const downloadTestData = catchAsync(async (req: Request, res: Response) => {
+  const { hash } = req.params
+
+  if (!hasBlob(hash!)) {
+    throw new AppError('测试数据不存在', 404)
+  }
+
+  res.sendFile(getBlobPath(hash!))
+})
+
+// 上报单个测试点结果
+export const reportProgress = catchAsync(async (req: Request, res: Response) => {
+  const worker = findWorker(req)
+  const { result, completed, total } = req.body
+  const owned = await judgeQueue.reportRemoteProgress(worker.id, req.params.taskId!, result, { completed, total })
+
+  if (!owned) {
+    throw new AppError('任务租约已失效', 409)
+  }
+
+  res.json({
+    success: true
+  })
+})
+
+// 提交判题结果
+export const completeTask = catchAsync(async (req: Request, res: Response) => {
+  const worker = findWorker(req)
+  const owned = await judgeQueue.completeRemoteTask(worker.id, req.params.taskId!, req.body.result)
+
+  if (!owned) {
+    throw new AppError('任务租约已失效', 409)
+  }
+
+  recordWorkerResult(worker, true)
+
+  res.json({
+    success: true,
+    message: '判题结果已保存'
+  })
+})
+
+// 上报判题失败
+export const failTask = catchAsync(async (req: Request, res: Response) => {
+  const worker = findWorker(req)
+  const owned = await judgeQueue.failRemoteTask(worker.id, req.params.taskId!, req.body.message)
+
+  if (!owned) {
+    throw new AppError('任务租约已失效', 409)
+  }
+
+  recordWorkerResult(worker, false)
+
+  res.json({
+    success: true,
+    message: '任务将按重试规则重新判题'
+  })
+})
@@ -0,0 +1,85 @@
+import { Request, Response } from 'express'
+import { JudgeLanguage } from '../models/JudgeLanguageMySQL'
+import { AppError, catchAsync } from '../middleware/errorHandler'
+import { cacheLanguage, listLanguages } from '../utils/languageRegistry'
+
+// 管理员可以修改的字段（languageId 创建后不能修改，以免已有提交失去对应的语言）
+const editableFields = [
+  'name', 'family', 'version', 'extension', 'compileCommand', 'runCommand', 'executable', 'detectClassName',
+  'timeMultiplier', 'memoryMultiplier', 'seccompProfile', 'processLimit', 'enabled'
+] as const
+
+const pickEditableFields = (body: Record<string, any>): Partial<JudgeLanguage> => {
+  const values: Record<string, any> = {}
+  for (const field of editableFields) {
+    if (body[field] !== undefined) {
+      values[field] = body[field]
+    }
+  }
+  return values
+}
+
+// 获取可提交的语言列表（公开）
+export const getLanguages = catchAsync(async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      languages: listLanguages().map(language => ({
+        languageId: language.languageId,
+        name: language.name,
+        family: language.family,
+        version: language.version,
+        extension: language.extension
+      }))
+    }
+  })
+})
+
+// 获取全部语言及评测配置（管理员）
+export const getAllLanguages = catchAsync(async (req: Request, res: Response) => {
+  const languages = await JudgeLanguage.findAll({ order: [['id', 'ASC']] })
+
+  res.json({
+    success: true,
+    data: { languages }
+  })
+})
+
+// 添加语言（管理员）
+export const createLanguage = catchAsync(async (req: Request, res: Response) => {
+  const { languageId } = req.body
+
+  const existing = await JudgeLanguage.findOne({ where: { languageId } })
+  if (existing) {
+    throw new AppError('语言标识已存在', 400)
+  }
+
+  const language = await JudgeLanguage.create({
+    ...pickEditableFields(req.body),
+    languageId
+  } as any)
+  cacheLanguage(language)
+
+  res.status(201).json({
+    success: true,
+    message: '语言添加成功',
+    data: { language }
+  })
+})
+
+// 修改语言（管理员），停用后不能再提交该语言，已有提交不受影响
+export const updateLanguage = catchAsync(async (req: Request, res: Response) => {
+  const language = await JudgeLanguage.findOne({ where: { languageId: req.params.languageId } })
+  if (!language) {
+    throw new AppError('语言不存在', 404)
+  }
+
+  await language.update(pickEditableFields(req.body))
+  cacheLanguage(language)
+
+  res.json({
+    success: true,
+    message: '语言更新成功',
+    data: { language }
+  })
+})
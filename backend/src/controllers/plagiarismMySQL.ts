@@ -0,0 +1,219 @@
+import { Request, Response } from 'express'
+import { WhereOptions } from 'sequelize'
+import { PlagiarismCheck, PlagiarismScope } from '../models/PlagiarismCheckMySQL'
+import { PlagiarismPair, PlagiarismPairStatus } from '../models/PlagiarismPairMySQL'
+import { Problem } from '../models/ProblemMySQL'
+import { Contest } from '../models/ContestMySQL'
+import { Assignment } from '../models/AssignmentMySQL'
+import { Submission } from '../models/SubmissionMySQL'
+import { UserRole } from '../models/UserMySQL'
+import { AppError, catchAsync } from '../middleware/errorHandler'
+import { enqueuePlagiarismCheck } from '../utils/plagiarism'
+
+// 默认相似度阈值（百分比）
+const DEFAULT_MIN_SIMILARITY = 50
+
+const userAttributes = ['id', 'username', 'realName', 'studentId', 'class']
+
+// 检查查重范围是否存在以及当前用户能否对其查重：
+// 题目对所有教师开放，比赛与作业只有创建者和管理员可以查重
+const checkScopeAccess = async (scope: PlagiarismScope, scopeId: string, req: Request): Promise<void> => {
+  if (scope === PlagiarismScope.PROBLEM) {
+    const problem = await Problem.findOne({ where: { problemId: scopeId }, attributes: ['id'] })
+    if (!problem) {
+      throw new AppError('题目不存在', 404)
+    }
+    return
+  }
+
+  const target = scope === PlagiarismScope.CONTEST
+    ? await Contest.findByPk(Number(scopeId))
+    : await Assignment.findByPk(Number(scopeId))
+  if (!target) {
+    throw new AppError(scope === PlagiarismScope.CONTEST ? '比赛不存在' : '作业不存在', 404)
+  }
+  if (!target.isManagedBy(req.user?.id, req.user?.role)) {
+    throw new AppError('无权对此范围进行查重', 403)
+  }
+}
+
+// 获取查重任务并检查权限
+const findCheck = async (checkId: string | undefined, req: Request): Promise<PlagiarismCheck> => {
+  const check = await PlagiarismCheck.findByPk(Number(checkId))
+  if (!check) {
+    throw new AppError('查重任务不存在', 404)
+  }
+  await checkScopeAccess(check.scope, check.scopeId, req)
+  return check
+}
+
+// 获取代码对并检查权限
+const findPair = async (pairId: string | undefined, req: Request): Promise<PlagiarismPair> => {
+  const pair = await PlagiarismPair.findByPk(Number(pairId), {
+    include: [
+      { association: 'check' },
+      { association: 'leftUser', attributes: userAttributes },
+      { association: 'rightUser', attributes: userAttributes },
+      { association: 'reviewer', attributes: ['id', 'username', 'realName'] }
+    ]
+  })
+  if (!pair) {
+    throw new AppError('代码对不存在', 404)
+  }
+  const check = (pair as any).check as PlagiarismCheck
+  await checkScopeAccess(check.scope, check.scopeId, req)
+  return pair
+}
+
+// 发起查重（在后台执行）
+export const createCheck = catchAsync(async (req: Request, res: Response) => {
+  const { scope, scopeId, minSimilarity = DEFAULT_MIN_SIMILARITY } = req.body
+
+  await checkScopeAccess(scope, String(scopeId), req)
+
+  const check = await PlagiarismCheck.create({
+    scope,
+    scopeId: String(scopeId),
+    minSimilarity: Number(minSimilarity),
+    createdBy: req.user!.id
+  })
+  enqueuePlagiarismCheck(check)
+
+  res.status(202).json({
+    success: true,
+    message: '查重任务已开始，完成后将通知您',
+    data: { check }
+  })
+})
+
+// 获取查重任务列表：管理员看到全部，教师看到自己发起的
+export const getChecks = catchAsync(async (req: Request, res: Response) => {
+  const { scope, scopeId, page = 1, limit = 20 } = req.query
+
+  const whereClause: WhereOptions = {}
+  if (scope) Object.assign(whereClause, { scope })
+  if (scopeId) Object.assign(whereClause, { scopeId: String(scopeId) })
+  if (req.user!.role !== UserRole.ADMIN) Object.assign(whereClause, { createdBy: req.user!.id })
+
+  const offset = (Number(page) - 1) * Number(limit)
+
+  const { rows: checks, count: total } = await PlagiarismCheck.findAndCountAll({
+    where: whereClause,
+    order: [['createdAt', 'DESC']],
+    offset,
+    limit: Number(limit),
+    include: [
+      { association: 'creator', attributes: ['id', 'username', 'realName'] }
+    ]
+  })
+
+  const totalPages = Math.ceil(total / Number(limit))
+
+  res.json({
+    success: true,
+    data: {
+      checks,
+      pagination: {
+        currentPage: Number(page),
+        totalPages,
+        totalItems: total,
+        itemsPerPage: Number(limit),
+        hasNextPage: Number(page) < totalPages,
+        hasPrevPage: Number(page) > 1
+      }
+    }
+  })
+})
+
+// 获取查重结果：按相似度从高到低排列的代码对（不含匹配片段）
+export const getCheck = catchAsync(async (req: Request, res: Response) => {
+  const check = await findCheck(req.params.checkId, req)
+  const { problemId, status, page = 1, limit = 50 } = req.query
+
+  const whereClause: WhereOptions = { checkId: check.id }
+  if (problemId) Object.assign(whereClause, { problemId })
+  if (status) Object.assign(whereClause, { status })
+
+  const offset = (Number(page) - 1) * Number(limit)
+
+  const { rows: pairs, count: total } = await PlagiarismPair.findAndCountAll({
+    where: whereClause,
+    attributes: { exclude: ['matches'] },
+    order: [['similarity', 'DESC'], ['id', 'ASC']],
+    offset,
+    limit: Number(limit),
+    include: [
+      { association: 'leftUser', attributes: userAttributes },
+      { association: 'rightUser', attributes: userAttributes }
+    ]
+  })
+
+  const totalPages = Math.ceil(total / Number(limit))
+
+  res.json({
+    success: true,
+    data: {
+      check,
+      pairs,
+      pagination: {
+        currentPage: Number(page),
+        totalPages,
+        totalItems: total,
+        itemsPerPage: Number(limit),
+        hasNextPage: Number(page) < totalPages,
+        hasPrevPage: Number(page) > 1
+      }
+    }
+  })
+})
+
+// 获取代码对详情：两份代码及相同片段的行号，用于左右对照显示
+export const getPair = catchAsync(async (req: Request, res: Response) => {
+  const pair = await findPair(req.params.pairId, req)
+
+  const submissions = await Submission.findAll({
+    where: { submissionId: [pair.leftSubmissionId, pair.rightSubmissionId] },
+    attributes: ['submissionId', 'userId', 'problemId', 'language', 'code', 'status', 'score', 'submittedAt']
+  })
+  const left = submissions.find(submission => submission.submissionId === pair.leftSubmissionId)
+  const right = submissions.find(submission => submission.submissionId === pair.rightSubmissionId)
+
+  const { check, ...values } = pair.toJSON() as any
+
+  res.json({
+    success: true,
+    data: {
+      pair: values,
+      left: left || null,
+      right: right || null
+    }
+  })
+})
+
+// 审核代码对：确认抄袭、排除嫌疑或恢复为待审核
+export const reviewPair = catchAsync(async (req: Request, res: Response) => {
+  const pair = await findPair(req.params.pairId, req)
+  const { status, note } = req.body
+
+  const pending = status === PlagiarismPairStatus.PENDING
+  await pair.update({
+    status,
+    note: note !== undefined ? note || null : pair.note,
+    reviewedBy: pending ? null : req.user!.id,
+    reviewedAt: pending ? null : new Date()
+  })
+
+  res.json({
+    success: true,
+    message: '审核结果已保存',
+    data: {
+      pair: {
+        id: pair.id,
+        status: pair.status,
+        note: pair.note,
+        reviewedBy: pair.reviewedBy,
+        reviewedAt: pair.reviewedAt
+      }
+    }
+  })
+})
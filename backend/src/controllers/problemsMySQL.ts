@@ -1,9 +1,19 @@
 import { Request, Response } from 'express'
-import { Problem, ProblemDifficulty, ProblemStatus } from '../models/ProblemMySQL'
+import { Problem, ProblemDifficulty, ProblemStatus, ProblemType } from '../models/ProblemMySQL'
 import { Submission } from '../models/SubmissionMySQL'
-import { User, UserRole } from '../models/UserSQLite'
+import { ProblemRevision } from '../models/ProblemRevisionMySQL'
+import { UserRole } from '../models/UserMySQL'
 import { AppError, catchAsync } from '../middleware/errorHandler'
 import { Op } from 'sequelize'
+import fs from 'fs'
+import path from 'path'
+import { CheckerType, ProblemChecker, DEFAULT_CHECKER, compileTestlibProgram } from '../utils/checker'
+import { prepareInteractor } from '../utils/interactor'
+import { GraderFile, validateSourceFiles } from '../utils/sourceFiles'
+import { validateSubtasks } from '../utils/subtask'
+import { normalizeTestCases, saveTestData, parseTestDataZip, buildTestDataZip, ensureTestData, readPreview, getProblemDataDir, removeTestData } from '../utils/testData'
+import { snapshotProblem, diffSnapshots, recordProblemRevision, restoreProblemRevision } from '../utils/problemRevision'
+import { PackageFormat, detectPackageFormat, readProblemPackage, saveImportedProblem, buildNativePackage, buildFpsPackage } from '../utils/problemPackage'
 
 // 获取题目列表
 export const getProblems = catchAsync(async (req: Request, res: Response) => {
@@ -94,6 +104,21 @@ export const getProblems = catchAsync(async (req: Request, res: Response) => {
   })
 })
 
+// 不能编辑题目的用户看不到交互器、自定义检查器与评测程序的源代码，只返回评测程序适用的语法类别
+const formatProblem = (problem: Problem, req: Request) => {
+  const { interactor, graderFiles, ...data } = problem.toJSON() as any
+
+  if (problem.isEditableBy(req.user?.id || 0, req.user?.role || 'student')) {
+    return { ...data, interactor, graderFiles }
+  }
+
+  return {
+    ...data,
+    checker: data.checker && { ...data.checker, source: undefined },
+    graderLanguages: Array.from(new Set((graderFiles || []).map((file: GraderFile) => file.language)))
+  }
+}
+
 // 根据ID获取题目详情
 export const getProblemById = catchAsync(async (req: Request, res: Response) => {
   const { problemId } = req.params
@@ -143,12 +168,42 @@ export const getProblemById = catchAsync(async (req: Request, res: Response) =>
   res.json({
     success: true,
     data: {
-      problem,
+      problem: formatProblem(problem, req),
       userStats
     }
   })
 })
 
+// 根据请求中的检查器配置生成题目检查器，自定义检查器保存前先编译一次，尽早暴露编译错误；
+// 未提供源代码时沿用题目当前的自定义检查器
+const buildChecker = async (config: any, current?: ProblemChecker): Promise<ProblemChecker> => {
+  const { type = CheckerType.EXACT, absoluteEpsilon, relativeEpsilon } = config
+  const checker: ProblemChecker = { type }
+
+  if (type === CheckerType.FLOAT) {
+    if (absoluteEpsilon !== undefined) checker.absoluteEpsilon = parseFloat(absoluteEpsilon)
+    if (relativeEpsilon !== undefined) checker.relativeEpsilon = parseFloat(relativeEpsilon)
+  }
+
+  if (type === CheckerType.CUSTOM) {
+    const source: string | undefined = config.source || (current?.type === CheckerType.CUSTOM ? current.source : undefined)
+    if (!source) {
+      throw new AppError('自定义检查器需要提供源代码，也可以通过 POST /api/problems/:problemId/checker 上传源文件', 400)
+    }
+
+    if (source !== current?.source) {
+      try {
+        await compileTestlibProgram('checker', source)
+      } catch (error) {
+        throw new AppError(error instanceof Error ? error.message : '检查器编译失败', 400)
+      }
+    }
+    checker.source = source
+  }
+
+  return checker
+}
+
 // 创建题目
 export const createProblem = catchAsync(async (req: Request, res: Response) => {
   const {
@@ -158,18 +213,32 @@ export const createProblem = catchAsync(async (req: Request, res: Response) => {
     outputFormat,
     constraints,
     difficulty,
+    type,
     category,
     tags,
     timeLimit,
     memoryLimit,
     testCases,
+    subtasks,
     sampleCases,
+    checker,
     source,
     sourceUrl,
     hints,
-    solution
+    solution,
+    allowedLanguages
   } = req.body
 
+  // 校验子任务定义
+  if (subtasks && subtasks.length > 0) {
+    const subtaskError = validateSubtasks(subtasks, (testCases || []).length)
+    if (subtaskError) {
+      throw new AppError(subtaskError, 400)
+    }
+  }
+
+  const problemChecker = checker ? await buildChecker(checker) : DEFAULT_CHECKER
+
   // 生成题目ID
   const problemId = await Problem.getNextProblemId()
 
@@ -183,12 +252,15 @@ export const createProblem = catchAsync(async (req: Request, res: Response) => {
     constraints,
     difficulty,
     status: ProblemStatus.DRAFT,
+    type: type || ProblemType.STANDARD,
     category,
     tags: tags || [],
     timeLimit,
     memoryLimit,
-    testCases: testCases || [],
+    testCases: normalizeTestCases(problemId, testCases || []),
+    subtasks: subtasks || [],
     sampleCases: sampleCases || [],
+    checker: problemChecker,
     stats: {
       totalSubmissions: 0,
       acceptedSubmissions: 0,
@@ -200,8 +272,10 @@ export const createProblem = catchAsync(async (req: Request, res: Response) => {
     source,
     sourceUrl,
     hints: hints || [],
-    solution
+    solution,
+    allowedLanguages: allowedLanguages || []
   })
+  await recordProblemRevision(problem, req.user!.id)
 
   res.status(201).json({
     success: true,
@@ -213,7 +287,8 @@ export const createProblem = catchAsync(async (req: Request, res: Response) => {
 // 更新题目
 export const updateProblem = catchAsync(async (req: Request, res: Response) => {
   const { problemId } = req.params
-  const updateData = req.body
+  // 版本号由版本记录维护，不能直接修改
+  const { changeSummary, revision, ...updateData } = req.body
 
   const problem = await Problem.findOne({ where: { problemId } })
 
@@ -233,8 +308,31 @@ export const updateProblem = catchAsync(async (req: Request, res: Response) => {
     throw new AppError('无权修改此题目', 403)
   }
 
-  // 更新题目
+  // 子任务或测试用例变化时，重新校验子任务定义
+  if (updateData.subtasks || updateData.testCases) {
+    const subtasks = updateData.subtasks || problem.subtasks
+    const testCases = updateData.testCases || problem.testCases
+    if (subtasks.length > 0) {
+      const subtaskError = validateSubtasks(subtasks, testCases.length)
+      if (subtaskError) {
+        throw new AppError(subtaskError, 400)
+      }
+    }
+  }
+
+  if (updateData.checker) {
+    updateData.checker = await buildChecker(updateData.checker, problem.checker)
+  }
+
+  // 内联提交的测试数据写入磁盘
+  if (updateData.testCases) {
+    updateData.testCases = normalizeTestCases(problem.problemId, updateData.testCases)
+  }
+
+  // 更新题目并记录版本
+  const before = snapshotProblem(problem)
   await problem.update(updateData)
+  await recordProblemRevision(problem, req.user!.id, { before, summary: changeSummary })
 
   res.json({
     success: true,
@@ -260,6 +358,7 @@ export const deleteProblem = catchAsync(async (req: Request, res: Response) => {
   }
 
   await problem.destroy()
+  removeTestData(problem.problemId)
 
   res.json({
     success: true,
@@ -413,7 +512,7 @@ export const searchProblems = catchAsync(async (req: Request, res: Response): Pr
   res.json({
     success: true,
     data: { 
-      problems: problems.rows,
+      problems: problems.rows.map(problem => formatProblem(problem, req)),
       total: problems.count
     }
   })
@@ -502,12 +601,17 @@ export const cloneProblem = catchAsync(async (req: Request, res: Response) => {
     constraints: originalProblem.constraints,
     difficulty: originalProblem.difficulty,
     status: ProblemStatus.DRAFT,
+    type: originalProblem.type,
     category: originalProblem.category,
     tags: originalProblem.tags,
     timeLimit: originalProblem.timeLimit,
     memoryLimit: originalProblem.memoryLimit,
     testCases: originalProblem.testCases,
+    subtasks: originalProblem.subtasks,
     sampleCases: originalProblem.sampleCases,
+    checker: originalProblem.checker,
+    interactor: originalProblem.interactor,
+    graderFiles: originalProblem.graderFiles,
     stats: {
       totalSubmissions: 0,
       acceptedSubmissions: 0,
@@ -519,12 +623,453 @@ export const cloneProblem = catchAsync(async (req: Request, res: Response) => {
     source: originalProblem.source,
     sourceUrl: originalProblem.sourceUrl,
     hints: originalProblem.hints,
-    solution: originalProblem.solution
+    solution: originalProblem.solution,
+    allowedLanguages: originalProblem.allowedLanguages
   })
+  await recordProblemRevision(clonedProblem, req.user!.id, { summary: `克隆自 ${originalProblem.problemId}` })
 
   res.status(201).json({
     success: true,
     message: '题目克隆成功',
     data: { problem: clonedProblem }
   })
-})
\ No newline at end of file
+})
+
+// 设置题目检查器（自定义检查器可上传C++源文件）
+export const updateProblemChecker = catchAsync(async (req: Request, res: Response) => {
+  const { problemId } = req.params
+  const { type, absoluteEpsilon, relativeEpsilon } = req.body
+
+  // 上传的源文件只需读取内容，不保留在上传目录
+  let source: string | undefined = req.body.source
+  if (req.file) {
+    source = fs.readFileSync(req.file.path, 'utf8')
+    fs.unlinkSync(req.file.path)
+  }
+
+  const problem = await Problem.findOne({ where: { problemId } })
+
+  if (!problem) {
+    throw new AppError('题目不存在', 404)
+  }
+
+  // 检查权限
+  const canEdit = req.user && (
+    problem.authorId === req.user.id ||
+    problem.maintainerIds.includes(req.user.id) ||
+    req.user.role === UserRole.ADMIN ||
+    req.user.role === UserRole.TEACHER
+  )
+
+  if (!canEdit) {
+    throw new AppError('无权修改此题目', 403)
+  }
+
+  const checker = await buildChecker({ type, absoluteEpsilon, relativeEpsilon, source })
+
+  const before = snapshotProblem(problem)
+  problem.checker = checker
+  await problem.save()
+  await recordProblemRevision(problem, req.user!.id, { before })
+
+  res.json({
+    success: true,
+    message: '检查器设置成功',
+    data: { checker: { ...checker, source: undefined, hasSource: !!checker.source } }
+  })
+})
+
+// 上传交互器，并将题目设置为交互题
+export const updateProblemInteractor = catchAsync(async (req: Request, res: Response) => {
+  const { problemId } = req.params
+
+  let source: string | undefined = req.body.source
+  if (req.file) {
+    source = fs.readFileSync(req.file.path, 'utf8')
+    fs.unlinkSync(req.file.path)
+  }
+
+  if (!source) {
+    throw new AppError('请提供交互器源代码', 400)
+  }
+
+  const problem = await Problem.findOne({ where: { problemId } })
+
+  if (!problem) {
+    throw new AppError('题目不存在', 404)
+  }
+
+  // 检查权限
+  const canEdit = req.user && (
+    problem.authorId === req.user.id ||
+    problem.maintainerIds.includes(req.user.id) ||
+    req.user.role === UserRole.ADMIN ||
+    req.user.role === UserRole.TEACHER
+  )
+
+  if (!canEdit) {
+    throw new AppError('无权修改此题目', 403)
+  }
+
+  // 保存前先编译一次，尽早暴露编译错误
+  try {
+    await prepareInteractor(source)
+  } catch (error) {
+    throw new AppError(error instanceof Error ? error.message : '交互器编译失败', 400)
+  }
+
+  const before = snapshotProblem(problem)
+  problem.type = ProblemType.INTERACTIVE
+  problem.interactor = source
+  await problem.save()
+  await recordProblemRevision(problem, req.user!.id, { before })
+
+  res.json({
+    success: true,
+    message: '交互器设置成功',
+    data: { type: problem.type }
+  })
+})
+
+// 设置评测程序文件（函数式题目），为空时恢复为普通题目
+export const updateProblemGrader = catchAsync(async (req: Request, res: Response) => {
+  const { problemId } = req.params
+  const files: GraderFile[] = (req.body.files || []).map((file: GraderFile) => ({
+    language: file.language,
+    name: file.name,
+    content: file.content
+  }))
+
+  const problem = await Problem.findOne({ where: { problemId } })
+
+  if (!problem) {
+    throw new AppError('题目不存在', 404)
+  }
+
+  // 检查权限
+  const canEdit = req.user && (
+    problem.authorId === req.user.id ||
+    problem.maintainerIds.includes(req.user.id) ||
+    req.user.role === UserRole.ADMIN ||
+    req.user.role === UserRole.TEACHER
+  )
+
+  if (!canEdit) {
+    throw new AppError('无权修改此题目', 403)
+  }
+
+  // 同一语法类别内文件名不能重复
+  const families = Array.from(new Set(files.map(file => file.language)))
+  for (const family of families) {
+    const error = validateSourceFiles(files.filter(file => file.language === family))
+    if (error) {
+      throw new AppError(`${family}: ${error}`, 400)
+    }
+  }
+
+  const before = snapshotProblem(problem)
+  problem.graderFiles = files
+  await problem.save()
+  await recordProblemRevision(problem, req.user!.id, { before })
+
+  res.json({
+    success: true,
+    message: files.length > 0 ? '评测程序设置成功' : '评测程序已清除',
+    data: { languages: families }
+  })
+})
+
+// 查找题目并检查编辑权限
+const findEditableProblem = async (req: Request): Promise<Problem> => {
+  const problem = await Problem.findOne({ where: { problemId: req.params.problemId } })
+
+  if (!problem) {
+    throw new AppError('题目不存在', 404)
+  }
+
+  const canEdit = req.user && (
+    problem.authorId === req.user.id ||
+    problem.maintainerIds.includes(req.user.id) ||
+    req.user.role === UserRole.ADMIN ||
+    req.user.role === UserRole.TEACHER
+  )
+
+  if (!canEdit) {
+    throw new AppError('无权管理此题目的测试数据', 403)
+  }
+
+  return problem
+}
+
+// 上传测试数据压缩包（替换题目全部测试数据）
+export const uploadTestData = catchAsync(async (req: Request, res: Response) => {
+  const files = (req.files as Express.Multer.File[]) || []
+
+  try {
+    const problem = await findEditableProblem(req)
+
+    const zipFile = files.find(file => path.extname(file.originalname).toLowerCase() === '.zip')
+    if (!zipFile) {
+      throw new AppError('请上传包含 .in 与 .out/.ans 文件的zip压缩包', 400)
+    }
+
+    let cases
+    try {
+      cases = await parseTestDataZip(zipFile.path)
+    } catch (error) {
+      throw new AppError(error instanceof Error ? error.message : '测试数据压缩包无效', 400)
+    }
+
+    // 子任务引用的测试点必须仍然存在
+    if (problem.subtasks.length > 0) {
+      const subtaskError = validateSubtasks(problem.subtasks, cases.length)
+      if (subtaskError) {
+        throw new AppError(`测试数据与子任务不匹配: ${subtaskError}`, 400)
+      }
+    }
+
+    // 同一位置的测试点沿用原有的分数与可见性设置
+    const before = snapshotProblem(problem)
+    problem.testCases = saveTestData(problem.problemId, cases.map((testCase, index) => ({
+      ...testCase,
+      score: problem.testCases[index]?.score,
+      isHidden: problem.testCases[index]?.isHidden
+    })))
+    await problem.save()
+    await recordProblemRevision(problem, req.user!.id, { before, summary: `上传测试数据 ${zipFile.originalname}` })
+
+    res.json({
+      success: true,
+      message: `已导入 ${cases.length} 组测试数据`,
+      data: { testCases: problem.testCases }
+    })
+  } finally {
+    // 数据已写入测试数据目录，删除上传的临时文件
+    for (const file of files) {
+      fs.rmSync(file.path, { force: true })
+    }
+  }
+})
+
+// 获取测试数据列表（含截断预览）
+export const getTestData = catchAsync(async (req: Request, res: Response) => {
+  const problem = await findEditableProblem(req)
+  const testCases = await ensureTestData(problem)
+  const dataDir = getProblemDataDir(problem.problemId)
+
+  res.json({
+    success: true,
+    data: {
+      testCases: testCases.map((testCase, index) => ({
+        id: index + 1,
+        score: testCase.score,
+        isHidden: testCase.isHidden,
+        inputSize: testCase.inputSize,
+        answerSize: testCase.answerSize,
+        inputHash: testCase.inputHash,
+        answerHash: testCase.answerHash,
+        inputPreview: readPreview(path.join(dataDir, `${index + 1}.in`)),
+        answerPreview: readPreview(path.join(dataDir, `${index + 1}.ans`))
+      }))
+    }
+  })
+})
+
+// 下载测试数据压缩包
+export const downloadTestData = catchAsync(async (req: Request, res: Response) => {
+  const problem = await findEditableProblem(req)
+  const testCases = await ensureTestData(problem)
+
+  res.setHeader('Content-Type', 'application/zip')
+  res.setHeader('Content-Disposition', `attachment; filename="${problem.problemId}-testdata.zip"`)
+  res.send(buildTestDataZip(testCases))
+})
+
+// 下载单个测试数据文件
+export const downloadTestDataFile = catchAsync(async (req: Request, res: Response) => {
+  const { fileName } = req.params
+  const problem = await findEditableProblem(req)
+  const testCases = await ensureTestData(problem)
+
+  const match = /^(\d+)\.(in|ans)$/.exec(fileName || '')
+  if (!match || parseInt(match[1]!, 10) < 1 || parseInt(match[1]!, 10) > testCases.length) {
+    throw new AppError('测试数据文件不存在', 404)
+  }
+
+  res.download(path.join(getProblemDataDir(problem.problemId), fileName!))
+})
+
+// 导入题目包（Polygon完整包、FPS XML或本系统zip），导入的题目保存为草稿
+export const importProblems = catchAsync(async (req: Request, res: Response) => {
+  const files = (req.files as Express.Multer.File[]) || []
+
+  try {
+    if (files.length === 0) {
+      throw new AppError('请上传题目包', 400)
+    }
+
+    const imported = []
+    for (const file of files) {
+      const buffer = fs.readFileSync(file.path)
+      let problems
+      try {
+        const format = (req.body.format as PackageFormat) || detectPackageFormat(file.originalname, buffer)
+        problems = readProblemPackage(format, buffer)
+      } catch (error) {
+        throw new AppError(`${file.originalname}: ${error instanceof Error ? error.message : '题目包无效'}`, 400)
+      }
+
+      // 依次保存，保证题目ID连续分配
+      for (const problem of problems) {
+        const created = await saveImportedProblem(problem, req.user!.id)
+        await recordProblemRevision(created, req.user!.id, { summary: `从 ${file.originalname} 导入` })
+        imported.push({
+          problemId: created.problemId,
+          title: created.title,
+          testCaseCount: created.testCases.length,
+          file: file.originalname,
+          warnings: problem.warnings
+        })
+      }
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `已导入 ${imported.length} 道题目`,
+      data: { problems: imported }
+    })
+  } finally {
+    for (const file of files) {
+      fs.rmSync(file.path, { force: true })
+    }
+  }
+})
+
+// 发送导出的题目包
+const sendProblemPackage = async (res: Response, problems: Problem[], format: PackageFormat, name: string): Promise<void> => {
+  const filename = encodeURIComponent(name)
+  if (format === PackageFormat.FPS) {
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${filename}.xml`)
+    res.send(await buildFpsPackage(problems))
+  } else {
+    res.setHeader('Content-Type', 'application/zip')
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${filename}.zip`)
+    res.send(await buildNativePackage(problems))
+  }
+}
+
+// 导出单道题目
+export const exportProblem = catchAsync(async (req: Request, res: Response) => {
+  const problem = await findEditableProblem(req)
+  const format = (req.query.format as PackageFormat) || PackageFormat.NATIVE
+
+  await sendProblemPackage(res, [problem], format, problem.problemId)
+})
+
+// 批量导出题目：按题目ID列表、标签或分类
+export const exportProblems = catchAsync(async (req: Request, res: Response) => {
+  const { problemIds, tag, category } = req.query
+  const format = (req.query.format as PackageFormat) || PackageFormat.NATIVE
+
+  const whereClause: any = {}
+  let name: string
+  if (problemIds) {
+    whereClause.problemId = { [Op.in]: String(problemIds).split(',').map(id => id.trim()).filter(Boolean) }
+    name = 'problems'
+  } else if (tag) {
+    whereClause.tags = { [Op.like]: `%"${tag}"%` }
+    name = `tag-${tag}`
+  } else if (category) {
+    whereClause.category = category
+    name = `category-${category}`
+  } else {
+    throw new AppError('请指定要导出的题目ID、标签或分类', 400)
+  }
+
+  const problems = await Problem.findAll({ where: whereClause, order: [['problemId', 'ASC']] })
+  if (problems.length === 0) {
+    throw new AppError('没有符合条件的题目', 404)
+  }
+
+  await sendProblemPackage(res, problems, format, name)
+})
+
+// 查找题目的指定版本
+const findProblemRevision = async (problemId: string, revision: number): Promise<ProblemRevision> => {
+  const found = await ProblemRevision.findOne({
+    where: { problemId, revision },
+    include: [
+      {
+        association: 'author',
+        attributes: ['id', 'username', 'realName']
+      }
+    ]
+  })
+  if (!found) {
+    throw new AppError('版本不存在', 404)
+  }
+  return found
+}
+
+// 获取题目的版本列表
+export const getProblemRevisions = catchAsync(async (req: Request, res: Response) => {
+  const problem = await findEditableProblem(req)
+
+  const revisions = await ProblemRevision.findAll({
+    where: { problemId: problem.problemId },
+    attributes: { exclude: ['snapshot'] },
+    order: [['revision', 'DESC']],
+    include: [
+      {
+        association: 'author',
+        attributes: ['id', 'username', 'realName']
+      }
+    ]
+  })
+
+  res.json({
+    success: true,
+    data: {
+      currentRevision: problem.revision,
+      revisions
+    }
+  })
+})
+
+// 获取版本详情及与另一版本的字段差异（默认与上一版本比较）
+export const getProblemRevision = catchAsync(async (req: Request, res: Response) => {
+  const problem = await findEditableProblem(req)
+  const revision = await findProblemRevision(problem.problemId, Number(req.params.revision))
+
+  const compareTo = req.query.compare !== undefined ? Number(req.query.compare) : revision.revision - 1
+  const base = compareTo >= 0 ? await findProblemRevision(problem.problemId, compareTo) : null
+
+  res.json({
+    success: true,
+    data: {
+      revision,
+      compareTo: base ? base.revision : null,
+      diff: diffSnapshots(base ? base.snapshot : null, revision.snapshot)
+    }
+  })
+})
+
+// 将题目恢复到指定版本
+export const restoreProblem = catchAsync(async (req: Request, res: Response) => {
+  const problem = await findEditableProblem(req)
+  const target = await findProblemRevision(problem.problemId, Number(req.params.revision))
+
+  let revision
+  try {
+    revision = await restoreProblemRevision(problem, target, req.user!.id)
+  } catch (error) {
+    throw new AppError(error instanceof Error ? error.message : '恢复版本失败', 400)
+  }
+
+  res.json({
+    success: true,
+    message: revision ? `已恢复到版本 ${target.revision}` : '题目内容与该版本相同，无需恢复',
+    data: { problem, revision }
+  })
+})
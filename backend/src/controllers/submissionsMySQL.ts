@@ -1,12 +1,69 @@
-import { Request, Response } from 'express'
-import { Submission, SubmissionStatus, Language } from '../models/SubmissionMySQL'
-import { Problem, ProblemStatus } from '../models/ProblemMySQL'
+import { Request, Response, NextFunction } from 'express'
+import fs from 'fs'
+import path from 'path'
+import { Submission, SubmissionStatus } from '../models/SubmissionMySQL'
+import { Problem, ProblemStatus, ProblemType } from '../models/ProblemMySQL'
+import { User } from '../models/UserMySQL'
+import { Contest, ContestStatus } from '../models/ContestMySQL'
+import { ContestParticipant } from '../models/ContestParticipantMySQL'
 import { AppError, catchAsync } from '../middleware/errorHandler'
 import { Op, WhereOptions } from 'sequelize'
+import { judgeQueue, addJudgeTask, addRejudgeTask, addRunTask, toSubmissionStatus, JudgePriority } from '../utils/judgeQueue'
+import { RunConfig, RunResult } from '../utils/judge'
+import { getLanguageConfig, getLanguageFamily } from '../utils/languageRegistry'
+import { SourceFile, readSourceZip, splitMainFile, validateSourceFiles } from '../utils/sourceFiles'
+import { deleteFile } from '../utils/upload'
+import { config } from '../config'
+
+// 检查多文件提交的文件，以及函数式题目是否提供了该语言的评测程序
+const checkSourceFiles = (problem: Problem | null, language: string, code: string, files: SourceFile[]): void => {
+  const error = validateSourceFiles(files, code)
+  if (error) {
+    throw new AppError(error, 400)
+  }
+  if (problem?.hasGrader() && problem.getGraderFiles(getLanguageFamily(language)).length === 0) {
+    throw new AppError('此题目没有提供该语言的评测程序', 400)
+  }
+}
+
+// 读取上传的源文件（多个文件或一个zip），拆分出主文件后按普通提交处理，上传的文件读取后删除
+export const readUploadedSubmission = catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+  const uploaded = (req.files as Express.Multer.File[] | undefined) || []
+  try {
+    if (uploaded.length === 0) {
+      throw new AppError('请上传源文件', 400)
+    }
+
+    const languageConfig = getLanguageConfig(req.body.language)
+    if (!languageConfig) {
+      throw new AppError('编程语言不支持', 400)
+    }
+
+    let files: SourceFile[]
+    try {
+      files = uploaded.length === 1 && path.extname(uploaded[0].originalname).toLowerCase() === '.zip'
+        ? readSourceZip(fs.readFileSync(uploaded[0].path))
+        : uploaded.map(file => ({ name: path.basename(file.originalname), content: fs.readFileSync(file.path, 'utf8') }))
+    } catch (error) {
+      throw new AppError(`读取源文件失败: ${error instanceof Error ? error.message : error}`, 400)
+    }
+
+    try {
+      const { code, files: otherFiles } = splitMainFile(files, languageConfig)
+      req.body.code = code
+      req.body.files = otherFiles
+    } catch (error) {
+      throw new AppError(error instanceof Error ? error.message : '无法确定主文件', 400)
+    }
+  } finally {
+    await Promise.all(uploaded.map(file => deleteFile(file.path)))
+  }
+  next()
+})
 
 // 创建提交
 export const createSubmission = catchAsync(async (req: Request, res: Response) => {
-  const { problemId, language, code, contestId, isPublic = true } = req.body
+  const { problemId, language, code, files = [], contestId, isPublic = true } = req.body
   const userId = req.user!.id
 
   // 检查题目是否存在且可访问
@@ -15,19 +72,47 @@ export const createSubmission = catchAsync(async (req: Request, res: Response) =
     throw new AppError('题目不存在', 404)
   }
 
-  if (!problem.isVisibleTo(userId, req.user?.role || 'guest')) {
-    throw new AppError('无权访问此题目', 403)
+  if (!problem.allowsLanguage(language)) {
+    throw new AppError('此题目不允许使用该编程语言', 400)
   }
+  checkSourceFiles(problem, language, code, files)
 
-  // TODO: 如果是比赛提交，检查比赛状态
-  // let contest = null
-  // if (contestId) {
-  //   contest = await Contest.findOne({ where: { contestId } })
-  //   if (!contest) {
-  //     throw new AppError('比赛不存在', 404)
-  //   }
-  //   // 其他比赛相关检查...
-  // }
+  let contest: Contest | null = null
+  let isVirtual = false
+  if (contestId) {
+    // 比赛提交：检查题目属于比赛、语言允许，且在比赛时间内已报名
+    contest = await Contest.findByPk(contestId)
+    if (!contest) {
+      throw new AppError('比赛不存在', 404)
+    }
+
+    if (!contest.getProblem(problemId)) {
+      throw new AppError('题目不属于此比赛', 400)
+    }
+
+    if (!contest.allowsLanguage(language)) {
+      throw new AppError('此比赛不允许使用该编程语言', 400)
+    }
+
+    if (!contest.isManagedBy(userId, req.user?.role)) {
+      const status = contest.getStatus()
+      if (status === ContestStatus.UPCOMING) {
+        throw new AppError('比赛尚未开始', 403)
+      }
+
+      const entry = await ContestParticipant.findEntry(contest.id, userId)
+      if (status === ContestStatus.ENDED && entry?.isVirtualRunning(contest.duration)) {
+        // 虚拟参赛时间内的提交
+        isVirtual = true
+      } else if (status !== ContestStatus.RUNNING) {
+        throw new AppError('比赛已结束，无法提交', 403)
+      } else if (!entry || entry.isVirtual) {
+        throw new AppError('请先报名比赛', 403)
+      }
+    }
+  } else if (!problem.isVisibleTo(userId, req.user?.role || 'guest')) {
+    throw new AppError('无权访问此题目', 403)
+  }
 
   // 生成提交ID
   const submissionId = await Submission.generateSubmissionId()
@@ -38,27 +123,32 @@ export const createSubmission = catchAsync(async (req: Request, res: Response) =
     userId,
     problemId,
     contestId,
+    isVirtual,
     language,
     code,
+    files: files.length > 0 ? files : null,
     status: SubmissionStatus.PENDING,
-    isPublic,
+    // 比赛提交的代码不公开
+    isPublic: contestId ? false : isPublic,
     ip: req.ip || '127.0.0.1',
     userAgent: req.get('User-Agent')
   })
 
   // 更新题目提交统计
-  const problemToUpdate = await Problem.findByPk(problemId)
-  if (problemToUpdate) {
-    const stats = problemToUpdate.stats
-    stats.totalSubmissions += 1
-    await problemToUpdate.update({ stats })
-  }
+  const stats = { ...problem.stats }
+  stats.totalSubmissions += 1
+  await problem.update({ stats })
 
-  // TODO: 更新用户提交统计
-  // await User.increment('totalSubmissions', { where: { id: userId } })
+  // 更新用户提交统计
+  await User.increment('totalSubmissions', { where: { id: userId } })
+
+  // 封榜期间的提交立即以待揭晓状态出现在封榜排行榜上
+  if (contest?.isFrozen()) {
+    await judgeQueue.refreshContestRanking(submission)
+  }
 
-  // TODO: 将提交加入判题队列
-  // await judgeQueue.add('judge', { submissionId })
+  // 加入判题队列，判题进度通过 submission:progress 事件推送
+  await addJudgeTask(submission.submissionId, userId, problemId, contestId ? JudgePriority.CONTEST : JudgePriority.NORMAL)
 
   res.status(201).json({
     success: true,
@@ -73,6 +163,112 @@ export const createSubmission = catchAsync(async (req: Request, res: Response) =
   })
 })
 
+// 自定义输入运行：编译运行代码并直接返回输出，不创建提交，也不计入题目与用户统计。
+// 指定题目时使用题目的时间、内存限制，useSamples 为真时依次运行题目样例并与样例输出比较
+export const runSubmission = catchAsync(async (req: Request, res: Response) => {
+  const { problemId, contestId, language, code, files = [], input = '', useSamples = false } = req.body
+  const userId = req.user!.id
+
+  let problem: Problem | null = null
+  if (problemId) {
+    problem = await Problem.findOne({ where: { problemId } })
+    if (!problem) {
+      throw new AppError('题目不存在', 404)
+    }
+    if (!problem.allowsLanguage(language)) {
+      throw new AppError('此题目不允许使用该编程语言', 400)
+    }
+
+    if (contestId) {
+      // 比赛中的题目：比赛进行中须已报名，虚拟参赛时间内可运行，比赛结束后公开比赛所有人可运行、私有比赛仅报名者可运行
+      const contest = await Contest.findByPk(contestId)
+      if (!contest) {
+        throw new AppError('比赛不存在', 404)
+      }
+      if (!contest.getProblem(problemId)) {
+        throw new AppError('题目不属于此比赛', 400)
+      }
+      if (!contest.allowsLanguage(language)) {
+        throw new AppError('此比赛不允许使用该编程语言', 400)
+      }
+      if (!contest.isManagedBy(userId, req.user?.role)) {
+        const status = contest.getStatus()
+        if (status === ContestStatus.UPCOMING) {
+          throw new AppError('比赛尚未开始', 403)
+        }
+
+        const entry = await ContestParticipant.findEntry(contest.id, userId)
+        if (status === ContestStatus.RUNNING) {
+          if (!entry || entry.isVirtual) {
+            throw new AppError('请先报名比赛', 403)
+          }
+        } else if (!contest.isPublic && !entry) {
+          throw new AppError('无权访问此比赛', 403)
+        }
+      }
+    } else if (!problem.isVisibleTo(userId, req.user?.role || 'guest')) {
+      throw new AppError('无权访问此题目', 403)
+    }
+  }
+
+  checkSourceFiles(problem, language, code, files)
+
+  let inputs: RunConfig['inputs'] = [{ input }]
+  if (useSamples) {
+    if (!problem) {
+      throw new AppError('运行样例时必须指定题目', 400)
+    }
+    if (problem.type === ProblemType.INTERACTIVE) {
+      throw new AppError('交互题不支持运行样例，请使用自定义输入', 400)
+    }
+    if (problem.sampleCases.length === 0) {
+      throw new AppError('该题目没有样例', 400)
+    }
+    inputs = problem.sampleCases.map(sample => ({ input: sample.input || '', expectedOutput: sample.output || '' }))
+  }
+
+  let result: RunResult
+  try {
+    result = await addRunTask({
+      runId: `run-${userId}`,
+      timeLimit: problem?.timeLimit || config.judge.timeLimit,
+      memoryLimit: problem?.memoryLimit || config.judge.memoryLimit,
+      language,
+      languageConfig: getLanguageConfig(language)!,
+      code,
+      files,
+      graderFiles: problem?.getGraderFiles(getLanguageFamily(language)),
+      inputs,
+      checker: problem?.checker
+    })
+  } catch (error) {
+    throw new AppError(error instanceof Error ? error.message : '运行失败', 503)
+  }
+
+  res.json({
+    success: true,
+    data: {
+      result: {
+        status: toSubmissionStatus(result.status),
+        timeUsed: result.timeUsed,
+        memoryUsed: result.memoryUsed,
+        compileOutput: result.compileOutput || '',
+        errorMessage: result.errorMessage || '',
+        cases: result.testCases.map(testCase => ({
+          status: toSubmissionStatus(testCase.status),
+          timeUsed: testCase.timeUsed,
+          memoryUsed: testCase.memoryUsed,
+          input: testCase.input,
+          expectedOutput: useSamples ? testCase.expectedOutput : undefined,
+          stdout: testCase.actualOutput,
+          stderr: testCase.stderr || '',
+          errorMessage: testCase.errorMessage || ''
+        }))
+      }
+    }
+  })
+})
+
 // 获取提交列表
 export const getSubmissions = catchAsync(async (req: Request, res: Response) => {
   const {
@@ -217,6 +413,7 @@ export const getSubmissionById = catchAsync(async (req: Request, res: Response)
     req.user.role === 'student'
   )) {
     delete (submissionData as any).code
+    delete (submissionData as any).files
   }
 
   res.json({
@@ -261,6 +458,7 @@ export const getSubmissionCode = catchAsync(async (req: Request, res: Response)
       submissionId: submission.submissionId,
       language: submission.language,
       code: submission.code,
+      files: submission.files || [],
       submittedAt: submission.submittedAt
     }
   })
@@ -276,21 +474,8 @@ export const rejudgeSubmission = catchAsync(async (req: Request, res: Response)
     throw new AppError('提交记录不存在', 404)
   }
 
-  // 重置提交状态
-  await submission.update({
-    status: SubmissionStatus.PENDING,
-    result: {
-      status: SubmissionStatus.PENDING,
-      score: 0,
-      timeUsed: 0,
-      memoryUsed: 0,
-      testCases: []
-    },
-    judgedAt: undefined
-  })
-
-  // TODO: 将提交重新加入判题队列
-  // await judgeQueue.add('judge', { submissionId })
+  // 重置提交状态并重新加入判题队列
+  await addRejudgeTask(submission)
 
   res.json({
     success: true,
@@ -318,11 +503,11 @@ export const getUserSubmissions = catchAsync(async (req: Request, res: Response)
     contestId
   } = req.query
 
-  // TODO: 检查用户是否存在
-  // const user = await User.findByPk(userId)
-  // if (!user) {
-  //   throw new AppError('用户不存在', 404)
-  // }
+  // 检查用户是否存在
+  const user = await User.findByPk(parseInt(userId))
+  if (!user) {
+    throw new AppError('用户不存在', 404)
+  }
 
   // 构建查询条件
   const where: WhereOptions = { userId: parseInt(userId) }
@@ -381,9 +566,9 @@ export const getUserSubmissions = catchAsync(async (req: Request, res: Response)
     success: true,
     data: {
       user: {
-        id: userId,
-        // username: user.username,
-        // realName: user.realName
+        id: user.id,
+        username: user.username,
+        realName: user.realName
       },
       submissions,
       pagination: {
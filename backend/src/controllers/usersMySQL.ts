@@ -0,0 +1,114 @@
+import { Request, Response } from 'express'
+import fs from 'fs'
+import { User } from '../models/UserMySQL'
+import { Contest } from '../models/ContestMySQL'
+import { RatingHistory } from '../models/RatingHistoryMySQL'
+import { AppError, catchAsync } from '../middleware/errorHandler'
+import { deleteFile } from '../utils/upload'
+import { RosterPreviewRow, readRoster, previewRoster, importRoster, renderCredentialsSheet } from '../utils/rosterImport'
+
+// 获取用户积分变化记录
+export const getRatingHistory = catchAsync(async (req: Request, res: Response) => {
+  const user = await User.findByPk(Number(req.params.userId), {
+    attributes: ['id', 'username', 'realName', 'rating', 'contestsParticipated']
+  })
+  if (!user) {
+    throw new AppError('用户不存在', 404)
+  }
+
+  const history = await RatingHistory.findAll({
+    where: { userId: user.id },
+    include: [
+      {
+        association: 'contest',
+        attributes: ['id', 'title', 'endTime']
+      }
+    ],
+    order: [[{ model: Contest, as: 'contest' }, 'endTime', 'ASC'], ['id', 'ASC']]
+  })
+
+  res.json({
+    success: true,
+    data: {
+      user: {
+        id: user.id,
+        username: user.username,
+        realName: user.realName,
+        rating: user.rating,
+        contestsParticipated: user.contestsParticipated
+      },
+      history: history.map(record => {
+        const contest = (record as any).contest
+        return {
+          contestId: record.contestId,
+          contestTitle: contest?.title || '',
+          contestEndTime: contest?.endTime,
+          rank: record.rank,
+          oldRating: record.oldRating,
+          newRating: record.newRating,
+          delta: record.delta
+        }
+      })
+    }
+  })
+})
+
+// 读取并校验上传的花名册，读取后删除上传文件
+const checkUploadedRoster = async (req: Request): Promise<RosterPreviewRow[]> => {
+  if (!req.file) {
+    throw new AppError('请上传花名册文件', 400)
+  }
+
+  try {
+    const rows = readRoster(fs.readFileSync(req.file.path), req.file.originalname)
+    if (rows.length === 0) {
+      throw new AppError('花名册中没有学生', 400)
+    }
+    return await previewRoster(rows)
+  } catch (error: any) {
+    throw error instanceof AppError ? error : new AppError(`花名册解析失败: ${error.message}`, 400)
+  } finally {
+    await deleteFile(req.file.path)
+  }
+}
+
+// 预览花名册导入结果（不创建账号）
+export const previewRosterImport = catchAsync(async (req: Request, res: Response) => {
+  const rows = await checkUploadedRoster(req)
+  const conflicts = rows.filter(row => row.errors.length > 0)
+
+  res.json({
+    success: true,
+    data: {
+      rows,
+      summary: {
+        total: rows.length,
+        valid: rows.length - conflicts.length,
+        conflicts: conflicts.length
+      }
+    }
+  })
+})
+
+// 按花名册批量创建学生账号，有冲突的行会被跳过
+// format=html 时返回可打印的账号密码单
+export const importRosterUsers = catchAsync(async (req: Request, res: Response) => {
+  const rows = await checkUploadedRoster(req)
+  const skipped = rows.filter(row => row.errors.length > 0)
+  const credentials = await importRoster(rows)
+
+  if (req.query.format === 'html') {
+    res.setHeader('Content-Type', 'text/html; charset=utf-8')
+    res.send(renderCredentialsSheet(credentials))
+    return
+  }
+
+  res.status(201).json({
+    success: true,
+    message: `已创建 ${credentials.length} 个学生账号${skipped.length > 0 ? `，跳过 ${skipped.length} 行` : ''}`,
+    data: {
+      credentials,
+      skipped
+    }
+  })
+})
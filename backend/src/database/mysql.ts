@@ -19,7 +19,7 @@ export const sequelize = new Sequelize(
     },
     define: {
       timestamps: true,
-      underscored: true,
+      underscored: true, // 列名为下划线形式，模型 indexes 中的 fields 需直接写列名（如 submission_id）
       freezeTableName: true
     }
   }
@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from 'express'
 import jwt from 'jsonwebtoken'
+import crypto from 'crypto'
 import { Socket } from 'socket.io'
-import { User, UserRole } from '../models/UserSQLite'
+import { User, UserRole } from '../models/UserMySQL'
 import { AppError } from './errorHandler'
 import { config } from '../config'
 
@@ -47,7 +48,7 @@ export const auth = async (req: Request, res: Response, next: NextFunction) => {
     const decoded = jwt.verify(token, config.jwt.secret) as JWTPayload
     
     // 检查用户是否存在且状态正常
-    const user = await User.findById(decoded.id)
+    const user = await User.findByPk(decoded.id)
     
     if (!user) {
       return next(new AppError('用户不存在', 401))
@@ -97,7 +98,7 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
     const decoded = jwt.verify(token, config.jwt.secret) as JWTPayload
     
     // 检查用户是否存在且状态正常
-    const user = await User.findById(decoded.id)
+    const user = await User.findByPk(decoded.id)
     
     if (user && user.status === 'active') {
       req.user = {
@@ -212,7 +213,7 @@ export const authenticateSocket = async (socket: Socket, next: (err?: Error) =>
     const decoded = jwt.verify(token, config.jwt.secret) as JWTPayload
     
     // 获取用户信息
-    const user = await User.findById(decoded.id)
+    const user = await User.findByPk(decoded.id)
     if (!user) {
       return next(new Error('用户不存在'))
     }
@@ -223,7 +224,7 @@ export const authenticateSocket = async (socket: Socket, next: (err?: Error) =>
     }
 
     // 将用户信息添加到socket数据
-    socket.data.userId = user.id!.toString()
+    socket.data.userId = user.id.toString()
     socket.data.username = user.username
     socket.data.role = user.role
     socket.data.status = user.status
@@ -257,10 +258,10 @@ export const optionalSocketAuth = async (socket: Socket, next: (err?: Error) =>
     }
 
     const decoded = jwt.verify(token, config.jwt.secret) as JWTPayload
-    const user = await User.findById(decoded.id)
+    const user = await User.findByPk(decoded.id)
     
     if (user && user.status === 'active') {
-      socket.data.userId = user.id!.toString()
+      socket.data.userId = user.id.toString()
       socket.data.username = user.username
       socket.data.role = user.role
       socket.data.status = user.status
@@ -296,6 +297,27 @@ export const requireSocketRole = (...roles: UserRole[]) => {
   }
 }
 
+// 远程判题机认证中间件（共享令牌，见 JUDGE_WORKER_TOKEN）
+export const workerAuth = (req: Request, res: Response, next: NextFunction) => {
+  const expected = config.judge.worker.token
+  if (!expected) {
+    return next(new AppError('服务器未配置判题机令牌', 503))
+  }
+
+  const authHeader = req.header('Authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return next(new AppError('访问被拒绝，请提供判题机令牌', 401))
+  }
+
+  const token = Buffer.from(authHeader.substring(7))
+  const expectedToken = Buffer.from(expected)
+  if (token.length !== expectedToken.length || !crypto.timingSafeEqual(token, expectedToken)) {
+    return next(new AppError('判题机令牌无效', 401))
+  }
+
+  next()
+}
+
 // 生成JWT令牌
 export const generateToken = (user: { id: number; username: string; role: UserRole }): string => {
   return jwt.sign(
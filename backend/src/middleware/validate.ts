@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express'
 import { validationResult, ValidationError } from 'express-validator'
 import { AppError } from './errorHandler'
+import { isEnabledLanguage } from '../utils/languageRegistry'
 
 // 验证中间件
 export const validate = (req: Request, res: Response, next: NextFunction) => {
@@ -58,8 +59,7 @@ export const customValidators = {
   
   // 验证编程语言
   isValidLanguage: (value: string) => {
-    const validLanguages = ['c', 'cpp', 'java', 'python', 'javascript', 'go', 'rust']
-    return validLanguages.includes(value.toLowerCase())
+    return isEnabledLanguage(value)
   },
   
   // 验证难度级别
@@ -197,8 +197,7 @@ export const customValidators = {
 
   // 验证编程语言
   language: (value: string) => {
-    const validLanguages = ['c', 'cpp', 'java', 'python', 'javascript', 'go', 'rust']
-    return validLanguages.includes(value.toLowerCase())
+    return isEnabledLanguage(value)
   },
 
   // 验证标签格式
@@ -0,0 +1,125 @@
+import { DataTypes, Model, Optional } from 'sequelize'
+import sequelize from '../database/mysql'
+
+// 作业属性接口
+export interface AssignmentAttributes {
+  id: number
+  title: string
+  description?: string | null
+  problems: string[]               // 题目ID列表（存储为JSON）
+  classes: string[]                // 布置的班级，如 "高一(11)班"（存储为JSON）
+  startTime: Date                  // 布置时间，之前学生看不到作业
+  deadline: Date
+  latePenalty?: number | null      // 逾期完成扣除的百分比，为空表示逾期不计分
+  createdBy: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 创建作业时的可选属性
+export interface AssignmentCreationAttributes extends Optional<AssignmentAttributes, 'id' | 'startTime' | 'createdAt' | 'updatedAt'> {}
+
+// Assignment模型类
+export class Assignment extends Model<AssignmentAttributes, AssignmentCreationAttributes> implements AssignmentAttributes {
+  public id!: number
+  public title!: string
+  public description?: string | null
+  public problems!: string[]
+  public classes!: string[]
+  public startTime!: Date
+  public deadline!: Date
+  public latePenalty?: number | null
+  public createdBy!: number
+  public readonly createdAt!: Date
+  public readonly updatedAt!: Date
+
+  // 是否已过截止时间
+  public isPastDeadline(now: Date = new Date()): boolean {
+    return now >= this.deadline
+  }
+
+  // 是否布置给该班级
+  public isAssignedTo(userClass?: string | null): boolean {
+    return !!userClass && this.classes.includes(userClass)
+  }
+
+  // 是否为作业管理者（创建者或管理员）
+  public isManagedBy(userId?: number, userRole?: string): boolean {
+    return userRole === 'admin' || (userId !== undefined && this.createdBy === userId)
+  }
+
+  // 逾期完成的得分比例，逾期不计分时为0
+  public getLateRatio(): number {
+    return this.latePenalty === null || this.latePenalty === undefined ? 0 : (100 - this.latePenalty) / 100
+  }
+}
+
+// 定义表结构
+Assignment.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    title: {
+      type: DataTypes.STRING(200),
+      allowNull: false
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    problems: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    classes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    startTime: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    deadline: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    latePenalty: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 100
+      }
+    },
+    createdBy: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'Assignment',
+    tableName: 'assignments',
+    timestamps: true,
+    indexes: [
+      { fields: ['created_by'] },
+      { fields: ['deadline'] }
+    ]
+  }
+)
+
+export default Assignment
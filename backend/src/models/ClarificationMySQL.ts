@@ -0,0 +1,109 @@
+import { DataTypes, Model, Optional } from 'sequelize'
+import sequelize from '../database/mysql'
+
+// 比赛答疑属性接口
+export interface ClarificationAttributes {
+  id: number
+  contestId: number
+  userId: number                   // 提问者；裁判主动发布的公告为发布者
+  problemLabel?: string | null     // 关联的题号，为空表示针对整场比赛
+  question?: string | null         // 提问内容，裁判主动发布的公告为空
+  answer?: string | null           // 裁判回复
+  isPublic: boolean                // 是否对全体选手公开
+  answeredBy?: number | null
+  answeredAt?: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 创建答疑时的可选属性
+export interface ClarificationCreationAttributes extends Optional<ClarificationAttributes, 'id' | 'isPublic' | 'createdAt' | 'updatedAt'> {}
+
+// Clarification模型类
+export class Clarification extends Model<ClarificationAttributes, ClarificationCreationAttributes> implements ClarificationAttributes {
+  public id!: number
+  public contestId!: number
+  public userId!: number
+  public problemLabel?: string | null
+  public question?: string | null
+  public answer?: string | null
+  public isPublic!: boolean
+  public answeredBy?: number | null
+  public answeredAt?: Date | null
+  public readonly createdAt!: Date
+  public readonly updatedAt!: Date
+
+  // 是否为裁判主动发布的公告
+  public isBroadcast(): boolean {
+    return !this.question
+  }
+
+  // 用户是否可以查看：公开的答疑所有人可见，私有答疑仅提问者可见
+  public isVisibleTo(userId?: number): boolean {
+    return this.isPublic || (userId !== undefined && this.userId === userId)
+  }
+}
+
+// 定义表结构
+Clarification.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    contestId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    problemLabel: {
+      type: DataTypes.STRING(3),
+      allowNull: true
+    },
+    question: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    answer: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    isPublic: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    answeredBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    answeredAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'Clarification',
+    tableName: 'clarifications',
+    timestamps: true,
+    indexes: [
+      { fields: ['contest_id', 'created_at'] },
+      { fields: ['user_id'] }
+    ]
+  }
+)
+
+export default Clarification
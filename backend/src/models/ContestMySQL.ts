@@ -0,0 +1,270 @@
+import { DataTypes, Model, Optional } from 'sequelize'
+import sequelize from '../database/mysql'
+
+// 比赛类型枚举
+export enum ContestType {
+  PUBLIC = 'public',     // 公开赛，所有人可报名
+  PRIVATE = 'private',   // 私有赛，凭密码报名，不在列表中展示
+  OFFICIAL = 'official', // 正式赛
+  PRACTICE = 'practice'  // 练习赛
+}
+
+// 比赛赛制枚举
+export enum ContestRule {
+  ACM = 'acm',  // 按通过题数排名，罚时为通过时间加每次错误提交20分钟
+  OI = 'oi',    // 每题以最后一次提交的得分为准
+  IOI = 'ioi'   // 每个子任务取所有提交中的最高分
+}
+
+// 比赛状态枚举（除取消外均由比赛时间决定）
+export enum ContestStatus {
+  UPCOMING = 'upcoming',
+  RUNNING = 'running',
+  ENDED = 'ended',
+  CANCELLED = 'cancelled'
+}
+
+// 比赛题目
+export interface IContestProblem {
+  problemId: string
+  label: string     // 题号，如 A、B、C
+  score?: number    // 满分（OI/IOI赛制展示用）
+}
+
+// 比赛属性接口
+export interface ContestAttributes {
+  id: number
+  title: string
+  description: string
+  type: ContestType
+  rule: ContestRule
+  startTime: Date
+  endTime: Date
+  duration: number                 // 比赛时长（分钟）
+  maxParticipants?: number | null  // 最大报名人数，为空表示不限制
+  password?: string | null         // 报名密码
+  isPublic: boolean                // 是否在比赛列表中展示
+  isCancelled: boolean
+  allowedLanguages: string[]       // 允许的语言，为空表示不限制（存储为JSON）
+  problems: IContestProblem[]      // 存储为JSON
+  announcement?: string | null
+  prizes: string[]                 // 存储为JSON
+  tags: string[]                   // 存储为JSON
+  freezeTime?: Date | null         // 封榜时间，之后的提交结果对其他选手隐藏
+  unfrozenAt?: Date | null         // 解除封榜的时间
+  revealedCells: string[]          // 封榜后已揭晓的单元格（"用户ID:题目ID"，存储为JSON）
+  isRated: boolean                 // 是否计算积分
+  ratedAt?: Date | null            // 积分计算完成时间
+  createdBy: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 创建比赛时的可选属性
+export interface ContestCreationAttributes extends Optional<ContestAttributes, 'id' | 'isPublic' | 'isCancelled' | 'allowedLanguages' | 'prizes' | 'tags' | 'revealedCells' | 'isRated' | 'createdAt' | 'updatedAt'> {}
+
+// 由题目数量生成题号：A..Z, AA, AB...
+export const contestLabel = (index: number): string => {
+  let label = ''
+  let n = index
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label
+    n = Math.floor(n / 26) - 1
+  } while (n >= 0)
+  return label
+}
+
+// Contest模型类
+export class Contest extends Model<ContestAttributes, ContestCreationAttributes> implements ContestAttributes {
+  public id!: number
+  public title!: string
+  public description!: string
+  public type!: ContestType
+  public rule!: ContestRule
+  public startTime!: Date
+  public endTime!: Date
+  public duration!: number
+  public maxParticipants?: number | null
+  public password?: string | null
+  public isPublic!: boolean
+  public isCancelled!: boolean
+  public allowedLanguages!: string[]
+  public problems!: IContestProblem[]
+  public announcement?: string | null
+  public prizes!: string[]
+  public tags!: string[]
+  public freezeTime?: Date | null
+  public unfrozenAt?: Date | null
+  public revealedCells!: string[]
+  public isRated!: boolean
+  public ratedAt?: Date | null
+  public createdBy!: number
+  public readonly createdAt!: Date
+  public readonly updatedAt!: Date
+
+  // 当前状态
+  public getStatus(now: Date = new Date()): ContestStatus {
+    if (this.isCancelled) return ContestStatus.CANCELLED
+    if (now < this.startTime) return ContestStatus.UPCOMING
+    if (now < this.endTime) return ContestStatus.RUNNING
+    return ContestStatus.ENDED
+  }
+
+  // 是否处于封榜状态（到达封榜时间且尚未解除）
+  public isFrozen(now: Date = new Date()): boolean {
+    return !!this.freezeTime && now >= this.freezeTime && !this.unfrozenAt
+  }
+
+  // 是否为比赛管理者（创建者或管理员）
+  public isManagedBy(userId?: number, userRole?: string): boolean {
+    return userRole === 'admin' || (userId !== undefined && this.createdBy === userId)
+  }
+
+  // 提交结果是否对该用户隐藏：封榜期间其他选手封榜后的提交只有管理者可见
+  public hidesResultFrom(submission: { userId: number; submittedAt: Date }, userId?: number, userRole?: string): boolean {
+    return this.isFrozen() &&
+      !this.isManagedBy(userId, userRole) &&
+      submission.userId !== userId &&
+      submission.submittedAt >= this.freezeTime!
+  }
+
+  // 根据题目ID查找比赛题目
+  public getProblem(problemId: string): IContestProblem | undefined {
+    return this.problems.find(problem => problem.problemId === problemId)
+  }
+
+  // 是否允许使用该语言提交
+  public allowsLanguage(language: string): boolean {
+    return this.allowedLanguages.length === 0 || this.allowedLanguages.includes(language)
+  }
+}
+
+// 定义表结构
+Contest.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    title: {
+      type: DataTypes.STRING(200),
+      allowNull: false
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: false
+    },
+    type: {
+      type: DataTypes.ENUM(...Object.values(ContestType)),
+      allowNull: false,
+      defaultValue: ContestType.PUBLIC
+    },
+    rule: {
+      type: DataTypes.ENUM(...Object.values(ContestRule)),
+      allowNull: false,
+      defaultValue: ContestRule.ACM
+    },
+    startTime: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    endTime: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    duration: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    maxParticipants: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    password: {
+      type: DataTypes.STRING(100),
+      allowNull: true
+    },
+    isPublic: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+    isCancelled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    allowedLanguages: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    problems: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    announcement: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    prizes: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    tags: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    freezeTime: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    unfrozenAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    revealedCells: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    isRated: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    ratedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    createdBy: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'Contest',
+    tableName: 'contests',
+    timestamps: true,
+    indexes: [
+      { fields: ['start_time'] },
+      { fields: ['end_time'] },
+      { fields: ['created_by'] }
+    ]
+  }
+)
+
+export default Contest
@@ -0,0 +1,105 @@
+import { DataTypes, Model, Optional } from 'sequelize'
+import sequelize from '../database/mysql'
+
+// 比赛报名属性接口
+export interface ContestParticipantAttributes {
+  id: number
+  contestId: number
+  userId: number
+  isOfficial: boolean   // 是否计入正式排名（比赛开始后报名的为非正式）
+  isVirtual: boolean    // 是否为比赛结束后的虚拟参赛
+  startTime?: Date | null  // 虚拟参赛的个人开始时间
+  registeredAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 报名时的可选属性
+export interface ContestParticipantCreationAttributes extends Optional<ContestParticipantAttributes, 'id' | 'isOfficial' | 'isVirtual' | 'registeredAt' | 'createdAt' | 'updatedAt'> {}
+
+// ContestParticipant模型类
+export class ContestParticipant extends Model<ContestParticipantAttributes, ContestParticipantCreationAttributes> implements ContestParticipantAttributes {
+  public id!: number
+  public contestId!: number
+  public userId!: number
+  public isOfficial!: boolean
+  public isVirtual!: boolean
+  public startTime?: Date | null
+  public registeredAt!: Date
+  public readonly createdAt!: Date
+  public readonly updatedAt!: Date
+
+  // 虚拟参赛的结束时间
+  public getVirtualEndTime(duration: number): Date | null {
+    return this.isVirtual && this.startTime ? new Date(this.startTime.getTime() + duration * 60 * 1000) : null
+  }
+
+  // 虚拟参赛是否正在进行
+  public isVirtualRunning(duration: number, now: Date = new Date()): boolean {
+    const endTime = this.getVirtualEndTime(duration)
+    return !!endTime && now >= this.startTime! && now < endTime
+  }
+
+  // 静态方法：查找用户的报名记录
+  public static async findEntry(contestId: number, userId: number): Promise<ContestParticipant | null> {
+    return await ContestParticipant.findOne({ where: { contestId, userId } })
+  }
+}
+
+// 定义表结构
+ContestParticipant.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    contestId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    isOfficial: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+    isVirtual: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    startTime: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    registeredAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'ContestParticipant',
+    tableName: 'contest_participants',
+    timestamps: true,
+    indexes: [
+      { fields: ['contest_id', 'user_id'], unique: true },
+      { fields: ['user_id'] }
+    ]
+  }
+)
+
+export default ContestParticipant
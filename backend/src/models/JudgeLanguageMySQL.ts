@@ -0,0 +1,127 @@
+import { DataTypes, Model, Optional } from 'sequelize'
+import sequelize from '../database/mysql'
+import { LanguageDefinition } from '../utils/languages'
+
+// 编程语言属性接口（字段含义见 utils/languages.ts）
+export interface JudgeLanguageAttributes extends LanguageDefinition {
+  id: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 创建编程语言时的可选属性
+export interface JudgeLanguageCreationAttributes extends Optional<JudgeLanguageAttributes, 'id' | 'detectClassName' | 'timeMultiplier' | 'memoryMultiplier' | 'seccompProfile' | 'enabled' | 'createdAt' | 'updatedAt'> {}
+
+// JudgeLanguage模型类
+export class JudgeLanguage extends Model<JudgeLanguageAttributes, JudgeLanguageCreationAttributes> implements JudgeLanguageAttributes {
+  public id!: number
+  public languageId!: string
+  public name!: string
+  public family!: string
+  public version!: string
+  public extension!: string
+  public compileCommand?: string | null
+  public runCommand!: string
+  public executable?: string | null
+  public detectClassName!: boolean
+  public timeMultiplier!: number
+  public memoryMultiplier!: number
+  public seccompProfile!: string
+  public processLimit?: number | null
+  public enabled!: boolean
+  public readonly createdAt!: Date
+  public readonly updatedAt!: Date
+}
+
+// 定义表结构
+JudgeLanguage.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    languageId: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      unique: true,
+      validate: {
+        is: /^[a-z][a-z0-9_]*$/
+      }
+    },
+    name: {
+      type: DataTypes.STRING(50),
+      allowNull: false
+    },
+    family: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+    version: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      defaultValue: ''
+    },
+    extension: {
+      type: DataTypes.STRING(10),
+      allowNull: false
+    },
+    compileCommand: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+    runCommand: {
+      type: DataTypes.STRING(500),
+      allowNull: false
+    },
+    executable: {
+      type: DataTypes.STRING(100),
+      allowNull: true
+    },
+    detectClassName: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    timeMultiplier: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 1
+    },
+    memoryMultiplier: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 1
+    },
+    seccompProfile: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: 'native'
+    },
+    processLimit: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'JudgeLanguage',
+    tableName: 'judge_languages',
+    timestamps: true
+  }
+)
+
+export default JudgeLanguage
@@ -0,0 +1,233 @@
+import { DataTypes, Model, Optional, Op } from 'sequelize'
+import sequelize from '../database/mysql'
+
+// 判题任务状态枚举
+export enum JudgeTaskStatus {
+  QUEUED = 'queued',   // 等待判题（含等待重试）
+  RUNNING = 'running', // 已被判题进程领取，租约有效期内由其心跳续期
+  DONE = 'done',       // 判题完成
+  FAILED = 'failed'    // 超过最大重试次数
+}
+
+// 判题任务属性接口
+export interface JudgeTaskAttributes {
+  id: number
+  taskId: string            // 任务ID
+  submissionId: string      // 提交ID
+  userId: number            // 用户ID
+  problemId: string         // 题目ID
+  language?: string | null  // 提交语言，远程判题机只领取自己支持的语言
+  priority: number          // 优先级，数值越大越先判
+  status: JudgeTaskStatus
+  retryCount: number        // 已重试次数
+  maxRetries: number        // 最大重试次数
+  availableAt: Date         // 最早可被领取的时间（重试退避）
+  leaseOwner?: string | null     // 持有租约的判题进程
+  leaseExpiresAt?: Date | null   // 租约到期时间，过期后任务可被重新领取
+  heartbeatAt?: Date | null      // 最近一次心跳时间
+  startedAt?: Date | null        // 最近一次开始判题时间
+  finishedAt?: Date | null       // 完成或最终失败时间
+  lastError?: string | null      // 最近一次失败原因
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 创建判题任务时的可选属性
+export interface JudgeTaskCreationAttributes extends Optional<JudgeTaskAttributes, 'id' | 'priority' | 'status' | 'retryCount' | 'maxRetries' | 'availableAt' | 'createdAt' | 'updatedAt'> {}
+
+// JudgeTask模型类
+export class JudgeTask extends Model<JudgeTaskAttributes, JudgeTaskCreationAttributes> implements JudgeTaskAttributes {
+  public id!: number
+  public taskId!: string
+  public submissionId!: string
+  public userId!: number
+  public problemId!: string
+  public language?: string | null
+  public priority!: number
+  public status!: JudgeTaskStatus
+  public retryCount!: number
+  public maxRetries!: number
+  public availableAt!: Date
+  public leaseOwner?: string | null
+  public leaseExpiresAt?: Date | null
+  public heartbeatAt?: Date | null
+  public startedAt?: Date | null
+  public finishedAt?: Date | null
+  public lastError?: string | null
+  public readonly createdAt!: Date
+  public readonly updatedAt!: Date
+
+  // 静态方法：领取下一个可判的任务（可限定语言）
+  // 先查出候选任务，再以状态为条件更新；多个进程同时领取时只有一个能更新成功
+  public static async claimNext(owner: string, leaseTimeout: number, languages?: string[]): Promise<JudgeTask | null> {
+    const now = new Date()
+    const candidate = await JudgeTask.findOne({
+      where: {
+        status: JudgeTaskStatus.QUEUED,
+        availableAt: { [Op.lte]: now },
+        // 未记录语言的旧任务任何判题进程都可以领取
+        ...(languages ? { [Op.or]: [{ language: { [Op.in]: languages } }, { language: null }] } : {})
+      },
+      order: [['priority', 'DESC'], ['createdAt', 'ASC'], ['id', 'ASC']]
+    })
+    if (!candidate) return null
+
+    const [affected] = await JudgeTask.update({
+      status: JudgeTaskStatus.RUNNING,
+      leaseOwner: owner,
+      leaseExpiresAt: new Date(now.getTime() + leaseTimeout),
+      heartbeatAt: now,
+      startedAt: now
+    }, {
+      where: { id: candidate.id, status: JudgeTaskStatus.QUEUED }
+    })
+    if (affected !== 1) return null
+
+    return await candidate.reload()
+  }
+
+  // 静态方法：续期租约，返回租约是否仍归该进程所有
+  public static async renewLease(id: number, owner: string, leaseTimeout: number): Promise<boolean> {
+    const now = new Date()
+    const [affected] = await JudgeTask.update({
+      leaseExpiresAt: new Date(now.getTime() + leaseTimeout),
+      heartbeatAt: now
+    }, {
+      where: { id, status: JudgeTaskStatus.RUNNING, leaseOwner: owner }
+    })
+    return affected === 1
+  }
+
+  // 静态方法：续期某个判题进程持有的全部租约，返回续期的任务数
+  public static async renewLeasesOf(owner: string, leaseTimeout: number): Promise<number> {
+    const now = new Date()
+    const [affected] = await JudgeTask.update({
+      leaseExpiresAt: new Date(now.getTime() + leaseTimeout),
+      heartbeatAt: now
+    }, {
+      where: { status: JudgeTaskStatus.RUNNING, leaseOwner: owner }
+    })
+    return affected
+  }
+
+  // 静态方法：查找租约已过期的任务（判题进程崩溃或失联）
+  public static async findExpiredLeases(): Promise<JudgeTask[]> {
+    return await JudgeTask.findAll({
+      where: {
+        status: JudgeTaskStatus.RUNNING,
+        leaseExpiresAt: { [Op.lt]: new Date() }
+      }
+    })
+  }
+
+  // 静态方法：查找提交尚在排队的任务
+  public static async findQueuedBySubmission(submissionId: string): Promise<JudgeTask | null> {
+    return await JudgeTask.findOne({
+      where: { submissionId, status: JudgeTaskStatus.QUEUED }
+    })
+  }
+}
+
+// 定义表结构
+JudgeTask.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    taskId: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true
+    },
+    submissionId: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    problemId: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+    language: {
+      type: DataTypes.STRING(20),
+      allowNull: true
+    },
+    priority: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(JudgeTaskStatus)),
+      allowNull: false,
+      defaultValue: JudgeTaskStatus.QUEUED
+    },
+    retryCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    maxRetries: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 3
+    },
+    availableAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    leaseOwner: {
+      type: DataTypes.STRING(128),
+      allowNull: true
+    },
+    leaseExpiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    heartbeatAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    startedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    finishedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'JudgeTask',
+    tableName: 'judge_tasks',
+    timestamps: true,
+    indexes: [
+      { fields: ['task_id'], unique: true },
+      { fields: ['submission_id'] },
+      { fields: ['status', 'available_at', 'priority'] },
+      { fields: ['status', 'lease_expires_at'] },
+      { fields: ['finished_at'] }
+    ]
+  }
+)
+
+export default JudgeTask
@@ -0,0 +1,126 @@
+import { DataTypes, Model, Optional } from 'sequelize'
+import sequelize from '../database/mysql'
+
+// 查重范围
+export enum PlagiarismScope {
+  PROBLEM = 'problem',
+  CONTEST = 'contest',
+  ASSIGNMENT = 'assignment'
+}
+
+// 查重任务状态
+export enum PlagiarismCheckStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+// 查重任务属性接口
+export interface PlagiarismCheckAttributes {
+  id: number
+  scope: PlagiarismScope
+  scopeId: string               // 题目ID、比赛ID或作业ID
+  minSimilarity: number         // 只保留相似度不低于该值的代码对（百分比）
+  status: PlagiarismCheckStatus
+  submissionCount: number       // 参与比较的提交数
+  pairCount: number             // 保留的代码对数
+  errorMessage?: string | null
+  createdBy: number
+  finishedAt?: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 创建查重任务时的可选属性
+export interface PlagiarismCheckCreationAttributes extends Optional<PlagiarismCheckAttributes, 'id' | 'status' | 'submissionCount' | 'pairCount' | 'createdAt' | 'updatedAt'> {}
+
+// PlagiarismCheck模型类
+export class PlagiarismCheck extends Model<PlagiarismCheckAttributes, PlagiarismCheckCreationAttributes> implements PlagiarismCheckAttributes {
+  public id!: number
+  public scope!: PlagiarismScope
+  public scopeId!: string
+  public minSimilarity!: number
+  public status!: PlagiarismCheckStatus
+  public submissionCount!: number
+  public pairCount!: number
+  public errorMessage?: string | null
+  public createdBy!: number
+  public finishedAt?: Date | null
+  public readonly createdAt!: Date
+  public readonly updatedAt!: Date
+}
+
+// 定义表结构
+PlagiarismCheck.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    scope: {
+      type: DataTypes.ENUM(...Object.values(PlagiarismScope)),
+      allowNull: false
+    },
+    scopeId: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+    minSimilarity: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 0,
+        max: 100
+      }
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(PlagiarismCheckStatus)),
+      allowNull: false,
+      defaultValue: PlagiarismCheckStatus.PENDING
+    },
+    submissionCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    pairCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    errorMessage: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    createdBy: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    finishedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'PlagiarismCheck',
+    tableName: 'plagiarism_checks',
+    timestamps: true,
+    indexes: [
+      { fields: ['scope', 'scope_id'] },
+      { fields: ['created_by'] }
+    ]
+  }
+)
+
+export default PlagiarismCheck
@@ -0,0 +1,151 @@
+import { DataTypes, Model, Optional } from 'sequelize'
+import sequelize from '../database/mysql'
+import { MatchedRegion } from '../utils/similarity'
+
+// 代码对的审核状态
+export enum PlagiarismPairStatus {
+  PENDING = 'pending',
+  CONFIRMED = 'confirmed',   // 确认抄袭
+  DISMISSED = 'dismissed'    // 排除嫌疑
+}
+
+// 相似代码对属性接口
+// 左侧为较早的提交
+export interface PlagiarismPairAttributes {
+  id: number
+  checkId: number
+  problemId: string
+  language: string
+  leftSubmissionId: string
+  rightSubmissionId: string
+  leftUserId: number
+  rightUserId: number
+  similarity: number          // 两侧覆盖率中的较大值（百分比）
+  leftSimilarity: number
+  rightSimilarity: number
+  matches: MatchedRegion[]    // 相同的代码片段（存储为JSON）
+  status: PlagiarismPairStatus
+  note?: string | null        // 审核备注
+  reviewedBy?: number | null
+  reviewedAt?: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 创建代码对时的可选属性
+export interface PlagiarismPairCreationAttributes extends Optional<PlagiarismPairAttributes, 'id' | 'status' | 'createdAt' | 'updatedAt'> {}
+
+// PlagiarismPair模型类
+export class PlagiarismPair extends Model<PlagiarismPairAttributes, PlagiarismPairCreationAttributes> implements PlagiarismPairAttributes {
+  public id!: number
+  public checkId!: number
+  public problemId!: string
+  public language!: string
+  public leftSubmissionId!: string
+  public rightSubmissionId!: string
+  public leftUserId!: number
+  public rightUserId!: number
+  public similarity!: number
+  public leftSimilarity!: number
+  public rightSimilarity!: number
+  public matches!: MatchedRegion[]
+  public status!: PlagiarismPairStatus
+  public note?: string | null
+  public reviewedBy?: number | null
+  public reviewedAt?: Date | null
+  public readonly createdAt!: Date
+  public readonly updatedAt!: Date
+}
+
+// 定义表结构
+PlagiarismPair.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    checkId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    problemId: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+    language: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+    leftSubmissionId: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+    rightSubmissionId: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+    leftUserId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    rightUserId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    similarity: {
+      type: DataTypes.FLOAT,
+      allowNull: false
+    },
+    leftSimilarity: {
+      type: DataTypes.FLOAT,
+      allowNull: false
+    },
+    rightSimilarity: {
+      type: DataTypes.FLOAT,
+      allowNull: false
+    },
+    matches: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(PlagiarismPairStatus)),
+      allowNull: false,
+      defaultValue: PlagiarismPairStatus.PENDING
+    },
+    note: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+    reviewedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    reviewedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'PlagiarismPair',
+    tableName: 'plagiarism_pairs',
+    timestamps: true,
+    indexes: [
+      { fields: ['check_id', 'similarity'] },
+      { fields: ['left_submission_id', 'right_submission_id'] }
+    ]
+  }
+)
+
+export default PlagiarismPair
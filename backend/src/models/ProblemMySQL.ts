@@ -1,5 +1,8 @@
 import { DataTypes, Model, Optional, Op } from 'sequelize'
 import sequelize from '../database/mysql'
+import { CheckerType, ProblemChecker } from '../utils/checker'
+import { Subtask } from '../utils/subtask'
+import { GraderFile } from '../utils/sourceFiles'
 
 // 题目难度枚举
 export enum ProblemDifficulty {
@@ -15,10 +18,23 @@ export enum ProblemStatus {
   ARCHIVED = 'archived'
 }
 
+// 题目类型枚举
+export enum ProblemType {
+  STANDARD = 'standard',       // 标准输入输出
+  INTERACTIVE = 'interactive'  // 交互题，选手程序与交互器通过管道通信
+}
+
 // 测试用例接口
+// 测试数据以文件形式保存在磁盘上（见 utils/testData），这里只记录内容哈希等元数据；
+// input/output 为旧版内联数据，首次判题时迁移到磁盘
 export interface ITestCase {
-  input: string
-  output: string
+  input?: string
+  output?: string
+  inputHash?: string   // 输入文件内容哈希（sha256）
+  inputSize?: number   // 输入文件大小（字节）
+  answerHash?: string  // 答案文件内容哈希（sha256）
+  answerSize?: number  // 答案文件大小（字节）
+  score?: number
   isHidden: boolean
   timeLimit?: number
   memoryLimit?: number
@@ -43,12 +59,17 @@ export interface ProblemAttributes {
   constraints?: string
   difficulty: ProblemDifficulty
   status: ProblemStatus
+  type: ProblemType
   category: string
   tags: string[] // 存储为JSON
   timeLimit: number
   memoryLimit: number
   testCases: ITestCase[] // 存储为JSON
+  subtasks: Subtask[] // 子任务定义，为空时按测试点分数累加，存储为JSON
   sampleCases: ITestCase[] // 存储为JSON
+  checker: ProblemChecker // 输出检查器配置，存储为JSON
+  interactor?: string // 交互器源代码（仅交互题）
+  graderFiles: GraderFile[] // 评测程序文件（函数式题目），与选手代码一起编译，存储为JSON
   stats: IProblemStats // 存储为JSON
   authorId: number
   maintainerIds: number[] // 存储为JSON
@@ -56,13 +77,15 @@ export interface ProblemAttributes {
   sourceUrl?: string
   hints: string[] // 存储为JSON
   solution?: string
+  allowedLanguages: string[] // 允许的语言，为空表示不限制（存储为JSON）
+  revision: number // 当前版本号，每次修改题目内容时递增（见 ProblemRevision）
   publishedAt?: Date
   createdAt: Date
   updatedAt: Date
 }
 
 // 创建题目时的可选属性
-export interface ProblemCreationAttributes extends Optional<ProblemAttributes, 'id' | 'createdAt' | 'updatedAt' | 'publishedAt'> {}
+export interface ProblemCreationAttributes extends Optional<ProblemAttributes, 'id' | 'type' | 'subtasks' | 'checker' | 'graderFiles' | 'allowedLanguages' | 'revision' | 'createdAt' | 'updatedAt' | 'publishedAt'> {}
 
 // Problem模型类
 export class Problem extends Model<ProblemAttributes, ProblemCreationAttributes> implements ProblemAttributes {
@@ -75,12 +98,17 @@ export class Problem extends Model<ProblemAttributes, ProblemCreationAttributes>
   public constraints?: string
   public difficulty!: ProblemDifficulty
   public status!: ProblemStatus
+  public type!: ProblemType
   public category!: string
   public tags!: string[]
   public timeLimit!: number
   public memoryLimit!: number
   public testCases!: ITestCase[]
+  public subtasks!: Subtask[]
   public sampleCases!: ITestCase[]
+  public checker!: ProblemChecker
+  public interactor?: string
+  public graderFiles!: GraderFile[]
   public stats!: IProblemStats
   public authorId!: number
   public maintainerIds!: number[]
@@ -88,6 +116,8 @@ export class Problem extends Model<ProblemAttributes, ProblemCreationAttributes>
   public sourceUrl?: string
   public hints!: string[]
   public solution?: string
+  public allowedLanguages!: string[]
+  public revision!: number
   public publishedAt?: Date
   public readonly createdAt!: Date
   public readonly updatedAt!: Date
@@ -147,6 +177,30 @@ export class Problem extends Model<ProblemAttributes, ProblemCreationAttributes>
     return this.status === ProblemStatus.PUBLISHED
   }
 
+  // 检查用户是否可以编辑：作者、维护者、管理员与教师
+  public isEditableBy(userId: number, userRole: string): boolean {
+    if (userRole === 'admin' || userRole === 'teacher') {
+      return true
+    }
+
+    return this.authorId === userId || this.maintainerIds.includes(userId)
+  }
+
+  // 检查语言是否允许提交
+  public allowsLanguage(language: string): boolean {
+    return this.allowedLanguages.length === 0 || this.allowedLanguages.includes(language)
+  }
+
+  // 获取某一语法类别的评测程序文件
+  public getGraderFiles(family: string): GraderFile[] {
+    return this.graderFiles.filter(file => file.language === family)
+  }
+
+  // 是否为函数式题目（提供了评测程序时，只能使用提供了评测程序的语言提交）
+  public hasGrader(): boolean {
+    return this.graderFiles.length > 0
+  }
+
   // 静态方法：获取下一个题目ID
   public static async getNextProblemId(): Promise<string> {
     const lastProblem = await Problem.findOne({
@@ -262,6 +316,11 @@ Problem.init(
       allowNull: false,
       defaultValue: ProblemStatus.DRAFT
     },
+    type: {
+      type: DataTypes.ENUM(...Object.values(ProblemType)),
+      allowNull: false,
+      defaultValue: ProblemType.STANDARD
+    },
     category: {
       type: DataTypes.STRING(50),
       allowNull: false,
@@ -296,11 +355,30 @@ Problem.init(
       allowNull: false,
       defaultValue: []
     },
+    subtasks: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
     sampleCases: {
       type: DataTypes.JSON,
       allowNull: false,
       defaultValue: []
     },
+    checker: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: { type: CheckerType.EXACT }
+    },
+    interactor: {
+      type: DataTypes.TEXT('medium'),
+      allowNull: true
+    },
+    graderFiles: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
     stats: {
       type: DataTypes.JSON,
       allowNull: false,
@@ -350,6 +428,16 @@ Problem.init(
         len: [0, 10000]
       }
     },
+    allowedLanguages: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    revision: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
     publishedAt: {
       type: DataTypes.DATE,
       allowNull: true
@@ -369,12 +457,12 @@ Problem.init(
     tableName: 'problems',
     timestamps: true,
     indexes: [
-      { fields: ['problemId'], unique: true },
+      { fields: ['problem_id'], unique: true },
       { fields: ['status', 'difficulty'] },
       { fields: ['category'] },
-      { fields: ['authorId'] },
-      { fields: ['createdAt'] },
-      { fields: ['publishedAt'] }
+      { fields: ['author_id'] },
+      { fields: ['created_at'] },
+      { fields: ['published_at'] }
     ]
   }
 )
@@ -0,0 +1,102 @@
+import { DataTypes, Model, Optional } from 'sequelize'
+import sequelize from '../database/mysql'
+import { ProblemAttributes } from './ProblemMySQL'
+
+// 版本快照中保存的题目字段（题目内容，不含状态、统计与维护者等）
+export type ProblemSnapshot = Pick<ProblemAttributes,
+  'title' | 'description' | 'inputFormat' | 'outputFormat' | 'constraints' |
+  'difficulty' | 'type' | 'category' | 'tags' | 'timeLimit' | 'memoryLimit' |
+  'testCases' | 'subtasks' | 'sampleCases' | 'checker' | 'interactor' | 'graderFiles' |
+  'source' | 'sourceUrl' | 'hints' | 'solution'
+>
+
+// 题目版本属性接口
+export interface ProblemRevisionAttributes {
+  id: number
+  problemId: string
+  revision: number          // 版本号，同一题目内从0开始递增
+  authorId: number          // 修改者
+  summary: string           // 修改说明
+  changedFields: string[]   // 相对上一版本变化的字段
+  snapshot: ProblemSnapshot // 题目内容快照，存储为JSON
+  testDataHash: string      // 测试数据哈希（由各测试点的内容哈希计算）
+  createdAt: Date
+}
+
+// 创建题目版本时的可选属性
+export interface ProblemRevisionCreationAttributes extends Optional<ProblemRevisionAttributes, 'id' | 'createdAt'> {}
+
+// ProblemRevision模型类
+// 版本记录创建后不可修改
+export class ProblemRevision extends Model<ProblemRevisionAttributes, ProblemRevisionCreationAttributes> implements ProblemRevisionAttributes {
+  public id!: number
+  public problemId!: string
+  public revision!: number
+  public authorId!: number
+  public summary!: string
+  public changedFields!: string[]
+  public snapshot!: ProblemSnapshot
+  public testDataHash!: string
+  public readonly createdAt!: Date
+}
+
+// 定义表结构
+ProblemRevision.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    problemId: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+    revision: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    authorId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    summary: {
+      type: DataTypes.STRING(500),
+      allowNull: false
+    },
+    changedFields: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: []
+    },
+    snapshot: {
+      type: DataTypes.JSON,
+      allowNull: false
+    },
+    testDataHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'ProblemRevision',
+    tableName: 'problem_revisions',
+    timestamps: true,
+    updatedAt: false,
+    indexes: [
+      { fields: ['problem_id', 'revision'], unique: true }
+    ],
+    hooks: {
+      beforeUpdate: () => {
+        throw new Error('题目版本记录不可修改')
+      }
+    }
+  }
+)
+
+export default ProblemRevision
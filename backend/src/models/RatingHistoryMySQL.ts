@@ -0,0 +1,86 @@
+import { DataTypes, Model, Optional } from 'sequelize'
+import sequelize from '../database/mysql'
+
+// 积分变化记录属性接口
+export interface RatingHistoryAttributes {
+  id: number
+  userId: number
+  contestId: number
+  rank: number          // 比赛中的名次
+  oldRating: number
+  newRating: number
+  delta: number         // newRating - oldRating
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 创建积分变化记录时的可选属性
+export interface RatingHistoryCreationAttributes extends Optional<RatingHistoryAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+
+// RatingHistory模型类
+export class RatingHistory extends Model<RatingHistoryAttributes, RatingHistoryCreationAttributes> implements RatingHistoryAttributes {
+  public id!: number
+  public userId!: number
+  public contestId!: number
+  public rank!: number
+  public oldRating!: number
+  public newRating!: number
+  public delta!: number
+  public readonly createdAt!: Date
+  public readonly updatedAt!: Date
+}
+
+// 定义表结构
+RatingHistory.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    contestId: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    rank: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    oldRating: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    newRating: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    delta: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'RatingHistory',
+    tableName: 'rating_history',
+    timestamps: true,
+    indexes: [
+      { fields: ['user_id', 'contest_id'], unique: true },
+      { fields: ['contest_id'] }
+    ]
+  }
+)
+
+export default RatingHistory
@@ -1,5 +1,6 @@
 import { DataTypes, Model, Optional } from 'sequelize'
 import sequelize from '../database/mysql'
+import { SourceFile } from '../utils/sourceFiles'
 
 // 提交状态枚举
 export enum SubmissionStatus {
@@ -12,10 +13,14 @@ export enum SubmissionStatus {
   RUNTIME_ERROR = 'runtime_error', // 运行时错误
   COMPILE_ERROR = 'compile_error', // 编译错误
   PRESENTATION_ERROR = 'presentation_error', // 格式错误
-  SYSTEM_ERROR = 'system_error'   // 系统错误
+  PARTIALLY_CORRECT = 'partially_correct', // 部分正确（检查器给出部分分）
+  SYSTEM_ERROR = 'system_error',   // 系统错误
+  DISALLOWED_SYSCALL = 'disallowed_syscall', // 非法系统调用（沙箱拦截）
+  PROCESS_LIMIT_EXCEEDED = 'process_limit_exceeded', // 进程数超限
+  SKIPPED = 'skipped'              // 未评测（子任务提前结束或依赖未通过）
 }
 
-// 编程语言枚举
+// 编程语言的语法类别（语言表中的 family），同一语法的不同版本（如 cpp14、cpp20）共用词法规则
 export enum Language {
   C = 'c',
   CPP = 'cpp',
@@ -23,14 +28,15 @@ export enum Language {
   PYTHON = 'python',
   JAVASCRIPT = 'javascript',
   GO = 'go',
-  RUST = 'rust'
+  RUST = 'rust',
+  KOTLIN = 'kotlin'
 }
 
 // 测试点结果接口
 export interface TestCaseResult {
   testCase: number           // 测试点编号
   status: SubmissionStatus   // 测试点状态
-  timeUsed: number          // 运行时间（毫秒）
+  timeUsed: number          // CPU运行时间（毫秒）
   memoryUsed: number        // 内存使用（KB）
   score: number             // 得分
   input?: string            // 输入数据（可选，用于调试）
@@ -39,6 +45,18 @@ export interface TestCaseResult {
   errorMessage?: string     // 错误信息（如果有）
 }
 
+// 子任务结果接口
+export interface SubtaskResult {
+  id: number                // 子任务编号
+  type: string              // 计分方式：min / sum / all
+  score: number             // 得分
+  maxScore: number          // 满分
+  status: SubmissionStatus  // 首个未通过测试点的状态
+  failedTestCase?: number   // 首个未通过的测试点编号
+  skipped: boolean          // 是否因依赖未通过而跳过
+  summary: string           // 摘要，如 "Subtask 2: 0/30 (TLE on #7)"
+}
+
 // 判题结果接口
 export interface JudgeResult {
   status: SubmissionStatus   // 最终状态
@@ -58,8 +76,10 @@ export interface SubmissionAttributes {
   userId: number            // 用户ID
   problemId: string         // 题目ID
   contestId?: number        // 比赛ID（可选）
-  language: Language        // 编程语言
-  code: string             // 源代码
+  isVirtual: boolean        // 是否为比赛结束后虚拟参赛的提交
+  language: string          // 编程语言（语言表中的标识，如 cpp20）
+  code: string             // 源代码（多文件提交时为主文件）
+  files?: SourceFile[] | null // 多文件提交中主文件以外的文件
   status: SubmissionStatus  // 提交状态
   result?: JudgeResult     // 判题结果
   isPublic: boolean        // 是否公开（其他用户可查看）
@@ -69,10 +89,12 @@ export interface SubmissionAttributes {
   judgedAt?: Date          // 判题完成时间
   judgeStartTime?: Date    // 判题开始时间
   judgeEndTime?: Date      // 判题结束时间
+  problemRevision?: number // 判题时的题目版本
   score?: number           // 得分
-  timeUsed?: number        // 运行时间
-  memoryUsed?: number      // 内存使用
+  timeUsed?: number        // CPU运行时间（毫秒）
+  memoryUsed?: number      // 峰值内存（KB）
   testCaseResults?: TestCaseResult[] // 测试用例结果
+  subtaskResults?: SubtaskResult[] // 子任务结果
   compileOutput?: string   // 编译输出
   errorMessage?: string    // 错误信息
   createdAt: Date
@@ -80,7 +102,7 @@ export interface SubmissionAttributes {
 }
 
 // 创建提交时的可选属性
-export interface SubmissionCreationAttributes extends Optional<SubmissionAttributes, 'id' | 'createdAt' | 'updatedAt' | 'judgedAt' | 'judgeStartTime' | 'judgeEndTime' | 'submittedAt'> {}
+export interface SubmissionCreationAttributes extends Optional<SubmissionAttributes, 'id' | 'isVirtual' | 'createdAt' | 'updatedAt' | 'judgedAt' | 'judgeStartTime' | 'judgeEndTime' | 'submittedAt'> {}
 
 // Submission模型类
 export class Submission extends Model<SubmissionAttributes, SubmissionCreationAttributes> implements SubmissionAttributes {
@@ -89,8 +111,10 @@ export class Submission extends Model<SubmissionAttributes, SubmissionCreationAt
   public userId!: number
   public problemId!: string
   public contestId?: number
-  public language!: Language
+  public isVirtual!: boolean
+  public language!: string
   public code!: string
+  public files?: SourceFile[] | null
   public status!: SubmissionStatus
   public result?: JudgeResult
   public isPublic!: boolean
@@ -100,10 +124,12 @@ export class Submission extends Model<SubmissionAttributes, SubmissionCreationAt
   public judgedAt?: Date
   public judgeStartTime?: Date
   public judgeEndTime?: Date
+  public problemRevision?: number
   public score?: number
   public timeUsed?: number
   public memoryUsed?: number
   public testCaseResults?: TestCaseResult[]
+  public subtaskResults?: SubtaskResult[]
   public compileOutput?: string
   public errorMessage?: string
   public readonly createdAt!: Date
@@ -264,8 +290,13 @@ Submission.init(
         key: 'id'
       }
     },
+    isVirtual: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
     language: {
-      type: DataTypes.ENUM(...Object.values(Language)),
+      type: DataTypes.STRING(20),
       allowNull: false
     },
     code: {
@@ -280,6 +311,10 @@ Submission.init(
       allowNull: false,
       defaultValue: SubmissionStatus.PENDING
     },
+    files: {
+      type: DataTypes.JSON,
+      allowNull: true
+    },
     result: {
       type: DataTypes.JSON,
       allowNull: true
@@ -314,6 +349,10 @@ Submission.init(
       type: DataTypes.DATE,
       allowNull: true
     },
+    problemRevision: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
     score: {
       type: DataTypes.INTEGER,
       allowNull: true,
@@ -340,6 +379,10 @@ Submission.init(
       type: DataTypes.JSON,
       allowNull: true
     },
+    subtaskResults: {
+      type: DataTypes.JSON,
+      allowNull: true
+    },
     compileOutput: {
       type: DataTypes.TEXT,
       allowNull: true
@@ -363,16 +406,16 @@ Submission.init(
     tableName: 'submissions',
     timestamps: true,
     indexes: [
-      { fields: ['submissionId'], unique: true },
-      { fields: ['userId'] },
-      { fields: ['problemId'] },
-      { fields: ['contestId'] },
+      { fields: ['submission_id'], unique: true },
+      { fields: ['user_id'] },
+      { fields: ['problem_id'] },
+      { fields: ['contest_id'] },
       { fields: ['status'] },
-      { fields: ['submittedAt'] },
-      { fields: ['userId', 'submittedAt'] },
-      { fields: ['problemId', 'status'] },
-      { fields: ['contestId', 'submittedAt'] },
-      { fields: ['status', 'submittedAt'] }
+      { fields: ['submitted_at'] },
+      { fields: ['user_id', 'submitted_at'] },
+      { fields: ['problem_id', 'status'] },
+      { fields: ['contest_id', 'submitted_at'] },
+      { fields: ['status', 'submitted_at'] }
     ],
     hooks: {
       beforeCreate: async (submission: Submission) => {
@@ -0,0 +1,243 @@
+import { DataTypes, Model, Optional, Op } from 'sequelize'
+import bcrypt from 'bcryptjs'
+import sequelize from '../database/mysql'
+
+// 用户角色枚举
+export enum UserRole {
+  STUDENT = 'student',
+  TEACHER = 'teacher',
+  ADMIN = 'admin'
+}
+
+// 用户状态枚举
+export enum UserStatus {
+  ACTIVE = 'active',
+  INACTIVE = 'inactive',
+  BANNED = 'banned'
+}
+
+// 密码哈希强度
+const SALT_ROUNDS = 12
+
+// 用户属性接口
+export interface UserAttributes {
+  id: number
+  username: string
+  email: string
+  password: string           // bcrypt 哈希
+  realName?: string
+  studentId?: string
+  class?: string
+  role: UserRole
+  status: UserStatus
+  avatar?: string
+  bio?: string
+  school?: string
+  grade?: string
+
+  // 统计信息
+  totalSubmissions: number
+  acceptedSubmissions: number
+  solvedProblems: number
+  rating: number
+  rank: number
+  contestsParticipated: number
+
+  // 设置
+  emailNotifications: boolean
+
+  // 时间戳
+  lastLoginAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// 创建用户时的可选属性
+export interface UserCreationAttributes extends Optional<UserAttributes, 'id' | 'role' | 'status' | 'totalSubmissions' | 'acceptedSubmissions' | 'solvedProblems' | 'rating' | 'rank' | 'contestsParticipated' | 'emailNotifications' | 'createdAt' | 'updatedAt'> {}
+
+// User模型类
+export class User extends Model<UserAttributes, UserCreationAttributes> implements UserAttributes {
+  public id!: number
+  public username!: string
+  public email!: string
+  public password!: string
+  public realName?: string
+  public studentId?: string
+  public class?: string
+  public role!: UserRole
+  public status!: UserStatus
+  public avatar?: string
+  public bio?: string
+  public school?: string
+  public grade?: string
+  public totalSubmissions!: number
+  public acceptedSubmissions!: number
+  public solvedProblems!: number
+  public rating!: number
+  public rank!: number
+  public contestsParticipated!: number
+  public emailNotifications!: boolean
+  public lastLoginAt?: Date
+  public readonly createdAt!: Date
+  public readonly updatedAt!: Date
+
+  // 验证密码
+  public async comparePassword(candidatePassword: string): Promise<boolean> {
+    return bcrypt.compare(candidatePassword, this.password)
+  }
+
+  // 序列化时不输出密码哈希
+  public toJSON(): object {
+    const { password, ...values } = this.get() as UserAttributes
+    return values
+  }
+
+  // 静态方法：哈希密码
+  public static async hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, SALT_ROUNDS)
+  }
+
+  // 静态方法：根据用户名查找用户
+  public static async findByUsername(username: string): Promise<User | null> {
+    return await User.findOne({ where: { username } })
+  }
+
+  // 静态方法：根据邮箱查找用户
+  public static async findByEmail(email: string): Promise<User | null> {
+    return await User.findOne({ where: { email } })
+  }
+
+  // 静态方法：根据用户名或邮箱查找用户
+  public static async findByUsernameOrEmail(identifier: string): Promise<User | null> {
+    return await User.findOne({
+      where: {
+        [Op.or]: [{ username: identifier }, { email: identifier }]
+      }
+    })
+  }
+}
+
+// 定义表结构
+User.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true
+    },
+    username: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true
+    },
+    email: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true
+    },
+    password: {
+      type: DataTypes.STRING(100),
+      allowNull: false
+    },
+    realName: {
+      type: DataTypes.STRING(50),
+      allowNull: true
+    },
+    studentId: {
+      type: DataTypes.STRING(50),
+      allowNull: true
+    },
+    class: {
+      type: DataTypes.STRING(50),
+      allowNull: true
+    },
+    role: {
+      type: DataTypes.ENUM(...Object.values(UserRole)),
+      allowNull: false,
+      defaultValue: UserRole.STUDENT
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(UserStatus)),
+      allowNull: false,
+      defaultValue: UserStatus.ACTIVE
+    },
+    avatar: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+    bio: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    school: {
+      type: DataTypes.STRING(100),
+      allowNull: true
+    },
+    grade: {
+      type: DataTypes.STRING(20),
+      allowNull: true
+    },
+    totalSubmissions: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    acceptedSubmissions: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    solvedProblems: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    rating: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1000
+    },
+    rank: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    contestsParticipated: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    emailNotifications: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+    lastLoginAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  },
+  {
+    sequelize,
+    modelName: 'User',
+    tableName: 'users',
+    timestamps: true,
+    indexes: [
+      { fields: ['username'], unique: true },
+      { fields: ['email'], unique: true },
+      { fields: ['student_id'] },
+      { fields: ['role'] },
+      { fields: ['rating'] }
+    ]
+  }
+)
+
+export default User
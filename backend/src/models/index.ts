@@ -1,6 +1,17 @@
 import { sequelize, connectMySQL, syncDatabase, closeMySQL } from '../database/mysql'
+import User from './UserMySQL'
 import Problem from './ProblemMySQL'
 import Submission from './SubmissionMySQL'
+import JudgeTask from './JudgeTaskMySQL'
+import JudgeLanguage from './JudgeLanguageMySQL'
+import Contest from './ContestMySQL'
+import ContestParticipant from './ContestParticipantMySQL'
+import RatingHistory from './RatingHistoryMySQL'
+import Clarification from './ClarificationMySQL'
+import Assignment from './AssignmentMySQL'
+import ProblemRevision from './ProblemRevisionMySQL'
+import PlagiarismCheck from './PlagiarismCheckMySQL'
+import PlagiarismPair from './PlagiarismPairMySQL'
 
 // 定义模型关联关系
 const defineAssociations = () => {
@@ -18,27 +29,145 @@ const defineAssociations = () => {
   })
   
   // User 和 Problem 的关联（作者）
-  // 注意：这里假设User模型也会迁移到MySQL，暂时注释
-  // User.hasMany(Problem, {
-  //   foreignKey: 'authorId',
-  //   as: 'authoredProblems'
-  // })
-  // 
-  // Problem.belongsTo(User, {
-  //   foreignKey: 'authorId',
-  //   as: 'author'
-  // })
+  User.hasMany(Problem, {
+    foreignKey: 'authorId',
+    as: 'authoredProblems'
+  })
+  
+  Problem.belongsTo(User, {
+    foreignKey: 'authorId',
+    as: 'author'
+  })
   
   // User 和 Submission 的关联
-  // User.hasMany(Submission, {
-  //   foreignKey: 'userId',
-  //   as: 'submissions'
-  // })
-  // 
-  // Submission.belongsTo(User, {
-  //   foreignKey: 'userId',
-  //   as: 'user'
-  // })
+  User.hasMany(Submission, {
+    foreignKey: 'userId',
+    as: 'submissions'
+  })
+  
+  Submission.belongsTo(User, {
+    foreignKey: 'userId',
+    as: 'user'
+  })
+  
+  // User 和 Contest 的关联（创建者）
+  Contest.belongsTo(User, {
+    foreignKey: 'createdBy',
+    as: 'creator'
+  })
+  
+  // Contest 和报名记录的关联
+  Contest.hasMany(ContestParticipant, {
+    foreignKey: 'contestId',
+    as: 'participants'
+  })
+  
+  ContestParticipant.belongsTo(Contest, {
+    foreignKey: 'contestId',
+    as: 'contest'
+  })
+  
+  ContestParticipant.belongsTo(User, {
+    foreignKey: 'userId',
+    as: 'user'
+  })
+  
+  // Contest 和 Submission 的关联
+  Contest.hasMany(Submission, {
+    foreignKey: 'contestId',
+    as: 'submissions'
+  })
+  
+  Submission.belongsTo(Contest, {
+    foreignKey: 'contestId',
+    as: 'contest'
+  })
+  
+  // 积分记录的关联
+  User.hasMany(RatingHistory, {
+    foreignKey: 'userId',
+    as: 'ratingHistory'
+  })
+  
+  RatingHistory.belongsTo(User, {
+    foreignKey: 'userId',
+    as: 'user'
+  })
+  
+  RatingHistory.belongsTo(Contest, {
+    foreignKey: 'contestId',
+    as: 'contest'
+  })
+  
+  // 比赛答疑的关联
+  Contest.hasMany(Clarification, {
+    foreignKey: 'contestId',
+    as: 'clarifications'
+  })
+  
+  Clarification.belongsTo(Contest, {
+    foreignKey: 'contestId',
+    as: 'contest'
+  })
+  
+  Clarification.belongsTo(User, {
+    foreignKey: 'userId',
+    as: 'user'
+  })
+  
+  Clarification.belongsTo(User, {
+    foreignKey: 'answeredBy',
+    as: 'answerer'
+  })
+  
+  // 作业的关联（创建者）
+  Assignment.belongsTo(User, {
+    foreignKey: 'createdBy',
+    as: 'creator'
+  })
+  
+  // 题目版本的关联
+  Problem.hasMany(ProblemRevision, {
+    foreignKey: 'problemId',
+    sourceKey: 'problemId',
+    as: 'revisions'
+  })
+  
+  ProblemRevision.belongsTo(User, {
+    foreignKey: 'authorId',
+    as: 'author'
+  })
+  
+  // 查重任务与代码对的关联
+  PlagiarismCheck.belongsTo(User, {
+    foreignKey: 'createdBy',
+    as: 'creator'
+  })
+  
+  PlagiarismCheck.hasMany(PlagiarismPair, {
+    foreignKey: 'checkId',
+    as: 'pairs'
+  })
+  
+  PlagiarismPair.belongsTo(PlagiarismCheck, {
+    foreignKey: 'checkId',
+    as: 'check'
+  })
+  
+  PlagiarismPair.belongsTo(User, {
+    foreignKey: 'leftUserId',
+    as: 'leftUser'
+  })
+  
+  PlagiarismPair.belongsTo(User, {
+    foreignKey: 'rightUserId',
+    as: 'rightUser'
+  })
+  
+  PlagiarismPair.belongsTo(User, {
+    foreignKey: 'reviewedBy',
+    as: 'reviewer'
+  })
 }
 
 // 初始化数据库
@@ -59,9 +188,8 @@ export const initializeDatabase = async () => {
   } catch (error) {
     console.error('❌ MySQL数据库初始化失败:', error)
     console.log('⚠️  MySQL连接失败，请确保MySQL服务正在运行或配置正确')
-    console.log('💡 提示：可以安装并启动MySQL服务，或者暂时使用SQLite数据库')
-    // 不抛出错误，让应用继续运行
-    return
+    // 用户、题目与提交数据都在MySQL中，无法继续运行
+    throw error
   }
 }
 
@@ -73,8 +201,19 @@ export const closeDatabaseConnection = async () => {
 // 导出模型
 export {
   sequelize,
+  User,
   Problem,
-  Submission
+  Submission,
+  JudgeTask,
+  JudgeLanguage,
+  Contest,
+  ContestParticipant,
+  RatingHistory,
+  Clarification,
+  Assignment,
+  ProblemRevision,
+  PlagiarismCheck,
+  PlagiarismPair
 }
 
 // 导出数据库操作函数
@@ -2,6 +2,7 @@ import { Router } from 'express'
 import {
   getDashboardStats,
   getSystemInfo,
+  getJudgeWorkers,
   getSystemSettings,
   updateSystemSettings,
   getProblemManagement,
@@ -14,9 +15,10 @@ import {
   backupDatabase,
   restoreDatabase
 } from '../controllers/adminMySQL'
-import { adminOnly, teacherOrAdmin } from '../middleware/auth'
+import { auth, adminOnly, teacherOrAdmin } from '../middleware/auth'
 import { validate, customValidators } from '../middleware/validate'
 import { body, query, param } from 'express-validator'
+import { isRegisteredLanguage } from '../utils/languageRegistry'
 import multer from 'multer'
 
 const router = Router()
@@ -33,7 +35,10 @@ const upload = multer({
 router.get('/dashboard', adminOnly, getDashboardStats)
 
 // 获取系统信息
-router.get('/system/info', adminOnly, getSystemInfo)
+router.get('/system/info', auth, adminOnly, getSystemInfo)
+
+// 获取判题机与判题队列状态
+router.get('/judge/workers', auth, adminOnly, getJudgeWorkers)
 
 // 获取系统设置
 router.get('/system/settings', adminOnly, getSystemSettings)
@@ -166,11 +171,11 @@ router.get(
       .withMessage('每页数量必须在1-100之间'),
     query('status')
       .optional()
-      .isIn(['pending', 'judging', 'accepted', 'wrong_answer', 'time_limit_exceeded', 'memory_limit_exceeded', 'runtime_error', 'compile_error', 'system_error'])
+      .isIn(['pending', 'judging', 'accepted', 'wrong_answer', 'time_limit_exceeded', 'memory_limit_exceeded', 'runtime_error', 'compile_error', 'system_error', 'presentation_error', 'partially_correct', 'disallowed_syscall', 'process_limit_exceeded'])
       .withMessage('提交状态不正确'),
     query('language')
       .optional()
-      .isIn(['c', 'cpp', 'java', 'python', 'javascript', 'go', 'rust'])
+      .custom(isRegisteredLanguage)
       .withMessage('编程语言不正确'),
     query('problemId')
       .optional()
@@ -204,14 +209,15 @@ router.get(
 // 重新判题
 router.post(
   '/submissions/rejudge',
+  auth,
   adminOnly,
   [
     body('submissionIds')
       .isArray({ min: 1 })
       .withMessage('提交ID列表不能为空'),
     body('submissionIds.*')
-      .isInt({ min: 1 })
-      .withMessage('提交ID必须是正整数')
+      .matches(/^S\d{6,}$/)
+      .withMessage('提交ID格式不正确')
   ],
   validate,
   rejudgeSubmissions
@@ -240,7 +246,7 @@ router.get(
 )
 
 // 清除缓存
-router.post('/cache/clear', adminOnly, clearCache)
+router.post('/cache/clear', auth, adminOnly, clearCache)
 
 // 数据库备份
 router.post('/database/backup', adminOnly, backupDatabase)
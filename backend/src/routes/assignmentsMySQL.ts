@@ -0,0 +1,162 @@
+import { Router } from 'express'
+import {
+  getAssignments,
+  getAssignmentClasses,
+  getAssignmentById,
+  createAssignment,
+  updateAssignment,
+  deleteAssignment,
+  getCompletionMatrix,
+  exportCompletionMatrix
+} from '../controllers/assignmentsMySQL'
+import { auth, teacherOrAdmin } from '../middleware/auth'
+import { validate } from '../middleware/validate'
+import { body, query, param } from 'express-validator'
+
+const router = Router()
+
+// 作业ID校验
+const assignmentIdParam = param('assignmentId')
+  .isInt({ min: 1 })
+  .withMessage('作业ID必须是正整数')
+
+// 布置与更新作业共用的字段校验（布置时必填字段另行校验）
+const assignmentFields = [
+  body('title')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('作业标题长度必须在1-200字符之间'),
+  body('description')
+    .optional({ nullable: true })
+    .isLength({ max: 50000 })
+    .withMessage('作业说明不能超过50000个字符'),
+  body('problems')
+    .optional()
+    .isArray({ min: 1, max: 100 })
+    .withMessage('作业题目数量必须在1-100之间'),
+  body('problems.*')
+    .matches(/^P\d{4,}$/)
+    .withMessage('题目ID格式不正确'),
+  body('classes')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('至少选择一个班级'),
+  body('classes.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('班级名称格式不正确'),
+  body('startTime')
+    .optional()
+    .isISO8601()
+    .withMessage('布置时间格式不正确'),
+  body('deadline')
+    .optional()
+    .isISO8601()
+    .withMessage('截止时间格式不正确'),
+  body('latePenalty')
+    .optional({ nullable: true })
+    .isInt({ min: 0, max: 100 })
+    .withMessage('逾期扣分比例必须在0-100之间')
+]
+
+// 获取作业列表
+router.get(
+  '/',
+  auth,
+  [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('页码必须是正整数'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('每页数量必须在1-100之间'),
+    query('search')
+      .optional()
+      .isLength({ max: 100 })
+      .withMessage('搜索关键词不能超过100个字符')
+  ],
+  validate,
+  getAssignments
+)
+
+// 获取可布置作业的班级（需要教师或管理员权限）
+router.get('/classes', auth, teacherOrAdmin, getAssignmentClasses)
+
+// 布置作业（需要教师或管理员权限）
+router.post(
+  '/',
+  auth,
+  teacherOrAdmin,
+  [
+    body('title')
+      .exists()
+      .withMessage('作业标题不能为空'),
+    body('problems')
+      .exists()
+      .withMessage('作业题目不能为空'),
+    body('classes')
+      .exists()
+      .withMessage('布置班级不能为空'),
+    body('deadline')
+      .exists()
+      .withMessage('截止时间不能为空'),
+    ...assignmentFields
+  ],
+  validate,
+  createAssignment
+)
+
+// 获取作业详情
+router.get(
+  '/:assignmentId',
+  auth,
+  [assignmentIdParam],
+  validate,
+  getAssignmentById
+)
+
+// 更新作业（作业布置者或管理员）
+router.put(
+  '/:assignmentId',
+  auth,
+  teacherOrAdmin,
+  [assignmentIdParam, ...assignmentFields],
+  validate,
+  updateAssignment
+)
+
+// 删除作业（作业布置者或管理员）
+router.delete(
+  '/:assignmentId',
+  auth,
+  teacherOrAdmin,
+  [assignmentIdParam],
+  validate,
+  deleteAssignment
+)
+
+// 获取作业完成情况（作业布置者或管理员）
+router.get(
+  '/:assignmentId/matrix',
+  auth,
+  teacherOrAdmin,
+  [assignmentIdParam],
+  validate,
+  getCompletionMatrix
+)
+
+// 导出作业完成情况CSV（作业布置者或管理员）
+router.get(
+  '/:assignmentId/matrix/export',
+  auth,
+  teacherOrAdmin,
+  [assignmentIdParam],
+  validate,
+  exportCompletionMatrix
+)
+
+export default router
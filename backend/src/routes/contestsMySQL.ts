@@ -0,0 +1,482 @@
+import { Router } from 'express'
+import {
+  getContests,
+  getContestById,
+  createContest,
+  updateContest,
+  deleteContest,
+  joinContest,
+  leaveContest,
+  getContestRanking,
+  getContestProblems,
+  getContestSubmissions,
+  getContestStatistics,
+  updateContestStatus,
+  freezeRanking,
+  unfreezeRanking,
+  getResolver,
+  resolveNext,
+  startVirtualContest,
+  getVirtualRanking,
+  finalizeRating,
+  unrateContestRating,
+  getClarifications,
+  askClarification,
+  answerClarification,
+  broadcastClarification
+} from '../controllers/contestsMySQL'
+import { auth, optionalAuth, teacherOrAdmin, adminOnly } from '../middleware/auth'
+import { validate } from '../middleware/validate'
+import { body, query, param } from 'express-validator'
+import { isRegisteredLanguage } from '../utils/languageRegistry'
+
+const router = Router()
+
+// 比赛ID校验
+const contestIdParam = param('contestId')
+  .isInt({ min: 1 })
+  .withMessage('比赛ID必须是正整数')
+
+// 分页参数校验
+const paginationQuery = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('页码必须是正整数'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('每页数量必须在1-100之间')
+]
+
+// 比赛题目校验：题目ID或 {problemId, label, score}
+const isContestProblem = (value: any) => {
+  const problemId = typeof value === 'string' ? value : value?.problemId
+  if (typeof problemId !== 'string' || !/^P\d{4,}$/.test(problemId)) {
+    throw new Error('题目ID格式不正确')
+  }
+  if (typeof value === 'object' && value.label !== undefined && !/^[A-Z]{1,3}$/.test(value.label)) {
+    throw new Error('题号必须是1-3个大写字母')
+  }
+  if (typeof value === 'object' && value.score !== undefined && !(Number(value.score) >= 0)) {
+    throw new Error('题目分值必须是非负数')
+  }
+  return true
+}
+
+// 创建与更新比赛共用的字段校验（创建时必填字段另行校验）
+const contestFields = [
+  body('title')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('比赛标题长度必须在1-200字符之间'),
+  body('description')
+    .optional()
+    .isLength({ min: 1, max: 50000 })
+    .withMessage('比赛描述长度必须在1-50000字符之间'),
+  body('type')
+    .optional()
+    .isIn(['public', 'private', 'official', 'practice'])
+    .withMessage('比赛类型无效'),
+  body('rule')
+    .optional()
+    .isIn(['acm', 'oi', 'ioi'])
+    .withMessage('比赛赛制必须是acm、oi或ioi'),
+  body('startTime')
+    .optional()
+    .isISO8601()
+    .withMessage('开始时间格式不正确'),
+  body('duration')
+    .optional()
+    .isInt({ min: 1, max: 60 * 24 * 30 })
+    .withMessage('比赛时长必须在1分钟到30天之间'),
+  body('maxParticipants')
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage('最大报名人数必须是正整数'),
+  body('password')
+    .optional({ nullable: true })
+    .isLength({ max: 100 })
+    .withMessage('比赛密码不能超过100个字符'),
+  body('isPublic')
+    .optional()
+    .isBoolean()
+    .withMessage('公开状态必须是布尔值'),
+  body('allowedLanguages')
+    .optional()
+    .isArray()
+    .withMessage('允许的语言必须是数组'),
+  body('allowedLanguages.*')
+    .custom(isRegisteredLanguage)
+    .withMessage('编程语言不支持'),
+  body('problems')
+    .optional()
+    .isArray({ min: 1, max: 26 * 4 })
+    .withMessage('比赛题目数量必须在1-104之间'),
+  body('problems.*')
+    .custom(isContestProblem),
+  body('prizes')
+    .optional()
+    .isArray()
+    .withMessage('奖项必须是数组'),
+  body('tags')
+    .optional()
+    .isArray()
+    .withMessage('标签必须是数组'),
+  body('freezeTime')
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage('封榜时间格式不正确'),
+  body('isRated')
+    .optional()
+    .isBoolean()
+    .withMessage('计分状态必须是布尔值')
+]
+
+// 获取比赛列表
+router.get(
+  '/',
+  optionalAuth,
+  [
+    ...paginationQuery,
+    query('status')
+      .optional()
+      .isIn(['upcoming', 'running', 'ended', 'cancelled'])
+      .withMessage('比赛状态无效'),
+    query('type')
+      .optional()
+      .isIn(['public', 'private', 'official', 'practice'])
+      .withMessage('比赛类型无效'),
+    query('search')
+      .optional()
+      .isLength({ max: 100 })
+      .withMessage('搜索关键词不能超过100个字符'),
+    query('sortBy')
+      .optional()
+      .isIn(['startTime', 'endTime', 'createdAt', 'title'])
+      .withMessage('排序字段无效'),
+    query('sortOrder')
+      .optional()
+      .isIn(['asc', 'desc'])
+      .withMessage('排序方向必须是asc或desc')
+  ],
+  validate,
+  getContests
+)
+
+// 创建比赛（需要教师或管理员权限）
+router.post(
+  '/',
+  auth,
+  teacherOrAdmin,
+  [
+    body('title')
+      .exists()
+      .withMessage('比赛标题不能为空'),
+    body('description')
+      .exists()
+      .withMessage('比赛描述不能为空'),
+    body('rule')
+      .exists()
+      .withMessage('比赛赛制不能为空'),
+    body('startTime')
+      .exists()
+      .withMessage('开始时间不能为空'),
+    body('duration')
+      .exists()
+      .withMessage('比赛时长不能为空'),
+    body('problems')
+      .exists()
+      .withMessage('比赛题目不能为空'),
+    ...contestFields
+  ],
+  validate,
+  createContest
+)
+
+// 获取比赛详情
+router.get(
+  '/:contestId',
+  optionalAuth,
+  [contestIdParam],
+  validate,
+  getContestById
+)
+
+// 更新比赛（比赛创建者或管理员）
+router.put(
+  '/:contestId',
+  auth,
+  teacherOrAdmin,
+  [contestIdParam, ...contestFields],
+  validate,
+  updateContest
+)
+
+// 删除比赛（比赛创建者或管理员）
+router.delete(
+  '/:contestId',
+  auth,
+  teacherOrAdmin,
+  [contestIdParam],
+  validate,
+  deleteContest
+)
+
+// 报名比赛
+router.post(
+  '/:contestId/join',
+  auth,
+  [
+    contestIdParam,
+    body('password')
+      .optional()
+      .isString()
+      .withMessage('比赛密码格式不正确')
+  ],
+  validate,
+  joinContest
+)
+
+// 开始虚拟参赛（仅限已结束的比赛）
+router.post(
+  '/:contestId/virtual',
+  auth,
+  [
+    contestIdParam,
+    body('password')
+      .optional()
+      .isString()
+      .withMessage('比赛密码格式不正确')
+  ],
+  validate,
+  startVirtualContest
+)
+
+// 获取虚拟参赛排行榜
+router.get(
+  '/:contestId/virtual/ranking',
+  auth,
+  [contestIdParam],
+  validate,
+  getVirtualRanking
+)
+
+// 退出比赛
+router.post(
+  '/:contestId/leave',
+  auth,
+  [contestIdParam],
+  validate,
+  leaveContest
+)
+
+// 获取比赛排行榜
+router.get(
+  '/:contestId/ranking',
+  optionalAuth,
+  [contestIdParam, ...paginationQuery],
+  validate,
+  getContestRanking
+)
+
+// 获取比赛题目列表
+router.get(
+  '/:contestId/problems',
+  optionalAuth,
+  [contestIdParam],
+  validate,
+  getContestProblems
+)
+
+// 获取比赛提交记录
+router.get(
+  '/:contestId/submissions',
+  optionalAuth,
+  [
+    contestIdParam,
+    ...paginationQuery,
+    query('problemId')
+      .optional()
+      .matches(/^P\d{4,}$/)
+      .withMessage('题目ID格式不正确'),
+    query('userId')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('用户ID必须是正整数'),
+    query('status')
+      .optional()
+      .isIn(['pending', 'judging', 'accepted', 'wrong_answer', 'time_limit_exceeded', 'memory_limit_exceeded', 'runtime_error', 'compile_error', 'system_error', 'presentation_error', 'partially_correct', 'disallowed_syscall', 'process_limit_exceeded'])
+      .withMessage('提交状态无效'),
+    query('language')
+      .optional()
+      .custom(isRegisteredLanguage)
+      .withMessage('编程语言无效')
+  ],
+  validate,
+  getContestSubmissions
+)
+
+// 获取比赛统计信息
+router.get(
+  '/:contestId/statistics',
+  optionalAuth,
+  [contestIdParam],
+  validate,
+  getContestStatistics
+)
+
+// 更新比赛状态（比赛创建者或管理员）
+router.patch(
+  '/:contestId/status',
+  auth,
+  teacherOrAdmin,
+  [
+    contestIdParam,
+    body('status')
+      .isIn(['upcoming', 'running', 'ended', 'cancelled'])
+      .withMessage('比赛状态无效')
+  ],
+  validate,
+  updateContestStatus
+)
+
+// 立即封榜（比赛创建者或管理员）
+router.post(
+  '/:contestId/freeze',
+  auth,
+  teacherOrAdmin,
+  [contestIdParam],
+  validate,
+  freezeRanking
+)
+
+// 一次性解除封榜（比赛创建者或管理员）
+router.post(
+  '/:contestId/unfreeze',
+  auth,
+  teacherOrAdmin,
+  [contestIdParam],
+  validate,
+  unfreezeRanking
+)
+
+// 获取揭晓前的封榜排行榜（比赛创建者或管理员）
+router.get(
+  '/:contestId/resolver',
+  auth,
+  teacherOrAdmin,
+  [contestIdParam],
+  validate,
+  getResolver
+)
+
+// 揭晓下一个待揭晓单元格（比赛创建者或管理员）
+router.post(
+  '/:contestId/resolve',
+  auth,
+  teacherOrAdmin,
+  [contestIdParam],
+  validate,
+  resolveNext
+)
+
+// 获取比赛答疑列表
+router.get(
+  '/:contestId/clarifications',
+  optionalAuth,
+  [
+    contestIdParam,
+    query('problemLabel')
+      .optional()
+      .matches(/^[A-Z]{1,3}$/)
+      .withMessage('题号格式不正确')
+  ],
+  validate,
+  getClarifications
+)
+
+// 提交答疑问题
+router.post(
+  '/:contestId/clarifications',
+  auth,
+  [
+    contestIdParam,
+    body('problemLabel')
+      .optional({ nullable: true })
+      .matches(/^[A-Z]{1,3}$/)
+      .withMessage('题号格式不正确'),
+    body('question')
+      .trim()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage('问题内容长度必须在1-2000字符之间')
+  ],
+  validate,
+  askClarification
+)
+
+// 发布比赛公告（比赛创建者或管理员）
+router.post(
+  '/:contestId/clarifications/broadcast',
+  auth,
+  teacherOrAdmin,
+  [
+    contestIdParam,
+    body('problemLabel')
+      .optional({ nullable: true })
+      .matches(/^[A-Z]{1,3}$/)
+      .withMessage('题号格式不正确'),
+    body('content')
+      .trim()
+      .isLength({ min: 1, max: 5000 })
+      .withMessage('公告内容长度必须在1-5000字符之间')
+  ],
+  validate,
+  broadcastClarification
+)
+
+// 回复答疑（比赛创建者或管理员）
+router.post(
+  '/:contestId/clarifications/:clarificationId/answer',
+  auth,
+  teacherOrAdmin,
+  [
+    contestIdParam,
+    param('clarificationId')
+      .isInt({ min: 1 })
+      .withMessage('答疑ID必须是正整数'),
+    body('answer')
+      .trim()
+      .isLength({ min: 1, max: 5000 })
+      .withMessage('回复内容长度必须在1-5000字符之间'),
+    body('isPublic')
+      .optional()
+      .isBoolean()
+      .withMessage('公开状态必须是布尔值')
+  ],
+  validate,
+  answerClarification
+)
+
+// 计算比赛积分（仅限管理员）
+router.post(
+  '/:contestId/finalize',
+  auth,
+  adminOnly,
+  [contestIdParam],
+  validate,
+  finalizeRating
+)
+
+// 取消比赛计分并回滚积分（仅限管理员）
+router.post(
+  '/:contestId/unrate',
+  auth,
+  adminOnly,
+  [contestIdParam],
+  validate,
+  unrateContestRating
+)
+
+export default router
@@ -0,0 +1,127 @@
+import { Router } from 'express'
+import {
+  registerWorker,
+  unregisterWorker,
+  pollTask,
+  workerHeartbeat,
+  downloadTestData,
+  reportProgress,
+  completeTask,
+  failTask
+} from '../controllers/judgeWorkers'
+import { workerAuth } from '../middleware/auth'
+import { validate } from '../middleware/validate'
+import { body, param } from 'express-validator'
+import { isRegisteredLanguage } from '../utils/languageRegistry'
+
+const router = Router()
+
+// 所有接口仅供远程判题机调用
+router.use(workerAuth)
+
+// 判题机ID验证
+const workerIdValidation = [
+  param('workerId')
+    .matches(/^[0-9a-f]{16}$/)
+    .withMessage('判题机ID格式不正确')
+]
+
+// 任务ID验证
+const taskIdValidation = [
+  param('taskId')
+    .isLength({ min: 1, max: 64 })
+    .withMessage('任务ID格式不正确')
+]
+
+// 判题机状态验证
+const workerStatusValidation = [
+  body('running')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('运行中任务数必须是非负整数'),
+  body('load')
+    .optional()
+    .isArray({ max: 3 })
+    .withMessage('系统负载必须是数组')
+]
+
+// 注册判题机
+router.post('/workers/register', [
+  body('name')
+    .isLength({ min: 1, max: 64 })
+    .withMessage('判题机名称长度必须在1-64字符之间'),
+  body('hostname')
+    .optional()
+    .isLength({ max: 255 })
+    .withMessage('主机名不能超过255字符'),
+  body('version')
+    .optional()
+    .isLength({ max: 32 })
+    .withMessage('版本号不能超过32字符'),
+  body('languages')
+    .isArray({ min: 1 })
+    .withMessage('至少需要支持一种语言'),
+  body('languages.*')
+    .custom(isRegisteredLanguage)
+    .withMessage('不支持的编程语言'),
+  body('concurrency')
+    .isInt({ min: 1, max: 64 })
+    .withMessage('并发数必须在1-64之间')
+], validate, registerWorker)
+
+// 注销判题机
+router.delete('/workers/:workerId', workerIdValidation, validate, unregisterWorker)
+
+// 长轮询领取任务
+router.post('/workers/:workerId/poll', [...workerIdValidation, ...workerStatusValidation], validate, pollTask)
+
+// 心跳（续期租约、上报负载）
+router.post('/workers/:workerId/heartbeat', [...workerIdValidation, ...workerStatusValidation], validate, workerHeartbeat)
+
+// 上报测试点结果
+router.post('/workers/:workerId/tasks/:taskId/progress', [
+  ...workerIdValidation,
+  ...taskIdValidation,
+  body('result')
+    .isObject()
+    .withMessage('测试点结果必须是对象'),
+  body('completed')
+    .isInt({ min: 1 })
+    .withMessage('已完成测试点数必须是正整数'),
+  body('total')
+    .isInt({ min: 1 })
+    .withMessage('测试点总数必须是正整数')
+], validate, reportProgress)
+
+// 提交判题结果
+router.post('/workers/:workerId/tasks/:taskId/complete', [
+  ...workerIdValidation,
+  ...taskIdValidation,
+  body('result')
+    .isObject()
+    .withMessage('判题结果必须是对象'),
+  body('result.status')
+    .isString()
+    .withMessage('判题状态不能为空'),
+  body('result.testCases')
+    .isArray()
+    .withMessage('测试点结果必须是数组')
+], validate, completeTask)
+
+// 上报判题失败
+router.post('/workers/:workerId/tasks/:taskId/fail', [
+  ...workerIdValidation,
+  ...taskIdValidation,
+  body('message')
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('失败原因长度必须在1-2000字符之间')
+], validate, failTask)
+
+// 按哈希下载测试数据
+router.get('/data/:hash', [
+  param('hash')
+    .matches(/^[0-9a-f]{64}$/)
+    .withMessage('数据哈希格式不正确')
+], validate, downloadTestData)
+
+export default router
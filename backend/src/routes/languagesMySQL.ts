@@ -0,0 +1,107 @@
+import { Router } from 'express'
+import {
+  getLanguages,
+  getAllLanguages,
+  createLanguage,
+  updateLanguage
+} from '../controllers/languagesMySQL'
+import { auth, adminOnly } from '../middleware/auth'
+import { validate } from '../middleware/validate'
+import { body, param } from 'express-validator'
+import { Language } from '../models/SubmissionMySQL'
+import { seccompProfiles } from '../utils/sandbox'
+
+const router = Router()
+
+// 语言字段验证，修改时所有字段均可省略
+const languageValidation = (isUpdate: boolean) => {
+  const required = (field: string) => isUpdate ? body(field).optional() : body(field)
+  return [
+    required('name')
+      .isString()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('语言名称长度必须在1-50字符之间'),
+    required('family')
+      .isIn(Object.values(Language))
+      .withMessage('语法类别无效'),
+    required('extension')
+      .matches(/^\.[A-Za-z0-9]{1,9}$/)
+      .withMessage('源文件扩展名格式不正确'),
+    required('runCommand')
+      .isString()
+      .isLength({ min: 1, max: 500 })
+      .withMessage('运行命令长度必须在1-500字符之间'),
+    body('compileCommand')
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('编译命令不能超过500字符'),
+    body('executable')
+      .optional({ nullable: true })
+      .matches(/^(?:[\w.-]|\{classname\}){1,100}$/)
+      .withMessage('编译产物文件名格式不正确'),
+    body('detectClassName')
+      .optional()
+      .isBoolean()
+      .withMessage('识别类名必须是布尔值'),
+    body('version')
+      .optional()
+      .isString()
+      .isLength({ max: 100 })
+      .withMessage('版本说明不能超过100字符'),
+    body(['timeMultiplier', 'memoryMultiplier'])
+      .optional()
+      .isFloat({ min: 0.1, max: 10 })
+      .withMessage('时间/内存倍率必须在0.1-10之间'),
+    body('seccompProfile')
+      .optional()
+      .isIn(Object.keys(seccompProfiles))
+      .withMessage('系统调用白名单无效'),
+    body('processLimit')
+      .optional({ nullable: true })
+      .isInt({ min: 1, max: 256 })
+      .withMessage('进程数限制必须在1-256之间'),
+    body('enabled')
+      .optional()
+      .isBoolean()
+      .withMessage('启用状态必须是布尔值')
+  ]
+}
+
+// 获取可提交的语言列表
+router.get('/', getLanguages)
+
+// 以下接口仅管理员可用
+router.get('/all', auth, adminOnly, getAllLanguages)
+
+// 添加语言
+router.post(
+  '/',
+  auth,
+  adminOnly,
+  [
+    body('languageId')
+      .matches(/^[a-z][a-z0-9_]{0,19}$/)
+      .withMessage('语言标识只能包含小写字母、数字和下划线，且以字母开头，最多20个字符'),
+    ...languageValidation(false)
+  ],
+  validate,
+  createLanguage
+)
+
+// 修改语言（不提供删除，停用即可）
+router.put(
+  '/:languageId',
+  auth,
+  adminOnly,
+  [
+    param('languageId')
+      .matches(/^[a-z][a-z0-9_]{0,19}$/)
+      .withMessage('语言标识格式不正确'),
+    ...languageValidation(true)
+  ],
+  validate,
+  updateLanguage
+)
+
+export default router
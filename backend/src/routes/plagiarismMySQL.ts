@@ -0,0 +1,106 @@
+import { Router } from 'express'
+import {
+  createCheck,
+  getChecks,
+  getCheck,
+  getPair,
+  reviewPair
+} from '../controllers/plagiarismMySQL'
+import { auth, teacherOrAdmin } from '../middleware/auth'
+import { validate } from '../middleware/validate'
+import { body, query, param } from 'express-validator'
+import { PlagiarismScope } from '../models/PlagiarismCheckMySQL'
+import { PlagiarismPairStatus } from '../models/PlagiarismPairMySQL'
+
+const router = Router()
+
+// 查重功能只对教师和管理员开放
+router.use(auth, teacherOrAdmin)
+
+const paginationValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('页码必须是正整数'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('每页数量必须是1-100之间的整数')
+]
+
+// 发起查重
+router.post(
+  '/checks',
+  [
+    body('scope')
+      .isIn(Object.values(PlagiarismScope))
+      .withMessage('查重范围必须是题目、比赛或作业'),
+    body('scopeId')
+      .notEmpty()
+      .withMessage('请指定查重的题目、比赛或作业'),
+    body('minSimilarity')
+      .optional()
+      .isInt({ min: 0, max: 100 })
+      .withMessage('相似度阈值必须在0-100之间')
+  ],
+  validate,
+  createCheck
+)
+
+// 获取查重任务列表
+router.get(
+  '/checks',
+  [
+    ...paginationValidation,
+    query('scope')
+      .optional()
+      .isIn(Object.values(PlagiarismScope))
+      .withMessage('查重范围无效')
+  ],
+  validate,
+  getChecks
+)
+
+// 获取查重结果
+router.get(
+  '/checks/:checkId',
+  [
+    param('checkId')
+      .isInt({ min: 1 })
+      .withMessage('查重任务ID必须是正整数'),
+    ...paginationValidation,
+    query('status')
+      .optional()
+      .isIn(Object.values(PlagiarismPairStatus))
+      .withMessage('审核状态无效')
+  ],
+  validate,
+  getCheck
+)
+
+const pairIdParam = param('pairId')
+  .isInt({ min: 1 })
+  .withMessage('代码对ID必须是正整数')
+
+// 获取代码对详情
+router.get('/pairs/:pairId', [pairIdParam], validate, getPair)
+
+// 审核代码对
+router.patch(
+  '/pairs/:pairId',
+  [
+    pairIdParam,
+    body('status')
+      .isIn(Object.values(PlagiarismPairStatus))
+      .withMessage('审核状态无效'),
+    body('note')
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('备注最多500个字符')
+  ],
+  validate,
+  reviewPair
+)
+
+export default router
@@ -11,10 +11,27 @@ import {
   searchProblems,
   getProblemTags,
   updateProblemStatus,
-  cloneProblem
+  cloneProblem,
+  updateProblemChecker,
+  updateProblemInteractor,
+  updateProblemGrader,
+  uploadTestData,
+  getTestData,
+  downloadTestData,
+  downloadTestDataFile,
+  importProblems,
+  exportProblems,
+  exportProblem,
+  getProblemRevisions,
+  getProblemRevision,
+  restoreProblem
 } from '../controllers/problemsMySQL'
 import { auth, teacherOrAdmin, adminOnly, optionalAuth } from '../middleware/auth'
 import { validate } from '../middleware/validate'
+import { uploadChecker, uploadInteractor, uploadProblemFiles } from '../utils/upload'
+import { isRegisteredLanguage } from '../utils/languageRegistry'
+import { isValidFileName } from '../utils/sourceFiles'
+import { Language } from '../models/SubmissionMySQL'
 
 const router = express.Router()
 
@@ -66,10 +83,68 @@ const getProblemsValidation = [
     .withMessage('搜索关键词最多100个字符')
 ]
 
+const checkerTypes = ['exact', 'tokens', 'lines', 'float', 'case-insensitive', 'custom']
+
+const checkerValidation = [
+  body('checker')
+    .optional()
+    .isObject()
+    .withMessage('检查器配置必须是对象'),
+
+  body('checker.type')
+    .optional()
+    .isIn(checkerTypes)
+    .withMessage('检查器类型无效'),
+
+  body('checker.absoluteEpsilon')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('绝对误差必须是非负数'),
+
+  body('checker.relativeEpsilon')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('相对误差必须是非负数'),
+
+  body('checker.source')
+    .optional()
+    .isString()
+    .isLength({ max: 1024 * 1024 })
+    .withMessage('检查器源代码最多1MB')
+]
+
+const subtaskValidation = [
+  body('subtasks')
+    .optional()
+    .isArray()
+    .withMessage('子任务必须是数组'),
+
+  body('subtasks.*.id')
+    .isInt({ min: 1 })
+    .withMessage('子任务编号必须是正整数'),
+
+  body('subtasks.*.score')
+    .isInt({ min: 0, max: 100 })
+    .withMessage('子任务分数必须是0-100之间的整数'),
+
+  body('subtasks.*.type')
+    .isIn(['min', 'sum', 'all'])
+    .withMessage('子任务计分方式必须是min、sum或all'),
+
+  body('subtasks.*.testCases')
+    .isArray({ min: 1 })
+    .withMessage('子任务至少需要一个测试点'),
+
+  body('subtasks.*.dependencies')
+    .optional()
+    .isArray()
+    .withMessage('子任务依赖必须是数组')
+]
+
 const problemIdValidation = [
   param('problemId')
-    .isInt({ min: 1 })
-    .withMessage('题目ID必须是正整数')
+    .matches(/^P\d{4,}$/)
+    .withMessage('题目ID格式无效')
 ]
 
 const createProblemValidation = [
@@ -95,6 +170,11 @@ const createProblemValidation = [
     .isIn(['easy', 'medium', 'hard'])
     .withMessage('难度必须是easy、medium或hard'),
   
+  body('type')
+    .optional()
+    .isIn(['standard', 'interactive'])
+    .withMessage('题目类型必须是standard或interactive'),
+  
   body('timeLimit')
     .isInt({ min: 100, max: 10000 })
     .withMessage('时间限制必须是100-10000毫秒'),
@@ -118,9 +198,11 @@ const createProblemValidation = [
     .isLength({ max: 20 })
     .withMessage('每个标签最多20个字符'),
   
+  // 测试数据也可以在创建后通过压缩包上传
   body('testCases')
-    .isArray({ min: 1 })
-    .withMessage('至少需要一个测试用例'),
+    .optional()
+    .isArray()
+    .withMessage('测试用例必须是数组'),
   
   body('testCases.*.input')
     .notEmpty()
@@ -162,7 +244,7 @@ const createProblemValidation = [
   
   body('allowedLanguages.*')
     .optional()
-    .isIn(['c', 'cpp', 'java', 'python', 'javascript', 'go', 'rust'])
+    .custom(isRegisteredLanguage)
     .withMessage('不支持的编程语言')
 ]
 
@@ -172,6 +254,12 @@ const updateProblemValidation = [
     .isLength({ max: 200 })
     .withMessage('题目标题最多200个字符'),
   
+  body('changeSummary')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('修改说明最多500个字符'),
+  
   body('description')
     .optional()
     .isString()
@@ -192,6 +280,11 @@ const updateProblemValidation = [
     .isIn(['easy', 'medium', 'hard'])
     .withMessage('难度必须是easy、medium或hard'),
   
+  body('type')
+    .optional()
+    .isIn(['standard', 'interactive'])
+    .withMessage('题目类型必须是standard或interactive'),
+  
   body('timeLimit')
     .optional()
     .isInt({ min: 100, max: 10000 })
@@ -264,7 +357,7 @@ const updateProblemValidation = [
   
   body('allowedLanguages.*')
     .optional()
-    .isIn(['c', 'cpp', 'java', 'python', 'javascript', 'go', 'rust'])
+    .custom(isRegisteredLanguage)
     .withMessage('不支持的编程语言')
 ]
 
@@ -293,6 +386,38 @@ router.get('/search', optionalAuth, [
 // 获取题目标签
 router.get('/tags', getProblemTags)
 
+// 题目包导入导出（需要教师或管理员权限）
+const packageFormats = ['native', 'polygon', 'fps']
+const exportFormatValidation = [
+  query('format')
+    .optional()
+    .isIn(['native', 'fps'])
+    .withMessage('导出格式必须是 native 或 fps')
+]
+
+router.post('/import', auth, teacherOrAdmin, uploadProblemFiles, [
+  body('format')
+    .optional()
+    .isIn(packageFormats)
+    .withMessage('题目包格式无效')
+], validate, importProblems)
+
+router.get('/export', auth, teacherOrAdmin, [
+  ...exportFormatValidation,
+  query('problemIds')
+    .optional()
+    .isString()
+    .withMessage('题目ID列表格式无效'),
+  query('tag')
+    .optional()
+    .isString()
+    .withMessage('标签格式无效'),
+  query('category')
+    .optional()
+    .isString()
+    .withMessage('分类格式无效')
+], validate, exportProblems)
+
 // 获取单个题目
 router.get('/:problemId', optionalAuth, problemIdValidation, validate, getProblemById)
 
@@ -309,11 +434,11 @@ router.get('/:problemId/submissions', optionalAuth, [
     .withMessage('每页数量必须是1-100之间的整数'),
   query('status')
     .optional()
-    .isIn(['pending', 'judging', 'accepted', 'wrong_answer', 'time_limit_exceeded', 'memory_limit_exceeded', 'runtime_error', 'compile_error', 'system_error'])
+    .isIn(['pending', 'judging', 'accepted', 'wrong_answer', 'time_limit_exceeded', 'memory_limit_exceeded', 'runtime_error', 'compile_error', 'system_error', 'presentation_error', 'partially_correct', 'disallowed_syscall', 'process_limit_exceeded'])
     .withMessage('提交状态无效'),
   query('language')
     .optional()
-    .isIn(['c', 'cpp', 'java', 'python', 'javascript', 'go', 'rust'])
+    .custom(isRegisteredLanguage)
     .withMessage('编程语言无效')
 ], validate, getProblemSubmissions)
 
@@ -321,16 +446,95 @@ router.get('/:problemId/submissions', optionalAuth, [
 router.get('/:problemId/statistics', optionalAuth, problemIdValidation, validate, getProblemStatistics)
 
 // 创建题目（需要教师或管理员权限）
-router.post('/', teacherOrAdmin, createProblemValidation, validate, createProblem)
+router.post('/', auth, teacherOrAdmin, [...createProblemValidation, ...subtaskValidation, ...checkerValidation], validate, createProblem)
 
 // 更新题目（需要教师或管理员权限）
-router.put('/:problemId', teacherOrAdmin, [...problemIdValidation, ...updateProblemValidation], validate, updateProblem)
+router.put('/:problemId', auth, teacherOrAdmin, [...problemIdValidation, ...updateProblemValidation, ...subtaskValidation, ...checkerValidation], validate, updateProblem)
+
+// 设置题目检查器（需要教师或管理员权限）
+router.post('/:problemId/checker', auth, teacherOrAdmin, uploadChecker, [
+  ...problemIdValidation,
+  body('type')
+    .isIn(checkerTypes)
+    .withMessage('检查器类型无效'),
+  body('absoluteEpsilon')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('绝对误差必须是非负数'),
+  body('relativeEpsilon')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('相对误差必须是非负数'),
+  body('source')
+    .optional()
+    .isString()
+    .withMessage('检查器源代码必须是字符串')
+], validate, updateProblemChecker)
+
+// 导出单道题目（需要教师或管理员权限）
+router.get('/:problemId/export', auth, teacherOrAdmin, [...problemIdValidation, ...exportFormatValidation], validate, exportProblem)
+
+// 测试数据管理（需要教师或管理员权限）
+router.get('/:problemId/testdata', auth, teacherOrAdmin, problemIdValidation, validate, getTestData)
+router.post('/:problemId/testdata', auth, teacherOrAdmin, uploadProblemFiles, problemIdValidation, validate, uploadTestData)
+router.get('/:problemId/testdata/download', auth, teacherOrAdmin, problemIdValidation, validate, downloadTestData)
+router.get('/:problemId/testdata/:fileName', auth, teacherOrAdmin, [
+  ...problemIdValidation,
+  param('fileName')
+    .matches(/^\d+\.(in|ans)$/)
+    .withMessage('文件名格式应为 N.in 或 N.ans')
+], validate, downloadTestDataFile)
+
+// 上传交互器（需要教师或管理员权限）
+router.post('/:problemId/interactor', auth, teacherOrAdmin, uploadInteractor, [
+  ...problemIdValidation,
+  body('source')
+    .optional()
+    .isString()
+    .withMessage('交互器源代码必须是字符串')
+], validate, updateProblemInteractor)
+
+// 设置评测程序文件（需要教师或管理员权限）
+router.post('/:problemId/grader', auth, teacherOrAdmin, [
+  ...problemIdValidation,
+  body('files')
+    .isArray({ max: 50 })
+    .withMessage('评测程序文件必须是数组，最多50个文件'),
+  body('files.*.language')
+    .isIn(Object.values(Language))
+    .withMessage('语法类别无效'),
+  body('files.*.name')
+    .custom(isValidFileName)
+    .withMessage('文件名只能包含字母、数字、下划线、点和连字符'),
+  body('files.*.content')
+    .isString()
+    .isLength({ max: 256 * 1024 })
+    .withMessage('评测程序文件最多256KB')
+], validate, updateProblemGrader)
+
+// 题目版本历史（需要教师或管理员权限）
+const revisionValidation = [
+  ...problemIdValidation,
+  param('revision')
+    .isInt({ min: 0 })
+    .withMessage('版本号必须是非负整数')
+]
+
+router.get('/:problemId/revisions', auth, teacherOrAdmin, problemIdValidation, validate, getProblemRevisions)
+router.get('/:problemId/revisions/:revision', auth, teacherOrAdmin, [
+  ...revisionValidation,
+  query('compare')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('比较的版本号必须是非负整数')
+], validate, getProblemRevision)
+router.post('/:problemId/revisions/:revision/restore', auth, teacherOrAdmin, revisionValidation, validate, restoreProblem)
 
 // 克隆题目（需要教师或管理员权限）
-router.post('/:problemId/clone', teacherOrAdmin, problemIdValidation, validate, cloneProblem)
+router.post('/:problemId/clone', auth, teacherOrAdmin, problemIdValidation, validate, cloneProblem)
 
 // 更新题目状态（需要管理员权限）
-router.patch('/:problemId/status', adminOnly, [
+router.patch('/:problemId/status', auth, adminOnly, [
   ...problemIdValidation,
   body('status')
     .isIn(['draft', 'published', 'archived'])
@@ -338,6 +542,6 @@ router.patch('/:problemId/status', adminOnly, [
 ], validate, updateProblemStatus)
 
 // 删除题目（需要管理员权限）
-router.delete('/:problemId', adminOnly, problemIdValidation, validate, deleteProblem)
+router.delete('/:problemId', auth, adminOnly, problemIdValidation, validate, deleteProblem)
 
 export default router
\ No newline at end of file
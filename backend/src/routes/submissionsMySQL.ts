@@ -1,6 +1,8 @@
 import { Router } from 'express'
 import {
   createSubmission,
+  readUploadedSubmission,
+  runSubmission,
   getSubmissions,
   getSubmissionById,
   rejudgeSubmission,
@@ -11,34 +13,109 @@ import {
 import { auth, optionalAuth, adminOnly, teacherOrAdmin } from '../middleware/auth'
 import { validate, customValidators } from '../middleware/validate'
 import { body, query, param } from 'express-validator'
+import rateLimit from 'express-rate-limit'
+import { isEnabledLanguage, isRegisteredLanguage } from '../utils/languageRegistry'
+import { isValidFileName, MAX_SOURCE_FILES } from '../utils/sourceFiles'
+import { uploadSubmission } from '../utils/upload'
 
 const router = Router()
 
+// 自定义运行按用户限流：每分钟最多10次
+const runLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10,
+  keyGenerator: (req) => `run:${req.user?.id ?? req.ip}`,
+  message: {
+    success: false,
+    message: '运行过于频繁，请稍后再试'
+  }
+})
+
+// 多文件提交中主文件以外的文件
+const filesValidation = [
+  body('files')
+    .optional()
+    .isArray({ max: MAX_SOURCE_FILES })
+    .withMessage(`文件列表必须是数组，最多${MAX_SOURCE_FILES}个文件`),
+  body('files.*.name')
+    .custom(isValidFileName)
+    .withMessage('文件名只能包含字母、数字、下划线、点和连字符'),
+  body('files.*.content')
+    .isString()
+    .withMessage('文件内容必须是字符串')
+]
+
+const createSubmissionValidation = [
+  body('problemId')
+    .matches(/^P\d{4,}$/)
+    .withMessage('题目ID格式不正确'),
+  body('language')
+    .custom(isEnabledLanguage)
+    .withMessage('编程语言不支持'),
+  body('code')
+    .isLength({ min: 1, max: 65536 })
+    .withMessage('代码长度必须在1-65536字符之间'),
+  ...filesValidation,
+  body('contestId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('比赛ID必须是正整数')
+    .toInt(),
+  body('isPublic')
+    .optional()
+    .isBoolean()
+    .withMessage('公开状态必须是布尔值')
+    .toBoolean()
+]
+
 // 创建提交
+router.post('/', auth, createSubmissionValidation, validate, createSubmission)
+
+// 上传源文件提交（表单字段 files：多个源文件或一个zip，其余字段同创建提交）
 router.post(
-  '/',
+  '/upload',
+  auth,
+  uploadSubmission,
+  readUploadedSubmission,
+  createSubmissionValidation,
+  validate,
+  createSubmission
+)
+
+// 自定义输入运行（不创建提交）
+router.post(
+  '/run',
   auth,
+  runLimiter,
   [
     body('problemId')
-      .isInt({ min: 1 })
-      .withMessage('题目ID必须是正整数'),
+      .optional()
+      .matches(/^P\d{4,}$/)
+      .withMessage('题目ID格式不正确'),
     body('language')
-      .isIn(['c', 'cpp', 'java', 'python', 'javascript', 'go', 'rust'])
+      .custom(isEnabledLanguage)
       .withMessage('编程语言不支持'),
     body('code')
       .isLength({ min: 1, max: 65536 })
       .withMessage('代码长度必须在1-65536字符之间'),
+    ...filesValidation,
     body('contestId')
       .optional()
       .isInt({ min: 1 })
       .withMessage('比赛ID必须是正整数'),
-    body('isPublic')
+    body('input')
+      .optional()
+      .isString()
+      .isLength({ max: 1024 * 1024 })
+      .withMessage('输入最多1MB'),
+    body('useSamples')
       .optional()
       .isBoolean()
-      .withMessage('公开状态必须是布尔值')
+      .withMessage('运行样例标志必须是布尔值')
+      .toBoolean()
   ],
   validate,
-  createSubmission
+  runSubmission
 )
 
 // 获取提交列表
@@ -56,8 +133,8 @@ router.get(
       .withMessage('每页数量必须在1-100之间'),
     query('problemId')
       .optional()
-      .isInt({ min: 1 })
-      .withMessage('题目ID必须是正整数'),
+      .matches(/^P\d{4,}$/)
+      .withMessage('题目ID格式不正确'),
     query('userId')
       .optional()
       .isInt({ min: 1 })
@@ -68,11 +145,11 @@ router.get(
       .withMessage('比赛ID必须是正整数'),
     query('status')
       .optional()
-      .isIn(['pending', 'judging', 'accepted', 'wrong_answer', 'time_limit_exceeded', 'memory_limit_exceeded', 'runtime_error', 'compile_error', 'system_error'])
+      .isIn(['pending', 'judging', 'accepted', 'wrong_answer', 'time_limit_exceeded', 'memory_limit_exceeded', 'runtime_error', 'compile_error', 'system_error', 'presentation_error', 'partially_correct', 'disallowed_syscall', 'process_limit_exceeded'])
       .withMessage('提交状态无效'),
     query('language')
       .optional()
-      .isIn(['c', 'cpp', 'java', 'python', 'javascript', 'go', 'rust'])
+      .custom(isRegisteredLanguage)
       .withMessage('编程语言无效'),
     query('sortBy')
       .optional()
@@ -101,8 +178,8 @@ router.get(
   optionalAuth,
   [
     param('submissionId')
-      .isInt({ min: 1 })
-      .withMessage('提交ID必须是正整数')
+      .matches(/^S\d{6,}$/)
+      .withMessage('提交ID格式不正确')
   ],
   validate,
   getSubmissionById
@@ -114,8 +191,8 @@ router.get(
   auth,
   [
     param('submissionId')
-      .isInt({ min: 1 })
-      .withMessage('提交ID必须是正整数')
+      .matches(/^S\d{6,}$/)
+      .withMessage('提交ID格式不正确')
   ],
   validate,
   getSubmissionCode
@@ -124,11 +201,12 @@ router.get(
 // 重新判题（需要管理员或教师权限）
 router.post(
   '/:submissionId/rejudge',
+  auth,
   teacherOrAdmin,
   [
     param('submissionId')
-      .isInt({ min: 1 })
-      .withMessage('提交ID必须是正整数')
+      .matches(/^S\d{6,}$/)
+      .withMessage('提交ID格式不正确')
   ],
   validate,
   rejudgeSubmission
@@ -152,19 +230,19 @@ router.get(
       .withMessage('每页数量必须在1-100之间'),
     query('problemId')
       .optional()
-      .isInt({ min: 1 })
-      .withMessage('题目ID必须是正整数'),
+      .matches(/^P\d{4,}$/)
+      .withMessage('题目ID格式不正确'),
     query('contestId')
       .optional()
       .isInt({ min: 1 })
       .withMessage('比赛ID必须是正整数'),
     query('status')
       .optional()
-      .isIn(['pending', 'judging', 'accepted', 'wrong_answer', 'time_limit_exceeded', 'memory_limit_exceeded', 'runtime_error', 'compile_error', 'system_error'])
+      .isIn(['pending', 'judging', 'accepted', 'wrong_answer', 'time_limit_exceeded', 'memory_limit_exceeded', 'runtime_error', 'compile_error', 'system_error', 'presentation_error', 'partially_correct', 'disallowed_syscall', 'process_limit_exceeded'])
       .withMessage('提交状态无效'),
     query('language')
       .optional()
-      .isIn(['c', 'cpp', 'java', 'python', 'javascript', 'go', 'rust'])
+      .custom(isRegisteredLanguage)
       .withMessage('编程语言无效'),
     query('sortBy')
       .optional()
@@ -198,8 +276,8 @@ router.get(
       .withMessage('时间范围无效'),
     query('problemId')
       .optional()
-      .isInt({ min: 1 })
-      .withMessage('题目ID必须是正整数'),
+      .matches(/^P\d{4,}$/)
+      .withMessage('题目ID格式不正确'),
     query('contestId')
       .optional()
       .isInt({ min: 1 })
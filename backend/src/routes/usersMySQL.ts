@@ -0,0 +1,47 @@
+import { Router } from 'express'
+import { getRatingHistory, previewRosterImport, importRosterUsers } from '../controllers/usersMySQL'
+import { auth, teacherOrAdmin } from '../middleware/auth'
+import { validate } from '../middleware/validate'
+import { uploadRoster } from '../utils/upload'
+import { param, query } from 'express-validator'
+
+const router = Router()
+
+// 获取用户积分变化记录
+router.get(
+  '/:userId/rating-history',
+  [
+    param('userId')
+      .isInt({ min: 1 })
+      .withMessage('用户ID必须是正整数')
+  ],
+  validate,
+  getRatingHistory
+)
+
+// 预览花名册导入（需要教师或管理员权限）
+router.post(
+  '/import/preview',
+  auth,
+  teacherOrAdmin,
+  uploadRoster,
+  previewRosterImport
+)
+
+// 按花名册批量创建学生账号（需要教师或管理员权限）
+router.post(
+  '/import',
+  auth,
+  teacherOrAdmin,
+  [
+    query('format')
+      .optional()
+      .isIn(['json', 'html'])
+      .withMessage('返回格式必须是json或html')
+  ],
+  validate,
+  uploadRoster,
+  importRosterUsers
+)
+
+export default router
@@ -0,0 +1,288 @@
+import { Model, ModelAttributeColumnOptions, ModelStatic } from 'sequelize'
+import { sequelize, connectMySQL, closeMySQL } from '../database/mysql'
+import { Problem } from '../models/ProblemMySQL'
+import { Submission } from '../models/SubmissionMySQL'
+import { JudgeTask } from '../models/JudgeTaskMySQL'
+import { User } from '../models/UserMySQL'
+import { Contest } from '../models/ContestMySQL'
+import { ContestParticipant } from '../models/ContestParticipantMySQL'
+import { RatingHistory } from '../models/RatingHistoryMySQL'
+import { Clarification } from '../models/ClarificationMySQL'
+import { Assignment } from '../models/AssignmentMySQL'
+import { ProblemRevision } from '../models/ProblemRevisionMySQL'
+import { PlagiarismCheck } from '../models/PlagiarismCheckMySQL'
+import { PlagiarismPair } from '../models/PlagiarismPairMySQL'
+import { JudgeLanguage } from '../models/JudgeLanguageMySQL'
+
+// 表结构升级：sequelize.sync() 只在开发环境执行，且只创建缺失的表、不修改已有的表，
+// 已有数据库升级到新版本时需执行一次本脚本，补齐新增的表和列，并更新枚举值与列类型
+// 每一步都可重复执行：已存在的表和列、已一致的列类型会跳过；表和列的定义取自模型的当前定义
+// 用法：npm run migrate:schema [-- --dry-run]
+
+// 一项表结构变更，dryRun 时只打印不执行
+type SchemaChange = (dryRun: boolean) => Promise<string[]>
+
+// 按功能分组的表结构变更，按加入的先后顺序执行
+interface SchemaMigration {
+  description: string
+  changes: SchemaChange[]
+}
+
+const queryInterface = () => sequelize.getQueryInterface()
+
+const tableName = (model: ModelStatic<Model>): string => model.getTableName() as string
+
+// 模型属性对应的列名与列定义
+const columnOf = (model: ModelStatic<Model>, attribute: string) => {
+  const definition = model.getAttributes()[attribute]
+  if (!definition) {
+    throw new Error(`${tableName(model)} 没有属性 ${attribute}`)
+  }
+  return { field: definition.field || attribute, definition }
+}
+
+// 列定义的SQL类型（MySQL的ENUM需要转义取值）
+const sqlTypeOf = (definition: ModelAttributeColumnOptions): string => {
+  const { type } = definition
+  return typeof type === 'string' ? type : (type as any).toSql({ escape: (value: string) => sequelize.escape(value) })
+}
+
+// 统一列类型的写法以便比较，如 ENUM('a', 'b') 与 enum('a','b')
+const normalizeType = (type: string): string => type.replace(/\s+/g, '').toUpperCase()
+
+// 创建缺失的表；不加载模型关联，新建的表不带外键约束，与升级前已有的表一致
+const createTables = (models: ModelStatic<Model>[]): SchemaChange => async (dryRun) => {
+  const applied: string[] = []
+  for (const model of models) {
+    const table = tableName(model)
+    if (await queryInterface().tableExists(table)) continue
+
+    applied.push(`创建表 ${table}`)
+    if (!dryRun) {
+      await model.sync()
+    }
+  }
+  return applied
+}
+
+// 添加缺失的列：先按可空添加并用默认值填充已有的行，再改为模型中的定义
+// （MySQL的JSON列不能设置默认值，直接添加非空列时已有的行会是JSON null）
+const addColumns = (model: ModelStatic<Model>, attributes: string[]): SchemaChange => async (dryRun) => {
+  const table = tableName(model)
+  if (!await queryInterface().tableExists(table)) return []
+
+  const existing = await queryInterface().describeTable(table)
+  const applied: string[] = []
+  for (const attribute of attributes) {
+    const { field, definition } = columnOf(model, attribute)
+    if (existing[field]) continue
+
+    applied.push(`${table}: 添加列 ${field}`)
+    if (dryRun) continue
+
+    await queryInterface().addColumn(table, field, { ...definition, allowNull: true })
+    if (definition.defaultValue !== undefined) {
+      await model.update(
+        { [attribute]: definition.defaultValue },
+        { where: { [attribute]: null }, silent: true, hooks: false }
+      )
+    }
+    if (definition.allowNull === false) {
+      await queryInterface().changeColumn(table, field, definition)
+    }
+  }
+  return applied
+}
+
+// 重命名列（oldField 为已有表中的列名）：旧列存在且新列尚未添加时执行
+const renameColumn = (model: ModelStatic<Model>, oldField: string, attribute: string): SchemaChange => async (dryRun) => {
+  const table = tableName(model)
+  if (!await queryInterface().tableExists(table)) return []
+
+  const existing = await queryInterface().describeTable(table)
+  const { field } = columnOf(model, attribute)
+  if (!existing[oldField] || existing[field]) return []
+
+  if (!dryRun) {
+    await queryInterface().renameColumn(table, oldField, field)
+  }
+  return [`${table}: 列 ${oldField} 重命名为 ${field}`]
+}
+
+// 把列类型改为模型中的定义（如枚举新增的取值）
+const changeColumns = (model: ModelStatic<Model>, attributes: string[]): SchemaChange => async (dryRun) => {
+  const table = tableName(model)
+  if (!await queryInterface().tableExists(table)) return []
+
+  const existing = await queryInterface().describeTable(table)
+  const applied: string[] = []
+  for (const attribute of attributes) {
+    const { field, definition } = columnOf(model, attribute)
+    const column = existing[field]
+    const type = sqlTypeOf(definition)
+    if (!column || normalizeType(column.type) === normalizeType(type)) continue
+
+    applied.push(`${table}: 修改列 ${field} 为 ${type}`)
+    if (!dryRun) {
+      await queryInterface().changeColumn(table, field, definition)
+    }
+  }
+  return applied
+}
+
+const migrations: SchemaMigration[] = [
+  {
+    description: '沙箱评测结果：非法系统调用、进程数超限',
+    changes: [
+      changeColumns(Submission, ['status'])
+    ]
+  },
+  {
+    description: '特殊评测：题目检查器、部分正确',
+    changes: [
+      addColumns(Problem, ['checker']),
+      changeColumns(Submission, ['status'])
+    ]
+  },
+  {
+    description: '交互题：题目类型、交互器',
+    changes: [
+      addColumns(Problem, ['type', 'interactor'])
+    ]
+  },
+  {
+    description: '子任务：子任务定义、子任务结果、未评测',
+    changes: [
+      addColumns(Problem, ['subtasks']),
+      addColumns(Submission, ['subtaskResults']),
+      changeColumns(Submission, ['status'])
+    ]
+  },
+  {
+    description: '持久化判题队列',
+    changes: [
+      createTables([JudgeTask])
+    ]
+  },
+  {
+    description: '远程判题机：按语言领取任务',
+    changes: [
+      addColumns(JudgeTask, ['language'])
+    ]
+  },
+  {
+    description: '用户迁移到MySQL',
+    changes: [
+      createTables([User])
+    ]
+  },
+  {
+    description: '比赛',
+    changes: [
+      createTables([Contest, ContestParticipant])
+    ]
+  },
+  {
+    description: '比赛排行榜：IOI赛制',
+    changes: [
+      changeColumns(Contest, ['rule'])
+    ]
+  },
+  {
+    description: '封榜与滚榜',
+    changes: [
+      renameColumn(Contest, 'frozen_at', 'freezeTime'),
+      addColumns(Contest, ['unfrozenAt', 'revealedCells'])
+    ]
+  },
+  {
+    description: '虚拟参赛',
+    changes: [
+      addColumns(ContestParticipant, ['isVirtual', 'startTime']),
+      addColumns(Submission, ['isVirtual'])
+    ]
+  },
+  {
+    description: '比赛积分',
+    changes: [
+      addColumns(Contest, ['isRated', 'ratedAt']),
+      createTables([RatingHistory])
+    ]
+  },
+  {
+    description: '比赛答疑',
+    changes: [
+      createTables([Clarification])
+    ]
+  },
+  {
+    description: '班级作业',
+    changes: [
+      createTables([Assignment])
+    ]
+  },
+  {
+    description: '题目版本',
+    changes: [
+      addColumns(Problem, ['revision']),
+      addColumns(Submission, ['problemRevision']),
+      createTables([ProblemRevision])
+    ]
+  },
+  {
+    description: '代码查重',
+    changes: [
+      createTables([PlagiarismCheck, PlagiarismPair])
+    ]
+  },
+  {
+    description: '语言表：评测语言、题目允许的语言，提交语言改为语言标识',
+    changes: [
+      createTables([JudgeLanguage]),
+      addColumns(Problem, ['allowedLanguages']),
+      changeColumns(Submission, ['language']),
+      changeColumns(PlagiarismPair, ['language'])
+    ]
+  },
+  {
+    description: '多文件提交与函数式题目',
+    changes: [
+      addColumns(JudgeLanguage, ['detectClassName']),
+      addColumns(Problem, ['graderFiles']),
+      addColumns(Submission, ['files'])
+    ]
+  }
+]
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run')
+
+  await connectMySQL()
+
+  let total = 0
+  for (const migration of migrations) {
+    const applied: string[] = []
+    for (const change of migration.changes) {
+      applied.push(...await change(dryRun))
+    }
+    if (applied.length > 0) {
+      console.log(`🔧 ${migration.description}\n  ${applied.join('\n  ')}`)
+      total += applied.length
+    }
+  }
+
+  if (total === 0) {
+    console.log('✅ 表结构已是最新')
+  } else if (dryRun) {
+    console.log(`🧪 试运行完成，共 ${total} 项待执行的变更`)
+  } else {
+    console.log(`✅ 表结构升级完成，共执行 ${total} 项变更`)
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('❌ 表结构升级失败:', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  })
+  .finally(() => closeMySQL().catch(() => {}))
@@ -0,0 +1,221 @@
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { Model, ModelStatic, Op, Transaction } from 'sequelize'
+import { config } from '../config'
+import { sequelize, connectMySQL, closeMySQL } from '../database/mysql'
+import { User, UserRole, UserStatus, UserCreationAttributes } from '../models/UserMySQL'
+import { Problem } from '../models/ProblemMySQL'
+import { Submission } from '../models/SubmissionMySQL'
+import { JudgeTask } from '../models/JudgeTaskMySQL'
+
+// 一次性迁移：把旧版SQLite用户库导入MySQL的 users 表
+// 密码按原bcrypt哈希导入；MySQL重新分配用户ID，题目、提交与判题任务中引用的旧ID同步替换
+// 用法：npm run migrate:users [-- --dry-run] [-- --sqlite ./database.sqlite]
+
+// SQLite users 表的一行
+interface SQLiteUserRow {
+  id: number
+  username: string
+  email: string
+  password: string
+  real_name: string | null
+  student_id: string | null
+  class: string | null
+  role: string | null
+  status: string | null
+  avatar: string | null
+  bio: string | null
+  school: string | null
+  grade: string | null
+  total_submissions: number | null
+  accepted_submissions: number | null
+  solved_problems: number | null
+  rating: number | null
+  rank: number | null
+  contests_participated: number | null
+  email_notifications: number | null
+  last_login_at: string | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+// 读取命令行参数值
+const argValue = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+// 解析SQLite中的时间：CURRENT_TIMESTAMP 写入的是不带时区的UTC时间，登录时间是ISO字符串
+const parseSQLiteDate = (value: string | null): Date | undefined => {
+  if (!value) return undefined
+  const date = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)
+    ? new Date(`${value.replace(' ', 'T')}Z`)
+    : new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// 转换为MySQL用户属性
+const toUserAttributes = (row: SQLiteUserRow): UserCreationAttributes => {
+  const role = Object.values(UserRole).includes(row.role as UserRole) ? row.role as UserRole : UserRole.STUDENT
+  const status = Object.values(UserStatus).includes(row.status as UserStatus) ? row.status as UserStatus : UserStatus.ACTIVE
+  if (role !== row.role || status !== row.status) {
+    console.warn(`⚠️  用户 ${row.username} 的角色或状态无效（${row.role}/${row.status}），已改为 ${role}/${status}`)
+  }
+
+  const createdAt = parseSQLiteDate(row.created_at) || new Date()
+  return {
+    username: row.username,
+    email: row.email,
+    password: row.password,
+    realName: row.real_name || undefined,
+    studentId: row.student_id || undefined,
+    class: row.class || undefined,
+    role,
+    status,
+    avatar: row.avatar || undefined,
+    bio: row.bio || undefined,
+    school: row.school || undefined,
+    grade: row.grade || undefined,
+    totalSubmissions: row.total_submissions || 0,
+    acceptedSubmissions: row.accepted_submissions || 0,
+    solvedProblems: row.solved_problems || 0,
+    rating: row.rating ?? 1000,
+    rank: row.rank || 0,
+    contestsParticipated: row.contests_participated || 0,
+    emailNotifications: row.email_notifications !== 0,
+    lastLoginAt: parseSQLiteDate(row.last_login_at),
+    createdAt,
+    updatedAt: parseSQLiteDate(row.updated_at) || createdAt
+  }
+}
+
+// SQLite区分大小写而MySQL默认排序规则不区分，提前找出迁移后会冲突的用户名和邮箱
+const findConflicts = (rows: SQLiteUserRow[]): string[] => {
+  const conflicts: string[] = []
+  for (const field of ['username', 'email'] as const) {
+    const seen = new Map<string, string>()
+    for (const row of rows) {
+      const key = row[field].trim().toLowerCase()
+      const previous = seen.get(key)
+      if (previous !== undefined) {
+        conflicts.push(`${field}: ${previous} / ${row[field]}`)
+      } else {
+        seen.set(key, row[field])
+      }
+    }
+  }
+  return conflicts
+}
+
+// 把表中引用的旧用户ID替换为新ID（单条UPDATE ... CASE，避免新旧ID交叉时被重复替换）
+const remapUserIds = async (
+  model: ModelStatic<Model>,
+  attribute: string,
+  idMap: Map<number, number>,
+  transaction: Transaction
+): Promise<number> => {
+  const changed = Array.from(idMap).filter(([oldId, newId]) => oldId !== newId)
+  if (changed.length === 0) return 0
+
+  if (!await sequelize.getQueryInterface().tableExists(model.getTableName(), { transaction })) {
+    return 0
+  }
+
+  const column = sequelize.getQueryInterface().quoteIdentifier(model.getAttributes()[attribute]!.field!)
+  const cases = changed.map(([oldId, newId]) => `WHEN ${oldId} THEN ${newId}`).join(' ')
+
+  const [affected] = await model.update(
+    { [attribute]: sequelize.literal(`CASE ${column} ${cases} END`) },
+    {
+      where: { [attribute]: { [Op.in]: changed.map(([oldId]) => oldId) } },
+      transaction,
+      silent: true,
+      hooks: false
+    }
+  )
+  return affected
+}
+
+// 替换题目维护者列表中的旧用户ID
+const remapMaintainers = async (idMap: Map<number, number>, transaction: Transaction): Promise<number> => {
+  if (!await sequelize.getQueryInterface().tableExists(Problem.getTableName(), { transaction })) {
+    return 0
+  }
+
+  const problems = await Problem.findAll({ attributes: ['id', 'maintainerIds'], transaction })
+  let updated = 0
+  for (const problem of problems) {
+    const maintainerIds = problem.maintainerIds || []
+    const remapped = maintainerIds.map(id => idMap.get(id) ?? id)
+    if (remapped.some((id, index) => id !== maintainerIds[index])) {
+      await problem.update({ maintainerIds: remapped }, { transaction, silent: true })
+      updated++
+    }
+  }
+  return updated
+}
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run')
+  const sqlitePath = path.resolve(argValue('--sqlite') || config.database.path)
+
+  if (!fs.existsSync(sqlitePath)) {
+    throw new Error(`SQLite数据库不存在: ${sqlitePath}`)
+  }
+
+  const sqlite = new Database(sqlitePath, { readonly: true, fileMustExist: true })
+  const rows = sqlite.prepare('SELECT * FROM users ORDER BY id').all() as SQLiteUserRow[]
+  sqlite.close()
+  console.log(`📦 SQLite用户数: ${rows.length}（${sqlitePath}）`)
+
+  const conflicts = findConflicts(rows)
+  if (conflicts.length > 0) {
+    throw new Error(`以下用户名或邮箱仅大小写不同，导入MySQL后会冲突，请先处理：\n  ${conflicts.join('\n  ')}`)
+  }
+
+  await connectMySQL()
+  await User.sync()
+
+  // 迁移只能执行一次，否则已替换过的用户ID会被再次替换
+  const existing = await User.count()
+  if (existing > 0) {
+    throw new Error(`MySQL users 表已有 ${existing} 个用户，迁移已执行过`)
+  }
+
+  const transaction = await sequelize.transaction()
+  try {
+    const idMap = new Map<number, number>()
+    for (const row of rows) {
+      const user = await User.create(toUserAttributes(row), { transaction, silent: true })
+      idMap.set(row.id, user.id)
+    }
+
+    const changedIds = Array.from(idMap).filter(([oldId, newId]) => oldId !== newId).length
+    console.log(`👥 已导入 ${idMap.size} 个用户，其中 ${changedIds} 个用户ID发生变化`)
+
+    const submissions = await remapUserIds(Submission, 'userId', idMap, transaction)
+    const judgeTasks = await remapUserIds(JudgeTask, 'userId', idMap, transaction)
+    const authors = await remapUserIds(Problem, 'authorId', idMap, transaction)
+    const maintainers = await remapMaintainers(idMap, transaction)
+    console.log(`🔁 已更新用户ID引用: 提交 ${submissions} 条，判题任务 ${judgeTasks} 条，题目作者 ${authors} 条，题目维护者 ${maintainers} 条`)
+
+    if (dryRun) {
+      await transaction.rollback()
+      console.log('🧪 试运行完成，所有改动已回滚')
+    } else {
+      await transaction.commit()
+      console.log('✅ 用户迁移完成')
+    }
+  } catch (error) {
+    await transaction.rollback()
+    throw error
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('❌ 用户迁移失败:', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  })
+  .finally(() => closeMySQL().catch(() => {}))
@@ -4,7 +4,12 @@ import { connectDatabase } from './database'
 import { createServer } from 'http'
 import { Server as SocketIOServer, Socket } from 'socket.io'
 import { judgeQueue } from './utils/judgeQueue'
+import { loadLanguages } from './utils/languageRegistry'
+import { getSandbox } from './utils/sandbox'
 import { authenticateSocket } from './middleware/auth'
+import { Submission } from './models/SubmissionMySQL'
+import { Contest } from './models/ContestMySQL'
+import { ContestParticipant } from './models/ContestParticipantMySQL'
 
 // 创建HTTP服务器
 const server = createServer(app)
@@ -29,6 +34,40 @@ const connectedUsers = new Map<string, string>() // socketId -> userId
 const userSockets = new Map<string, Set<string>>() // userId -> Set<socketId>
 const roomUsers = new Map<string, Set<string>>() // roomId -> Set<userId>
 
+// 订阅结果回调（客户端可选传入）
+type SubscribeAck = (response: { success: boolean; message?: string }) => void
+
+const reply = (ack: unknown, response: Parameters<SubscribeAck>[0]) => {
+  if (typeof ack === 'function') (ack as SubscribeAck)(response)
+}
+
+// 提交所属比赛（非比赛提交返回 null），用于判断封榜期间结果是否对订阅者隐藏
+const findSubmissionContest = async (submission: Submission): Promise<Contest | null> => {
+  return submission.contestId ? await Contest.findByPk(submission.contestId) : null
+}
+
+// 推送测试点进度给订阅该提交的客户端，封榜期间其他选手的提交进度只推送给比赛管理者
+const emitSubmissionProgress = async (submissionId: string, ownerId: number, data: object): Promise<void> => {
+  const sockets = await io.in(`submission:${submissionId}`).fetchSockets()
+  const others = sockets.filter(socket => socket.data.userId !== String(ownerId))
+  if (others.length === 0) {
+    sockets.forEach(socket => socket.emit('submission:progress', data))
+    return
+  }
+
+  const submission = await Submission.findOne({
+    where: { submissionId },
+    attributes: ['userId', 'contestId', 'submittedAt']
+  })
+  if (!submission) return
+  const contest = await findSubmissionContest(submission)
+
+  for (const socket of sockets) {
+    if (contest?.hidesResultFrom(submission, Number(socket.data.userId), socket.data.role)) continue
+    socket.emit('submission:progress', data)
+  }
+}
+
 io.use(authenticateSocket)
 
 io.on('connection', (socket: Socket) => {
@@ -99,11 +138,35 @@ io.on('connection', (socket: Socket) => {
     console.log(`用户 ${username} 离开房间: ${roomId}`)
   })
   
-  // 处理提交状态订阅
-  socket.on('submission:subscribe', (data: { submissionId: string }) => {
-    const roomId = `submission:${data.submissionId}`
-    socket.join(roomId)
-    console.log(`用户 ${username} 订阅提交: ${data.submissionId}`)
+  // 处理提交状态订阅：与查看提交详情一致，仅提交者本人与管理员、教师可以订阅
+  socket.on('submission:subscribe', async (data: { submissionId: string }, ack?: SubscribeAck) => {
+    try {
+      const submission = await Submission.findOne({
+        where: { submissionId: String(data?.submissionId) },
+        attributes: ['userId', 'contestId', 'submittedAt']
+      })
+      let allowed = !!submission && (
+        String(submission.userId) === userId ||
+        socket.data.role === 'admin' ||
+        socket.data.role === 'teacher'
+      )
+      // 封榜期间其他选手封榜后的提交仅比赛管理者可以订阅
+      if (allowed) {
+        const contest = await findSubmissionContest(submission!)
+        allowed = !contest?.hidesResultFrom(submission!, Number(userId), socket.data.role)
+      }
+      if (!allowed) {
+        reply(ack, { success: false, message: '无权订阅此提交' })
+        return
+      }
+
+      socket.join(`submission:${data.submissionId}`)
+      reply(ack, { success: true })
+      console.log(`用户 ${username} 订阅提交: ${data.submissionId}`)
+    } catch (error) {
+      console.error('订阅提交失败:', error)
+      reply(ack, { success: false, message: '订阅失败' })
+    }
   })
   
   socket.on('submission:unsubscribe', (data: { submissionId: string }) => {
@@ -112,11 +175,27 @@ io.on('connection', (socket: Socket) => {
     console.log(`用户 ${username} 取消订阅提交: ${data.submissionId}`)
   })
   
-  // 处理比赛实时更新
-  socket.on('contest:subscribe', (data: { contestId: string }) => {
-    const roomId = `contest:${data.contestId}`
-    socket.join(roomId)
-    console.log(`用户 ${username} 订阅比赛: ${data.contestId}`)
+  // 处理比赛实时更新：与排行榜一致，私有比赛仅报名者和管理者可以订阅
+  socket.on('contest:subscribe', async (data: { contestId: string }, ack?: SubscribeAck) => {
+    try {
+      const contest = await Contest.findByPk(Number(data?.contestId))
+      const allowed = !!contest && (
+        contest.isPublic ||
+        contest.isManagedBy(Number(userId), socket.data.role) ||
+        !!(await ContestParticipant.findEntry(contest.id, Number(userId)))
+      )
+      if (!allowed) {
+        reply(ack, { success: false, message: '无权订阅此比赛' })
+        return
+      }
+
+      socket.join(`contest:${contest.id}`)
+      reply(ack, { success: true })
+      console.log(`用户 ${username} 订阅比赛: ${data.contestId}`)
+    } catch (error) {
+      console.error('订阅比赛失败:', error)
+      reply(ack, { success: false, message: '订阅失败' })
+    }
   })
   
   socket.on('contest:unsubscribe', (data: { contestId: string }) => {
@@ -187,15 +266,28 @@ const PORT = config.port || 5000
 
 const startServer = async () => {
   try {
+    // 测试数据、编译产物等后端写入的文件只对运行后端的用户可见
+    process.umask(0o077)
+
+    // 检查判题沙箱，配置不安全（如以宿主机根目录为根文件系统）时拒绝启动
+    getSandbox()
+
     // 连接数据库
     await connectDatabase()
     console.log('✅ 数据库连接成功')
+
+    // 加载编程语言表
+    await loadLanguages()
+
+    // 恢复未完成的判题任务并启动判题队列
+    await judgeQueue.recover()
+    judgeQueue.start()
     
     server.listen(PORT, () => {
   console.log(`\n🚀 SSL Online Judge 后端服务器启动成功!`)
   console.log(`📍 服务器地址: http://localhost:${PORT}`)
   console.log(`🌍 环境: ${config.env}`)
-  console.log(`📊 数据库: ${config.database.path}`)
+  console.log(`📊 数据库: MySQL ${config.mysql.host}:${config.mysql.port}/${config.mysql.database}`)
   console.log(`🔗 前端地址: ${config.frontend.url}`)
   console.log(`📡 Socket.IO: 已启用`)
   console.log(`⚖️ 判题队列: 已启动`)
@@ -221,10 +313,21 @@ const startServer = async () => {
   console.log(`\n✅ 服务器就绪，等待连接...\n`)
   
   // 监听判题队列事件
-  judgeQueue.on('taskStarted', (task) => {
-    emitToUser(task.userId, 'submission:judging', {
+  // 每个测试点完成后推送给提交者及订阅该提交的客户端
+  judgeQueue.on('taskProgress', (task, result, progress) => {
+    const data = {
       submissionId: task.submissionId,
-      message: '开始判题'
+      testCase: result.id,
+      status: result.status,
+      timeUsed: result.timeUsed,
+      memoryUsed: result.memoryUsed,
+      score: result.score,
+      completed: progress.completed,
+      total: progress.total
+    }
+    emitToUser(String(task.userId), 'submission:progress', data)
+    emitSubmissionProgress(task.submissionId, task.userId, data).catch(error => {
+      console.error('推送判题进度失败:', error)
     })
   })
   
@@ -233,7 +336,7 @@ const startServer = async () => {
   })
   
   judgeQueue.on('taskCancelled', (task) => {
-    emitToUser(task.userId, 'submission:cancelled', {
+    emitToUser(String(task.userId), 'submission:cancelled', {
       submissionId: task.submissionId,
       message: '判题已取消'
     })
@@ -0,0 +1,113 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { CheckerType, CheckerVerdict, parseTestlibResult, prepareChecker } from '../checker'
+
+describe('parseTestlibResult', () => {
+  it('退出码0判为通过', () => {
+    expect(parseTestlibResult(0, 'ok 3 numbers\n')).toEqual({
+      verdict: CheckerVerdict.ACCEPTED,
+      ratio: 1,
+      message: 'ok 3 numbers'
+    })
+  })
+
+  it.each([1, 4, 8])('退出码%i判为答案错误', (code) => {
+    const result = parseTestlibResult(code, 'wrong answer')
+    expect(result.verdict).toBe(CheckerVerdict.WRONG_ANSWER)
+    expect(result.ratio).toBe(0)
+    expect(result.message).toBe('wrong answer')
+  })
+
+  it('退出码2判为格式错误并给80%分数', () => {
+    const result = parseTestlibResult(2, 'wrong output format')
+    expect(result.verdict).toBe(CheckerVerdict.PRESENTATION_ERROR)
+    expect(result.ratio).toBe(0.8)
+  })
+
+  it('退出码3判为检查器失败', () => {
+    const result = parseTestlibResult(3, 'answer file is broken')
+    expect(result.verdict).toBe(CheckerVerdict.FAIL)
+    expect(result.ratio).toBe(0)
+    expect(result.message).toBe('answer file is broken')
+  })
+
+  it('退出码7按 points 输出给分', () => {
+    const result = parseTestlibResult(7, 'points 0.5 half of the answers')
+    expect(result.verdict).toBe(CheckerVerdict.PARTIALLY_CORRECT)
+    expect(result.ratio).toBe(0.5)
+    expect(result.message).toBe('half of the answers')
+  })
+
+  it('退出码7的得分被限制在0~1之间', () => {
+    expect(parseTestlibResult(7, 'points 1.5').verdict).toBe(CheckerVerdict.ACCEPTED)
+    expect(parseTestlibResult(7, 'points 1.5').ratio).toBe(1)
+    expect(parseTestlibResult(7, 'points -1').verdict).toBe(CheckerVerdict.WRONG_ANSWER)
+    expect(parseTestlibResult(7, 'points -1').ratio).toBe(0)
+  })
+
+  it('退出码7无法解析得分时判为检查器失败', () => {
+    const result = parseTestlibResult(7, 'partially correct')
+    expect(result.verdict).toBe(CheckerVerdict.FAIL)
+    expect(result.ratio).toBe(0)
+  })
+
+  it('退出码16+n按 n/200 给部分分', () => {
+    const result = parseTestlibResult(16 + 50, 'partially correct')
+    expect(result.verdict).toBe(CheckerVerdict.PARTIALLY_CORRECT)
+    expect(result.ratio).toBe(0.25)
+  })
+
+  it('部分分退出码的边界', () => {
+    expect(parseTestlibResult(16, '').verdict).toBe(CheckerVerdict.WRONG_ANSWER)
+    expect(parseTestlibResult(16 + 200, '').verdict).toBe(CheckerVerdict.ACCEPTED)
+    expect(parseTestlibResult(16 + 200, '').ratio).toBe(1)
+  })
+
+  it('未知退出码或进程异常判为检查器失败', () => {
+    expect(parseTestlibResult(5, '').verdict).toBe(CheckerVerdict.FAIL)
+    expect(parseTestlibResult(5, '').message).toBe('检查器异常退出 (5)')
+    expect(parseTestlibResult(null, 'spawn ENOENT').verdict).toBe(CheckerVerdict.FAIL)
+  })
+})
+
+describe('内置检查器', () => {
+  let dir: string
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'checker-test-'))
+  })
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  const check = async (type: CheckerType, output: string, answer: string) => {
+    const outputFile = path.join(dir, 'output.txt')
+    const answerFile = path.join(dir, 'answer.txt')
+    fs.writeFileSync(outputFile, output)
+    fs.writeFileSync(answerFile, answer)
+    const checker = await prepareChecker({ type })
+    return checker.check({ inputFile: answerFile, outputFile, answerFile })
+  }
+
+  it('完全一致判为通过', async () => {
+    expect((await check(CheckerType.EXACT, '1 2\n3\n', '1 2\n3')).verdict).toBe(CheckerVerdict.ACCEPTED)
+  })
+
+  it('仅空白不同判为格式错误', async () => {
+    const result = await check(CheckerType.EXACT, '1  2 3', '1 2\n3')
+    expect(result.verdict).toBe(CheckerVerdict.PRESENTATION_ERROR)
+    expect(result.ratio).toBe(0.8)
+  })
+
+  it('按token比较忽略空白', async () => {
+    expect((await check(CheckerType.TOKENS, '1  2 3', '1 2\n3')).verdict).toBe(CheckerVerdict.ACCEPTED)
+    expect((await check(CheckerType.TOKENS, '1 2', '1 2 3')).verdict).toBe(CheckerVerdict.WRONG_ANSWER)
+  })
+
+  it('浮点数按误差比较', async () => {
+    expect((await check(CheckerType.FLOAT, '0.3333334', '0.3333333')).verdict).toBe(CheckerVerdict.ACCEPTED)
+    expect((await check(CheckerType.FLOAT, '0.334', '0.333')).verdict).toBe(CheckerVerdict.WRONG_ANSWER)
+  })
+})
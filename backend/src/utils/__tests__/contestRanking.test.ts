@@ -0,0 +1,275 @@
+import { Contest, ContestRule, ContestType } from '../../models/ContestMySQL'
+import { ContestParticipant } from '../../models/ContestParticipantMySQL'
+import { Submission, SubmissionStatus } from '../../models/SubmissionMySQL'
+import {
+  ACM_PENALTY_MINUTES,
+  ContestScoreboard,
+  computeFrozenResult,
+  computeProblemResult,
+  invalidateContestScoreboard,
+  revealNextContestCell
+} from '../contestRanking'
+
+// 排行榜推送依赖 Socket.IO 服务，测试中不启动服务器
+jest.mock('../../server', () => ({ emitToRoom: jest.fn() }))
+
+const startTime = new Date('2026-01-01T00:00:00Z')
+const at = (minutes: number): Date => new Date(startTime.getTime() + minutes * 60000)
+
+const makeContest = (rule: ContestRule, freezeMinutes?: number): Contest => Contest.build({
+  id: 1,
+  title: 'Test Contest',
+  description: '',
+  type: ContestType.PUBLIC,
+  rule,
+  startTime,
+  endTime: at(300),
+  duration: 300,
+  problems: [{ problemId: 'P1', label: 'A' }, { problemId: 'P2', label: 'B' }],
+  freezeTime: freezeMinutes !== undefined ? at(freezeMinutes) : null,
+  revealedCells: [],
+  createdBy: 1
+})
+
+const participant = (userId: number, isOfficial: boolean = true): ContestParticipant => {
+  return { userId, isOfficial, isVirtual: false } as ContestParticipant
+}
+
+let nextSubmissionId = 1
+const submission = (
+  userId: number,
+  problemId: string,
+  status: SubmissionStatus,
+  minutes: number,
+  score: number = 0,
+  subtaskResults?: { id: number; score: number }[]
+): Submission => {
+  return { id: nextSubmissionId++, userId, problemId, status, score, subtaskResults, submittedAt: at(minutes) } as unknown as Submission
+}
+
+const makeScoreboard = (contest: Contest, users: ContestParticipant[]): ContestScoreboard => {
+  const scoreboard = new ContestScoreboard(contest)
+  users.forEach(user => scoreboard.addParticipant(user))
+  return scoreboard
+}
+
+describe('computeProblemResult', () => {
+  it('ACM赛制计到首次通过为止，编译错误不计入尝试', () => {
+    const contest = makeContest(ContestRule.ACM)
+    const result = computeProblemResult(contest, [
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 10),
+      submission(1, 'P1', SubmissionStatus.COMPILE_ERROR, 15),
+      submission(1, 'P1', SubmissionStatus.ACCEPTED, 30),
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 40)
+    ])
+
+    expect(result).toMatchObject({ score: 1, attempts: 2, timeUsed: 30, firstSolvedAt: at(30) })
+  })
+
+  it('只有被忽略的提交时没有结果', () => {
+    const contest = makeContest(ContestRule.ACM)
+    expect(computeProblemResult(contest, [submission(1, 'P1', SubmissionStatus.COMPILE_ERROR, 5)])).toBeNull()
+  })
+
+  it('IOI赛制各子任务取所有提交中的最高分', () => {
+    const contest = makeContest(ContestRule.IOI)
+    const result = computeProblemResult(contest, [
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 10, 30, [{ id: 1, score: 30 }, { id: 2, score: 0 }]),
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 20, 40, [{ id: 1, score: 0 }, { id: 2, score: 40 }]),
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 30, 30, [{ id: 1, score: 30 }, { id: 2, score: 0 }])
+    ])
+
+    expect(result).toMatchObject({ score: 70, attempts: 3, timeUsed: 20, subtaskScores: { 1: 30, 2: 40 } })
+    expect(result!.firstSolvedAt).toBeUndefined()
+  })
+
+  it('OI赛制以最后一次提交为准', () => {
+    const contest = makeContest(ContestRule.OI)
+    const result = computeProblemResult(contest, [
+      submission(1, 'P1', SubmissionStatus.ACCEPTED, 10, 100),
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 20, 40)
+    ])
+
+    expect(result).toMatchObject({ score: 40, attempts: 2, timeUsed: 20, firstSolvedAt: undefined })
+  })
+})
+
+describe('ContestScoreboard.setResult', () => {
+  it('ACM赛制罚时为通过时间加每次错误提交的罚时', () => {
+    const contest = makeContest(ContestRule.ACM)
+    const scoreboard = makeScoreboard(contest, [participant(1), participant(2)])
+
+    const delta = scoreboard.setResult(1, 'P1', computeProblemResult(contest, [
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 10),
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 20),
+      submission(1, 'P1', SubmissionStatus.ACCEPTED, 30)
+    ]))
+
+    expect(delta!.row).toMatchObject({ userId: 1, rank: 1, solvedCount: 1, totalTime: 30 + 2 * ACM_PENALTY_MINUTES })
+    expect(delta!.rankChanges).toEqual([{ userId: 2, rank: 2 }, { userId: 1, rank: 1 }])
+  })
+
+  it('通过数相同时罚时少者排名靠前，名次变化随增量推送', () => {
+    const contest = makeContest(ContestRule.ACM)
+    const scoreboard = makeScoreboard(contest, [participant(1), participant(2)])
+
+    scoreboard.setResult(1, 'P1', computeProblemResult(contest, [
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 10),
+      submission(1, 'P1', SubmissionStatus.ACCEPTED, 30)
+    ]))
+    const delta = scoreboard.setResult(2, 'P1', computeProblemResult(contest, [
+      submission(2, 'P1', SubmissionStatus.ACCEPTED, 40)
+    ]))
+
+    expect(delta!.row).toMatchObject({ userId: 2, rank: 1, totalTime: 40 })
+    expect(delta!.rankChanges).toEqual(expect.arrayContaining([{ userId: 2, rank: 1 }, { userId: 1, rank: 2 }]))
+    expect(scoreboard.getRanking().map(row => row.userId)).toEqual([2, 1])
+  })
+
+  it('一血属于最早通过的正式选手，被更早的通过取代时推送变化', () => {
+    const contest = makeContest(ContestRule.ACM)
+    const scoreboard = makeScoreboard(contest, [participant(1), participant(2), participant(3, false)])
+
+    const first = scoreboard.setResult(1, 'P1', computeProblemResult(contest, [submission(1, 'P1', SubmissionStatus.ACCEPTED, 30)]))
+    expect(first!.firstBlood).toEqual({ problemId: 'P1', userId: 1 })
+    expect(first!.result!.isFirstBlood).toBe(true)
+
+    // 非正式选手更早通过不影响一血
+    const unofficial = scoreboard.setResult(3, 'P1', computeProblemResult(contest, [submission(3, 'P1', SubmissionStatus.ACCEPTED, 5)]))
+    expect(unofficial!.firstBlood).toBeUndefined()
+    expect(scoreboard.getResult(3, 'P1')!.isFirstBlood).toBe(false)
+
+    // 重判后更早的通过成为一血
+    const rejudged = scoreboard.setResult(2, 'P1', computeProblemResult(contest, [submission(2, 'P1', SubmissionStatus.ACCEPTED, 20)]))
+    expect(rejudged!.firstBlood).toEqual({ problemId: 'P1', userId: 2 })
+    expect(scoreboard.getResult(1, 'P1')!.isFirstBlood).toBe(false)
+
+    // 撤销一血的通过后一血回到原选手
+    const revoked = scoreboard.setResult(2, 'P1', null)
+    expect(revoked!.firstBlood).toEqual({ problemId: 'P1', userId: 1 })
+    expect(scoreboard.getResult(1, 'P1')!.isFirstBlood).toBe(true)
+  })
+
+  it('IOI赛制按各题最高分之和排名，总分相同名次相同', () => {
+    const contest = makeContest(ContestRule.IOI)
+    const scoreboard = makeScoreboard(contest, [participant(1), participant(2), participant(3)])
+
+    scoreboard.setResult(1, 'P1', computeProblemResult(contest, [
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 10, 30, [{ id: 1, score: 30 }, { id: 2, score: 0 }]),
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 20, 40, [{ id: 1, score: 0 }, { id: 2, score: 40 }])
+    ]))
+    scoreboard.setResult(2, 'P1', computeProblemResult(contest, [
+      submission(2, 'P1', SubmissionStatus.WRONG_ANSWER, 10, 30, [{ id: 1, score: 30 }, { id: 2, score: 0 }])
+    ]))
+    const delta = scoreboard.setResult(2, 'P2', computeProblemResult(contest, [
+      submission(2, 'P2', SubmissionStatus.WRONG_ANSWER, 50, 40)
+    ]))
+
+    expect(delta!.row).toMatchObject({ userId: 2, totalScore: 70, rank: 1 })
+    expect(scoreboard.getRow(1)).toMatchObject({ totalScore: 70, rank: 1 })
+    expect(scoreboard.getRow(3)).toMatchObject({ totalScore: 0, rank: 3 })
+  })
+
+  it('不是选手时不更新', () => {
+    const contest = makeContest(ContestRule.ACM)
+    const scoreboard = makeScoreboard(contest, [participant(1)])
+    expect(scoreboard.setResult(9, 'P1', null)).toBeNull()
+  })
+})
+
+describe('computeFrozenResult', () => {
+  it('只计封榜前的提交，之后的提交记为待揭晓', () => {
+    const contest = makeContest(ContestRule.ACM, 240)
+    const submissions = [
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 100),
+      submission(1, 'P1', SubmissionStatus.ACCEPTED, 250),
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 260)
+    ]
+    const live = computeProblemResult(contest, submissions)
+
+    expect(computeFrozenResult(contest, submissions, live)).toEqual({ score: 0, attempts: 1, timeUsed: 0, pending: 2 })
+  })
+
+  it('封榜前没有提交时只显示待揭晓数', () => {
+    const contest = makeContest(ContestRule.OI, 240)
+    const submissions = [submission(1, 'P1', SubmissionStatus.ACCEPTED, 250, 100)]
+
+    expect(computeFrozenResult(contest, submissions, computeProblemResult(contest, submissions)))
+      .toEqual({ score: 0, attempts: 0, timeUsed: 0, pending: 1 })
+  })
+
+  it('ACM赛制封榜前已通过的题目不受之后提交影响', () => {
+    const contest = makeContest(ContestRule.ACM, 240)
+    const submissions = [
+      submission(1, 'P1', SubmissionStatus.ACCEPTED, 100),
+      submission(1, 'P1', SubmissionStatus.WRONG_ANSWER, 250)
+    ]
+    const result = computeFrozenResult(contest, submissions, computeProblemResult(contest, submissions))
+
+    expect(result).toMatchObject({ score: 1, attempts: 1, timeUsed: 100 })
+    expect(result!.pending).toBeUndefined()
+  })
+
+  it('已揭晓的单元格使用实时结果', () => {
+    const contest = makeContest(ContestRule.ACM, 240)
+    contest.revealedCells = ['1:P1']
+    const submissions = [submission(1, 'P1', SubmissionStatus.ACCEPTED, 250)]
+    const live = computeProblemResult(contest, submissions)
+
+    expect(computeFrozenResult(contest, submissions, live)).toEqual(live)
+  })
+})
+
+describe('revealNextContestCell', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+    invalidateContestScoreboard(1)
+  })
+
+  // 比赛数据从模拟的查询结果加载，比赛的更新只作用于内存中的实例
+  const loadContest = (contest: Contest, users: number[], submissions: Submission[]) => {
+    jest.spyOn(ContestParticipant, 'findAll').mockResolvedValue(users.map(userId => ({
+      ...participant(userId),
+      user: { username: `user${userId}`, realName: '' }
+    })) as unknown as ContestParticipant[])
+    jest.spyOn(Submission, 'findAll').mockResolvedValue(submissions)
+    jest.spyOn(contest, 'update').mockImplementation(async (values: any) => contest.set(values))
+  }
+
+  it('从排名最靠后的选手开始按题号逐格揭晓，全部揭晓后解除封榜', async () => {
+    const contest = makeContest(ContestRule.ACM, 240)
+    loadContest(contest, [1, 2, 3], [
+      submission(1, 'P1', SubmissionStatus.ACCEPTED, 10),
+      submission(1, 'P2', SubmissionStatus.WRONG_ANSWER, 250),
+      submission(2, 'P1', SubmissionStatus.ACCEPTED, 250),
+      submission(3, 'P2', SubmissionStatus.ACCEPTED, 260),
+      submission(3, 'P1', SubmissionStatus.ACCEPTED, 270)
+    ])
+
+    const steps = []
+    for (let i = 0; i < 4; i++) {
+      const { step, remaining } = await revealNextContestCell(contest)
+      steps.push({ ...step!, remaining })
+    }
+
+    expect(steps.map(({ userId, problemId, label, previousRank, rank, remaining }) => ({
+      userId, problemId, label, previousRank, rank, remaining
+    }))).toEqual([
+      { userId: 3, problemId: 'P1', label: 'A', previousRank: 2, rank: 2, remaining: 3 },
+      { userId: 2, problemId: 'P1', label: 'A', previousRank: 3, rank: 2, remaining: 2 },
+      { userId: 3, problemId: 'P2', label: 'B', previousRank: 3, rank: 1, remaining: 1 },
+      { userId: 1, problemId: 'P2', label: 'B', previousRank: 2, rank: 2, remaining: 0 }
+    ])
+    expect(steps[3]!.result).toMatchObject({ score: 0, attempts: 1 })
+    expect(contest.revealedCells).toEqual(['3:P1', '2:P1', '3:P2', '1:P2'])
+    expect(contest.unfrozenAt).toBeInstanceOf(Date)
+  })
+
+  it('没有待揭晓的单元格时直接解除封榜', async () => {
+    const contest = makeContest(ContestRule.ACM, 240)
+    loadContest(contest, [1], [submission(1, 'P1', SubmissionStatus.ACCEPTED, 10)])
+
+    expect(await revealNextContestCell(contest)).toEqual({ step: null, remaining: 0 })
+    expect(contest.unfrozenAt).toBeInstanceOf(Date)
+  })
+})
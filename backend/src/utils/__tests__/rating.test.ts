@@ -0,0 +1,154 @@
+import { Op } from 'sequelize'
+import sequelize from '../../database/mysql'
+import { Contest, ContestRule, ContestType } from '../../models/ContestMySQL'
+import { ContestParticipant } from '../../models/ContestParticipantMySQL'
+import { RatingHistory } from '../../models/RatingHistoryMySQL'
+import { Submission, SubmissionStatus } from '../../models/SubmissionMySQL'
+import { User } from '../../models/UserMySQL'
+import { calculateRatingChanges, unrateContest } from '../rating'
+
+// 排行榜推送依赖 Socket.IO 服务，测试中不启动服务器
+jest.mock('../../server', () => ({ emitToRoom: jest.fn() }))
+
+describe('calculateRatingChanges', () => {
+  it('两名同分选手：胜者 +96，负者 -98', () => {
+    // 胜者期望名次 1.5，应有名次 √1.5，对应积分 1715，变化 (1715 - 1500) / 2 = 107
+    // 负者应有名次 √3，对应积分 1325，变化 -87；总和 20，整体下调 trunc(-20 / 2) - 1 = -11
+    expect(calculateRatingChanges([
+      { userId: 1, rank: 1, rating: 1500 },
+      { userId: 2, rank: 2, rating: 1500 }
+    ])).toEqual([
+      { userId: 1, rank: 1, oldRating: 1500, newRating: 1596, delta: 96 },
+      { userId: 2, rank: 2, oldRating: 1500, newRating: 1402, delta: -98 }
+    ])
+  })
+
+  it('名次与期望一致的同分选手只做整体下调', () => {
+    const changes = calculateRatingChanges([
+      { userId: 1, rank: 1, rating: 1500 },
+      { userId: 2, rank: 1, rating: 1500 }
+    ])
+    expect(changes.map(change => change.delta)).toEqual([-1, -1])
+  })
+
+  it('高分选手输给低分选手时失分更多', () => {
+    const changes = calculateRatingChanges([
+      { userId: 1, rank: 1, rating: 1400 },
+      { userId: 2, rank: 2, rating: 1800 }
+    ])
+    const [even] = calculateRatingChanges([
+      { userId: 1, rank: 1, rating: 1500 },
+      { userId: 2, rank: 2, rating: 1500 }
+    ])
+
+    expect(changes[0]!.delta).toBeGreaterThan(even!.delta)
+    expect(changes[1]!.delta).toBeLessThan(-even!.delta)
+  })
+
+  it('变化总和不为正', () => {
+    const changes = calculateRatingChanges([
+      { userId: 1, rank: 1, rating: 1200 },
+      { userId: 2, rank: 2, rating: 1900 },
+      { userId: 3, rank: 3, rating: 1500 },
+      { userId: 4, rank: 3, rating: 1500 },
+      { userId: 5, rank: 5, rating: 1000 }
+    ])
+    expect(changes.reduce((sum, change) => sum + change.delta, 0)).toBeLessThanOrEqual(0)
+    expect(changes.every(change => change.newRating === change.oldRating + change.delta)).toBe(true)
+  })
+
+  it('少于两名选手时积分不变', () => {
+    expect(calculateRatingChanges([{ userId: 1, rank: 1, rating: 1500 }])).toEqual([
+      { userId: 1, rank: 1, oldRating: 1500, newRating: 1500, delta: 0 }
+    ])
+  })
+})
+
+describe('unrateContest', () => {
+  const day = 24 * 60 * 60 * 1000
+  const makeContest = (id: number, startTime: Date, ratedAt: Date | null): Contest => Contest.build({
+    id,
+    title: `Contest ${id}`,
+    description: '',
+    type: ContestType.PUBLIC,
+    rule: ContestRule.ACM,
+    startTime,
+    endTime: new Date(startTime.getTime() + 2 * 60 * 60 * 1000),
+    duration: 120,
+    problems: [{ problemId: 'P1', label: 'A' }],
+    revealedCells: [],
+    isRated: true,
+    ratedAt,
+    createdBy: 99
+  })
+
+  const history = (contestId: number, userId: number, oldRating: number, newRating: number) => {
+    return { contestId, userId, oldRating, newRating } as RatingHistory
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('撤销已计分比赛并按撤销前的积分重新计算之后的比赛', async () => {
+    // 比赛1中选手1获胜（1500 → 1596，选手2 1500 → 1402），比赛2中选手2获胜
+    const first = makeContest(1, new Date('2026-01-01T00:00:00Z'), new Date('2026-01-01T03:00:00Z'))
+    const second = makeContest(2, new Date(first.startTime.getTime() + day), new Date('2026-01-02T03:00:00Z'))
+
+    jest.spyOn(sequelize, 'transaction').mockImplementation((async (callback: any) => callback({})) as any)
+    jest.spyOn(first, 'update').mockImplementation(async (values: any) => first.set(values))
+    jest.spyOn(Contest, 'findAll').mockResolvedValue([second])
+    jest.spyOn(RatingHistory, 'findAll').mockResolvedValue([
+      history(2, 1, 1596, 1600),
+      history(2, 2, 1402, 1500),
+      history(1, 1, 1500, 1596),
+      history(1, 2, 1500, 1402)
+    ])
+    const destroy = jest.spyOn(RatingHistory, 'destroy').mockResolvedValue(4)
+    const bulkCreate = jest.spyOn(RatingHistory, 'bulkCreate').mockResolvedValue([])
+    jest.spyOn(ContestParticipant, 'findAll').mockResolvedValue([1, 2].map(userId => ({
+      userId,
+      isOfficial: true,
+      isVirtual: false,
+      user: { username: `user${userId}`, realName: '' }
+    })) as unknown as ContestParticipant[])
+    jest.spyOn(Submission, 'findAll').mockResolvedValue([
+      { id: 1, userId: 2, problemId: 'P1', status: SubmissionStatus.ACCEPTED, score: 100, submittedAt: new Date(second.startTime.getTime() + 600000) },
+      { id: 2, userId: 1, problemId: 'P1', status: SubmissionStatus.WRONG_ANSWER, score: 0, submittedAt: new Date(second.startTime.getTime() + 1200000) }
+    ] as unknown as Submission[])
+    const updateUser = jest.spyOn(User, 'update').mockResolvedValue([1])
+    const increment = jest.spyOn(User, 'increment').mockResolvedValue([] as any)
+
+    expect(await unrateContest(first)).toEqual({ recomputed: 1 })
+
+    expect(first.isRated).toBe(false)
+    expect(first.ratedAt).toBeNull()
+    expect(destroy.mock.calls[0]![0]!.where).toEqual({ contestId: { [Op.in]: [1, 2] } })
+
+    // 比赛2从两人都是 1500 重新计算
+    expect(bulkCreate.mock.calls[0]![0]).toEqual([
+      { contestId: 2, userId: 2, rank: 1, oldRating: 1500, newRating: 1596, delta: 96 },
+      { contestId: 2, userId: 1, rank: 2, oldRating: 1500, newRating: 1402, delta: -98 }
+    ])
+    expect(updateUser.mock.calls.map(([values, options]) => [options.where, values])).toEqual(expect.arrayContaining([
+      [{ id: 1 }, { rating: 1402 }],
+      [{ id: 2 }, { rating: 1596 }]
+    ]))
+    // 各少参加一场计分比赛
+    expect(increment.mock.calls.map(([field, options]) => [field, (options as any).by, (options as any).where])).toEqual([
+      ['contestsParticipated', -1, { id: 1 }],
+      ['contestsParticipated', -1, { id: 2 }]
+    ])
+  })
+
+  it('尚未计分的比赛只取消计分标记', async () => {
+    const contest = makeContest(1, new Date('2026-01-01T00:00:00Z'), null)
+    jest.spyOn(sequelize, 'transaction').mockImplementation((async (callback: any) => callback({})) as any)
+    jest.spyOn(contest, 'update').mockImplementation(async (values: any) => contest.set(values))
+    const findHistories = jest.spyOn(RatingHistory, 'findAll')
+
+    expect(await unrateContest(contest)).toEqual({ recomputed: 0 })
+    expect(contest.isRated).toBe(false)
+    expect(findHistories).not.toHaveBeenCalled()
+  })
+})
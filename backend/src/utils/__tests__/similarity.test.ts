@@ -0,0 +1,130 @@
+import { K, WINDOW, analyzeCode, compareCode, fingerprintHashes, tokenize, winnow } from '../similarity'
+
+const original = `#include <cstdio>
+// 求和
+int main() {
+  int n, sum = 0;
+  scanf("%d", &n);
+  for (int i = 1; i <= n; i++) {
+    sum += i * i;
+  }
+  printf("%d\\n", sum);
+  return 0;
+}
+`
+
+// 改名、改常量、改格式并加注释后的抄袭版本
+const renamed = `#include <bits/stdc++.h>
+int main()
+{
+    /* read input */
+    int count, total = 100;
+    scanf("%d", &count);
+    for (int k = 1; k <= count; k++)
+    {
+        total += k * k; // accumulate
+    }
+    printf("%d\\n", total);
+    return 0;
+}
+`
+
+const unrelated = `#include <cstdio>
+struct Node { Node *left, *right; };
+void visit(Node *node) {
+  if (!node) return;
+  visit(node->left);
+  visit(node->right);
+  delete node;
+}
+`
+
+describe('tokenize', () => {
+  it('标识符、数字、字符串归一化，关键字与运算符保留', () => {
+    expect(tokenize('int x = 42; char *s = "hi";', 'cpp').map(token => token.value)).toEqual([
+      'int', 'V', '=', 'N', ';', 'char', '*', 'V', '=', 'S', ';'
+    ])
+  })
+
+  it('去掉注释与预处理指令并记录行号', () => {
+    const tokens = tokenize('#include <cstdio>\n/* a\n b */ x += 1; // c\ny', 'cpp')
+    expect(tokens).toEqual([
+      { value: 'V', line: 3 },
+      { value: '+=', line: 3 },
+      { value: 'N', line: 3 },
+      { value: ';', line: 3 },
+      { value: 'V', line: 4 }
+    ])
+  })
+
+  it('未闭合的块注释延续到代码末尾', () => {
+    expect(tokenize('x;\n/* a\nb;\n', 'cpp').map(token => token.value)).toEqual(['V', ';'])
+  })
+
+  it('按语言区分注释与关键字', () => {
+    expect(tokenize('def f(x): # note\n  return x', 'python').map(token => token.value)).toEqual([
+      'def', 'V', '(', 'V', ')', ':', 'return', 'V'
+    ])
+  })
+})
+
+describe('winnow', () => {
+  it('词法单元少于 K 个时没有指纹', () => {
+    expect(winnow(tokenize('a = b;', 'cpp'))).toEqual([])
+  })
+
+  it('每个窗口内都有被选中的指纹，位置递增且不重复', () => {
+    const tokens = tokenize(original, 'cpp')
+    const fingerprints = winnow(tokens)
+    const positions = fingerprints.map(fingerprint => fingerprint.position)
+
+    expect(positions).toEqual([...positions].sort((a, b) => a - b))
+    expect(new Set(positions).size).toBe(positions.length)
+    for (let start = 0; start + WINDOW <= tokens.length - K + 1; start++) {
+      expect(positions.some(position => position >= start && position < start + WINDOW)).toBe(true)
+    }
+  })
+
+  it('改名与改格式不影响指纹', () => {
+    expect(analyzeCode(renamed, 'cpp').fingerprints).toEqual(analyzeCode(original, 'cpp').fingerprints)
+  })
+})
+
+describe('compareCode', () => {
+  it('改名与改格式后的代码相似度为100%', () => {
+    const result = compareCode(analyzeCode(original, 'cpp'), analyzeCode(renamed, 'cpp'))
+
+    expect(result.similarity).toBe(100)
+    expect(result.leftSimilarity).toBe(100)
+    expect(result.rightSimilarity).toBe(100)
+    expect(result.matches).toEqual([
+      { leftStart: 3, leftEnd: 11, rightStart: 2, rightEnd: 13, tokens: tokenize(original, 'cpp').length }
+    ])
+  })
+
+  it('无关代码没有匹配片段', () => {
+    const result = compareCode(analyzeCode(original, 'cpp'), analyzeCode(unrelated, 'cpp'))
+
+    expect(result.similarity).toBe(0)
+    expect(result.matches).toEqual([])
+  })
+
+  it('部分抄袭时两侧覆盖率不同，相似度取较大值', () => {
+    const combined = `${unrelated}\n${original}`
+    const result = compareCode(analyzeCode(original, 'cpp'), analyzeCode(combined, 'cpp'))
+    const originalTokens = tokenize(original, 'cpp').length
+    const combinedTokens = tokenize(combined, 'cpp').length
+
+    expect(result.leftSimilarity).toBe(100)
+    expect(result.rightSimilarity).toBe(Math.round(originalTokens / combinedTokens * 1000) / 10)
+    expect(result.similarity).toBe(100)
+    expect(result.matches[0]).toMatchObject({ leftStart: 3, rightStart: 12 })
+  })
+
+  it('忽略的指纹不作为匹配起点', () => {
+    const left = analyzeCode(original, 'cpp')
+    const right = analyzeCode(renamed, 'cpp')
+
+    expect(compareCode(left, right, fingerprintHashes(left)).similarity).toBe(0)
+  })
+})
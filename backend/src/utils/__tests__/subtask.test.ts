@@ -0,0 +1,120 @@
+import { createTestCase, judgeSubtasks, JudgeStatus, TestCaseResult } from '../judge'
+import { Subtask, SubtaskType } from '../subtask'
+
+// 测试点数据文件不存在时预览为空，评测只依赖模拟的 runCase
+const testCases = [1, 2, 3, 4, 5, 6].map(id => createTestCase(id, `/nonexistent/${id}.in`, `/nonexistent/${id}.ans`))
+
+// 按测试点编号给出得分比例与状态，并记录实际运行过的测试点
+const mockRunner = (outcomes: Record<number, { ratio: number; status?: JudgeStatus }>) => {
+  const runs: number[] = []
+  const runCase = async (testCase: { id: number; score: number }): Promise<TestCaseResult> => {
+    runs.push(testCase.id)
+    const { ratio, status } = outcomes[testCase.id] ?? { ratio: 1 }
+    return {
+      id: testCase.id,
+      status: status ?? (ratio >= 1 ? JudgeStatus.ACCEPTED : ratio > 0 ? JudgeStatus.PARTIALLY_CORRECT : JudgeStatus.WRONG_ANSWER),
+      timeUsed: 0,
+      memoryUsed: 0,
+      input: '',
+      expectedOutput: '',
+      actualOutput: '',
+      score: Math.floor(testCase.score * ratio),
+      ratio
+    }
+  }
+  return { runs, runCase }
+}
+
+describe('judgeSubtasks', () => {
+  it('min 子任务按最低得分比例计分', async () => {
+    const subtasks: Subtask[] = [{ id: 1, score: 40, type: SubtaskType.MIN, testCases: [1, 2, 3] }]
+    const { runCase } = mockRunner({ 1: { ratio: 1 }, 2: { ratio: 0.5 }, 3: { ratio: 0.75 } })
+
+    const result = await judgeSubtasks(testCases, subtasks, runCase)
+
+    expect(result.score).toBe(20)
+    expect(result.subtaskResults[0]).toMatchObject({
+      score: 20,
+      maxScore: 40,
+      status: JudgeStatus.PARTIALLY_CORRECT,
+      failedTestCase: 2,
+      skipped: false
+    })
+  })
+
+  it('min 子任务出现0分后跳过剩余测试点', async () => {
+    const subtasks: Subtask[] = [{ id: 1, score: 40, type: SubtaskType.MIN, testCases: [1, 2, 3] }]
+    const { runs, runCase } = mockRunner({ 2: { ratio: 0, status: JudgeStatus.TIME_LIMIT_EXCEEDED } })
+
+    const result = await judgeSubtasks(testCases, subtasks, runCase)
+
+    expect(runs).toEqual([1, 2])
+    expect(result.score).toBe(0)
+    expect(result.subtaskResults[0]!.summary).toBe('Subtask 1: 0/40 (TLE on #2)')
+    expect(result.testCaseResults.map(r => r.status)).toEqual([
+      JudgeStatus.ACCEPTED,
+      JudgeStatus.TIME_LIMIT_EXCEEDED,
+      JudgeStatus.SKIPPED
+    ])
+  })
+
+  it('sum 子任务按平均得分比例计分且不提前结束', async () => {
+    const subtasks: Subtask[] = [{ id: 1, score: 30, type: SubtaskType.SUM, testCases: [1, 2, 3] }]
+    const { runs, runCase } = mockRunner({ 1: { ratio: 0 }, 2: { ratio: 1 }, 3: { ratio: 0.5 } })
+
+    const result = await judgeSubtasks(testCases, subtasks, runCase)
+
+    expect(runs).toEqual([1, 2, 3])
+    expect(result.score).toBe(15)
+    expect(result.subtaskResults[0]).toMatchObject({ score: 15, status: JudgeStatus.WRONG_ANSWER, failedTestCase: 1 })
+  })
+
+  it('共享的测试点只运行一次', async () => {
+    const subtasks: Subtask[] = [
+      { id: 1, score: 30, type: SubtaskType.ALL, testCases: [1, 2] },
+      { id: 2, score: 70, type: SubtaskType.ALL, testCases: [1, 2, 3] }
+    ]
+    const { runs, runCase } = mockRunner({})
+
+    const result = await judgeSubtasks(testCases, subtasks, runCase)
+
+    expect(runs).toEqual([1, 2, 3])
+    expect(result.score).toBe(100)
+  })
+
+  it('依赖的子任务未满分时跳过本子任务', async () => {
+    const subtasks: Subtask[] = [
+      { id: 1, score: 20, type: SubtaskType.ALL, testCases: [1, 2] },
+      { id: 2, score: 30, type: SubtaskType.MIN, testCases: [3, 4], dependencies: [1] },
+      { id: 3, score: 50, type: SubtaskType.SUM, testCases: [5, 6] }
+    ]
+    const { runs, runCase } = mockRunner({ 2: { ratio: 0 } })
+
+    const result = await judgeSubtasks(testCases, subtasks, runCase)
+
+    expect(runs).toEqual([1, 2, 5, 6])
+    expect(result.score).toBe(50)
+    expect(result.subtaskResults[1]).toMatchObject({
+      id: 2,
+      score: 0,
+      status: JudgeStatus.SKIPPED,
+      skipped: true,
+      summary: 'Subtask 2: 0/30 (skipped, depends on Subtask 1)'
+    })
+    expect(result.testCaseResults.filter(r => r.status === JudgeStatus.SKIPPED).map(r => r.id)).toEqual([3, 4])
+  })
+
+  it('依赖关系决定评测顺序，结果保持定义顺序', async () => {
+    const subtasks: Subtask[] = [
+      { id: 2, score: 60, type: SubtaskType.ALL, testCases: [3], dependencies: [1] },
+      { id: 1, score: 40, type: SubtaskType.ALL, testCases: [1] }
+    ]
+    const { runs, runCase } = mockRunner({})
+
+    const result = await judgeSubtasks(testCases, subtasks, runCase)
+
+    expect(runs).toEqual([1, 3])
+    expect(result.subtaskResults.map(r => r.id)).toEqual([2, 1])
+    expect(result.score).toBe(100)
+  })
+})
@@ -0,0 +1,189 @@
+import { Op } from 'sequelize'
+import { Assignment } from '../models/AssignmentMySQL'
+import { Problem } from '../models/ProblemMySQL'
+import { Submission, SubmissionStatus } from '../models/SubmissionMySQL'
+import { User, UserRole, UserStatus } from '../models/UserMySQL'
+
+// 单题完成状态
+export enum CompletionStatus {
+  SOLVED = 'solved',            // 截止前通过
+  LATE = 'late',                // 截止后才通过
+  ATTEMPTED = 'attempted',      // 提交过但未通过
+  UNATTEMPTED = 'unattempted'   // 未提交
+}
+
+// 学生单题完成情况
+export interface CompletionCell {
+  problemId: string
+  status: CompletionStatus
+  attempts: number          // 首次通过前（含）的提交次数，未通过时为全部提交次数
+  solvedAt: Date | null
+  score: number             // 0-100，逾期通过按扣分比例折算
+}
+
+// 学生完成情况
+export interface CompletionRow {
+  userId: number
+  username: string
+  realName: string
+  studentId: string
+  class: string
+  cells: CompletionCell[]
+  solvedCount: number       // 通过题数（含逾期）
+  lateCount: number
+  score: number             // 各题得分的平均值
+}
+
+// 作业完成情况矩阵
+export interface CompletionMatrix {
+  assignmentId: number
+  deadline: Date
+  latePenalty: number | null
+  problems: { problemId: string; title: string; solvedCount: number }[]
+  rows: CompletionRow[]
+}
+
+// 判题完成的提交才计入完成情况
+const PENDING_STATUSES = [SubmissionStatus.PENDING, SubmissionStatus.JUDGING]
+
+// 根据学生某题的提交（按时间升序）计算完成情况
+export const computeCompletionCell = (
+  assignment: Assignment,
+  problemId: string,
+  submissions: Submission[]
+): CompletionCell => {
+  const index = submissions.findIndex(submission => submission.status === SubmissionStatus.ACCEPTED)
+  if (index === -1) {
+    return {
+      problemId,
+      status: submissions.length > 0 ? CompletionStatus.ATTEMPTED : CompletionStatus.UNATTEMPTED,
+      attempts: submissions.length,
+      solvedAt: null,
+      score: 0
+    }
+  }
+
+  const solvedAt = submissions[index].submittedAt
+  const late = solvedAt >= assignment.deadline
+  return {
+    problemId,
+    status: late ? CompletionStatus.LATE : CompletionStatus.SOLVED,
+    attempts: index + 1,
+    solvedAt,
+    score: late ? Math.round(100 * assignment.getLateRatio()) : 100
+  }
+}
+
+// 查询作业布置班级中的学生
+export const findAssignedStudents = async (assignment: Assignment): Promise<User[]> => {
+  if (assignment.classes.length === 0) return []
+  return await User.findAll({
+    where: {
+      class: { [Op.in]: assignment.classes },
+      role: UserRole.STUDENT,
+      status: UserStatus.ACTIVE
+    },
+    attributes: ['id', 'username', 'realName', 'studentId', 'class'],
+    order: [['class', 'ASC'], ['studentId', 'ASC'], ['id', 'ASC']]
+  })
+}
+
+// 计算学生的作业完成情况
+export const computeCompletionRows = async (assignment: Assignment, students: User[]): Promise<CompletionRow[]> => {
+  const submissions = students.length > 0 && assignment.problems.length > 0
+    ? await Submission.findAll({
+        where: {
+          userId: { [Op.in]: students.map(student => student.id) },
+          problemId: { [Op.in]: assignment.problems },
+          status: { [Op.notIn]: PENDING_STATUSES }
+        },
+        attributes: ['userId', 'problemId', 'status', 'submittedAt'],
+        order: [['submittedAt', 'ASC'], ['id', 'ASC']]
+      })
+    : []
+
+  // 按 "用户ID:题目ID" 分组
+  const groups = new Map<string, Submission[]>()
+  for (const submission of submissions) {
+    const key = `${submission.userId}:${submission.problemId}`
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(submission)
+  }
+
+  return students.map(student => {
+    const cells = assignment.problems.map(problemId =>
+      computeCompletionCell(assignment, problemId, groups.get(`${student.id}:${problemId}`) || [])
+    )
+    const total = cells.reduce((sum, cell) => sum + cell.score, 0)
+    return {
+      userId: student.id,
+      username: student.username,
+      realName: student.realName || '',
+      studentId: student.studentId || '',
+      class: student.class || '',
+      cells,
+      solvedCount: cells.filter(cell => cell.status === CompletionStatus.SOLVED || cell.status === CompletionStatus.LATE).length,
+      lateCount: cells.filter(cell => cell.status === CompletionStatus.LATE).length,
+      score: cells.length > 0 ? Math.round(total / cells.length * 10) / 10 : 0
+    }
+  })
+}
+
+// 构建作业完成情况矩阵
+export const buildCompletionMatrix = async (assignment: Assignment): Promise<CompletionMatrix> => {
+  const students = await findAssignedStudents(assignment)
+  const rows = await computeCompletionRows(assignment, students)
+
+  const problems = await Problem.findAll({
+    where: { problemId: { [Op.in]: assignment.problems } },
+    attributes: ['problemId', 'title']
+  })
+  const titles = new Map(problems.map(problem => [problem.problemId, problem.title]))
+
+  return {
+    assignmentId: assignment.id,
+    deadline: assignment.deadline,
+    latePenalty: assignment.latePenalty ?? null,
+    problems: assignment.problems.map((problemId, index) => ({
+      problemId,
+      title: titles.get(problemId) || '',
+      solvedCount: rows.filter(row => row.cells[index].status === CompletionStatus.SOLVED || row.cells[index].status === CompletionStatus.LATE).length
+    })),
+    rows
+  }
+}
+
+// CSV字段转义
+const escapeCsv = (value: string | number): string => {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// 单元格导出文本
+const cellText = (cell: CompletionCell): string => {
+  switch (cell.status) {
+    case CompletionStatus.SOLVED:
+      return '通过'
+    case CompletionStatus.LATE:
+      return `逾期通过(${cell.score})`
+    case CompletionStatus.ATTEMPTED:
+      return `未通过(${cell.attempts}次)`
+    default:
+      return ''
+  }
+}
+
+// 将完成情况矩阵导出为CSV
+export const matrixToCsv = (matrix: CompletionMatrix): string => {
+  const header = [
+    '学号', '姓名', '用户名', '班级',
+    ...matrix.problems.map(problem => `${problem.problemId} ${problem.title}`),
+    '完成题数', '得分'
+  ]
+  const lines = matrix.rows.map(row => [
+    row.studentId, row.realName, row.username, row.class,
+    ...row.cells.map(cellText),
+    row.solvedCount, row.score
+  ])
+  return [header, ...lines].map(line => line.map(escapeCsv).join(',')).join('\r\n')
+}
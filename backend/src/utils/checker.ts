@@ -0,0 +1,345 @@
+import { spawn } from 'child_process'
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { config } from '../config'
+
+// 检查器类型
+export enum CheckerType {
+  EXACT = 'exact',                       // 去除首尾空白后完全一致，仅空白不同判为格式错误
+  TOKENS = 'tokens',                     // 按空白切分后逐个比较
+  LINES = 'lines',                       // 逐行比较，忽略行末空格与文件末尾空行
+  FLOAT = 'float',                       // 浮点数按绝对/相对误差比较
+  CASE_INSENSITIVE = 'case-insensitive', // 逐个比较，忽略大小写
+  CUSTOM = 'custom'                      // 上传的testlib检查器（C++）
+}
+
+// 题目检查器配置
+export interface ProblemChecker {
+  type: CheckerType
+  absoluteEpsilon?: number // 浮点数绝对误差
+  relativeEpsilon?: number // 浮点数相对误差
+  source?: string          // 自定义检查器源代码
+}
+
+// 检查结果
+export enum CheckerVerdict {
+  ACCEPTED = 'accepted',
+  WRONG_ANSWER = 'wrong_answer',
+  PRESENTATION_ERROR = 'presentation_error',
+  PARTIALLY_CORRECT = 'partially_correct',
+  FAIL = 'fail' // 检查器自身出错
+}
+
+export interface CheckerResult {
+  verdict: CheckerVerdict
+  ratio: number   // 得分比例，0 ~ 1
+  message: string
+}
+
+// 检查输入（均为文件路径）
+export interface CheckerInput {
+  inputFile: string
+  outputFile: string
+  answerFile: string
+}
+
+export interface Checker {
+  check(data: CheckerInput): Promise<CheckerResult>
+}
+
+// testlib 检查器退出码
+const TESTLIB_OK = 0
+const TESTLIB_WA = 1
+const TESTLIB_PE = 2
+const TESTLIB_FAIL = 3
+const TESTLIB_DIRT = 4
+const TESTLIB_POINTS = 7
+const TESTLIB_UNEXPECTED_EOF = 8
+// 部分得分：quitf(_pc(n), ...) 以 16 + n 退出，得分比例为 n / 200
+const TESTLIB_PARTIALLY = 16
+const TESTLIB_PARTIALLY_SCALE = 200
+
+// 格式错误给80%分数
+const PRESENTATION_ERROR_RATIO = 0.8
+
+// 消息最大长度
+const MAX_MESSAGE_LENGTH = 1000
+
+// 默认浮点误差
+const DEFAULT_EPSILON = 1e-6
+
+// 检查器编译与运行超时
+const COMPILE_TIMEOUT = 60000
+const CHECK_TIMEOUT = 10000
+
+export const DEFAULT_CHECKER: ProblemChecker = { type: CheckerType.EXACT }
+
+const accepted = (message: string): CheckerResult => ({ verdict: CheckerVerdict.ACCEPTED, ratio: 1, message })
+const wrongAnswer = (message: string): CheckerResult => ({ verdict: CheckerVerdict.WRONG_ANSWER, ratio: 0, message })
+
+// 按得分比例给出结果
+const scored = (points: number, message: string): CheckerResult => {
+  const ratio = Math.max(0, Math.min(1, points))
+  return {
+    verdict: ratio >= 1 ? CheckerVerdict.ACCEPTED : ratio > 0 ? CheckerVerdict.PARTIALLY_CORRECT : CheckerVerdict.WRONG_ANSWER,
+    ratio,
+    message
+  }
+}
+
+const tokenize = (text: string): string[] => text.split(/\s+/).filter(token => token.length > 0)
+
+const truncate = (text: string, length: number = 32): string => {
+  return text.length > length ? `${text.substring(0, length)}...` : text
+}
+
+// 逐个比较token
+const compareTokens = (
+  output: string,
+  answer: string,
+  equals: (actual: string, expected: string) => boolean
+): CheckerResult => {
+  const actualTokens = tokenize(output)
+  const expectedTokens = tokenize(answer)
+
+  for (let i = 0; i < expectedTokens.length; i++) {
+    const expected = expectedTokens[i]!
+    const actual = actualTokens[i]
+    if (actual === undefined) {
+      return wrongAnswer(`输出过短：第${i + 1}个值缺失，期望 '${truncate(expected)}'`)
+    }
+    if (!equals(actual, expected)) {
+      return wrongAnswer(`第${i + 1}个值不同：期望 '${truncate(expected)}'，实际 '${truncate(actual)}'`)
+    }
+  }
+
+  if (actualTokens.length > expectedTokens.length) {
+    return wrongAnswer(`输出过长：期望 ${expectedTokens.length} 个值，实际 ${actualTokens.length} 个`)
+  }
+
+  return accepted(`共 ${expectedTokens.length} 个值`)
+}
+
+// 比较浮点数
+const floatEquals = (absoluteEpsilon: number, relativeEpsilon: number) => {
+  return (actual: string, expected: string): boolean => {
+    const expectedValue = Number(expected)
+    const actualValue = Number(actual)
+    if (isNaN(expectedValue) || !isFinite(expectedValue)) {
+      return actual === expected
+    }
+    if (isNaN(actualValue)) {
+      return false
+    }
+    const diff = Math.abs(actualValue - expectedValue)
+    return diff <= absoluteEpsilon || diff <= relativeEpsilon * Math.abs(expectedValue)
+  }
+}
+
+// 内置检查器
+const builtinCheckers: Record<string, (output: string, answer: string, checker: ProblemChecker) => CheckerResult> = {
+  [CheckerType.EXACT]: (output, answer) => {
+    const actual = output.trim()
+    const expected = answer.trim()
+    if (actual === expected) {
+      return accepted('输出完全一致')
+    }
+    if (actual.replace(/\s+/g, ' ') === expected.replace(/\s+/g, ' ')) {
+      return { verdict: CheckerVerdict.PRESENTATION_ERROR, ratio: PRESENTATION_ERROR_RATIO, message: '仅空白字符不同' }
+    }
+    return wrongAnswer('输出与期望答案不一致')
+  },
+
+  [CheckerType.TOKENS]: (output, answer) => compareTokens(output, answer, (a, b) => a === b),
+
+  [CheckerType.LINES]: (output, answer) => {
+    const toLines = (text: string) => {
+      const lines = text.split(/\r?\n/).map(line => line.trimEnd())
+      while (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop()
+      }
+      return lines
+    }
+    const actualLines = toLines(output)
+    const expectedLines = toLines(answer)
+
+    for (let i = 0; i < expectedLines.length; i++) {
+      const expected = expectedLines[i]!
+      const actual = actualLines[i]
+      if (actual === undefined) {
+        return wrongAnswer(`输出过短：缺少第${i + 1}行`)
+      }
+      if (actual !== expected) {
+        return wrongAnswer(`第${i + 1}行不同：期望 '${truncate(expected)}'，实际 '${truncate(actual)}'`)
+      }
+    }
+    if (actualLines.length > expectedLines.length) {
+      return wrongAnswer(`输出过长：期望 ${expectedLines.length} 行，实际 ${actualLines.length} 行`)
+    }
+    return accepted(`共 ${expectedLines.length} 行`)
+  },
+
+  [CheckerType.FLOAT]: (output, answer, checker) => {
+    const absoluteEpsilon = checker.absoluteEpsilon ?? DEFAULT_EPSILON
+    const relativeEpsilon = checker.relativeEpsilon ?? DEFAULT_EPSILON
+    return compareTokens(output, answer, floatEquals(absoluteEpsilon, relativeEpsilon))
+  },
+
+  [CheckerType.CASE_INSENSITIVE]: (output, answer) => {
+    return compareTokens(output, answer, (a, b) => a.toLowerCase() === b.toLowerCase())
+  }
+}
+
+// 内置检查器包装
+class BuiltinChecker implements Checker {
+  constructor(private config: ProblemChecker) {}
+
+  async check(data: CheckerInput): Promise<CheckerResult> {
+    const compare = builtinCheckers[this.config.type] || builtinCheckers[CheckerType.EXACT]!
+    const output = await fs.promises.readFile(data.outputFile, 'utf8')
+    const answer = await fs.promises.readFile(data.answerFile, 'utf8')
+    return compare(output, answer, this.config)
+  }
+}
+
+// testlib 风格的自定义检查器：checker <input> <output> <answer>
+class TestlibChecker implements Checker {
+  constructor(private executable: string) {}
+
+  async check(data: CheckerInput): Promise<CheckerResult> {
+    const args = [data.inputFile, data.outputFile, data.answerFile]
+    const { code, stderr } = await runProcess(this.executable, args, path.dirname(data.outputFile), CHECK_TIMEOUT)
+    return parseTestlibResult(code, stderr)
+  }
+}
+
+// 解析testlib检查器的退出码与输出
+export const parseTestlibResult = (code: number | null, stderr: string): CheckerResult => {
+  const message = stderr.trim().substring(0, MAX_MESSAGE_LENGTH)
+
+  switch (code) {
+    case TESTLIB_OK:
+      return accepted(message)
+    case TESTLIB_WA:
+    case TESTLIB_DIRT:
+    case TESTLIB_UNEXPECTED_EOF:
+      return wrongAnswer(message)
+    case TESTLIB_PE:
+      return { verdict: CheckerVerdict.PRESENTATION_ERROR, ratio: PRESENTATION_ERROR_RATIO, message }
+    case TESTLIB_POINTS: {
+      // quitp(points, ...) 输出 "points <value> <message>"，value 为得分比例
+      const match = message.match(/^points\s+(-?[\d.eE+-]+)\s*([\s\S]*)$/)
+      const points = match ? parseFloat(match[1]!) : NaN
+      if (isNaN(points)) {
+        return { verdict: CheckerVerdict.FAIL, ratio: 0, message: `无法解析检查器得分: ${message}` }
+      }
+      return scored(points, match![2] || message)
+    }
+    case TESTLIB_FAIL:
+    default:
+      if (code !== null && code >= TESTLIB_PARTIALLY) {
+        return scored((code - TESTLIB_PARTIALLY) / TESTLIB_PARTIALLY_SCALE, message)
+      }
+      return { verdict: CheckerVerdict.FAIL, ratio: 0, message: message || `检查器异常退出 (${code})` }
+  }
+}
+
+// 运行进程并收集输出
+const runProcess = (
+  cmd: string,
+  args: string[],
+  cwd: string,
+  timeout: number
+): Promise<{ code: number | null; stdout: string; stderr: string }> => {
+  return new Promise((resolve) => {
+    const child = spawn(cmd, args, { cwd, timeout })
+    let stdout = ''
+    let stderr = ''
+
+    child.stdout.on('data', (data: Buffer) => {
+      stdout += data.toString()
+    })
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString()
+    })
+    child.on('close', (code) => {
+      resolve({ code, stdout, stderr })
+    })
+    child.on('error', (error: Error) => {
+      resolve({ code: null, stdout, stderr: error.message })
+    })
+  })
+}
+
+// 正在编译中的testlib程序，避免同一份源码被并发编译
+const pendingCompiles = new Map<string, Promise<string>>()
+
+// 编译testlib程序（检查器/交互器），按源码哈希缓存，每份源码只编译一次
+export const compileTestlibProgram = async (kind: string, source: string): Promise<string> => {
+  const compileCommand = ['g++', '-O2', '-std=c++17', '-I', config.judge.testlibPath]
+  const hash = crypto.createHash('sha256').update(compileCommand.join(' ')).update('\0').update(source).digest('hex')
+  const outputDir = path.join(process.cwd(), 'temp', `${kind}s`, hash)
+  const executable = path.join(outputDir, kind)
+
+  if (fs.existsSync(executable)) {
+    return executable
+  }
+
+  const pending = pendingCompiles.get(hash)
+  if (pending) {
+    return pending
+  }
+
+  const compile = (async () => {
+    fs.mkdirSync(outputDir, { recursive: true })
+    const sourceFile = path.join(outputDir, `${kind}.cpp`)
+    fs.writeFileSync(sourceFile, source, 'utf8')
+
+    // 先编译到临时文件再重命名，避免其他进程读到半成品
+    const tempExecutable = `${executable}.${process.pid}.tmp`
+    const [cmd, ...args] = compileCommand
+    const { code, stderr } = await runProcess(cmd!, [...args, '-o', tempExecutable, sourceFile], outputDir, COMPILE_TIMEOUT)
+    if (code !== 0 || !fs.existsSync(tempExecutable)) {
+      fs.rmSync(tempExecutable, { force: true })
+      throw new Error(`${kind} 编译失败: ${stderr.substring(0, MAX_MESSAGE_LENGTH)}`)
+    }
+    fs.renameSync(tempExecutable, executable)
+    return executable
+  })()
+
+  pendingCompiles.set(hash, compile)
+  try {
+    return await compile
+  } finally {
+    pendingCompiles.delete(hash)
+  }
+}
+
+// 根据题目配置准备检查器
+export const prepareChecker = async (checkerConfig?: ProblemChecker): Promise<Checker> => {
+  const checker = checkerConfig || DEFAULT_CHECKER
+
+  if (checker.type === CheckerType.CUSTOM) {
+    if (!checker.source) {
+      throw new Error('自定义检查器缺少源代码')
+    }
+    return new TestlibChecker(await compileTestlibProgram('checker', checker.source))
+  }
+
+  return new BuiltinChecker(checker)
+}
+
+// 验证检查器配置
+export const isValidCheckerType = (type: string): boolean => {
+  return Object.values(CheckerType).includes(type as CheckerType)
+}
+
+export default {
+  prepareChecker,
+  compileTestlibProgram,
+  parseTestlibResult,
+  isValidCheckerType,
+  CheckerType,
+  CheckerVerdict
+}
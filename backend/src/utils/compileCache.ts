@@ -0,0 +1,242 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { config } from '../config'
+
+// 编译结果
+export interface CompileResult {
+  success: boolean
+  output: string
+  executable?: string
+}
+
+// 编译函数的返回值：编译器被超时终止或无法启动时结果不可缓存
+export interface CompileOutcome extends CompileResult {
+  cacheable: boolean
+}
+
+// 缓存条目的元数据（meta.json）
+interface CacheMeta {
+  language: string
+  success: boolean
+  output: string
+  executable: string | null // 相对工作目录的可执行文件路径
+  files: string[]           // 编译产物（工作目录中除源文件外的文件）
+}
+
+// 缓存中的条目
+interface CacheEntry {
+  key: string
+  size: number   // 条目目录的总大小
+  usedAt: number // 最近使用时间（meta.json 的修改时间）
+}
+
+// 缓存目录：每个条目为 <键>/meta.json 与 <键>/files/
+// 同一台机器上的判题进程共享缓存目录，各进程都可能写入或淘汰条目，
+// 因此不在内存中维护索引，需要条目大小与使用时间时从磁盘扫描
+const cacheRoot = (): string => path.join(process.cwd(), 'temp', 'compile-cache')
+
+// 写入中的临时目录超过该时长仍未完成，视为进程退出时遗留
+const STALE_TEMP_AGE = 60 * 60 * 1000
+
+// 命中统计（自进程启动起累计）
+let hits = 0
+let misses = 0
+
+// 正在编译中的源码，相同的源码并发提交时只编译一次
+const pendingCompiles = new Map<string, Promise<CompileOutcome>>()
+
+// 缓存键：语言、编译配置（编译命令、编译选项、编译器版本等）与源码共同决定编译结果
+export const compileCacheKey = (language: string, compileOptions: string[], source: string | Buffer): string => {
+  const hash = crypto.createHash('sha256').update(language).update('\0')
+  for (const option of compileOptions) {
+    hash.update(option).update('\0')
+  }
+  return hash.update(source).digest('hex')
+}
+
+// 目录中所有文件的总大小
+const directorySize = (dir: string): number => {
+  let size = 0
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name)
+    size += entry.isDirectory() ? directorySize(entryPath) : fs.statSync(entryPath).size
+  }
+  return size
+}
+
+// 扫描缓存目录，按最近使用时间从早到晚返回所有条目
+const scanEntries = (): CacheEntry[] => {
+  const entries: CacheEntry[] = []
+  const root = cacheRoot()
+  if (!fs.existsSync(root)) return entries
+
+  const now = Date.now()
+  for (const name of fs.readdirSync(root)) {
+    const entryDir = path.join(root, name)
+    try {
+      // 其他进程正在写入的条目
+      if (name.endsWith('.tmp')) {
+        if (now - fs.statSync(entryDir).mtimeMs > STALE_TEMP_AGE) {
+          fs.rmSync(entryDir, { recursive: true, force: true })
+        }
+        continue
+      }
+      const usedAt = fs.statSync(path.join(entryDir, 'meta.json')).mtimeMs
+      entries.push({ key: name, size: directorySize(entryDir), usedAt })
+    } catch (error) {
+      // 条目损坏或刚被其他进程淘汰
+      fs.rmSync(entryDir, { recursive: true, force: true })
+    }
+  }
+
+  return entries.sort((a, b) => a.usedAt - b.usedAt)
+}
+
+const sumSize = (entries: CacheEntry[]): number => entries.reduce((sum, entry) => sum + entry.size, 0)
+
+// 从缓存中删除条目
+const removeEntry = (key: string): void => {
+  fs.rmSync(path.join(cacheRoot(), key), { recursive: true, force: true })
+}
+
+// 磁盘上的缓存总大小超出容量时淘汰最久未使用的条目
+const evict = (): void => {
+  const entries = scanEntries()
+  let totalSize = sumSize(entries)
+  for (const entry of entries) {
+    if (totalSize <= config.judge.compileCacheSize) break
+    removeEntry(entry.key)
+    totalSize -= entry.size
+  }
+}
+
+// 命中时将编译产物复制到工作目录（不使用硬链接，避免程序运行时改写缓存），条目损坏时视为未命中
+const restoreEntry = (key: string, workDir: string): CompileResult | null => {
+  const entryDir = path.join(cacheRoot(), key)
+  const metaFile = path.join(entryDir, 'meta.json')
+  if (!fs.existsSync(metaFile)) return null
+
+  try {
+    const meta: CacheMeta = JSON.parse(fs.readFileSync(metaFile, 'utf8'))
+    for (const file of meta.files) {
+      fs.copyFileSync(path.join(entryDir, 'files', file), path.join(workDir, file))
+    }
+
+    // 记录使用时间，淘汰时按使用时间排序
+    const now = new Date()
+    fs.utimesSync(metaFile, now, now)
+
+    return {
+      success: meta.success,
+      output: meta.output,
+      executable: meta.executable ? path.join(workDir, meta.executable) : undefined
+    }
+  } catch (error) {
+    removeEntry(key)
+    return null
+  }
+}
+
+// 保存编译结果：先写入临时目录再重命名，避免其他进程读到半成品
+const storeEntry = (key: string, language: string, workDir: string, sourceFiles: string[], result: CompileResult): void => {
+  const entryDir = path.join(cacheRoot(), key)
+  if (fs.existsSync(path.join(entryDir, 'meta.json'))) return
+
+  const tempDir = `${entryDir}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`
+  try {
+    const files = fs.readdirSync(workDir, { withFileTypes: true })
+      .filter(entry => entry.isFile() && !sourceFiles.includes(entry.name))
+      .map(entry => entry.name)
+
+    fs.mkdirSync(path.join(tempDir, 'files'), { recursive: true })
+    for (const file of files) {
+      fs.copyFileSync(path.join(workDir, file), path.join(tempDir, 'files', file))
+    }
+    const meta: CacheMeta = {
+      language,
+      success: result.success,
+      output: result.output,
+      executable: result.executable ? path.relative(workDir, result.executable) : null,
+      files
+    }
+    fs.writeFileSync(path.join(tempDir, 'meta.json'), JSON.stringify(meta), 'utf8')
+
+    fs.renameSync(tempDir, entryDir)
+  } catch (error) {
+    // 其他进程已写入同一条目等情况，缓存失败不影响判题
+    fs.rmSync(tempDir, { recursive: true, force: true })
+    return
+  }
+  evict()
+}
+
+// 带缓存的编译：命中时复制缓存的编译产物与编译输出，否则编译并保存结果（编译失败的输出同样缓存）
+export const cachedCompile = async (
+  key: string,
+  language: string,
+  workDir: string,
+  sourceFiles: string[], // 工作目录中的源文件名，不作为编译产物保存
+  compile: () => Promise<CompileOutcome>
+): Promise<CompileResult> => {
+  if (config.judge.compileCacheSize <= 0) {
+    const { cacheable, ...result } = await compile()
+    return result
+  }
+
+  // 相同源码正在编译时等待其完成后再从缓存读取
+  const pending = pendingCompiles.get(key)
+  if (pending) {
+    await pending.catch(() => undefined)
+  }
+
+  const cached = restoreEntry(key, workDir)
+  if (cached) {
+    hits++
+    return cached
+  }
+
+  misses++
+  const compilation = compile()
+  pendingCompiles.set(key, compilation)
+  try {
+    const { cacheable, ...result } = await compilation
+    if (cacheable) {
+      storeEntry(key, language, workDir, sourceFiles, result)
+    }
+    return result
+  } finally {
+    if (pendingCompiles.get(key) === compilation) {
+      pendingCompiles.delete(key)
+    }
+  }
+}
+
+// 缓存统计
+export const getCompileCacheStats = () => {
+  const entries = scanEntries()
+  const lookups = hits + misses
+  return {
+    enabled: config.judge.compileCacheSize > 0,
+    entries: entries.length,
+    size: sumSize(entries),
+    maxSize: config.judge.compileCacheSize,
+    hits,
+    misses,
+    hitRate: lookups > 0 ? Math.round(hits / lookups * 10000) / 100 : 0
+  }
+}
+
+// 清空缓存，返回清除的条目数与大小
+export const clearCompileCache = (): { entries: number; size: number } => {
+  const entries = scanEntries()
+  fs.rmSync(cacheRoot(), { recursive: true, force: true })
+  return { entries: entries.length, size: sumSize(entries) }
+}
+
+export default {
+  compileCacheKey,
+  cachedCompile,
+  getCompileCacheStats,
+  clearCompileCache
+}
@@ -0,0 +1,584 @@
+import { Op } from 'sequelize'
+import { Contest, ContestRule } from '../models/ContestMySQL'
+import { ContestParticipant } from '../models/ContestParticipantMySQL'
+import { Submission, SubmissionStatus } from '../models/SubmissionMySQL'
+import { User } from '../models/UserMySQL'
+import { emitToRoom } from '../server'
+
+// ACM赛制每次错误提交的罚时（分钟）
+export const ACM_PENALTY_MINUTES = 20
+
+// 不计入尝试次数的状态（未判完、编译错误与系统错误）
+const IGNORED_STATUSES = [
+  SubmissionStatus.PENDING,
+  SubmissionStatus.JUDGING,
+  SubmissionStatus.COMPILE_ERROR,
+  SubmissionStatus.SYSTEM_ERROR,
+  SubmissionStatus.SKIPPED
+]
+
+// 计算排行榜所需的提交字段
+const SUBMISSION_ATTRIBUTES = ['id', 'userId', 'problemId', 'status', 'score', 'subtaskResults', 'submittedAt']
+
+// 单题结果
+export interface ContestProblemResult {
+  score: number
+  attempts: number         // 计入的提交次数（ACM只计到首次通过为止）
+  timeUsed: number         // 距比赛开始的分钟数（ACM为首次通过，OI为最后一次提交，IOI为最后一次提分）
+  firstSolvedAt?: Date
+  isFirstBlood?: boolean   // 是否为该题全场第一个通过（仅正式选手）
+  pending?: number         // 封榜后的提交数，结果尚未揭晓
+  subtaskScores?: Record<number, number>  // IOI赛制各子任务的最高分
+}
+
+// 排行榜一行
+export interface ContestRankingRow {
+  userId: number
+  username: string
+  realName: string
+  rank: number
+  totalScore: number
+  totalTime: number        // ACM为总罚时（分钟）
+  solvedCount: number
+  isOfficial: boolean
+  isVirtual: boolean       // 虚拟参赛的幽灵行
+  problemResults: Record<string, ContestProblemResult>
+}
+
+// 推送给比赛房间的排行榜增量
+export interface RankingDelta {
+  contestId: number
+  userId: number
+  problemId: string
+  result: ContestProblemResult | null
+  row: Omit<ContestRankingRow, 'problemResults'>
+  rankChanges: { userId: number; rank: number }[]   // 名次发生变化的选手（含本人）
+  firstBlood?: { problemId: string; userId: number | null }
+}
+
+// 距开始时间的分钟数
+const minutesSince = (startTime: Date, time: Date): number => {
+  return Math.max(0, Math.floor((time.getTime() - startTime.getTime()) / 60000))
+}
+
+// 由某选手在某题上的全部提交（按提交时间升序）计算单题结果，没有计入的提交时返回 null
+// startTime 为计时起点，虚拟参赛时为选手的个人开始时间
+export const computeProblemResult = (
+  contest: Contest,
+  submissions: Submission[],
+  startTime: Date = contest.startTime
+): ContestProblemResult | null => {
+  const counted = submissions.filter(submission => !IGNORED_STATUSES.includes(submission.status))
+  if (counted.length === 0) return null
+
+  const result: ContestProblemResult = { score: 0, attempts: 0, timeUsed: 0 }
+
+  for (const submission of counted) {
+    const minutes = minutesSince(startTime, submission.submittedAt)
+    const accepted = submission.status === SubmissionStatus.ACCEPTED
+
+    if (contest.rule === ContestRule.ACM) {
+      // 通过后的提交不再计入
+      result.attempts++
+      if (accepted) {
+        result.score = 1
+        result.timeUsed = minutes
+        result.firstSolvedAt = submission.submittedAt
+        break
+      }
+    } else if (contest.rule === ContestRule.OI) {
+      // OI赛制以最后一次提交为准
+      result.attempts++
+      result.score = submission.score || 0
+      result.timeUsed = minutes
+      result.firstSolvedAt = accepted ? result.firstSolvedAt || submission.submittedAt : undefined
+    } else {
+      // IOI赛制各子任务取所有提交中的最高分，没有子任务的题目视为一个子任务
+      result.attempts++
+      const subtaskScores = result.subtaskScores || {}
+      const scores = submission.subtaskResults && submission.subtaskResults.length > 0
+        ? submission.subtaskResults.map(subtask => [subtask.id, subtask.score])
+        : [[0, submission.score || 0]]
+      for (const [id, score] of scores) {
+        subtaskScores[id] = Math.max(subtaskScores[id] || 0, score)
+      }
+      result.subtaskScores = subtaskScores
+
+      const total = Object.values(subtaskScores).reduce((sum, score) => sum + score, 0)
+      if (total > result.score) {
+        result.score = total
+        result.timeUsed = minutes
+      }
+      if (accepted && !result.firstSolvedAt) {
+        result.firstSolvedAt = submission.submittedAt
+      }
+    }
+  }
+
+  return result
+}
+
+// 单元格标识
+const cellKey = (userId: number, problemId: string): string => `${userId}:${problemId}`
+
+// 封榜时的单题结果：只计封榜前的提交，之后的提交记为待揭晓；已揭晓的单元格使用实时结果
+export const computeFrozenResult = (contest: Contest, submissions: Submission[], live: ContestProblemResult | null): ContestProblemResult | null => {
+  const { userId, problemId } = submissions[0]
+  if (contest.revealedCells.includes(cellKey(userId, problemId))) return live && { ...live }
+
+  const before = submissions.filter(submission => submission.submittedAt < contest.freezeTime!)
+  const pending = submissions.length - before.length
+  const result = computeProblemResult(contest, before)
+  // ACM赛制封榜前已通过的题目，之后的提交不影响结果
+  if (contest.rule === ContestRule.ACM && result?.firstSolvedAt) return result
+  return pending > 0 ? { ...(result || { score: 0, attempts: 0, timeUsed: 0 }), pending } : result
+}
+
+// 排名比较：ACM按通过数、罚时，OI/IOI按总分
+const compareRows = (rule: ContestRule) => (a: ContestRankingRow, b: ContestRankingRow): number => {
+  if (rule === ContestRule.ACM) {
+    return b.solvedCount - a.solvedCount || a.totalTime - b.totalTime
+  }
+  return b.totalScore - a.totalScore
+}
+
+// 排序并计算名次（成绩相同名次相同）
+const rankRows = (rule: ContestRule, rows: ContestRankingRow[]): ContestRankingRow[] => {
+  const compare = compareRows(rule)
+  const ranking = rows.sort((a, b) => compare(a, b) || a.userId - b.userId)
+  ranking.forEach((row, index) => {
+    const previous = ranking[index - 1]
+    row.rank = previous && compare(previous, row) === 0 ? previous.rank : index + 1
+  })
+  return ranking
+}
+
+// 比赛排行榜，按单元格（选手×题目）增量更新
+export class ContestScoreboard {
+  private rows = new Map<number, ContestRankingRow>()
+  private ranking: ContestRankingRow[] = []
+  private firstBlood = new Map<string, number>()
+  private pending: Promise<unknown> = Promise.resolve()
+
+  constructor(public readonly contest: Contest) {}
+
+  // 当前排行榜
+  getRanking(): ContestRankingRow[] {
+    return this.ranking
+  }
+
+  // 选手所在行
+  getRow(userId: number): ContestRankingRow | undefined {
+    return this.rows.get(userId)
+  }
+
+  // 单元格结果
+  getResult(userId: number, problemId: string): ContestProblemResult | null {
+    return this.rows.get(userId)?.problemResults[problemId] || null
+  }
+
+  // 揭晓顺序中的下一个待揭晓单元格：排名最靠后且有待揭晓结果的选手，按题号取第一题
+  nextPendingCell(): { userId: number; problemId: string } | null {
+    for (let index = this.ranking.length - 1; index >= 0; index--) {
+      const row = this.ranking[index]
+      const problem = this.contest.problems.find(problem => row.problemResults[problem.problemId]?.pending)
+      if (problem) {
+        return { userId: row.userId, problemId: problem.problemId }
+      }
+    }
+    return null
+  }
+
+  // 待揭晓的单元格数
+  countPendingCells(): number {
+    return this.ranking.reduce((count, row) => {
+      return count + Object.values(row.problemResults).filter(result => result.pending).length
+    }, 0)
+  }
+
+  // 添加选手
+  addParticipant(participant: ContestParticipant, user?: User): void {
+    if (this.rows.has(participant.userId)) return
+    this.rows.set(participant.userId, {
+      userId: participant.userId,
+      username: user?.username || '',
+      realName: user?.realName || '',
+      rank: 0,
+      totalScore: 0,
+      totalTime: 0,
+      solvedCount: 0,
+      isOfficial: participant.isOfficial,
+      isVirtual: participant.isVirtual,
+      problemResults: {}
+    })
+    this.sort()
+  }
+
+  // 移除选手
+  removeParticipant(userId: number): void {
+    const row = this.rows.get(userId)
+    if (!row) return
+    this.rows.delete(userId)
+    for (const problemId of Object.keys(row.problemResults)) {
+      this.updateFirstBlood(problemId)
+    }
+    this.sort()
+  }
+
+  // 批量载入单元格后统一计算一血与名次（构建排行榜时使用）
+  loadResults(cells: { userId: number; problemId: string; result: ContestProblemResult | null }[]): void {
+    for (const { userId, problemId, result } of cells) {
+      const row = this.rows.get(userId)
+      if (row) this.applyResult(row, problemId, result)
+    }
+    for (const problem of this.contest.problems) {
+      this.updateFirstBlood(problem.problemId)
+    }
+    this.sort()
+  }
+
+  // 更新一个单元格，返回需要推送的增量；不是选手时返回 null
+  setResult(userId: number, problemId: string, result: ContestProblemResult | null): RankingDelta | null {
+    const row = this.rows.get(userId)
+    if (!row) return null
+
+    this.applyResult(row, problemId, result)
+
+    const previousFirstBlood = this.firstBlood.get(problemId)
+    this.updateFirstBlood(problemId)
+    const currentFirstBlood = this.firstBlood.get(problemId)
+
+    const rankChanges = this.sort()
+    if (!rankChanges.some(change => change.userId === userId)) {
+      rankChanges.push({ userId, rank: row.rank })
+    }
+
+    const { problemResults, ...summary } = row
+    return {
+      contestId: this.contest.id,
+      userId,
+      problemId,
+      result: result ? { ...result } : null,
+      row: summary,
+      rankChanges,
+      firstBlood: previousFirstBlood !== currentFirstBlood
+        ? { problemId, userId: currentFirstBlood ?? null }
+        : undefined
+    }
+  }
+
+  // 串行执行更新，避免同一比赛的并发判题结果互相覆盖
+  enqueue<T>(update: () => Promise<T>): Promise<T> {
+    const next = this.pending.then(update, update)
+    this.pending = next.catch(() => undefined)
+    return next
+  }
+
+  // 写入单元格并重新汇总该行
+  private applyResult(row: ContestRankingRow, problemId: string, result: ContestProblemResult | null): void {
+    if (result) {
+      row.problemResults[problemId] = result
+    } else {
+      delete row.problemResults[problemId]
+    }
+    this.summarize(row)
+  }
+
+  // 重新汇总一行的总分、通过数与罚时
+  private summarize(row: ContestRankingRow): void {
+    const results = Object.values(row.problemResults)
+    row.solvedCount = results.filter(result => result.firstSolvedAt).length
+    row.totalScore = results.reduce((sum, result) => sum + result.score, 0)
+    row.totalTime = this.contest.rule === ContestRule.ACM
+      ? results
+        .filter(result => result.firstSolvedAt)
+        .reduce((sum, result) => sum + result.timeUsed + (result.attempts - 1) * ACM_PENALTY_MINUTES, 0)
+      : 0
+  }
+
+  // 重新确定某题的一血（正式选手中最早通过者）
+  private updateFirstBlood(problemId: string): void {
+    let first: { userId: number; solvedAt: Date } | undefined
+    for (const row of this.rows.values()) {
+      const result = row.problemResults[problemId]
+      if (!result) continue
+      result.isFirstBlood = false
+      if (row.isOfficial && result.firstSolvedAt && (!first || result.firstSolvedAt < first.solvedAt)) {
+        first = { userId: row.userId, solvedAt: result.firstSolvedAt }
+      }
+    }
+
+    if (first) {
+      this.rows.get(first.userId)!.problemResults[problemId].isFirstBlood = true
+      this.firstBlood.set(problemId, first.userId)
+    } else {
+      this.firstBlood.delete(problemId)
+    }
+  }
+
+  // 重新排序，返回名次发生变化的选手
+  private sort(): { userId: number; rank: number }[] {
+    const previousRanks = new Map(this.ranking.map(row => [row.userId, row.rank]))
+    this.ranking = rankRows(this.contest.rule, Array.from(this.rows.values()))
+    return this.ranking
+      .filter(row => previousRanks.get(row.userId) !== row.rank)
+      .map(row => ({ userId: row.userId, rank: row.rank }))
+  }
+}
+
+// 查询比赛时间内的提交（虚拟参赛回放时只查询到 until 为止）
+const findContestSubmissions = (contest: Contest, where: object = {}, until: Date = contest.endTime): Promise<Submission[]> => {
+  return Submission.findAll({
+    where: {
+      ...where,
+      contestId: contest.id,
+      submittedAt: { [Op.gte]: contest.startTime, [Op.lt]: until }
+    },
+    attributes: SUBMISSION_ATTRIBUTES,
+    order: [['submittedAt', 'ASC'], ['id', 'ASC']]
+  })
+}
+
+// 按选手和题目分组（忽略不属于比赛的题目）
+const groupByCell = (contest: Contest, submissions: Submission[]): Submission[][] => {
+  const groups = new Map<string, Submission[]>()
+  for (const submission of submissions) {
+    if (!contest.getProblem(submission.problemId)) continue
+    const key = cellKey(submission.userId, submission.problemId)
+    const group = groups.get(key)
+    if (group) {
+      group.push(submission)
+    } else {
+      groups.set(key, [submission])
+    }
+  }
+  return Array.from(groups.values())
+}
+
+// 比赛的正式选手（不含虚拟参赛）
+const findParticipants = (contest: Contest): Promise<ContestParticipant[]> => {
+  return ContestParticipant.findAll({
+    where: { contestId: contest.id, isVirtual: false },
+    include: [
+      {
+        association: 'user',
+        attributes: ['username', 'realName']
+      }
+    ]
+  })
+}
+
+// 根据比赛提交构建完整排行榜，frozen 为 true 时构建封榜后其他选手看到的排行榜
+export const buildContestScoreboard = async (contest: Contest, frozen = false): Promise<ContestScoreboard> => {
+  const scoreboard = new ContestScoreboard(contest)
+  for (const participant of await findParticipants(contest)) {
+    scoreboard.addParticipant(participant, (participant as any).user)
+  }
+
+  // 按选手和题目分组后逐格计算
+  scoreboard.loadResults(groupByCell(contest, await findContestSubmissions(contest)).map(submissions => {
+    const live = computeProblemResult(contest, submissions)
+    return {
+      userId: submissions[0].userId,
+      problemId: submissions[0].problemId,
+      result: frozen ? computeFrozenResult(contest, submissions, live) : live
+    }
+  }))
+
+  return scoreboard
+}
+
+// 虚拟参赛排行榜：按虚拟选手已用的时间回放正式选手的提交，虚拟选手作为幽灵行加入
+export const computeVirtualRanking = async (
+  contest: Contest,
+  entry: ContestParticipant,
+  now: Date = new Date()
+): Promise<ContestRankingRow[]> => {
+  const virtualStart = entry.startTime!
+  const elapsed = Math.min(Math.max(0, now.getTime() - virtualStart.getTime()), contest.duration * 60 * 1000)
+
+  const scoreboard = new ContestScoreboard(contest)
+  for (const participant of await findParticipants(contest)) {
+    scoreboard.addParticipant(participant, (participant as any).user)
+  }
+  const user = await User.findByPk(entry.userId, { attributes: ['username', 'realName'] })
+  scoreboard.addParticipant(entry, user || undefined)
+
+  const [submissions, virtualSubmissions] = await Promise.all([
+    findContestSubmissions(contest, {}, new Date(contest.startTime.getTime() + elapsed)),
+    Submission.findAll({
+      where: {
+        contestId: contest.id,
+        userId: entry.userId,
+        isVirtual: true,
+        submittedAt: { [Op.gte]: virtualStart, [Op.lt]: new Date(virtualStart.getTime() + elapsed) }
+      },
+      attributes: SUBMISSION_ATTRIBUTES,
+      order: [['submittedAt', 'ASC'], ['id', 'ASC']]
+    })
+  ])
+
+  scoreboard.loadResults([
+    ...groupByCell(contest, submissions.filter(submission => submission.userId !== entry.userId)).map(group => ({
+      userId: group[0].userId,
+      problemId: group[0].problemId,
+      result: computeProblemResult(contest, group)
+    })),
+    ...groupByCell(contest, virtualSubmissions).map(group => ({
+      userId: entry.userId,
+      problemId: group[0].problemId,
+      result: computeProblemResult(contest, group, virtualStart)
+    }))
+  ])
+
+  return scoreboard.getRanking()
+}
+
+// 封榜期间选手看到的排行榜：自己的成绩实时显示，其他选手显示封榜时的成绩
+export const getViewerRanking = (frozen: ContestScoreboard, live: ContestScoreboard, userId?: number): ContestRankingRow[] => {
+  const own = userId !== undefined ? live.getRow(userId) : undefined
+  if (!own) return frozen.getRanking()
+
+  const rows = frozen.getRanking().map(row => ({ ...(row.userId === userId ? own : row) }))
+  return rankRows(frozen.contest.rule, rows)
+}
+
+// 已加载的排行榜，首次访问时从提交记录构建，之后随判题结果逐格更新
+const scoreboards = new Map<number, Promise<ContestScoreboard>>()
+const frozenScoreboards = new Map<number, Promise<ContestScoreboard>>()
+
+// 获取实时排行榜
+export const getContestScoreboard = (contest: Contest): Promise<ContestScoreboard> => {
+  let scoreboard = scoreboards.get(contest.id)
+  if (!scoreboard) {
+    scoreboard = buildContestScoreboard(contest)
+    scoreboards.set(contest.id, scoreboard)
+    scoreboard.catch(() => scoreboards.delete(contest.id))
+  }
+  return scoreboard
+}
+
+// 获取封榜排行榜（与实时排行榜共用同一个比赛实例，揭晓进度对两者同时生效）
+export const getFrozenScoreboard = (contest: Contest): Promise<ContestScoreboard> => {
+  let scoreboard = frozenScoreboards.get(contest.id)
+  if (!scoreboard) {
+    scoreboard = getContestScoreboard(contest).then(live => buildContestScoreboard(live.contest, true))
+    frozenScoreboards.set(contest.id, scoreboard)
+    scoreboard.catch(() => frozenScoreboards.delete(contest.id))
+  }
+  return scoreboard
+}
+
+// 比赛时间、题目、赛制或封榜设置变化后丢弃已加载的排行榜，下次访问时重新构建
+export const invalidateContestScoreboard = (contestId: number): void => {
+  scoreboards.delete(contestId)
+  frozenScoreboards.delete(contestId)
+}
+
+// 选手报名后加入已加载的排行榜（虚拟参赛不加入）
+export const addScoreboardParticipant = async (participant: ContestParticipant): Promise<void> => {
+  if (participant.isVirtual) return
+  const loaded = [scoreboards.get(participant.contestId), frozenScoreboards.get(participant.contestId)]
+  if (!loaded.some(scoreboard => scoreboard)) return
+
+  const user = await User.findByPk(participant.userId, { attributes: ['username', 'realName'] })
+  for (const scoreboard of loaded) {
+    if (scoreboard) (await scoreboard).addParticipant(participant, user || undefined)
+  }
+}
+
+// 选手退出后从已加载的排行榜移除
+export const removeScoreboardParticipant = async (contestId: number, userId: number): Promise<void> => {
+  for (const scoreboard of [scoreboards.get(contestId), frozenScoreboards.get(contestId)]) {
+    if (scoreboard) (await scoreboard).removeParticipant(userId)
+  }
+}
+
+// 比赛提交新增或结果变化后（提交、判题完成、重判或系统错误）更新对应单元格并推送增量
+// 封榜期间推送的是其他选手看到的封榜排行榜的变化
+export const updateContestRanking = async (submission: Submission): Promise<void> => {
+  // 虚拟参赛的提交不影响比赛排行榜
+  if (!submission.contestId || submission.isVirtual) return
+
+  const scoreboard = scoreboards.get(submission.contestId)
+  // 排行榜尚未加载时无需更新，首次访问时会包含此提交
+  if (!scoreboard) return
+
+  const board = await scoreboard
+  const { contest } = board
+  if (!contest.getProblem(submission.problemId)) return
+
+  const delta = await board.enqueue(async () => {
+    const { userId, problemId } = submission
+    const submissions = await findContestSubmissions(contest, { userId, problemId })
+    const live = computeProblemResult(contest, submissions)
+    const liveDelta = board.setResult(userId, problemId, live)
+    if (!contest.isFrozen()) return liveDelta
+
+    const frozen = frozenScoreboards.get(contest.id)
+    if (!frozen || submissions.length === 0) return null
+    return (await frozen).setResult(userId, problemId, computeFrozenResult(contest, submissions, live))
+  })
+
+  if (delta) {
+    emitToRoom(`contest:${contest.id}`, 'ranking:update', delta)
+  }
+}
+
+// 解除封榜，公布实时排行榜
+export const unfreezeContestRanking = async (contest: Contest): Promise<void> => {
+  await contest.update({ unfrozenAt: new Date() })
+  invalidateContestScoreboard(contest.id)
+  emitToRoom(`contest:${contest.id}`, 'ranking:unfreeze', { contestId: contest.id })
+}
+
+// 揭晓的一步
+export interface ResolveStep {
+  userId: number
+  problemId: string
+  label: string
+  result: ContestProblemResult | null
+  previousRank: number
+  rank: number
+}
+
+// 按揭晓顺序公布下一个待揭晓单元格，全部揭晓后自动解除封榜
+export const revealNextContestCell = async (contest: Contest): Promise<{ step: ResolveStep | null; remaining: number }> => {
+  const live = await getContestScoreboard(contest)
+  const frozen = await getFrozenScoreboard(contest)
+
+  return live.enqueue(async () => {
+    const cell = frozen.nextPendingCell()
+    if (!cell) {
+      await unfreezeContestRanking(live.contest)
+      return { step: null, remaining: 0 }
+    }
+
+    const { userId, problemId } = cell
+    const previousRank = frozen.getRow(userId)!.rank
+    await live.contest.update({ revealedCells: [...live.contest.revealedCells, cellKey(userId, problemId)] })
+
+    const result = live.getResult(userId, problemId)
+    const delta = frozen.setResult(userId, problemId, result && { ...result })!
+    emitToRoom(`contest:${contest.id}`, 'ranking:update', delta)
+
+    const remaining = frozen.countPendingCells()
+    if (remaining === 0) {
+      await unfreezeContestRanking(live.contest)
+    }
+
+    return {
+      step: {
+        userId,
+        problemId,
+        label: live.contest.getProblem(problemId)!.label,
+        result: delta.result,
+        previousRank,
+        rank: delta.row.rank
+      },
+      remaining
+    }
+  })
+}
+
+export default buildContestScoreboard
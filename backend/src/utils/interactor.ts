@@ -0,0 +1,90 @@
+import { spawn } from 'child_process'
+import { Readable, Writable } from 'stream'
+import fs from 'fs'
+import path from 'path'
+import { compileTestlibProgram, parseTestlibResult, CheckerResult, CheckerVerdict } from './checker'
+
+// 交互会话：交互器进程与选手程序之间的双向管道
+export interface InteractionSession {
+  // 接入选手程序的标准输入输出（作为沙箱的 attachStdio 回调）
+  connect(stdin: Writable, stdout: Readable): void
+  // 等待交互器结束并给出评测结果
+  result(): Promise<CheckerResult>
+  // 选手程序未能启动时终止交互器
+  abort(): void
+}
+
+// 交互会话参数
+interface InteractionOptions {
+  inputFile: string
+  answerFile: string
+  workDir: string
+  testCaseId: number
+  timeout: number // 交互器墙钟超时（毫秒）
+}
+
+// 交互器标准错误保留上限
+const MAX_STDERR_LENGTH = 64 * 1024
+
+// testlib 风格的交互器：interactor <input> <output> <answer>
+// 交互器从stdin读取选手输出、向stdout写给选手，最终结果由退出码与stderr给出
+export class Interactor {
+  constructor(private executable: string) {}
+
+  start(options: InteractionOptions): InteractionSession {
+    const sessionDir = path.join(options.workDir, `interactor-${options.testCaseId}`)
+    fs.mkdirSync(sessionDir, { recursive: true })
+
+    // 交互器写出的输出文件不参与评测
+    const outputFile = path.join(sessionDir, 'output.txt')
+
+    const child = spawn(this.executable, [options.inputFile, outputFile, options.answerFile], {
+      cwd: sessionDir,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      timeout: options.timeout
+    })
+
+    let stderr = ''
+    child.stderr.on('data', (data: Buffer) => {
+      if (stderr.length < MAX_STDERR_LENGTH) {
+        stderr += data.toString()
+      }
+    })
+    // 选手程序提前退出时交互器写入会EPIPE，以交互器退出码为准
+    child.stdin.on('error', () => {})
+
+    const finished = new Promise<CheckerResult>((resolve) => {
+      child.on('close', (code, signal) => {
+        fs.rmSync(sessionDir, { recursive: true, force: true })
+        if (signal) {
+          resolve({ verdict: CheckerVerdict.FAIL, ratio: 0, message: `交互器被信号终止 (${signal})` })
+          return
+        }
+        resolve(parseTestlibResult(code, stderr))
+      })
+      child.on('error', (error: Error) => {
+        resolve({ verdict: CheckerVerdict.FAIL, ratio: 0, message: error.message })
+      })
+    })
+
+    return {
+      connect: (stdin: Writable, stdout: Readable) => {
+        stdout.pipe(child.stdin)
+        child.stdout.pipe(stdin)
+      },
+      result: () => finished,
+      abort: () => {
+        child.kill('SIGKILL')
+      }
+    }
+  }
+}
+
+// 编译交互器（按源码哈希缓存，每个题目只编译一次）
+export const prepareInteractor = async (source: string): Promise<Interactor> => {
+  return new Interactor(await compileTestlibProgram('interactor', source))
+}
+
+export default {
+  prepareInteractor
+}
@@ -1,9 +1,15 @@
-import { spawn, ChildProcess } from 'child_process'
-import { Writable } from 'stream'
 import fs from 'fs'
 import path from 'path'
 import crypto from 'crypto'
 import { config } from '../config'
+import { getSandbox, SandboxVerdict } from './sandbox'
+import { prepareChecker, Checker, CheckerVerdict, ProblemChecker } from './checker'
+import { prepareInteractor, Interactor } from './interactor'
+import { Subtask, SubtaskResult, orderSubtasks, shouldStopSubtask, scoreSubtask, formatSubtaskSummary } from './subtask'
+import { readPreview } from './testData'
+import { cachedCompile, compileCacheKey, CompileResult, CompileOutcome } from './compileCache'
+import { DEFAULT_EXECUTABLE, DEFAULT_LANGUAGES, LanguageConfig } from './languages'
+import { SourceFile, SourceLayout, layoutSources } from './sourceFiles'
 
 // 判题状态枚举
 export enum JudgeStatus {
@@ -16,75 +22,64 @@ export enum JudgeStatus {
   RUNTIME_ERROR = 'Runtime Error',
   COMPILE_ERROR = 'Compile Error',
   SYSTEM_ERROR = 'System Error',
-  PRESENTATION_ERROR = 'Presentation Error'
+  PRESENTATION_ERROR = 'Presentation Error',
+  PARTIALLY_CORRECT = 'Partially Correct',
+  DISALLOWED_SYSCALL = 'Disallowed System Call',
+  PROCESS_LIMIT_EXCEEDED = 'Process Limit Exceeded',
+  SKIPPED = 'Skipped'
 }
 
-// 编程语言配置
-interface LanguageConfig {
-  extension: string
-  compileCommand?: string
-  runCommand: string
-  timeMultiplier: number
-  memoryMultiplier: number
+// 沙箱判定到判题状态的映射
+const sandboxVerdictMapping: Record<SandboxVerdict, JudgeStatus> = {
+  [SandboxVerdict.OK]: JudgeStatus.ACCEPTED,
+  [SandboxVerdict.TIME_LIMIT_EXCEEDED]: JudgeStatus.TIME_LIMIT_EXCEEDED,
+  [SandboxVerdict.MEMORY_LIMIT_EXCEEDED]: JudgeStatus.MEMORY_LIMIT_EXCEEDED,
+  [SandboxVerdict.DISALLOWED_SYSCALL]: JudgeStatus.DISALLOWED_SYSCALL,
+  [SandboxVerdict.PROCESS_LIMIT_EXCEEDED]: JudgeStatus.PROCESS_LIMIT_EXCEEDED,
+  [SandboxVerdict.RUNTIME_ERROR]: JudgeStatus.RUNTIME_ERROR,
+  [SandboxVerdict.SYSTEM_ERROR]: JudgeStatus.SYSTEM_ERROR
 }
 
-const languageConfigs: Record<string, LanguageConfig> = {
-  c: {
-    extension: '.c',
-    compileCommand: 'gcc -o {output} {source} -O2 -std=c99',
-    runCommand: '{executable}',
-    timeMultiplier: 1,
-    memoryMultiplier: 1
-  },
-  cpp: {
-    extension: '.cpp',
-    compileCommand: 'g++ -o {output} {source} -O2 -std=c++17',
-    runCommand: '{executable}',
-    timeMultiplier: 1,
-    memoryMultiplier: 1
-  },
-  java: {
-    extension: '.java',
-    compileCommand: 'javac {source}',
-    runCommand: 'java -cp {dir} {classname}',
-    timeMultiplier: 2,
-    memoryMultiplier: 2
-  },
-  python: {
-    extension: '.py',
-    runCommand: 'python3 {source}',
-    timeMultiplier: 3,
-    memoryMultiplier: 2
-  },
-  javascript: {
-    extension: '.js',
-    runCommand: 'node {source}',
-    timeMultiplier: 2,
-    memoryMultiplier: 2
-  }
+// 检查器结果到判题状态的映射
+const checkerVerdictMapping: Record<CheckerVerdict, JudgeStatus> = {
+  [CheckerVerdict.ACCEPTED]: JudgeStatus.ACCEPTED,
+  [CheckerVerdict.WRONG_ANSWER]: JudgeStatus.WRONG_ANSWER,
+  [CheckerVerdict.PRESENTATION_ERROR]: JudgeStatus.PRESENTATION_ERROR,
+  [CheckerVerdict.PARTIALLY_CORRECT]: JudgeStatus.PARTIALLY_CORRECT,
+  [CheckerVerdict.FAIL]: JudgeStatus.SYSTEM_ERROR
 }
 
+// 交互器在选手程序墙钟上限之外额外等待的时间（毫秒）
+const INTERACTOR_GRACE_TIME = 5000
+
+// 自定义运行返回的标准输出、标准错误最大长度（字节）
+const RUN_OUTPUT_LENGTH = 64 * 1024
+
 // 判题结果接口
-interface JudgeResult {
+export interface JudgeResult {
   status: JudgeStatus
   score: number
-  timeUsed: number
-  memoryUsed: number
+  timeUsed: number // 最大CPU时间（毫秒）
+  memoryUsed: number // 最大峰值内存（KB）
   testCases: TestCaseResult[]
+  subtasks?: SubtaskResult[] // 配置了子任务时的各子任务结果
   compileOutput?: string
   errorMessage?: string
 }
 
 // 测试用例结果接口
-interface TestCaseResult {
+export interface TestCaseResult {
   id: number
   status: JudgeStatus
-  timeUsed: number
-  memoryUsed: number
-  input: string
-  expectedOutput: string
-  actualOutput: string
+  timeUsed: number // CPU时间（毫秒，user + sys）
+  memoryUsed: number // 峰值内存（KB）
+  input: string // 输入预览（截断）
+  expectedOutput: string // 答案预览（截断）
+  actualOutput: string // 输出预览（截断）
   score: number
+  ratio: number // 得分比例（0 ~ 1）
+  errorMessage?: string // 检查器消息或沙箱错误信息
+  stderr?: string // 标准错误输出（截断，仅自定义运行时返回）
 }
 
 // 判题配置接口
@@ -93,28 +88,70 @@ export interface JudgeConfig {
   memoryLimit: number // MB
   testCases: TestCase[]
   language: string
+  languageConfig: LanguageConfig // 由服务端按语言表填写，判题机不需要访问数据库
   code: string
+  files?: SourceFile[] // 多文件提交中主文件以外的文件
+  graderFiles?: SourceFile[] // 题目提供的评测程序文件（当前语言）
   problemId: string
   submissionId: string
+  checker?: ProblemChecker // 题目检查器配置，缺省为精确比较
+  interactor?: string // 交互题的交互器源代码，提供时按交互题评测
+  subtasks?: Subtask[] // 子任务定义，提供时按子任务计分
+  onProgress?: (result: TestCaseResult) => void // 每个测试点评测完成后回调
 }
 
-// 测试用例接口
+// 自定义运行配置：不关联提交，输入直接随请求提供
+export interface RunConfig {
+  runId: string
+  timeLimit: number // 毫秒
+  memoryLimit: number // MB
+  language: string
+  languageConfig: LanguageConfig
+  code: string
+  files?: SourceFile[]
+  graderFiles?: SourceFile[]
+  inputs: { input: string; expectedOutput?: string }[] // 提供答案时（如运行样例）由检查器比较输出
+  checker?: ProblemChecker
+}
+
+// 自定义运行结果
+export type RunResult = Omit<JudgeResult, 'score' | 'subtasks'>
+
+// 运行测试用例时的输出选项
+interface RunOptions {
+  outputLength?: number // 输出预览长度，缺省与测试数据预览相同
+  captureStderr?: boolean // 是否返回标准错误输出
+}
+
+// 测试用例接口（测试数据以文件形式提供，流式送入沙箱）
 interface TestCase {
   id: number
-  input: string
-  output: string
+  inputFile: string
+  answerFile: string
   score: number
 }
 
+// 目录名附加随机后缀：同一台机器上的多个判题进程（或同一提交的重判）互不干扰
+const judgeDirName = (submissionId: string): string => `${submissionId}-${crypto.randomBytes(4).toString('hex')}`
+
 // 创建临时工作目录
 const createWorkDir = (submissionId: string): string => {
-  const workDir = path.join(process.cwd(), 'temp', 'judge', submissionId)
+  const workDir = path.join(process.cwd(), 'temp', 'judge', judgeDirName(submissionId))
   if (!fs.existsSync(workDir)) {
     fs.mkdirSync(workDir, { recursive: true })
   }
   return workDir
 }
 
+// 创建存放程序输出的目录，位于沙箱挂载目录之外
+const createIoDir = (submissionId: string): string => {
+  const ioDir = path.join(process.cwd(), 'temp', 'judge-io', judgeDirName(submissionId))
+  if (!fs.existsSync(ioDir)) {
+    fs.mkdirSync(ioDir, { recursive: true })
+  }
+  return ioDir
+}
+
 // 清理工作目录
 const cleanupWorkDir = (workDir: string): void => {
   try {
@@ -126,238 +163,333 @@ const cleanupWorkDir = (workDir: string): void => {
   }
 }
 
-// 写入源代码文件
-const writeSourceFile = (workDir: string, language: string, code: string): string => {
-  const config = languageConfigs[language]
-  if (!config) {
-    throw new Error(`不支持的编程语言: ${language}`)
-  }
-  
-  const sourceFile = path.join(workDir, `main${config.extension}`)
-  fs.writeFileSync(sourceFile, code, 'utf8')
-  return sourceFile
+// 展开命令模板：先按空白拆分再替换占位符，路径中的空格不会拆开参数；
+// 单独作为一个参数的列表占位符（如 {sources}）展开为多个参数
+const expandCommand = (template: string, values: Record<string, string | string[]>): string[] => {
+  return template
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap(part => {
+      const whole = part.match(/^\{(\w+)\}$/)
+      const value = whole ? values[whole[1]] : undefined
+      if (Array.isArray(value)) return value
+      return [part.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const item = values[name]
+        return Array.isArray(item) ? item.join(' ') : item ?? placeholder
+      })]
+    })
 }
 
-// 编译代码
-const compileCode = async (workDir: string, language: string, sourceFile: string): Promise<{ success: boolean; output: string; executable?: string }> => {
-  const config = languageConfigs[language]
-  
-  if (!config) {
-    return { success: false, output: `Unsupported language: ${language}` }
+// 运行选手程序所需的信息
+interface Program {
+  executable: string // 可执行文件（解释型语言为入口源文件）
+  classname: string
+}
+
+// 写入源代码文件（多文件提交与评测程序一并写入），返回文件布局
+const writeSourceFiles = (workDir: string, languageConfig: LanguageConfig, config: { code: string; files?: SourceFile[]; graderFiles?: SourceFile[] }): SourceLayout => {
+  const layout = layoutSources(languageConfig, config.code, config.files, config.graderFiles)
+  for (const file of layout.files) {
+    fs.writeFileSync(path.join(workDir, file.name), file.content, 'utf8')
   }
-  
-  if (!config.compileCommand) {
+  return layout
+}
+
+// 编译命令中的占位符
+const compileValues = (workDir: string, languageConfig: LanguageConfig, layout: SourceLayout) => ({
+  source: path.join(workDir, layout.entry),
+  sources: layout.files
+    .filter(file => path.extname(file.name) === languageConfig.extension)
+    .map(file => path.join(workDir, file.name)),
+  output: path.join(workDir, (languageConfig.executable || DEFAULT_EXECUTABLE).replace(/\{classname\}/g, layout.classname)),
+  dir: workDir,
+  classname: layout.classname
+})
+
+// 编译代码（按语言、编译配置与全部源文件的哈希缓存，重判与重复提交不再重新编译）
+const compileCode = async (workDir: string, language: string, languageConfig: LanguageConfig, layout: SourceLayout): Promise<CompileResult> => {
+  const { compileCommand } = languageConfig
+  if (!compileCommand) {
     // 解释型语言，无需编译
-    return { success: true, output: '', executable: sourceFile }
+    return { success: true, output: '', executable: path.join(workDir, layout.entry) }
   }
   
-  const executable = path.join(workDir, 'main')
-  const command = config.compileCommand
-    .replace('{source}', sourceFile)
-    .replace('{output}', executable)
-  
-  return new Promise((resolve) => {
-    const [cmd, ...args] = command.split(' ')
-    
-    if (!cmd) {
-      resolve({ success: false, output: 'Invalid compile command' })
-      return
-    }
-    
-    const compileProcess: any = spawn(cmd, args, {
-      cwd: workDir,
-      timeout: 30000 // 30秒编译超时
-    })
-    
-    let output = ''
-    
-    compileProcess.stdout.on('data', (data: any) => {
-      output += data.toString()
-    })
-    
-    compileProcess.stderr.on('data', (data: any) => {
-      output += data.toString()
-    })
-    
-    compileProcess.on('close', (code: any) => {
-      if (code === 0 && fs.existsSync(executable)) {
-        resolve({ success: true, output, executable })
-      } else {
-        resolve({ success: false, output })
-      }
-    })
-    
-    compileProcess.on('error', (error: Error) => {
-      resolve({ success: false, output: error.message })
-    })
+  const key = compileCacheKey(
+    language,
+    [languageConfig.extension, compileCommand, languageConfig.executable || DEFAULT_EXECUTABLE, languageConfig.version, layout.entry],
+    Buffer.concat(layout.files.flatMap(file => [Buffer.from(`${file.name}\0`), Buffer.from(file.content), Buffer.from('\0')]))
+  )
+  const sourceFiles = layout.files.map(file => file.name)
+  return cachedCompile(key, language, workDir, sourceFiles, () => runCompiler(workDir, languageConfig, layout))
+}
+
+// 编译器超出编译限制或无法运行时附加的说明
+const compileFailureMessages: Partial<Record<SandboxVerdict, string>> = {
+  [SandboxVerdict.TIME_LIMIT_EXCEEDED]: '编译超时',
+  [SandboxVerdict.MEMORY_LIMIT_EXCEEDED]: '编译内存超限',
+  [SandboxVerdict.PROCESS_LIMIT_EXCEEDED]: '编译进程数超限',
+  [SandboxVerdict.DISALLOWED_SYSCALL]: '编译器调用了不允许的系统调用'
+}
+
+// 在沙箱中运行编译器：与选手程序同样隔离（源代码中 #include 的宿主机文件不可见），
+// 使用编译专用的时间、内存与进程数限制；编译器正常报错时结果可缓存，超出限制或沙箱出错时不可缓存
+const runCompiler = async (workDir: string, languageConfig: LanguageConfig, layout: SourceLayout): Promise<CompileOutcome> => {
+  const values = compileValues(workDir, languageConfig, layout)
+  const executable = values.output
+  const command = expandCommand(languageConfig.compileCommand!, values)
+
+  if (command.length === 0) {
+    return { success: false, output: 'Invalid compile command', cacheable: false }
+  }
+
+  const result = await getSandbox().run({
+    command,
+    workDir,
+    timeLimit: config.judge.compile.timeLimit,
+    memoryLimit: config.judge.compile.memoryLimit,
+    processLimit: config.judge.compile.processLimit,
+    seccompProfile: 'compiler'
   })
+  const output = result.stdout + result.stderr
+
+  if (result.verdict === SandboxVerdict.OK && fs.existsSync(executable)) {
+    return { success: true, output, executable, cacheable: true }
+  }
+  if (result.verdict === SandboxVerdict.RUNTIME_ERROR && result.signal === null) {
+    return { success: false, output, cacheable: typeof result.exitCode === 'number' && result.exitCode > 0 }
+  }
+
+  const message = compileFailureMessages[result.verdict] || result.message
+  return { success: false, output: [output, message].filter(Boolean).join('\n'), cacheable: false }
 }
 
 // 运行单个测试用例
 const runTestCase = async (
   workDir: string,
-  language: string,
-  executable: string,
+  languageConfig: LanguageConfig,
+  program: Program,
+  ioDir: string,
   testCase: TestCase,
   timeLimit: number,
-  memoryLimit: number
+  memoryLimit: number,
+  checker: Checker | null, // 为空时不比较输出，只返回运行结果
+  interactor?: Interactor,
+  options: RunOptions = {}
 ): Promise<TestCaseResult> => {
-  const langConfig = languageConfigs[language]
-  if (!langConfig) {
-    throw new Error(`Unsupported language: ${language}`)
-  }
+  const adjustedTimeLimit = timeLimit * languageConfig.timeMultiplier
+  const adjustedMemoryLimit = memoryLimit * languageConfig.memoryMultiplier
   
-  const adjustedTimeLimit = timeLimit * langConfig.timeMultiplier
-  const adjustedMemoryLimit = memoryLimit * langConfig.memoryMultiplier
+  const command = expandCommand(languageConfig.runCommand, {
+    source: program.executable,
+    executable: program.executable,
+    dir: workDir,
+    classname: program.classname
+  })
   
-  let command = langConfig.runCommand
-  if (language === 'java') {
-    const classname = 'main'
-    command = command.replace('{dir}', workDir).replace('{classname}', classname)
-  } else {
-    command = command.replace('{source}', executable).replace('{executable}', executable)
+  // 交互题：交互器在沙箱外运行，其用时不计入选手程序
+  const session = interactor?.start({
+    inputFile: testCase.inputFile,
+    answerFile: testCase.answerFile,
+    workDir: ioDir,
+    testCaseId: testCase.id,
+    timeout: Math.ceil(adjustedTimeLimit * config.judge.wallTimeMultiplier) + INTERACTOR_GRACE_TIME
+  })
+
+  const outputFile = path.join(ioDir, `${testCase.id}.out`)
+
+  // 在沙箱中运行
+  const sandboxResult = await getSandbox().run({
+    command,
+    workDir,
+    stdinFile: testCase.inputFile,
+    stdoutFile: outputFile,
+    timeLimit: adjustedTimeLimit,
+    memoryLimit: adjustedMemoryLimit,
+    processLimit: languageConfig.processLimit ?? undefined,
+    seccompProfile: languageConfig.seccompProfile,
+    attachStdio: session?.connect
+  })
+
+  const { timeUsed, memoryUsed } = sandboxResult
+  let status = sandboxVerdictMapping[sandboxResult.verdict]
+  let ratio = 0
+
+  // 沙箱未触发OOM但峰值已超过限制（如直接运行模式），同样判为内存超限
+  if (sandboxResult.verdict === SandboxVerdict.OK && memoryUsed > adjustedMemoryLimit * 1024) {
+    status = JudgeStatus.MEMORY_LIMIT_EXCEEDED
   }
-  
-  return new Promise((resolve) => {
-    const startTime = Date.now()
-    const [cmd, ...args] = command.split(' ')
-    
-    if (!cmd) {
-      resolve({
-        id: testCase.id,
-        status: JudgeStatus.SYSTEM_ERROR,
-        timeUsed: 0,
-        memoryUsed: 0,
-        input: testCase.input,
-        expectedOutput: testCase.output,
-        actualOutput: '',
-        score: 0
-      })
-      return
+
+  if (sandboxResult.verdict === SandboxVerdict.SYSTEM_ERROR) {
+    session?.abort()
+    fs.rmSync(outputFile, { force: true })
+    return {
+      ...skippedResult(testCase),
+      status,
+      timeUsed,
+      memoryUsed,
+      errorMessage: sandboxResult.message || ''
     }
-    
-    const childProcess: any = spawn(cmd, args, {
-      cwd: workDir,
-      timeout: adjustedTimeLimit,
-      stdio: ['pipe', 'pipe', 'pipe']
+  }
+
+  let errorMessage: string | undefined
+
+  if (session) {
+    const interaction = await session.result()
+    errorMessage = interaction.message || undefined
+
+    // 选手程序正常结束时以交互器结果为准；选手程序异常退出时，
+    // 若交互器已判定错误（如提前结束交互导致选手程序出错），同样以交互器结果为准
+    if (
+      status === JudgeStatus.ACCEPTED ||
+      (status === JudgeStatus.RUNTIME_ERROR && interaction.verdict !== CheckerVerdict.ACCEPTED)
+    ) {
+      status = checkerVerdictMapping[interaction.verdict]
+      ratio = interaction.ratio
+    }
+  } else if (checker && status === JudgeStatus.ACCEPTED) {
+    // 由检查器比较输出
+    const checkResult = await checker.check({
+      inputFile: testCase.inputFile,
+      outputFile,
+      answerFile: testCase.answerFile
     })
-    
-    let output = ''
-    let errorOutput = ''
-    let memoryUsed = 0
-    let killed = false
-    
-    // 监控内存使用
-    const memoryMonitor = setInterval(() => {
-      try {
-        if (childProcess.pid) {
-          // 这里可以实现更精确的内存监控
-          // 简化实现，实际应该使用系统调用获取准确的内存使用量
-          memoryUsed = Math.max(memoryUsed, 10) // 模拟内存使用
-        }
-      } catch (error) {
-        // 进程可能已经结束
+
+    status = checkerVerdictMapping[checkResult.verdict]
+    ratio = checkResult.ratio
+    errorMessage = checkResult.message || undefined
+  }
+  
+  // 结果只保留截断的预览，程序输出文件用完即删
+  const actualOutput = readPreview(outputFile, options.outputLength).trim()
+  fs.rmSync(outputFile, { force: true })
+  
+  return {
+    id: testCase.id,
+    status,
+    timeUsed,
+    memoryUsed,
+    input: readPreview(testCase.inputFile),
+    expectedOutput: readPreview(testCase.answerFile),
+    actualOutput,
+    score: Math.floor(testCase.score * ratio),
+    ratio,
+    errorMessage,
+    stderr: options.captureStderr ? sandboxResult.stderr.slice(0, options.outputLength) : undefined
+  }
+}
+
+// 未运行的测试点结果
+const skippedResult = (testCase: TestCase): TestCaseResult => ({
+  id: testCase.id,
+  status: JudgeStatus.SKIPPED,
+  timeUsed: 0,
+  memoryUsed: 0,
+  input: readPreview(testCase.inputFile),
+  expectedOutput: readPreview(testCase.answerFile),
+  actualOutput: '',
+  score: 0,
+  ratio: 0
+})
+
+// 按子任务评测：同一测试点只运行一次，已确定失败的子任务提前结束，
+// 依赖的子任务未拿满分时整体跳过
+export const judgeSubtasks = async (
+  testCases: TestCase[],
+  subtasks: Subtask[],
+  runCase: (testCase: TestCase) => Promise<TestCaseResult>
+): Promise<{ testCaseResults: TestCaseResult[]; subtaskResults: SubtaskResult[]; score: number }> => {
+  const testCaseById = new Map(testCases.map(testCase => [testCase.id, testCase]))
+  const caseResults = new Map<number, TestCaseResult>()
+  const subtaskResults = new Map<number, SubtaskResult>()
+
+  for (const subtask of orderSubtasks(subtasks)) {
+    const blockedBy = (subtask.dependencies || []).find(id => {
+      const dependency = subtaskResults.get(id)
+      return !dependency || dependency.score < dependency.maxScore
+    })
+    const ratios: number[] = []
+    let failed: TestCaseResult | undefined
+    let stopped = blockedBy !== undefined
+
+    for (const index of subtask.testCases) {
+      const testCase = testCaseById.get(index)
+      if (!testCase) {
+        throw new Error(`子任务 ${subtask.id} 引用了不存在的测试点: ${index}`)
       }
-    }, 100)
-    
-    // 设置超时处理
-    const timer = setTimeout(() => {
-      killed = true
-      childProcess.kill('SIGKILL')
-    }, adjustedTimeLimit)
-    
-    childProcess.stdout?.on('data', (data: any) => {
-       output += data.toString()
-     })
-     
-     childProcess.stderr?.on('data', (data: any) => {
-       errorOutput += data.toString()
-     })
-     
-     childProcess.on('close', (code: any, signal: any) => {
-      clearInterval(memoryMonitor)
-      clearTimeout(timer)
-      const timeUsed = Date.now() - startTime
-      
-      let status: JudgeStatus
-      let score = 0
-      
-      if (killed || signal === 'SIGTERM' || timeUsed >= adjustedTimeLimit) {
-        status = JudgeStatus.TIME_LIMIT_EXCEEDED
-      } else if (memoryUsed > adjustedMemoryLimit) {
-        status = JudgeStatus.MEMORY_LIMIT_EXCEEDED
-      } else if (code !== 0) {
-        status = JudgeStatus.RUNTIME_ERROR
-      } else {
-        // 比较输出
-        const actualOutput = output.trim()
-        const expectedOutput = testCase.output.trim()
-        
-        if (actualOutput === expectedOutput) {
-          status = JudgeStatus.ACCEPTED
-          score = testCase.score
-        } else {
-          // 检查是否是格式错误
-          const normalizedActual = actualOutput.replace(/\s+/g, ' ')
-          const normalizedExpected = expectedOutput.replace(/\s+/g, ' ')
-          
-          if (normalizedActual === normalizedExpected) {
-            status = JudgeStatus.PRESENTATION_ERROR
-            score = Math.floor(testCase.score * 0.8) // 格式错误给80%分数
-          } else {
-            status = JudgeStatus.WRONG_ANSWER
-          }
+
+      if (stopped) {
+        if (!caseResults.has(index)) {
+          caseResults.set(index, skippedResult(testCase))
         }
+        continue
       }
-      
-      resolve({
-        id: testCase.id,
-        status,
-        timeUsed,
-        memoryUsed,
-        input: testCase.input,
-        expectedOutput: testCase.output,
-        actualOutput: output.trim(),
-        score
-      })
-    })
-    
-    childProcess.on('error', (error: Error) => {
-      clearInterval(memoryMonitor)
-      clearTimeout(timer)
-      resolve({
-        id: testCase.id,
-        status: JudgeStatus.SYSTEM_ERROR,
-        timeUsed: Date.now() - startTime,
-        memoryUsed: 0,
-        input: testCase.input,
-        expectedOutput: testCase.output,
-        actualOutput: error.message,
-        score: 0
-      })
-    })
+
+      let result = caseResults.get(index)
+      if (!result || result.status === JudgeStatus.SKIPPED) {
+        result = await runCase(testCase)
+        caseResults.set(index, result)
+      }
+
+      ratios.push(result.ratio)
+      if (!failed && result.status !== JudgeStatus.ACCEPTED) {
+        failed = result
+      }
+      stopped = shouldStopSubtask(subtask.type, result.ratio)
+    }
+
+    const skipped = blockedBy !== undefined
+    const subtaskResult = {
+      id: subtask.id,
+      type: subtask.type,
+      score: skipped ? 0 : scoreSubtask(subtask, ratios),
+      maxScore: subtask.score,
+      status: skipped ? JudgeStatus.SKIPPED : failed ? failed.status : JudgeStatus.ACCEPTED,
+      failedTestCase: failed?.id,
+      skipped
+    }
+    subtaskResults.set(subtask.id, { ...subtaskResult, summary: formatSubtaskSummary(subtaskResult, blockedBy) })
+  }
+
+  const orderedSubtaskResults = subtasks.map(subtask => subtaskResults.get(subtask.id)!)
+  return {
+    testCaseResults: Array.from(caseResults.values()).sort((a, b) => a.id - b.id),
+    subtaskResults: orderedSubtaskResults,
+    score: orderedSubtaskResults.reduce((sum, result) => sum + result.score, 0)
+  }
+}
+
+// 汇总各测试点的最大时间、内存与整体状态（第一个未通过的测试点的状态）
+const summarizeResults = (testCaseResults: TestCaseResult[]): { status: JudgeStatus; timeUsed: number; memoryUsed: number } => {
+  let maxTime = 0
+  let maxMemory = 0
+  let overallStatus = JudgeStatus.ACCEPTED
+  
+  for (const result of testCaseResults) {
+    maxTime = Math.max(maxTime, result.timeUsed)
+    maxMemory = Math.max(maxMemory, result.memoryUsed)
     
-    // 写入输入数据
-    const stdin = (childProcess as any).stdin as Writable | null
-    if (testCase.input && stdin) {
-      stdin.write(testCase.input)
-      stdin.end()
-    } else if (stdin) {
-      stdin.end()
+    // 更新整体状态（跳过的测试点不影响结果）
+    if (result.status !== JudgeStatus.ACCEPTED && result.status !== JudgeStatus.SKIPPED) {
+      if (overallStatus === JudgeStatus.ACCEPTED) {
+        overallStatus = result.status
+      }
     }
-  })
+  }
+
+  return { status: overallStatus, timeUsed: maxTime, memoryUsed: maxMemory }
 }
 
 // 主判题函数
 export const judgeSubmission = async (judgeConfig: JudgeConfig): Promise<JudgeResult> => {
   const workDir = createWorkDir(judgeConfig.submissionId)
+  const ioDir = createIoDir(judgeConfig.submissionId)
   
   try {
     // 写入源代码
-    const sourceFile = writeSourceFile(workDir, judgeConfig.language, judgeConfig.code)
+    const layout = writeSourceFiles(workDir, judgeConfig.languageConfig, judgeConfig)
     
     // 编译代码
-    const compileResult = await compileCode(workDir, judgeConfig.language, sourceFile)
+    const compileResult = await compileCode(workDir, judgeConfig.language, judgeConfig.languageConfig, layout)
     
     if (!compileResult.success) {
       return {
@@ -370,42 +502,54 @@ export const judgeSubmission = async (judgeConfig: JudgeConfig): Promise<JudgeRe
       }
     }
     
-    // 运行测试用例
-    const testCaseResults: TestCaseResult[] = []
-    let totalScore = 0
-    let maxTime = 0
-    let maxMemory = 0
-    let overallStatus = JudgeStatus.ACCEPTED
-    
-    for (const testCase of judgeConfig.testCases) {
+    // 准备检查器与交互器（自定义程序只在首次使用时编译）
+    const checker = await prepareChecker(judgeConfig.checker)
+    const interactor = judgeConfig.interactor ? await prepareInteractor(judgeConfig.interactor) : undefined
+
+    const program = { executable: compileResult.executable!, classname: layout.classname }
+    const runCase = async (testCase: TestCase) => {
       const result = await runTestCase(
         workDir,
-        judgeConfig.language,
-        compileResult.executable!,
+        judgeConfig.languageConfig,
+        program,
+        ioDir,
         testCase,
         judgeConfig.timeLimit,
-        judgeConfig.memoryLimit
+        judgeConfig.memoryLimit,
+        checker,
+        interactor
       )
-      
-      testCaseResults.push(result)
-      totalScore += result.score
-      maxTime = Math.max(maxTime, result.timeUsed)
-      maxMemory = Math.max(maxMemory, result.memoryUsed)
-      
-      // 更新整体状态
-      if (result.status !== JudgeStatus.ACCEPTED) {
-        if (overallStatus === JudgeStatus.ACCEPTED) {
-          overallStatus = result.status
-        }
+      judgeConfig.onProgress?.(result)
+      return result
+    }
+
+    // 运行测试用例
+    let testCaseResults: TestCaseResult[] = []
+    let subtaskResults: SubtaskResult[] | undefined
+    let totalScore = 0
+
+    if (judgeConfig.subtasks && judgeConfig.subtasks.length > 0) {
+      const subtaskJudge = await judgeSubtasks(judgeConfig.testCases, judgeConfig.subtasks, runCase)
+      // 最终未运行的测试点同样计入进度
+      subtaskJudge.testCaseResults
+        .filter(result => result.status === JudgeStatus.SKIPPED)
+        .forEach(result => judgeConfig.onProgress?.(result))
+      testCaseResults = subtaskJudge.testCaseResults
+      subtaskResults = subtaskJudge.subtaskResults
+      totalScore = subtaskJudge.score
+    } else {
+      for (const testCase of judgeConfig.testCases) {
+        const result = await runCase(testCase)
+        testCaseResults.push(result)
+        totalScore += result.score
       }
     }
-    
+
     return {
-      status: overallStatus,
+      ...summarizeResults(testCaseResults),
       score: totalScore,
-      timeUsed: maxTime,
-      memoryUsed: maxMemory,
       testCases: testCaseResults,
+      subtasks: subtaskResults,
       compileOutput: compileResult.output
     }
     
@@ -421,30 +565,95 @@ export const judgeSubmission = async (judgeConfig: JudgeConfig): Promise<JudgeRe
     }
   } finally {
     // 清理工作目录
-    setTimeout(() => cleanupWorkDir(workDir), 5000) // 5秒后清理
+    setTimeout(() => {
+      cleanupWorkDir(workDir)
+      cleanupWorkDir(ioDir)
+    }, 5000) // 5秒后清理
   }
 }
 
-// 获取支持的编程语言
-export const getSupportedLanguages = (): string[] => {
-  return Object.keys(languageConfigs)
+// 自定义运行：与判题相同的编译、运行流程，输入写入临时文件，不涉及测试数据与提交记录
+export const runCode = async (runConfig: RunConfig): Promise<RunResult> => {
+  const workDir = createWorkDir(runConfig.runId)
+  const ioDir = createIoDir(runConfig.runId)
+
+  try {
+    const layout = writeSourceFiles(workDir, runConfig.languageConfig, runConfig)
+    const compileResult = await compileCode(workDir, runConfig.language, runConfig.languageConfig, layout)
+
+    if (!compileResult.success) {
+      return {
+        status: JudgeStatus.COMPILE_ERROR,
+        timeUsed: 0,
+        memoryUsed: 0,
+        testCases: [],
+        compileOutput: compileResult.output
+      }
+    }
+
+    // 只有提供了答案时才需要检查器
+    const checker = runConfig.inputs.some(item => item.expectedOutput !== undefined)
+      ? await prepareChecker(runConfig.checker)
+      : null
+
+    const testCaseResults: TestCaseResult[] = []
+    for (const [index, item] of runConfig.inputs.entries()) {
+      const testCase = createTestCase(index + 1, path.join(ioDir, `${index + 1}.in`), path.join(ioDir, `${index + 1}.ans`), 0)
+      fs.writeFileSync(testCase.inputFile, item.input, 'utf8')
+      fs.writeFileSync(testCase.answerFile, item.expectedOutput ?? '', 'utf8')
+
+      testCaseResults.push(await runTestCase(
+        workDir,
+        runConfig.languageConfig,
+        { executable: compileResult.executable!, classname: layout.classname },
+        ioDir,
+        testCase,
+        runConfig.timeLimit,
+        runConfig.memoryLimit,
+        item.expectedOutput !== undefined ? checker : null,
+        undefined,
+        { outputLength: RUN_OUTPUT_LENGTH, captureStderr: true }
+      ))
+    }
+
+    return {
+      ...summarizeResults(testCaseResults),
+      testCases: testCaseResults,
+      compileOutput: compileResult.output
+    }
+  } catch (error) {
+    console.error('运行代码出错:', error)
+    return {
+      status: JudgeStatus.SYSTEM_ERROR,
+      timeUsed: 0,
+      memoryUsed: 0,
+      testCases: [],
+      errorMessage: error instanceof Error ? error.message : '未知系统错误'
+    }
+  } finally {
+    setTimeout(() => {
+      cleanupWorkDir(workDir)
+      cleanupWorkDir(ioDir)
+    }, 5000)
+  }
 }
 
-// 验证编程语言
-export const isLanguageSupported = (language: string): boolean => {
-  return language in languageConfigs
+// 获取内置的编程语言（判题机未配置语言时支持的语言），
+// 管理员添加的语言见 utils/languageRegistry.ts
+export const getSupportedLanguages = (): string[] => {
+  return DEFAULT_LANGUAGES.map(language => language.languageId)
 }
 
-// 获取语言配置
-export const getLanguageConfig = (language: string): LanguageConfig | null => {
-  return languageConfigs[language] || null
+// 评测进度的测试点总数：按子任务评测时只计子任务引用的测试点
+export const countProgressTotal = (testCases: { id: number }[], subtasks?: Subtask[]): number => {
+  if (!subtasks || subtasks.length === 0) {
+    return testCases.length
+  }
+  return new Set(subtasks.flatMap(subtask => subtask.testCases)).size
 }
 
 // 估算判题时间
-export const estimateJudgeTime = (testCaseCount: number, timeLimit: number, language: string): number => {
-  const config = languageConfigs[language]
-  if (!config) return 0
-  
+export const estimateJudgeTime = (testCaseCount: number, timeLimit: number, config: LanguageConfig): number => {
   const baseTime = testCaseCount * timeLimit * config.timeMultiplier
   const compileTime = config.compileCommand ? 5000 : 0 // 编译时间
   const overhead = 2000 // 系统开销
@@ -453,8 +662,8 @@ export const estimateJudgeTime = (testCaseCount: number, timeLimit: number, lang
 }
 
 // 创建测试用例
-export const createTestCase = (id: number, input: string, output: string, score: number = 10): TestCase => {
-  return { id, input, output, score }
+export const createTestCase = (id: number, inputFile: string, answerFile: string, score: number = 10): TestCase => {
+  return { id, inputFile, answerFile, score }
 }
 
 // 验证代码安全性（简单检查）
@@ -496,9 +705,9 @@ export const generateJudgeId = (): string => {
 
 export default {
   judgeSubmission,
+  runCode,
   getSupportedLanguages,
-  isLanguageSupported,
-  getLanguageConfig,
+  countProgressTotal,
   estimateJudgeTime,
   createTestCase,
   validateCodeSecurity,
@@ -1,82 +1,175 @@
 import { EventEmitter } from 'events'
-import { judgeSubmission, JudgeStatus, JudgeConfig } from './judge'
+import os from 'os'
+import crypto from 'crypto'
+import { Op, Transaction } from 'sequelize'
+import sequelize from '../database/mysql'
+import { judgeSubmission, runCode, countProgressTotal, JudgeConfig, JudgeResult, RunConfig, RunResult, TestCaseResult } from './judge'
 import { Submission, SubmissionStatus } from '../models/SubmissionMySQL'
-import { Problem } from '../models/ProblemMySQL'
-// import { User } from '../models/User' // TODO: 创建MySQL User模型后取消注释
-import { emitToUser, emitToRoom } from '../server'
+import { Problem, ProblemType } from '../models/ProblemMySQL'
+import { User } from '../models/UserMySQL'
+import { emitToUser } from '../server'
+import { updateContestRanking } from './contestRanking'
 import { sendSubmissionResultNotification } from './email'
+import { getJudgeTestData } from './testData'
+import { getLanguageConfig, getLanguageFamily } from './languageRegistry'
+import { JudgeTask, JudgeTaskStatus } from '../models/JudgeTaskMySQL'
+import { config } from '../config'
+
+// 租约过期检查间隔
+const LEASE_CHECK_INTERVAL = 60 * 1000
+
+// 重试基础延迟，第N次重试等待 N × 基础延迟
+const RETRY_DELAY = 5000
+
+// 自定义运行的最长排队时间与排队上限
+const RUN_QUEUE_TIMEOUT = 30 * 1000
+const MAX_QUEUED_RUNS = 50
+
+// 转换JudgeStatus到SubmissionStatus
+const statusMapping: Record<string, SubmissionStatus> = {
+  'Pending': SubmissionStatus.PENDING,
+  'Judging': SubmissionStatus.JUDGING,
+  'Accepted': SubmissionStatus.ACCEPTED,
+  'Wrong Answer': SubmissionStatus.WRONG_ANSWER,
+  'Time Limit Exceeded': SubmissionStatus.TIME_LIMIT_EXCEEDED,
+  'Memory Limit Exceeded': SubmissionStatus.MEMORY_LIMIT_EXCEEDED,
+  'Runtime Error': SubmissionStatus.RUNTIME_ERROR,
+  'Compile Error': SubmissionStatus.COMPILE_ERROR,
+  'System Error': SubmissionStatus.SYSTEM_ERROR,
+  'Presentation Error': SubmissionStatus.PRESENTATION_ERROR,
+  'Partially Correct': SubmissionStatus.PARTIALLY_CORRECT,
+  'Disallowed System Call': SubmissionStatus.DISALLOWED_SYSCALL,
+  'Process Limit Exceeded': SubmissionStatus.PROCESS_LIMIT_EXCEEDED,
+  'Skipped': SubmissionStatus.SKIPPED
+}
+
+// 判题状态对应的提交状态，未知状态视为系统错误
+export const toSubmissionStatus = (status: string): SubmissionStatus => {
+  return statusMapping[status] || SubmissionStatus.SYSTEM_ERROR
+}
 
-// 判题任务接口
-interface JudgeTask {
-  id: string
-  submissionId: string
-  userId: string
-  problemId: string
-  priority: number
-  createdAt: Date
-  retryCount: number
-  maxRetries: number
+// 判题任务优先级，数值越大越先判
+export enum JudgePriority {
+  REJUDGE = -10, // 重判不挤占正常提交
+  NORMAL = 0,
+  CONTEST = 10   // 比赛提交优先
 }
 
+// 判题进度（已完成测试点数 / 测试点总数）
+export interface JudgeProgress {
+  completed: number
+  total: number
+}
+
+// 排队中的自定义运行
+interface RunJob {
+  runConfig: RunConfig
+  resolve: (result: RunResult) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+// 远程判题机在租约中的持有者标识
+const workerLeaseOwner = (workerId: string): string => `worker:${workerId}`
+
 // 判题队列类
+// 任务持久化在 judge_tasks 表中：领取任务时写入租约，判题期间定期心跳续期；
+// 进程崩溃后租约过期的任务会被重新入队，重试的等待时间也记录在表中，重启后不会丢失。
+// 自定义运行不落库，只在本进程内排队，优先级低于判题：只在本进程没有正在判题的任务时执行（判题并发为0时随时可运行）
 class JudgeQueue extends EventEmitter {
-  private queue: JudgeTask[] = []
   private processing: Map<string, JudgeTask> = new Map()
+  private runJobs: RunJob[] = []
   private maxConcurrent: number
+  private maxConcurrentRuns: number
+  private leaseTimeout: number
+  private maxRetries: number
   private currentProcessing: number = 0
+  private currentRuns: number = 0
   private isRunning: boolean = false
+  private isClaiming: boolean = false
   private processingInterval: NodeJS.Timeout | null = null
+  private leaseCheckInterval: NodeJS.Timeout | null = null
+  // 当前进程的标识，写入租约
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`
 
-  constructor(maxConcurrent: number = 3) {
+  constructor(maxConcurrent: number = 3, leaseTimeout: number = 60000, maxRetries: number = 3, maxConcurrentRuns: number = 1) {
     super()
+    // 每个等待中的长轮询都会监听 taskAdded
+    this.setMaxListeners(0)
     this.maxConcurrent = maxConcurrent
+    this.maxConcurrentRuns = maxConcurrentRuns
+    this.leaseTimeout = leaseTimeout
+    this.maxRetries = maxRetries
   }
 
   // 添加判题任务
-  addTask(submissionId: string, userId: string, problemId: string, priority: number = 0): string {
-    const taskId = `${submissionId}_${Date.now()}`
-    
-    const task: JudgeTask = {
-      id: taskId,
+  async addTask(submissionId: string, userId: number, problemId: string, priority: number = 0): Promise<string> {
+    // 同一提交已在排队时不重复入队（如连续重判）
+    const queued = await JudgeTask.findQueuedBySubmission(submissionId)
+    if (queued) {
+      if (priority > queued.priority) {
+        await queued.update({ priority })
+      }
+      return queued.taskId
+    }
+
+    // 记录提交语言，远程判题机按支持的语言领取任务
+    const submission = await Submission.findOne({ where: { submissionId }, attributes: ['language'] })
+
+    const task = await JudgeTask.create({
+      taskId: `${submissionId}_${Date.now()}`,
       submissionId,
       userId,
       problemId,
+      language: submission?.language,
       priority,
-      createdAt: new Date(),
-      retryCount: 0,
-      maxRetries: 3
-    }
-
-    // 按优先级插入队列
-    const insertIndex = this.queue.findIndex(t => t.priority < priority)
-    if (insertIndex === -1) {
-      this.queue.push(task)
-    } else {
-      this.queue.splice(insertIndex, 0, task)
-    }
+      maxRetries: this.maxRetries
+    })
 
     this.emit('taskAdded', task)
-    
+
     // 如果队列没有运行，启动处理
     if (!this.isRunning) {
       this.start()
     }
 
-    return taskId
+    return task.taskId
+  }
+
+  // 添加自定义运行，判题空闲且有空闲的运行并发时执行；排队超时或队列已满时拒绝
+  addRunTask(runConfig: RunConfig): Promise<RunResult> {
+    if (this.runJobs.length >= MAX_QUEUED_RUNS) {
+      return Promise.reject(new Error('运行队列繁忙，请稍后再试'))
+    }
+
+    return new Promise((resolve, reject) => {
+      const job: RunJob = {
+        runConfig,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.runJobs = this.runJobs.filter(queued => queued !== job)
+          reject(new Error('运行队列繁忙，请稍后再试'))
+        }, RUN_QUEUE_TIMEOUT)
+      }
+      this.runJobs.push(job)
+      this.processRunJob()
+    })
   }
 
   // 移除任务
-  removeTask(taskId: string): boolean {
-    const queueIndex = this.queue.findIndex(t => t.id === taskId)
-    if (queueIndex !== -1) {
-      this.queue.splice(queueIndex, 1)
+  async removeTask(taskId: string): Promise<boolean> {
+    const task = await JudgeTask.findOne({ where: { taskId } })
+    if (!task) return false
+
+    if (task.status === JudgeTaskStatus.QUEUED) {
+      await task.destroy()
       this.emit('taskRemoved', taskId)
       return true
     }
 
-    if (this.processing.has(taskId)) {
+    if (task.status === JudgeTaskStatus.RUNNING) {
       // 如果任务正在处理中，标记为取消
-      const task = this.processing.get(taskId)!
       this.emit('taskCancelled', task)
       return true
     }
@@ -85,28 +178,48 @@ class JudgeQueue extends EventEmitter {
   }
 
   // 获取任务状态
-  getTaskStatus(taskId: string): 'queued' | 'processing' | 'completed' | 'not_found' {
-    if (this.queue.some(t => t.id === taskId)) {
-      return 'queued'
-    }
-    if (this.processing.has(taskId)) {
-      return 'processing'
+  async getTaskStatus(taskId: string): Promise<'queued' | 'processing' | 'completed' | 'failed' | 'not_found'> {
+    const task = await JudgeTask.findOne({ where: { taskId }, attributes: ['status'] })
+    switch (task?.status) {
+      case JudgeTaskStatus.QUEUED:
+        return 'queued'
+      case JudgeTaskStatus.RUNNING:
+        return 'processing'
+      case JudgeTaskStatus.DONE:
+        return 'completed'
+      case JudgeTaskStatus.FAILED:
+        return 'failed'
+      default:
+        return 'not_found'
     }
-    return 'not_found'
   }
 
   // 获取队列信息
-  getQueueInfo() {
+  async getQueueInfo() {
+    const [queueLength, processing, tasks] = await Promise.all([
+      JudgeTask.count({ where: { status: JudgeTaskStatus.QUEUED } }),
+      JudgeTask.count({ where: { status: JudgeTaskStatus.RUNNING } }),
+      JudgeTask.findAll({
+        where: { status: JudgeTaskStatus.QUEUED },
+        order: [['priority', 'DESC'], ['createdAt', 'ASC']],
+        limit: 100
+      })
+    ])
+
     return {
-      queueLength: this.queue.length,
-      processing: this.currentProcessing,
+      queueLength,
+      processing,
+      localProcessing: this.currentProcessing,
+      runningRuns: this.currentRuns,
+      queuedRuns: this.runJobs.length,
       maxConcurrent: this.maxConcurrent,
       isRunning: this.isRunning,
-      tasks: this.queue.map(t => ({
-        id: t.id,
+      tasks: tasks.map(t => ({
+        id: t.taskId,
         submissionId: t.submissionId,
         priority: t.priority,
         createdAt: t.createdAt,
+        availableAt: t.availableAt,
         retryCount: t.retryCount
       }))
     }
@@ -120,6 +233,12 @@ class JudgeQueue extends EventEmitter {
     this.processingInterval = setInterval(() => {
       this.processQueue()
     }, 1000)
+    // 其他判题进程崩溃时，其任务的租约会过期，由存活的进程接管
+    this.leaseCheckInterval = setInterval(() => {
+      this.requeueExpiredTasks().catch(error => {
+        console.error('检查判题任务租约失败:', error)
+      })
+    }, LEASE_CHECK_INTERVAL)
     
     this.emit('queueStarted')
     console.log('判题队列已启动')
@@ -134,253 +253,516 @@ class JudgeQueue extends EventEmitter {
       clearInterval(this.processingInterval)
       this.processingInterval = null
     }
+    if (this.leaseCheckInterval) {
+      clearInterval(this.leaseCheckInterval)
+      this.leaseCheckInterval = null
+    }
     
     this.emit('queueStopped')
     console.log('判题队列已停止')
   }
 
+  // 恢复任务（服务启动时调用）：
+  // 租约过期的任务重新入队，等待判题但没有任务记录的提交补建任务
+  async recover(): Promise<void> {
+    try {
+      const expired = await this.requeueExpiredTasks()
+
+      const pendingSubmissions = await Submission.findAll({
+        where: { status: { [Op.in]: [SubmissionStatus.PENDING, SubmissionStatus.JUDGING] } },
+        attributes: ['submissionId', 'userId', 'problemId']
+      })
+      const activeTasks = await JudgeTask.findAll({
+        where: {
+          submissionId: { [Op.in]: pendingSubmissions.map(s => s.submissionId) },
+          status: { [Op.in]: [JudgeTaskStatus.QUEUED, JudgeTaskStatus.RUNNING] }
+        },
+        attributes: ['submissionId']
+      })
+      const active = new Set(activeTasks.map(t => t.submissionId))
+      const orphaned = pendingSubmissions.filter(s => !active.has(s.submissionId))
+
+      for (const submission of orphaned) {
+        await Submission.update(
+          { status: SubmissionStatus.PENDING },
+          { where: { submissionId: submission.submissionId } }
+        )
+        await this.addTask(submission.submissionId, submission.userId, submission.problemId)
+      }
+
+      if (expired + orphaned.length > 0) {
+        console.log(`恢复了 ${expired + orphaned.length} 个判题任务（租约过期 ${expired} 个，未入队提交 ${orphaned.length} 个）`)
+      }
+    } catch (error) {
+      console.error('恢复判题任务失败:', error)
+    }
+  }
+
+  // 将租约过期的任务重新入队（计入重试次数），返回处理的任务数
+  private async requeueExpiredTasks(): Promise<number> {
+    const tasks = await JudgeTask.findExpiredLeases()
+    for (const task of tasks) {
+      console.warn(`判题任务租约过期: ${task.taskId}（${task.leaseOwner}）`)
+      await this.handleTaskError(task, new Error('判题进程失联，租约已过期'))
+    }
+    return tasks.length
+  }
+
   // 处理队列
   private async processQueue(): Promise<void> {
-    // 检查是否可以处理更多任务
-    if (this.currentProcessing >= this.maxConcurrent || this.queue.length === 0) {
+    // 检查是否可以处理更多任务（领取是异步的，同一时间只领取一个）
+    if (this.isClaiming || this.currentProcessing >= this.maxConcurrent) {
       return
     }
 
     // 获取下一个任务
-    const task = this.queue.shift()
-    if (!task) return
+    let task: JudgeTask | null = null
+    this.isClaiming = true
+    try {
+      task = await JudgeTask.claimNext(this.instanceId, this.leaseTimeout)
+    } catch (error) {
+      console.error('领取判题任务失败:', error)
+    } finally {
+      this.isClaiming = false
+    }
+    if (!task) {
+      // 没有待判的任务时执行排队中的自定义运行
+      this.processRunJob()
+      return
+    }
 
     // 开始处理任务
     this.currentProcessing++
-    this.processing.set(task.id, task)
+    this.processing.set(task.taskId, task)
+    const heartbeat = setInterval(() => {
+      this.renewLease(task!)
+    }, Math.floor(this.leaseTimeout / 3))
     
     this.emit('taskStarted', task)
     
     try {
       await this.processTask(task)
     } catch (error) {
-      console.error(`处理判题任务失败: ${task.id}`, error)
+      console.error(`处理判题任务失败: ${task.taskId}`, error)
       await this.handleTaskError(task, error)
     } finally {
       // 任务完成，清理
+      clearInterval(heartbeat)
       this.currentProcessing--
-      this.processing.delete(task.id)
+      this.processing.delete(task.taskId)
       this.emit('taskCompleted', task)
     }
   }
 
-  // 处理单个任务
-  private async processTask(task: JudgeTask): Promise<void> {
+  // 判题空闲时执行一个排队中的自定义运行，完成后继续执行下一个
+  private async processRunJob(): Promise<void> {
+    if (this.currentProcessing > 0 || this.isClaiming || this.currentRuns >= this.maxConcurrentRuns) return
+    const job = this.runJobs.shift()
+    if (!job) return
+
+    clearTimeout(job.timer)
+    this.currentRuns++
     try {
-      // 获取提交记录
-      const submission = await Submission.findById(task.submissionId)
-        .populate('problemId')
-      
-      if (!submission) {
-        throw new Error(`提交记录不存在: ${task.submissionId}`)
-      }
+      job.resolve(await runCode(job.runConfig))
+    } catch (error) {
+      job.reject(error instanceof Error ? error : new Error('运行失败'))
+    } finally {
+      this.currentRuns--
+      this.processRunJob()
+    }
+  }
 
-      const problem = submission.problemId as any
-      if (!problem) {
-        throw new Error(`题目不存在: ${submission.problemId}`)
+  // 心跳续期
+  private async renewLease(task: JudgeTask): Promise<void> {
+    try {
+      const owned = await JudgeTask.renewLease(task.id, this.instanceId, this.leaseTimeout)
+      if (!owned) {
+        console.warn(`判题任务租约已失效: ${task.taskId}`)
       }
+    } catch (error) {
+      console.error(`判题任务心跳失败: ${task.taskId}`, error)
+    }
+  }
 
-      // 更新提交状态为判题中
-      submission.status = SubmissionStatus.JUDGING
-      submission.judgeStartTime = new Date()
-      await submission.save()
+  // 处理单个任务
+  private async processTask(task: JudgeTask): Promise<void> {
+    const judgeConfig = await this.prepareJudge(task)
+    const progress: JudgeProgress = { completed: 0, total: countProgressTotal(judgeConfig.testCases, judgeConfig.subtasks) }
+    judgeConfig.onProgress = (result) => {
+      progress.completed++
+      this.emit('taskProgress', task, result, { ...progress })
+    }
 
-      // 通知用户判题开始
-      emitToUser(task.userId, 'submission:judging', {
-        submissionId: task.submissionId,
-        status: SubmissionStatus.JUDGING
-      })
+    // 执行判题
+    const judgeResult = await judgeSubmission(judgeConfig)
 
-      // 准备判题配置
-      const judgeConfig: JudgeConfig = {
-        timeLimit: problem.timeLimit,
-        memoryLimit: problem.memoryLimit,
-        testCases: problem.testCases.map((tc: any, index: number) => ({
-          id: index + 1,
-          input: tc.input,
-          output: tc.output,
-          score: tc.score || 10
-        })),
-        language: submission.language,
-        code: submission.code,
-        problemId: problem.problemId,
-        submissionId: task.submissionId
-      }
+    await this.finishJudge(task, judgeResult, this.instanceId)
+  }
 
-      // 执行判题
-      const judgeResult = await judgeSubmission(judgeConfig)
-
-      // 转换JudgeStatus到SubmissionStatus
-      const statusMapping: Record<string, SubmissionStatus> = {
-        'Pending': SubmissionStatus.PENDING,
-        'Judging': SubmissionStatus.JUDGING,
-        'Accepted': SubmissionStatus.ACCEPTED,
-        'Wrong Answer': SubmissionStatus.WRONG_ANSWER,
-        'Time Limit Exceeded': SubmissionStatus.TIME_LIMIT_EXCEEDED,
-        'Memory Limit Exceeded': SubmissionStatus.MEMORY_LIMIT_EXCEEDED,
-        'Runtime Error': SubmissionStatus.RUNTIME_ERROR,
-        'Compile Error': SubmissionStatus.COMPILE_ERROR,
-        'System Error': SubmissionStatus.SYSTEM_ERROR,
-        'Presentation Error': SubmissionStatus.PRESENTATION_ERROR
-      }
+  // 准备判题：提交标记为判题中，返回判题配置
+  async prepareJudge(task: JudgeTask): Promise<JudgeConfig> {
+    // 获取提交记录
+    const submission = await Submission.findOne({ where: { submissionId: task.submissionId } })
+    
+    if (!submission) {
+      throw new Error(`提交记录不存在: ${task.submissionId}`)
+    }
 
-      // 转换测试用例结果格式
-      const convertedTestCases = judgeResult.testCases.map(tc => ({
-        testCase: tc.id,
-        status: statusMapping[tc.status] || SubmissionStatus.SYSTEM_ERROR,
-        timeUsed: tc.timeUsed,
-        memoryUsed: tc.memoryUsed,
-        score: tc.score,
-        input: tc.input,
-        output: tc.actualOutput,
-        expectedOutput: tc.expectedOutput,
-        errorMessage: ''
-      }))
+    const problem = await Problem.findOne({ where: { problemId: submission.problemId } })
+    if (!problem) {
+      throw new Error(`题目不存在: ${submission.problemId}`)
+    }
+
+    // 已停用的语言仍按语言表中的配置评测，以便重判
+    const languageConfig = getLanguageConfig(submission.language)
+    if (!languageConfig) {
+      throw new Error(`不支持的编程语言: ${submission.language}`)
+    }
+
+    // 更新提交状态为判题中，记录判题所用的题目版本
+    submission.status = SubmissionStatus.JUDGING
+    submission.judgeStartTime = new Date()
+    submission.problemRevision = problem.revision
+    await submission.save()
+
+    // 通知用户判题开始
+    emitToUser(String(task.userId), 'submission:judging', {
+      submissionId: task.submissionId,
+      status: SubmissionStatus.JUDGING
+    })
+
+    // 准备判题配置
+    return {
+      timeLimit: problem.timeLimit,
+      memoryLimit: problem.memoryLimit,
+      testCases: await getJudgeTestData(problem),
+      language: submission.language,
+      languageConfig,
+      code: submission.code,
+      files: submission.files || undefined,
+      graderFiles: problem.getGraderFiles(getLanguageFamily(submission.language)),
+      problemId: problem.problemId,
+      submissionId: task.submissionId,
+      checker: problem.checker,
+      interactor: problem.type === ProblemType.INTERACTIVE ? problem.interactor : undefined,
+      subtasks: problem.subtasks
+    }
+  }
+
+  // 保存判题结果并通知用户（本地判题与远程判题机共用）
+  // 结果与任务完成标记在同一事务中写入，且只在租约仍归 owner 所有时写入：
+  // 租约过期后任务可能已被其他进程重新领取，此时丢弃结果，避免重复累计统计。返回结果是否已保存
+  async finishJudge(task: JudgeTask, judgeResult: JudgeResult, owner: string): Promise<boolean> {
+    const submission = await Submission.findOne({ where: { submissionId: task.submissionId } })
+    if (!submission) {
+      throw new Error(`提交记录不存在: ${task.submissionId}`)
+    }
+
+    const problem = await Problem.findOne({ where: { problemId: submission.problemId } })
+    if (!problem) {
+      throw new Error(`题目不存在: ${submission.problemId}`)
+    }
+
+    // 转换测试用例结果格式
+    const convertedTestCases = judgeResult.testCases.map(tc => ({
+      testCase: tc.id,
+      status: toSubmissionStatus(tc.status),
+      timeUsed: tc.timeUsed,
+      memoryUsed: tc.memoryUsed,
+      score: tc.score,
+      input: tc.input,
+      output: tc.actualOutput,
+      expectedOutput: tc.expectedOutput,
+      errorMessage: tc.errorMessage || ''
+    }))
+
+    const saved = await sequelize.transaction(async transaction => {
+      // 标记任务完成，租约已失效时不写入结果
+      const [affected] = await JudgeTask.update({
+        status: JudgeTaskStatus.DONE,
+        finishedAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null
+      }, {
+        where: {
+          id: task.id,
+          status: JudgeTaskStatus.RUNNING,
+          leaseOwner: owner,
+          leaseExpiresAt: { [Op.gt]: new Date() }
+        },
+        transaction
+      })
+      if (affected !== 1) return false
 
       // 更新提交结果
-      submission.status = statusMapping[judgeResult.status] || SubmissionStatus.SYSTEM_ERROR
+      submission.status = toSubmissionStatus(judgeResult.status)
       submission.score = judgeResult.score
       submission.timeUsed = judgeResult.timeUsed
       submission.memoryUsed = judgeResult.memoryUsed
       submission.testCaseResults = convertedTestCases
+      submission.subtaskResults = judgeResult.subtasks?.map(subtask => ({
+        ...subtask,
+        status: toSubmissionStatus(subtask.status)
+      }))
       submission.compileOutput = judgeResult.compileOutput
       submission.errorMessage = judgeResult.errorMessage
       submission.judgeEndTime = new Date()
 
-      await submission.save()
+      await submission.save({ transaction })
 
       // 更新题目统计
-      await this.updateProblemStatistics(problem._id, statusMapping[judgeResult.status] || SubmissionStatus.SYSTEM_ERROR)
+      await this.updateProblemStatistics(problem.problemId, submission.status, transaction)
+      return true
+    })
 
-      // 更新用户统计
-      if (statusMapping[judgeResult.status] === SubmissionStatus.ACCEPTED) {
-        await this.updateUserStatistics(task.userId, problem._id, judgeResult.score)
-      }
+    if (!saved) {
+      console.warn(`判题任务租约已失效，丢弃判题结果: ${task.taskId}`)
+      return false
+    }
 
-      // 通知判题结果
-      emitToUser(task.userId, 'submission:result', {
-        submissionId: task.submissionId,
-        status: submission.status,
-        score: submission.score,
-        timeUsed: submission.timeUsed,
-        memoryUsed: submission.memoryUsed
-      })
+    // 更新用户统计（重判可能改变原结果，每次判题后都重新统计）
+    await this.updateUserStatistics(task.userId)
 
-      // 如果是比赛提交，更新比赛排名
-      if (submission.contestId) {
-        emitToRoom(`contest:${submission.contestId}`, 'ranking:update', {
-          contestId: submission.contestId,
-          userId: task.userId
-        })
-      }
+    // 通知判题结果
+    emitToUser(String(task.userId), 'submission:result', {
+      submissionId: task.submissionId,
+      status: submission.status,
+      score: submission.score,
+      timeUsed: submission.timeUsed,
+      memoryUsed: submission.memoryUsed
+    })
+
+    // 如果是比赛提交，更新比赛排行榜
+    await this.refreshContestRanking(submission)
+
+    // 发送邮件通知（如果用户开启了邮件通知）
+    await this.sendEmailNotification(task.userId, submission, problem)
+    return true
+  }
+
+  // 远程判题机领取任务，返回任务与判题配置
+  async claimRemoteTask(workerId: string, languages: string[]): Promise<{ task: JudgeTask; judgeConfig: JudgeConfig } | null> {
+    const task = await JudgeTask.claimNext(workerLeaseOwner(workerId), this.leaseTimeout, languages)
+    if (!task) return null
+
+    this.emit('taskStarted', task)
+
+    try {
+      return { task, judgeConfig: await this.prepareJudge(task) }
+    } catch (error) {
+      console.error(`准备判题任务失败: ${task.taskId}`, error)
+      await this.handleTaskError(task, error)
+      this.emit('taskCompleted', task)
+      return null
+    }
+  }
+
+  // 查找判题机持有的任务，租约已失效（超时后被重新分配）时返回null
+  private async findRemoteTask(workerId: string, taskId: string): Promise<JudgeTask | null> {
+    return await JudgeTask.findOne({
+      where: { taskId, status: JudgeTaskStatus.RUNNING, leaseOwner: workerLeaseOwner(workerId) }
+    })
+  }
+
+  // 远程判题机上报单个测试点结果（同时续期租约）
+  async reportRemoteProgress(workerId: string, taskId: string, result: TestCaseResult, progress: JudgeProgress): Promise<boolean> {
+    const task = await this.findRemoteTask(workerId, taskId)
+    if (!task) return false
+
+    await JudgeTask.renewLease(task.id, workerLeaseOwner(workerId), this.leaseTimeout)
+    this.emit('taskProgress', task, result, progress)
+    return true
+  }
 
-      // 发送邮件通知（如果用户开启了邮件通知）
-      await this.sendEmailNotification(task.userId, submission, problem)
+  // 远程判题机提交最终结果
+  async completeRemoteTask(workerId: string, taskId: string, judgeResult: JudgeResult): Promise<boolean> {
+    const task = await this.findRemoteTask(workerId, taskId)
+    if (!task) return false
 
+    let saved = true
+    try {
+      saved = await this.finishJudge(task, judgeResult, workerLeaseOwner(workerId))
     } catch (error) {
-      throw error
+      console.error(`保存远程判题结果失败: ${task.taskId}`, error)
+      await this.handleTaskError(task, error)
+    } finally {
+      this.emit('taskCompleted', task)
     }
+    return saved
+  }
+
+  // 远程判题机判题失败（如下载测试数据失败），按重试规则处理
+  async failRemoteTask(workerId: string, taskId: string, message: string): Promise<boolean> {
+    const task = await this.findRemoteTask(workerId, taskId)
+    if (!task) return false
+
+    console.error(`远程判题失败: ${task.taskId}（${workerId}）: ${message}`)
+    await this.handleTaskError(task, new Error(message))
+    this.emit('taskCompleted', task)
+    return true
+  }
+
+  // 远程判题机心跳：续期其持有的全部任务
+  async renewRemoteLeases(workerId: string): Promise<number> {
+    return await JudgeTask.renewLeasesOf(workerLeaseOwner(workerId), this.leaseTimeout)
+  }
+
+  // 任务已领取但未能送达判题机（如长轮询连接已断开），放回队列且不计重试
+  async releaseRemoteTask(workerId: string, taskId: string): Promise<void> {
+    const [affected] = await JudgeTask.update({
+      status: JudgeTaskStatus.QUEUED,
+      leaseOwner: null,
+      leaseExpiresAt: null
+    }, {
+      where: { taskId, status: JudgeTaskStatus.RUNNING, leaseOwner: workerLeaseOwner(workerId) }
+    })
+    if (affected === 1) {
+      const task = await JudgeTask.findOne({ where: { taskId } })
+      if (task) {
+        await Submission.update(
+          { status: SubmissionStatus.PENDING },
+          { where: { submissionId: task.submissionId, status: SubmissionStatus.JUDGING } }
+        )
+        this.emit('taskAdded', task)
+      }
+    }
+  }
+
+  // 等待新任务入队（长轮询使用），超时后返回
+  waitForTask(timeout: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer)
+        this.off('taskAdded', done)
+        resolve()
+      }
+      const timer = setTimeout(done, timeout)
+      this.on('taskAdded', done)
+    })
+  }
+
+  // 租约时长（毫秒）
+  getLeaseTimeout(): number {
+    return this.leaseTimeout
   }
 
   // 处理任务错误
   private async handleTaskError(task: JudgeTask, error: any): Promise<void> {
-    task.retryCount++
-    
-    if (task.retryCount <= task.maxRetries) {
-      // 重试任务
-      console.log(`判题任务重试 ${task.retryCount}/${task.maxRetries}: ${task.id}`)
-      
-      // 延迟重试
-      setTimeout(() => {
-        this.queue.unshift(task) // 插入到队列前面
-      }, 5000 * task.retryCount) // 递增延迟
-      
-    } else {
-      // 超过最大重试次数，标记为系统错误
-      console.error(`判题任务最终失败: ${task.id}`, error)
-      
-      try {
-        const submission = await Submission.findById(task.submissionId)
-        if (submission) {
-          submission.status = SubmissionStatus.SYSTEM_ERROR
-          submission.errorMessage = '系统判题错误，请联系管理员'
-          submission.judgeEndTime = new Date()
-          await submission.save()
-
-          // 通知用户系统错误
-          emitToUser(task.userId, 'submission:error', {
-            submissionId: task.submissionId,
-            message: '系统判题错误，请联系管理员'
-          })
+    const retryCount = task.retryCount + 1
+    const lastError = error instanceof Error ? error.message : String(error)
+    // 只处理仍由原持有者占用的任务，避免多个进程重复处理同一个过期任务
+    const leaseCondition = { id: task.id, status: JudgeTaskStatus.RUNNING, leaseOwner: task.leaseOwner ?? null }
+
+    try {
+      if (retryCount <= task.maxRetries) {
+        // 重试任务
+        console.log(`判题任务重试 ${retryCount}/${task.maxRetries}: ${task.taskId}`)
+
+        // 延迟重试（递增延迟），重试时间写入数据库，重启后仍然有效
+        const [affected] = await JudgeTask.update({
+          status: JudgeTaskStatus.QUEUED,
+          retryCount,
+          lastError,
+          availableAt: new Date(Date.now() + RETRY_DELAY * retryCount),
+          leaseOwner: null,
+          leaseExpiresAt: null
+        }, { where: leaseCondition })
+
+        if (affected === 1) {
+          await Submission.update(
+            { status: SubmissionStatus.PENDING },
+            { where: { submissionId: task.submissionId, status: SubmissionStatus.JUDGING } }
+          )
         }
-      } catch (updateError) {
-        console.error('更新提交状态失败:', updateError)
+        return
       }
+
+      // 超过最大重试次数，标记为系统错误
+      console.error(`判题任务最终失败: ${task.taskId}`, error)
+
+      const [affected] = await JudgeTask.update({
+        status: JudgeTaskStatus.FAILED,
+        retryCount,
+        lastError,
+        finishedAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null
+      }, { where: leaseCondition })
+      if (affected !== 1) return
+
+      const submission = await Submission.findOne({ where: { submissionId: task.submissionId } })
+      if (submission) {
+        submission.status = SubmissionStatus.SYSTEM_ERROR
+        submission.errorMessage = '系统判题错误，请联系管理员'
+        submission.judgeEndTime = new Date()
+        await submission.save()
+
+        // 系统错误不计入比赛排行榜，原结果需要从排行榜撤销
+        await this.refreshContestRanking(submission)
+
+        // 通知用户系统错误
+        emitToUser(String(task.userId), 'submission:error', {
+          submissionId: task.submissionId,
+          message: '系统判题错误，请联系管理员'
+        })
+      }
+    } catch (updateError) {
+      console.error('更新判题任务状态失败:', updateError)
+    }
+  }
+
+  // 更新比赛排行榜，失败时不影响判题结果
+  async refreshContestRanking(submission: Submission): Promise<void> {
+    if (!submission.contestId) return
+    try {
+      await updateContestRanking(submission)
+    } catch (error) {
+      console.error('更新比赛排行榜失败:', error)
     }
   }
 
   // 更新题目统计
-  private async updateProblemStatistics(problemId: string, status: SubmissionStatus): Promise<void> {
+  // 总提交数在创建提交时已累计，这里只累计通过数
+  private async updateProblemStatistics(problemId: string, status: SubmissionStatus, transaction: Transaction): Promise<void> {
     try {
-      const problem = await Problem.findByPk(problemId)
+      if (status !== SubmissionStatus.ACCEPTED) return
+
+      const problem = await Problem.findOne({ where: { problemId }, transaction, lock: transaction.LOCK.UPDATE })
       if (problem) {
-        const stats = problem.stats
-        stats.totalSubmissions += 1
-        
-        if (status === SubmissionStatus.ACCEPTED) {
-          stats.acceptedSubmissions += 1
-        }
-        
-        await problem.update({ stats })
+        const stats = { ...problem.stats }
+        stats.acceptedSubmissions += 1
+        await problem.update({ stats }, { transaction })
       }
     } catch (error) {
       console.error('更新题目统计失败:', error)
     }
   }
 
-  // 更新用户统计
-  private async updateUserStatistics(userId: string, problemId: string, score: number): Promise<void> {
+  // 更新用户统计：按提交记录重新统计通过的提交数与通过的题目数
+  private async updateUserStatistics(userId: number): Promise<void> {
     try {
-      // TODO: 实现MySQL用户统计更新
-      console.log(`TODO: 更新用户 ${userId} 的统计信息，题目 ${problemId}，得分 ${score}`)
-      /*
-      // 检查是否是用户首次通过此题
-      const previousAccepted = await Submission.findOne({
-        where: {
-          userId,
-          problemId,
-          status: SubmissionStatus.ACCEPTED
-        }
-      })
+      const where = { userId, status: SubmissionStatus.ACCEPTED }
+      const [acceptedSubmissions, solvedProblems] = await Promise.all([
+        Submission.count({ where }),
+        Submission.count({ where, distinct: true, col: 'problemId' })
+      ])
 
-      if (!previousAccepted) {
-        // 更新用户统计
-        // await User.increment(['solvedProblems', 'totalScore'], {
-        //   by: [1, score],
-        //   where: { id: userId }
-        // })
-      }
-      */
+      await User.update({ acceptedSubmissions, solvedProblems }, { where: { id: userId } })
     } catch (error) {
       console.error('更新用户统计失败:', error)
     }
   }
 
   // 发送邮件通知
-  private async sendEmailNotification(userId: string, submission: any, problem: any): Promise<void> {
+  private async sendEmailNotification(userId: number, submission: Submission, problem: Problem): Promise<void> {
     try {
-      const user = await User.findById(userId)
+      const user = await User.findByPk(userId)
       if (user && user.emailNotifications) {
         await sendSubmissionResultNotification(
           user.email,
           user.username,
           problem.title,
-          submission._id,
+          submission.submissionId,
           submission.status,
           submission.score
         )
@@ -390,17 +772,15 @@ class JudgeQueue extends EventEmitter {
     }
   }
 
-  // 清理过期任务
-  cleanupExpiredTasks(maxAge: number = 24 * 60 * 60 * 1000): number {
-    const now = new Date()
-    const initialLength = this.queue.length
-    
-    this.queue = this.queue.filter(task => {
-      const age = now.getTime() - task.createdAt.getTime()
-      return age < maxAge
+  // 清理已结束的历史任务
+  async cleanupExpiredTasks(maxAge: number = 7 * 24 * 60 * 60 * 1000): Promise<number> {
+    const removedCount = await JudgeTask.destroy({
+      where: {
+        status: { [Op.in]: [JudgeTaskStatus.DONE, JudgeTaskStatus.FAILED] },
+        finishedAt: { [Op.lt]: new Date(Date.now() - maxAge) }
+      }
     })
-    
-    const removedCount = initialLength - this.queue.length
+
     if (removedCount > 0) {
       console.log(`清理了 ${removedCount} 个过期判题任务`)
       this.emit('tasksCleanedUp', removedCount)
@@ -410,56 +790,99 @@ class JudgeQueue extends EventEmitter {
   }
 
   // 获取队列统计信息
-  getStatistics() {
-    const now = new Date()
-    const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000)
-    
-    const recentTasks = this.queue.filter(task => task.createdAt > oneHourAgo)
-    const priorityDistribution = this.queue.reduce((acc, task) => {
+  async getStatistics() {
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000)
+    const queuedWhere = { status: JudgeTaskStatus.QUEUED }
+
+    const [total, processing, recent, failed, queuedTasks] = await Promise.all([
+      JudgeTask.count({ where: queuedWhere }),
+      JudgeTask.count({ where: { status: JudgeTaskStatus.RUNNING } }),
+      JudgeTask.count({ where: { createdAt: { [Op.gt]: oneHourAgo } } }),
+      JudgeTask.count({ where: { status: JudgeTaskStatus.FAILED, finishedAt: { [Op.gt]: oneHourAgo } } }),
+      JudgeTask.findAll({ where: queuedWhere, attributes: ['priority', 'createdAt'] })
+    ])
+
+    const priorityDistribution = queuedTasks.reduce((acc, task) => {
       acc[task.priority] = (acc[task.priority] || 0) + 1
       return acc
     }, {} as Record<number, number>)
     
     return {
-      total: this.queue.length,
-      processing: this.currentProcessing,
-      recent: recentTasks.length,
+      total,
+      processing,
+      recent,
+      failed,
       priorityDistribution,
-      averageWaitTime: this.calculateAverageWaitTime(),
+      averageWaitTime: this.calculateAverageWaitTime(queuedTasks),
       isRunning: this.isRunning
     }
   }
 
   // 计算平均等待时间
-  private calculateAverageWaitTime(): number {
-    if (this.queue.length === 0) return 0
+  private calculateAverageWaitTime(tasks: JudgeTask[]): number {
+    if (tasks.length === 0) return 0
     
-    const now = new Date()
-    const totalWaitTime = this.queue.reduce((sum, task) => {
-      return sum + (now.getTime() - task.createdAt.getTime())
+    const now = Date.now()
+    const totalWaitTime = tasks.reduce((sum, task) => {
+      return sum + (now - task.createdAt.getTime())
     }, 0)
     
-    return Math.round(totalWaitTime / this.queue.length)
+    return Math.round(totalWaitTime / tasks.length)
   }
 }
 
-// 创建全局判题队列实例
-export const judgeQueue = new JudgeQueue(parseInt(process.env.JUDGE_CONCURRENT_LIMIT || '3'))
-
-// 启动时自动开始处理队列
-judgeQueue.start()
+// 创建全局判题队列实例（数据库连接后由服务启动流程调用 recover 与 start）
+export const judgeQueue = new JudgeQueue(
+  config.judge.queue.concurrency,
+  config.judge.queue.leaseTimeout,
+  config.judge.queue.maxRetries,
+  config.judge.queue.runConcurrency
+)
 
 // 定期清理过期任务
 setInterval(() => {
-  judgeQueue.cleanupExpiredTasks()
+  judgeQueue.cleanupExpiredTasks().catch(error => {
+    console.error('清理判题任务失败:', error)
+  })
 }, 60 * 60 * 1000) // 每小时清理一次
 
 // 导出队列管理函数
-export const addJudgeTask = (submissionId: string, userId: string, problemId: string, priority: number = 0): string => {
+export const addJudgeTask = (submissionId: string, userId: number, problemId: string, priority: number = JudgePriority.NORMAL): Promise<string> => {
   return judgeQueue.addTask(submissionId, userId, problemId, priority)
 }
 
-export const removeJudgeTask = (taskId: string): boolean => {
+// 重置提交的判题结果并重新加入判题队列
+export const addRejudgeTask = async (submission: Submission): Promise<string> => {
+  // 撤销原结果计入的题目通过数，重判完成后按新结果重新统计
+  if (submission.status === SubmissionStatus.ACCEPTED) {
+    const problem = await Problem.findOne({ where: { problemId: submission.problemId } })
+    if (problem && problem.stats.acceptedSubmissions > 0) {
+      const stats = { ...problem.stats }
+      stats.acceptedSubmissions -= 1
+      await problem.update({ stats })
+    }
+  }
+
+  await submission.update({
+    status: SubmissionStatus.PENDING,
+    score: 0,
+    timeUsed: 0,
+    memoryUsed: 0,
+    testCaseResults: [],
+    subtaskResults: [],
+    compileOutput: '',
+    errorMessage: ''
+  })
+  await judgeQueue.refreshContestRanking(submission)
+
+  return judgeQueue.addTask(submission.submissionId, submission.userId, submission.problemId, JudgePriority.REJUDGE)
+}
+
+export const addRunTask = (runConfig: RunConfig): Promise<RunResult> => {
+  return judgeQueue.addRunTask(runConfig)
+}
+
+export const removeJudgeTask = (taskId: string): Promise<boolean> => {
   return judgeQueue.removeTask(taskId)
 }
 
@@ -475,4 +898,4 @@ export const getTaskStatus = (taskId: string) => {
   return judgeQueue.getTaskStatus(taskId)
 }
 
-export default judgeQueue
\ No newline at end of file
+export default judgeQueue
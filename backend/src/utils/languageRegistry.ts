@@ -0,0 +1,83 @@
+import { JudgeLanguage } from '../models/JudgeLanguageMySQL'
+import { DEFAULT_LANGUAGES, LanguageConfig, LanguageDefinition, toLanguageConfig } from './languages'
+
+// 语言表的重新加载间隔：其他服务进程修改语言后，本进程最迟在该时间后生效
+const REFRESH_INTERVAL = 60 * 1000
+
+// 语言缓存（按创建顺序），加载语言表之前使用内置语言
+let languages = new Map<string, LanguageDefinition>(DEFAULT_LANGUAGES.map(language => [language.languageId, language]))
+let refreshTimer: NodeJS.Timeout | null = null
+
+const toDefinition = (language: JudgeLanguage): LanguageDefinition => {
+  const { id, createdAt, updatedAt, ...definition } = language.toJSON()
+  return definition
+}
+
+// 重新加载语言表
+export const refreshLanguages = async (): Promise<void> => {
+  const rows = await JudgeLanguage.findAll({ order: [['id', 'ASC']] })
+  languages = new Map(rows.map(row => [row.languageId, toDefinition(row)]))
+}
+
+// 写入缺少的内置语言（已存在的保持管理员的修改）并加载语言表，服务启动时调用
+export const loadLanguages = async (): Promise<void> => {
+  await JudgeLanguage.bulkCreate(DEFAULT_LANGUAGES, { ignoreDuplicates: true })
+  await refreshLanguages()
+
+  if (!refreshTimer) {
+    refreshTimer = setInterval(() => {
+      refreshLanguages().catch(error => {
+        console.error('加载语言表失败:', error)
+      })
+    }, REFRESH_INTERVAL)
+  }
+}
+
+// 获取语言列表，缺省只包含启用的语言
+export const listLanguages = (includeDisabled: boolean = false): LanguageDefinition[] => {
+  const all = Array.from(languages.values())
+  return includeDisabled ? all : all.filter(language => language.enabled)
+}
+
+// 获取语言定义（包括已停用的语言）
+export const getLanguage = (languageId: string): LanguageDefinition | undefined => {
+  return languages.get(languageId)
+}
+
+// 获取评测所需的语言配置
+export const getLanguageConfig = (languageId: string): LanguageConfig | null => {
+  const language = languages.get(languageId)
+  return language ? toLanguageConfig(language) : null
+}
+
+// 语言所属的语法，未知语言按自身标识处理
+export const getLanguageFamily = (languageId: string): string => {
+  return languages.get(languageId)?.family || languageId
+}
+
+// 语言是否存在（用于筛选条件、允许语言列表等，包括已停用的语言）
+export const isRegisteredLanguage = (languageId: unknown): boolean => {
+  return typeof languageId === 'string' && languages.has(languageId)
+}
+
+// 语言是否可以提交
+export const isEnabledLanguage = (languageId: unknown): boolean => {
+  return typeof languageId === 'string' && languages.get(languageId)?.enabled === true
+}
+
+// 添加或修改语言后更新缓存
+export const cacheLanguage = (language: JudgeLanguage): void => {
+  languages.set(language.languageId, toDefinition(language))
+}
+
+export default {
+  loadLanguages,
+  refreshLanguages,
+  listLanguages,
+  getLanguage,
+  getLanguageConfig,
+  getLanguageFamily,
+  isRegisteredLanguage,
+  isEnabledLanguage,
+  cacheLanguage
+}
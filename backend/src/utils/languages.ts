@@ -0,0 +1,193 @@
+// 编程语言定义（不依赖数据库，判题机进程也会使用）
+// 命令模板中的占位符：{source} 入口源文件，{sources} 全部源文件（多文件提交与评测程序，单独作为一个参数时展开为多个参数），
+// {output} 编译产物，{executable} 运行的文件（解释型语言为入口源文件），{dir} 工作目录，{classname} 主类名
+
+// 评测所需的语言配置，随判题任务下发给判题机
+export interface LanguageConfig {
+  extension: string               // 源文件扩展名
+  compileCommand?: string | null  // 编译命令模板，为空表示解释型语言
+  runCommand: string              // 运行命令模板
+  executable?: string | null      // 编译产物文件名（相对工作目录，可使用 {classname}），缺省为 main
+  detectClassName?: boolean | null // 按代码中的 public 类命名源文件，并以含 main 方法的类为 {classname}（Java）
+  version: string                 // 编译器/解释器版本说明，修改后编译缓存随之失效
+  timeMultiplier: number
+  memoryMultiplier: number
+  seccompProfile: string          // 沙箱系统调用白名单
+  processLimit?: number | null    // 沙箱进程/线程数限制
+}
+
+// 完整的语言定义
+export interface LanguageDefinition extends LanguageConfig {
+  languageId: string  // 提交中记录的语言标识，如 cpp20、pypy3
+  name: string        // 显示名称
+  family: string      // 语法所属的语言（c、cpp、java、python……），用于查重的词法分析
+  enabled: boolean    // 停用后不能再提交，已有提交仍可重判
+}
+
+// 编译产物的默认文件名
+export const DEFAULT_EXECUTABLE = 'main'
+
+// 内置语言：服务启动时写入语言表（已存在的不覆盖），标识保持不变以兼容已有提交
+export const DEFAULT_LANGUAGES: LanguageDefinition[] = [
+  {
+    languageId: 'c',
+    name: 'C',
+    family: 'c',
+    version: 'GCC -std=c99 -O2',
+    extension: '.c',
+    compileCommand: 'gcc -o {output} {sources} -O2 -std=c99',
+    runCommand: '{executable}',
+    timeMultiplier: 1,
+    memoryMultiplier: 1,
+    seccompProfile: 'native',
+    enabled: true
+  },
+  {
+    languageId: 'cpp',
+    name: 'C++17',
+    family: 'cpp',
+    version: 'G++ -std=c++17 -O2',
+    extension: '.cpp',
+    compileCommand: 'g++ -o {output} {sources} -O2 -std=c++17',
+    runCommand: '{executable}',
+    timeMultiplier: 1,
+    memoryMultiplier: 1,
+    seccompProfile: 'native',
+    enabled: true
+  },
+  {
+    languageId: 'cpp14',
+    name: 'C++14',
+    family: 'cpp',
+    version: 'G++ -std=c++14 -O2',
+    extension: '.cpp',
+    compileCommand: 'g++ -o {output} {sources} -O2 -std=c++14',
+    runCommand: '{executable}',
+    timeMultiplier: 1,
+    memoryMultiplier: 1,
+    seccompProfile: 'native',
+    enabled: true
+  },
+  {
+    languageId: 'cpp20',
+    name: 'C++20',
+    family: 'cpp',
+    version: 'G++ -std=c++20 -O2',
+    extension: '.cpp',
+    compileCommand: 'g++ -o {output} {sources} -O2 -std=c++20',
+    runCommand: '{executable}',
+    timeMultiplier: 1,
+    memoryMultiplier: 1,
+    seccompProfile: 'native',
+    enabled: true
+  },
+  {
+    languageId: 'java',
+    name: 'Java',
+    family: 'java',
+    version: 'OpenJDK',
+    extension: '.java',
+    compileCommand: 'javac -encoding UTF-8 {sources}',
+    runCommand: 'java -cp {dir} {classname}',
+    executable: '{classname}.class',
+    detectClassName: true,
+    timeMultiplier: 2,
+    memoryMultiplier: 2,
+    seccompProfile: 'java',
+    processLimit: 64,
+    enabled: true
+  },
+  {
+    languageId: 'kotlin',
+    name: 'Kotlin',
+    family: 'kotlin',
+    version: 'Kotlin/JVM',
+    extension: '.kt',
+    compileCommand: 'kotlinc {sources} -include-runtime -d {output}',
+    runCommand: 'java -jar {executable}',
+    executable: 'main.jar',
+    timeMultiplier: 2,
+    memoryMultiplier: 2,
+    seccompProfile: 'java',
+    processLimit: 64,
+    enabled: true
+  },
+  {
+    languageId: 'python',
+    name: 'Python 3',
+    family: 'python',
+    version: 'CPython 3',
+    extension: '.py',
+    runCommand: 'python3 {source}',
+    timeMultiplier: 3,
+    memoryMultiplier: 2,
+    seccompProfile: 'python',
+    enabled: true
+  },
+  {
+    languageId: 'pypy3',
+    name: 'PyPy 3',
+    family: 'python',
+    version: 'PyPy 3',
+    extension: '.py',
+    runCommand: 'pypy3 {source}',
+    timeMultiplier: 2,
+    memoryMultiplier: 2,
+    seccompProfile: 'python',
+    enabled: true
+  },
+  {
+    languageId: 'javascript',
+    name: 'JavaScript',
+    family: 'javascript',
+    version: 'Node.js',
+    extension: '.js',
+    runCommand: 'node {source}',
+    timeMultiplier: 2,
+    memoryMultiplier: 2,
+    seccompProfile: 'javascript',
+    processLimit: 32,
+    enabled: true
+  },
+  {
+    languageId: 'go',
+    name: 'Go',
+    family: 'go',
+    version: 'Go',
+    extension: '.go',
+    compileCommand: 'go build -o {output} {sources}',
+    runCommand: '{executable}',
+    timeMultiplier: 1,
+    memoryMultiplier: 1,
+    seccompProfile: 'go',
+    processLimit: 32,
+    enabled: true
+  },
+  {
+    languageId: 'rust',
+    name: 'Rust',
+    family: 'rust',
+    version: 'rustc --edition 2021 -O',
+    extension: '.rs',
+    compileCommand: 'rustc --edition 2021 -O -o {output} {source}',
+    runCommand: '{executable}',
+    timeMultiplier: 1,
+    memoryMultiplier: 1,
+    seccompProfile: 'rust',
+    enabled: true
+  }
+]
+
+// 取出评测所需的配置
+export const toLanguageConfig = (definition: LanguageConfig): LanguageConfig => ({
+  extension: definition.extension,
+  compileCommand: definition.compileCommand || null,
+  runCommand: definition.runCommand,
+  executable: definition.executable || null,
+  detectClassName: definition.detectClassName || false,
+  version: definition.version,
+  timeMultiplier: definition.timeMultiplier,
+  memoryMultiplier: definition.memoryMultiplier,
+  seccompProfile: definition.seccompProfile,
+  processLimit: definition.processLimit ?? null
+})
@@ -0,0 +1,238 @@
+import { setImmediate as yieldToEventLoop } from 'timers/promises'
+import { Op, WhereOptions } from 'sequelize'
+import { Submission, SubmissionStatus } from '../models/SubmissionMySQL'
+import { Contest } from '../models/ContestMySQL'
+import { Assignment } from '../models/AssignmentMySQL'
+import { PlagiarismCheck, PlagiarismCheckStatus, PlagiarismScope } from '../models/PlagiarismCheckMySQL'
+import { PlagiarismPair, PlagiarismPairCreationAttributes, PlagiarismPairStatus } from '../models/PlagiarismPairMySQL'
+import { analyzeCode, compareCode, fingerprintHashes, CodeFingerprint } from './similarity'
+import { findAssignedStudents } from './assignmentMatrix'
+import { getLanguageFamily } from './languageRegistry'
+import { emitToUser } from '../server'
+
+// 词法单元过少的代码（如 A+B）彼此必然相似，不参与比较
+const MIN_TOKENS = 40
+
+// 参与比较的代码不少于该数量时，超过一半代码共有的指纹视为模板代码，不作为匹配依据
+const MIN_DOCS_FOR_COMMON = 10
+const COMMON_RATIO = 0.5
+
+// 每次查重最多保留的代码对
+const MAX_PAIRS = 1000
+
+// 不参与查重的提交状态
+const EXCLUDED_STATUSES = [SubmissionStatus.PENDING, SubmissionStatus.JUDGING, SubmissionStatus.COMPILE_ERROR]
+
+// 参与比较的提交
+type CheckedSubmission = Pick<Submission, 'submissionId' | 'userId' | 'problemId' | 'language' | 'code' | 'status' | 'submittedAt'>
+
+// 查重范围对应的提交查询条件
+const scopeCondition = async (check: PlagiarismCheck): Promise<WhereOptions> => {
+  switch (check.scope) {
+    case PlagiarismScope.CONTEST: {
+      const contest = await Contest.findByPk(Number(check.scopeId))
+      if (!contest) throw new Error('比赛不存在')
+      // 只比较正式参赛的提交
+      return { contestId: contest.id, isVirtual: false }
+    }
+    case PlagiarismScope.ASSIGNMENT: {
+      const assignment = await Assignment.findByPk(Number(check.scopeId))
+      if (!assignment) throw new Error('作业不存在')
+      const students = await findAssignedStudents(assignment)
+      return {
+        userId: { [Op.in]: students.map(student => student.id) },
+        problemId: { [Op.in]: assignment.problems },
+        contestId: null,
+        submittedAt: { [Op.gte]: assignment.startTime }
+      }
+    }
+    default:
+      return { problemId: check.scopeId }
+  }
+}
+
+// 每个用户每道题每种语法只取一份代码：最后一次通过的提交，没有通过时取最后一次提交
+export const pickRepresentativeSubmissions = (submissions: CheckedSubmission[]): CheckedSubmission[] => {
+  const picked = new Map<string, CheckedSubmission>()
+  const sorted = [...submissions].sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime())
+  for (const submission of sorted) {
+    const key = `${submission.userId}:${submission.problemId}:${getLanguageFamily(submission.language)}`
+    const existing = picked.get(key)
+    if (!existing || submission.status === SubmissionStatus.ACCEPTED || existing.status !== SubmissionStatus.ACCEPTED) {
+      picked.set(key, submission)
+    }
+  }
+  return Array.from(picked.values())
+}
+
+// 比较同一道题、同一种语法的代码（如 cpp14 与 cpp20 互相比较），返回相似度达到阈值的代码对
+const compareGroup = async (
+  submissions: CheckedSubmission[],
+  minSimilarity: number
+): Promise<Omit<PlagiarismPairCreationAttributes, 'checkId'>[]> => {
+  const documents: { submission: CheckedSubmission; code: CodeFingerprint; hashes: Set<number> }[] = []
+  for (const submission of submissions) {
+    const code = analyzeCode(submission.code, getLanguageFamily(submission.language))
+    if (code.tokens.length >= MIN_TOKENS) {
+      documents.push({ submission, code, hashes: fingerprintHashes(code) })
+    }
+  }
+
+  // 统计每个指纹出现在多少份代码中，找出模板代码
+  const frequency = new Map<number, number>()
+  for (const document of documents) {
+    for (const hash of document.hashes) {
+      frequency.set(hash, (frequency.get(hash) || 0) + 1)
+    }
+  }
+  const ignored = new Set<number>()
+  if (documents.length >= MIN_DOCS_FOR_COMMON) {
+    for (const [hash, count] of frequency) {
+      if (count > documents.length * COMMON_RATIO) ignored.add(hash)
+    }
+  }
+
+  // 倒排索引：指纹 -> 包含它的代码
+  const index = new Map<number, number[]>()
+  documents.forEach((document, position) => {
+    for (const hash of document.hashes) {
+      if (ignored.has(hash)) continue
+      const list = index.get(hash) || []
+      list.push(position)
+      index.set(hash, list)
+    }
+  })
+  const sizes = documents.map(document => Array.from(document.hashes).filter(hash => !ignored.has(hash)).length)
+
+  const pairs: Omit<PlagiarismPairCreationAttributes, 'checkId'>[] = []
+  for (let i = 0; i < documents.length; i++) {
+    // 共同指纹数，用于筛选需要详细比较的代码对
+    const shared = new Map<number, number>()
+    for (const hash of documents[i].hashes) {
+      for (const j of index.get(hash) || []) {
+        if (j > i) shared.set(j, (shared.get(j) || 0) + 1)
+      }
+    }
+
+    for (const [j, count] of shared) {
+      if (count * 100 < Math.min(sizes[i], sizes[j]) * minSimilarity / 2) continue
+
+      // 左侧为较早的提交
+      const [left, right] = documents[i].submission.submittedAt <= documents[j].submission.submittedAt
+        ? [documents[i], documents[j]]
+        : [documents[j], documents[i]]
+      if (left.submission.userId === right.submission.userId) continue
+
+      const result = compareCode(left.code, right.code, ignored)
+      if (result.similarity < minSimilarity) continue
+
+      pairs.push({
+        problemId: left.submission.problemId,
+        language: left.submission.language,
+        leftSubmissionId: left.submission.submissionId,
+        rightSubmissionId: right.submission.submissionId,
+        leftUserId: left.submission.userId,
+        rightUserId: right.submission.userId,
+        similarity: result.similarity,
+        leftSimilarity: result.leftSimilarity,
+        rightSimilarity: result.rightSimilarity,
+        matches: result.matches
+      })
+    }
+
+    // 分析耗时较长，定期让出事件循环
+    await yieldToEventLoop()
+  }
+  return pairs
+}
+
+// 执行查重
+const runPlagiarismCheck = async (check: PlagiarismCheck): Promise<void> => {
+  await check.update({ status: PlagiarismCheckStatus.RUNNING })
+
+  const submissions = pickRepresentativeSubmissions(await Submission.findAll({
+    where: {
+      [Op.and]: [
+        await scopeCondition(check),
+        { status: { [Op.notIn]: EXCLUDED_STATUSES } }
+      ]
+    },
+    attributes: ['submissionId', 'userId', 'problemId', 'language', 'code', 'status', 'submittedAt']
+  }))
+
+  // 按题目与语法分组比较
+  const groups = new Map<string, CheckedSubmission[]>()
+  for (const submission of submissions) {
+    const key = `${submission.problemId}:${getLanguageFamily(submission.language)}`
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(submission)
+  }
+
+  let pairs: Omit<PlagiarismPairCreationAttributes, 'checkId'>[] = []
+  for (const group of groups.values()) {
+    pairs.push(...await compareGroup(group, check.minSimilarity))
+  }
+  pairs = pairs.sort((a, b) => b.similarity - a.similarity).slice(0, MAX_PAIRS)
+
+  // 沿用同一范围之前查重中对相同代码对的审核结果
+  const previousChecks = await PlagiarismCheck.findAll({
+    where: { scope: check.scope, scopeId: check.scopeId, id: { [Op.ne]: check.id } },
+    attributes: ['id']
+  })
+  const reviewed = previousChecks.length > 0
+    ? await PlagiarismPair.findAll({
+        where: {
+          checkId: { [Op.in]: previousChecks.map(previous => previous.id) },
+          status: { [Op.ne]: PlagiarismPairStatus.PENDING }
+        },
+        order: [['reviewedAt', 'ASC']]
+      })
+    : []
+  const reviews = new Map(reviewed.map(pair => [`${pair.leftSubmissionId}:${pair.rightSubmissionId}`, pair]))
+
+  await PlagiarismPair.bulkCreate(pairs.map(pair => {
+    const review = reviews.get(`${pair.leftSubmissionId}:${pair.rightSubmissionId}`)
+    return {
+      ...pair,
+      checkId: check.id,
+      ...(review ? {
+        status: review.status,
+        note: review.note,
+        reviewedBy: review.reviewedBy,
+        reviewedAt: review.reviewedAt
+      } : {})
+    }
+  }))
+
+  await check.update({
+    status: PlagiarismCheckStatus.COMPLETED,
+    submissionCount: submissions.length,
+    pairCount: pairs.length,
+    finishedAt: new Date()
+  })
+}
+
+// 查重任务依次执行，避免同时占用过多CPU
+let checkQueue: Promise<void> = Promise.resolve()
+
+// 将查重任务加入队列，完成后通过 plagiarism:finished 事件通知创建者
+export const enqueuePlagiarismCheck = (check: PlagiarismCheck): void => {
+  checkQueue = checkQueue.then(async () => {
+    try {
+      await runPlagiarismCheck(check)
+    } catch (error) {
+      console.error(`查重任务 ${check.id} 失败:`, error)
+      await check.update({
+        status: PlagiarismCheckStatus.FAILED,
+        errorMessage: error instanceof Error ? error.message : '查重失败',
+        finishedAt: new Date()
+      }).catch(() => undefined)
+    }
+
+    emitToUser(String(check.createdBy), 'plagiarism:finished', {
+      checkId: check.id,
+      status: check.status,
+      pairCount: check.pairCount
+    })
+  })
+}
@@ -0,0 +1,684 @@
+import path from 'path'
+import fs from 'fs'
+import AdmZip from 'adm-zip'
+import { Problem, ProblemDifficulty, ProblemStatus, ProblemType, ITestCase } from '../models/ProblemMySQL'
+import { CheckerType, ProblemChecker, DEFAULT_CHECKER } from './checker'
+import { Subtask, SubtaskType, validateSubtasks } from './subtask'
+import { TestDataInput, saveTestData, ensureTestData, getBlobPath } from './testData'
+import { XmlElement, parseXml, xmlChild, xmlChildren, xmlPath, xmlText, escapeXml, cdata } from './xml'
+
+// 题目包格式
+export enum PackageFormat {
+  NATIVE = 'native',   // 本系统的zip包：problem.json + statement/*.md + tests/ + samples/ + checker.cpp
+  POLYGON = 'polygon', // Codeforces Polygon 完整包（含测试数据）
+  FPS = 'fps'          // Free Problem Set XML（HUSTOJ等）
+}
+
+// 从题目包中读出的题目（与格式无关）
+export interface ImportedProblem {
+  title: string
+  description: string
+  inputFormat: string
+  outputFormat: string
+  constraints?: string
+  difficulty: ProblemDifficulty
+  type: ProblemType
+  category: string
+  tags: string[]
+  timeLimit: number       // 毫秒
+  memoryLimit: number     // MB
+  testCases: TestDataInput[]
+  subtasks: Subtask[]
+  sampleCases: ITestCase[]
+  checker: ProblemChecker
+  interactor?: string
+  source?: string
+  sourceUrl?: string
+  hints: string[]
+  solution?: string
+  warnings: string[]      // 无法完整转换的内容，导入后需要手动调整
+}
+
+// 本系统题目包的配置文件（problem.json）
+interface NativeConfig {
+  format: 'ssl-oj'
+  version: number
+  problemId?: string      // 导出时的题目ID，仅供参考
+  title: string
+  difficulty?: ProblemDifficulty
+  type?: ProblemType
+  category?: string
+  tags?: string[]
+  timeLimit: number
+  memoryLimit: number
+  checker?: Omit<ProblemChecker, 'source'>
+  subtasks?: Subtask[]
+  testCases: { score?: number; isHidden?: boolean }[]
+  sampleCount?: number
+  source?: string
+  sourceUrl?: string
+  hints?: string[]
+}
+
+const NATIVE_CONFIG_FILE = 'problem.json'
+const NATIVE_VERSION = 1
+
+// 题目包解压后的总大小上限
+const MAX_UNCOMPRESSED_SIZE = 1024 * 1024 * 1024 // 1GB
+
+// 未给出限制时的默认值
+const DEFAULT_TIME_LIMIT = 1000
+const DEFAULT_MEMORY_LIMIT = 256
+const DEFAULT_CATEGORY = '未分类'
+// 题面各部分不能为空，缺失时使用占位文本
+const MISSING_STATEMENT = '（待补充）'
+
+// Polygon 标准检查器对应的内置检查器
+const POLYGON_CHECKERS: Record<string, ProblemChecker> = {
+  wcmp: { type: CheckerType.TOKENS },
+  ncmp: { type: CheckerType.TOKENS },
+  hcmp: { type: CheckerType.TOKENS },
+  uncmp: { type: CheckerType.TOKENS },
+  lcmp: { type: CheckerType.LINES },
+  fcmp: { type: CheckerType.LINES },
+  yesno: { type: CheckerType.CASE_INSENSITIVE },
+  nyesno: { type: CheckerType.CASE_INSENSITIVE },
+  rcmp: { type: CheckerType.FLOAT, absoluteEpsilon: 1.5e-6 },
+  dcmp: { type: CheckerType.FLOAT, absoluteEpsilon: 1e-6, relativeEpsilon: 1e-6 },
+  rcmp4: { type: CheckerType.FLOAT, absoluteEpsilon: 1e-4, relativeEpsilon: 1e-4 },
+  rcmp6: { type: CheckerType.FLOAT, absoluteEpsilon: 1e-6, relativeEpsilon: 1e-6 },
+  rcmp9: { type: CheckerType.FLOAT, absoluteEpsilon: 1e-9, relativeEpsilon: 1e-9 }
+}
+
+// 题面语言优先级
+const STATEMENT_LANGUAGES = ['chinese', 'english']
+
+// 图片扩展名对应的MIME类型
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp'
+}
+
+// 压缩包中的文件（按路径读取）
+class PackageFiles {
+  private entries = new Map<string, AdmZip.IZipEntry>()
+
+  constructor(zip: AdmZip) {
+    let totalSize = 0
+    for (const entry of zip.getEntries()) {
+      if (entry.isDirectory || entry.entryName.startsWith('__MACOSX/')) continue
+      totalSize += entry.header.size
+      if (totalSize > MAX_UNCOMPRESSED_SIZE) {
+        throw new Error('题目包解压后超过大小限制')
+      }
+      this.entries.set(entry.entryName.replace(/\\/g, '/'), entry)
+    }
+  }
+
+  public names(): string[] {
+    return Array.from(this.entries.keys())
+  }
+
+  public has(name: string): boolean {
+    return this.entries.has(name)
+  }
+
+  public buffer(name: string): Buffer | undefined {
+    return this.entries.get(name)?.getData()
+  }
+
+  public text(name: string): string | undefined {
+    return this.buffer(name)?.toString('utf8')
+  }
+}
+
+// 查找指定文件名所在的目录（可能在压缩包的子目录中），按层级由浅到深
+const findPackageRoots = (files: PackageFiles, fileName: string): string[] => {
+  return files.names()
+    .filter(name => path.posix.basename(name) === fileName)
+    .map(name => {
+      const dir = path.posix.dirname(name)
+      return dir === '.' ? '' : `${dir}/`
+    })
+    .sort((a, b) => a.split('/').length - b.split('/').length)
+}
+
+// 识别题目包格式
+export const detectPackageFormat = (filename: string, buffer: Buffer): PackageFormat => {
+  const ext = path.extname(filename).toLowerCase()
+  if (ext === '.xml') {
+    return PackageFormat.FPS
+  }
+  if (ext !== '.zip') {
+    throw new Error('只支持zip题目包或FPS XML文件')
+  }
+
+  const files = new PackageFiles(new AdmZip(buffer))
+  if (findPackageRoots(files, 'problem.xml').length > 0) return PackageFormat.POLYGON
+  if (findPackageRoots(files, NATIVE_CONFIG_FILE).length > 0) return PackageFormat.NATIVE
+  if (files.names().some(name => name.toLowerCase().endsWith('.xml'))) return PackageFormat.FPS
+  throw new Error('无法识别的题目包格式')
+}
+
+// 读取题目包，返回其中的所有题目
+export const readProblemPackage = (format: PackageFormat, buffer: Buffer): ImportedProblem[] => {
+  if (format === PackageFormat.FPS && buffer[0] !== 0x50) {
+    // 非zip（zip以 "PK" 开头），直接按XML解析
+    return parseFps(buffer.toString('utf8'))
+  }
+
+  const files = new PackageFiles(new AdmZip(buffer))
+  switch (format) {
+    case PackageFormat.POLYGON:
+      return [parsePolygonPackage(files, findPackageRoots(files, 'problem.xml')[0] ?? '')]
+    case PackageFormat.NATIVE:
+      return findPackageRoots(files, NATIVE_CONFIG_FILE).map(root => parseNativePackage(files, root))
+    default:
+      return files.names()
+        .filter(name => name.toLowerCase().endsWith('.xml'))
+        .flatMap(name => parseFps(files.text(name)!))
+  }
+}
+
+// ---------- 本系统格式 ----------
+
+// 解析本系统题目包（root 为包所在目录，多题导出时每题一个目录）
+const parseNativePackage = (files: PackageFiles, root: string): ImportedProblem => {
+  let config: NativeConfig
+  try {
+    config = JSON.parse(files.text(`${root}${NATIVE_CONFIG_FILE}`)!)
+  } catch (error) {
+    throw new Error(`${root}${NATIVE_CONFIG_FILE} 格式错误`)
+  }
+  if (config.format !== 'ssl-oj' || !config.title) {
+    throw new Error(`${root}${NATIVE_CONFIG_FILE} 不是有效的题目配置`)
+  }
+
+  const read = (name: string): Buffer => {
+    const buffer = files.buffer(`${root}${name}`)
+    if (!buffer) throw new Error(`题目包缺少文件: ${root}${name}`)
+    return buffer
+  }
+  const statement = (name: string): string => files.text(`${root}statement/${name}.md`) ?? ''
+
+  const testCases = (config.testCases || []).map((meta, index) => ({
+    input: read(`tests/${index + 1}.in`),
+    answer: read(`tests/${index + 1}.ans`),
+    score: meta.score,
+    isHidden: meta.isHidden
+  }))
+  const sampleCases = Array.from({ length: config.sampleCount || 0 }, (_, index) => ({
+    input: read(`samples/${index + 1}.in`).toString('utf8'),
+    output: read(`samples/${index + 1}.ans`).toString('utf8'),
+    isHidden: false
+  }))
+
+  const warnings: string[] = []
+  const checker: ProblemChecker = { ...DEFAULT_CHECKER, ...config.checker }
+  if (checker.type === CheckerType.CUSTOM) {
+    checker.source = files.text(`${root}checker.cpp`)
+    if (!checker.source) {
+      warnings.push('缺少 checker.cpp，已使用默认检查器')
+      Object.assign(checker, DEFAULT_CHECKER)
+    }
+  }
+  const interactor = files.text(`${root}interactor.cpp`)
+
+  return {
+    title: config.title,
+    description: statement('description'),
+    inputFormat: statement('input'),
+    outputFormat: statement('output'),
+    constraints: statement('constraints') || undefined,
+    difficulty: Object.values(ProblemDifficulty).includes(config.difficulty!) ? config.difficulty! : ProblemDifficulty.MEDIUM,
+    type: interactor ? ProblemType.INTERACTIVE : ProblemType.STANDARD,
+    category: config.category || '',
+    tags: config.tags || [],
+    timeLimit: Number(config.timeLimit) || DEFAULT_TIME_LIMIT,
+    memoryLimit: Number(config.memoryLimit) || DEFAULT_MEMORY_LIMIT,
+    testCases,
+    subtasks: config.subtasks || [],
+    sampleCases,
+    checker,
+    interactor,
+    source: config.source,
+    sourceUrl: config.sourceUrl,
+    hints: config.hints || [],
+    solution: statement('solution') || undefined,
+    warnings
+  }
+}
+
+// 导出本系统题目包，多道题时每题一个以题目ID命名的目录
+export const buildNativePackage = async (problems: Problem[]): Promise<Buffer> => {
+  const zip = new AdmZip()
+
+  for (const problem of problems) {
+    const root = problems.length > 1 ? `${problem.problemId}/` : ''
+    const testCases = await ensureTestData(problem)
+    const { source: checkerSource, ...checker } = problem.checker || DEFAULT_CHECKER
+
+    const config: NativeConfig = {
+      format: 'ssl-oj',
+      version: NATIVE_VERSION,
+      problemId: problem.problemId,
+      title: problem.title,
+      difficulty: problem.difficulty,
+      type: problem.type,
+      category: problem.category,
+      tags: problem.tags,
+      timeLimit: problem.timeLimit,
+      memoryLimit: problem.memoryLimit,
+      checker,
+      subtasks: problem.subtasks,
+      testCases: testCases.map(testCase => ({ score: testCase.score, isHidden: testCase.isHidden })),
+      sampleCount: problem.sampleCases.length,
+      source: problem.source,
+      sourceUrl: problem.sourceUrl,
+      hints: problem.hints
+    }
+    zip.addFile(`${root}${NATIVE_CONFIG_FILE}`, Buffer.from(JSON.stringify(config, null, 2)))
+
+    const statements: Record<string, string | undefined> = {
+      description: problem.description,
+      input: problem.inputFormat,
+      output: problem.outputFormat,
+      constraints: problem.constraints,
+      solution: problem.solution
+    }
+    for (const [name, content] of Object.entries(statements)) {
+      if (content) zip.addFile(`${root}statement/${name}.md`, Buffer.from(content))
+    }
+
+    testCases.forEach((testCase, index) => {
+      zip.addLocalFile(getBlobPath(testCase.inputHash!), `${root}tests`, `${index + 1}.in`)
+      zip.addLocalFile(getBlobPath(testCase.answerHash!), `${root}tests`, `${index + 1}.ans`)
+    })
+    problem.sampleCases.forEach((sample, index) => {
+      zip.addFile(`${root}samples/${index + 1}.in`, Buffer.from(sample.input || ''))
+      zip.addFile(`${root}samples/${index + 1}.ans`, Buffer.from(sample.output || ''))
+    })
+
+    if (checkerSource) zip.addFile(`${root}checker.cpp`, Buffer.from(checkerSource))
+    if (problem.interactor) zip.addFile(`${root}interactor.cpp`, Buffer.from(problem.interactor))
+  }
+
+  return zip.toBuffer()
+}
+
+// ---------- Polygon ----------
+
+// 按 Polygon 路径模板生成文件名，如 "tests/%02d" -> "tests/01"
+const formatPathPattern = (pattern: string, index: number): string => {
+  return pattern.replace(/%0?(\d*)d/, (match, width) => String(index).padStart(Number(width) || 0, '0'))
+}
+
+// 按语言优先级选择
+const pickLanguage = <T>(items: T[], language: (item: T) => string | undefined): T | undefined => {
+  for (const preferred of STATEMENT_LANGUAGES) {
+    const item = items.find(candidate => language(candidate) === preferred)
+    if (item) return item
+  }
+  return items[0]
+}
+
+// 解析 Polygon 完整包（需包含生成好的测试数据）
+const parsePolygonPackage = (files: PackageFiles, root: string): ImportedProblem => {
+  const xml = parseXml(files.text(`${root}problem.xml`)!)
+  const warnings: string[] = []
+  const read = (name: string): Buffer | undefined => files.buffer(`${root}${name}`)
+
+  // 题目名称
+  const names = xmlChildren(xmlChild(xml, 'names'), 'name')
+  const title = pickLanguage(names, name => name.attributes.language)?.attributes.value
+    || xml.attributes['short-name']
+    || '未命名题目'
+
+  // 测试数据
+  const testsets = xmlChildren(xmlChild(xml, 'judging'), 'testset')
+  const testset = testsets.find(item => item.attributes.name === 'tests') || testsets[0]
+  if (!testset) {
+    throw new Error('problem.xml 中没有测试数据定义')
+  }
+  const inputPattern = xmlText(testset, 'input-path-pattern').trim() || 'tests/%02d'
+  const answerPattern = xmlText(testset, 'answer-path-pattern').trim() || 'tests/%02d.a'
+  const tests = xmlChildren(xmlChild(testset, 'tests'), 'test')
+
+  const testCases: TestDataInput[] = tests.map((test, index) => {
+    const inputName = formatPathPattern(inputPattern, index + 1)
+    const input = read(inputName)
+    const answer = read(formatPathPattern(answerPattern, index + 1))
+    if (!input || !answer) {
+      throw new Error(`缺少测试数据 ${inputName}，请导出包含测试数据的完整包（Full package）`)
+    }
+    return {
+      input,
+      answer,
+      score: test.attributes.points !== undefined ? Number(test.attributes.points) : undefined,
+      isHidden: test.attributes.sample !== 'true'
+    }
+  })
+
+  const timeLimit = Number(xmlText(testset, 'time-limit')) || DEFAULT_TIME_LIMIT
+  const memoryBytes = Number(xmlText(testset, 'memory-limit'))
+  const memoryLimit = memoryBytes ? Math.round(memoryBytes / 1024 / 1024) : DEFAULT_MEMORY_LIMIT
+
+  // 测试组转换为子任务
+  const subtasks = parsePolygonGroups(testset, tests)
+
+  // 检查器
+  let checker: ProblemChecker = DEFAULT_CHECKER
+  const checkerElement = xmlPath(xml, 'assets/checker')
+  if (checkerElement) {
+    const standard = /^std::(\w+)\.cpp$/.exec(checkerElement.attributes.name || '')
+    const sourcePath = xmlChild(checkerElement, 'source')?.attributes.path
+    if (standard && POLYGON_CHECKERS[standard[1]]) {
+      checker = POLYGON_CHECKERS[standard[1]]
+    } else if (sourcePath && read(sourcePath)) {
+      checker = { type: CheckerType.CUSTOM, source: read(sourcePath)!.toString('utf8') }
+    } else {
+      warnings.push(`无法导入检查器 ${checkerElement.attributes.name || ''}，已使用默认检查器`)
+    }
+  }
+
+  // 交互器
+  const interactorPath = xmlChild(xmlPath(xml, 'assets/interactor'), 'source')?.attributes.path
+  const interactor = interactorPath ? read(interactorPath)?.toString('utf8') : undefined
+
+  // 题面：优先使用 problem-properties.json，其次是 statement-sections 中的 tex 文件
+  const statement = parsePolygonStatement(files, root)
+  if (statement) {
+    warnings.push('题面为Polygon的LaTeX格式，请检查显示效果')
+  }
+
+  const sampleCases: ITestCase[] = statement?.samples.length
+    ? statement.samples
+    : testCases.filter(testCase => !testCase.isHidden).map(testCase => ({
+        input: testCase.input.toString(),
+        output: testCase.answer.toString(),
+        isHidden: false
+      }))
+
+  return {
+    title,
+    description: statement?.legend || '',
+    inputFormat: statement?.input || '',
+    outputFormat: statement?.output || '',
+    difficulty: ProblemDifficulty.MEDIUM,
+    type: interactor ? ProblemType.INTERACTIVE : ProblemType.STANDARD,
+    category: '',
+    tags: xmlChildren(xmlChild(xml, 'tags'), 'tag').map(tag => tag.attributes.value).filter(Boolean),
+    timeLimit,
+    memoryLimit,
+    testCases,
+    subtasks,
+    sampleCases,
+    checker,
+    interactor,
+    source: 'Polygon',
+    sourceUrl: xml.attributes.url,
+    hints: statement?.notes ? [statement.notes] : [],
+    solution: statement?.tutorial || undefined,
+    warnings
+  }
+}
+
+// Polygon 测试组：complete-group 全部通过才得分，each-test 按测试点累加
+const parsePolygonGroups = (testset: XmlElement, tests: XmlElement[]): Subtask[] => {
+  const groups = xmlChildren(xmlChild(testset, 'groups'), 'group')
+    .filter(group => tests.some(test => test.attributes.group === group.attributes.name))
+  const ids = new Map(groups.map((group, index) => [group.attributes.name, index + 1]))
+
+  return groups.map((group, index) => {
+    const testCases: number[] = []
+    let points = 0
+    tests.forEach((test, testIndex) => {
+      if (test.attributes.group === group.attributes.name) {
+        testCases.push(testIndex + 1)
+        points += Number(test.attributes.points) || 0
+      }
+    })
+    const dependencies = xmlChildren(xmlChild(group, 'dependencies'), 'dependency')
+      .map(dependency => ids.get(dependency.attributes.group))
+      .filter((id): id is number => id !== undefined)
+
+    return {
+      id: index + 1,
+      score: group.attributes.points !== undefined ? Number(group.attributes.points) : points,
+      type: group.attributes['points-policy'] === 'complete-group' ? SubtaskType.ALL : SubtaskType.SUM,
+      testCases,
+      ...(dependencies.length > 0 ? { dependencies } : {})
+    }
+  })
+}
+
+// Polygon 题面
+interface PolygonStatement {
+  legend: string
+  input: string
+  output: string
+  notes: string
+  tutorial: string
+  samples: ITestCase[]
+}
+
+const parsePolygonStatement = (files: PackageFiles, root: string): PolygonStatement | undefined => {
+  const properties = files.names()
+    .map(name => new RegExp(`^${root.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}statements/([^/]+)/problem-properties\\.json$`).exec(name))
+    .filter((match): match is RegExpExecArray => match !== null)
+  const selected = pickLanguage(properties, match => match[1])
+  if (selected) {
+    const data = JSON.parse(files.text(selected[0])!)
+    return {
+      legend: data.legend || '',
+      input: data.input || '',
+      output: data.output || '',
+      notes: data.notes || '',
+      tutorial: data.tutorial || '',
+      samples: (data.sampleTests || []).map((sample: { input: string; output: string }) => ({
+        input: sample.input,
+        output: sample.output,
+        isHidden: false
+      }))
+    }
+  }
+
+  const languages = Array.from(new Set(files.names()
+    .map(name => new RegExp(`^${root.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}statement-sections/([^/]+)/`).exec(name)?.[1])
+    .filter((language): language is string => !!language)))
+  const language = pickLanguage(languages, item => item)
+  if (!language) return undefined
+
+  const dir = `${root}statement-sections/${language}/`
+  const section = (name: string) => files.text(`${dir}${name}`) || ''
+  const samples: ITestCase[] = []
+  for (let index = 1; files.has(`${dir}example.${String(index).padStart(2, '0')}`); index++) {
+    const name = `example.${String(index).padStart(2, '0')}`
+    samples.push({ input: section(name), output: section(`${name}.a`), isHidden: false })
+  }
+  return {
+    legend: section('legend.tex'),
+    input: section('input.tex'),
+    output: section('output.tex'),
+    notes: section('notes.tex'),
+    tutorial: section('tutorial.tex'),
+    samples
+  }
+}
+
+// ---------- FPS ----------
+
+// 解析 FPS XML，每个 item 为一道题
+export const parseFps = (source: string): ImportedProblem[] => {
+  const root = parseXml(source)
+  if (root.name !== 'fps') {
+    throw new Error('不是有效的FPS文件')
+  }
+  return xmlChildren(root, 'item').map(parseFpsItem)
+}
+
+// 时间限制换算为毫秒
+const fpsTimeLimit = (element: XmlElement | undefined): number => {
+  const value = parseFloat(element?.text || '')
+  if (!value) return DEFAULT_TIME_LIMIT
+  return Math.round(element?.attributes.unit === 'ms' ? value : value * 1000)
+}
+
+// 内存限制换算为MB
+const fpsMemoryLimit = (element: XmlElement | undefined): number => {
+  const value = parseFloat(element?.text || '')
+  if (!value) return DEFAULT_MEMORY_LIMIT
+  return Math.round(element?.attributes.unit === 'kb' ? value / 1024 : value)
+}
+
+const parseFpsItem = (item: XmlElement): ImportedProblem => {
+  const warnings: string[] = []
+
+  // 内嵌图片替换为 data URI
+  const images = xmlChildren(item, 'img').map(img => {
+    const src = xmlText(img, 'src').trim()
+    const type = IMAGE_TYPES[path.extname(src).toLowerCase()] || 'image/png'
+    return { src, uri: `data:${type};base64,${xmlText(img, 'base64').replace(/\s/g, '')}` }
+  })
+  const html = (name: string): string => {
+    return images.reduce((text, image) => image.src ? text.split(image.src).join(image.uri) : text, xmlText(item, name).trim())
+  }
+
+  const pairs = (inputName: string, outputName: string): [string, string][] => {
+    const inputs = xmlChildren(item, inputName)
+    const outputs = xmlChildren(item, outputName)
+    return inputs.map((input, index) => [input.text, outputs[index]?.text ?? ''])
+  }
+
+  const testCases = pairs('test_input', 'test_output').map(([input, answer]) => ({ input, answer }))
+  if (testCases.length === 0) {
+    warnings.push('题目没有测试数据，请导入后上传')
+  }
+
+  if (xmlChild(item, 'spj')) {
+    warnings.push('FPS特判程序与testlib不兼容，已使用默认检查器，请手动设置检查器')
+  }
+
+  const solutions = xmlChildren(item, 'solution')
+    .map(solution => `\`\`\`${(solution.attributes.language || '').toLowerCase()}\n${solution.text.trim()}\n\`\`\``)
+  const hint = html('hint')
+
+  return {
+    title: xmlText(item, 'title').trim() || '未命名题目',
+    description: html('description'),
+    inputFormat: html('input'),
+    outputFormat: html('output'),
+    difficulty: ProblemDifficulty.MEDIUM,
+    type: ProblemType.STANDARD,
+    category: '',
+    tags: [],
+    timeLimit: fpsTimeLimit(xmlChild(item, 'time_limit')),
+    memoryLimit: fpsMemoryLimit(xmlChild(item, 'memory_limit')),
+    testCases,
+    subtasks: [],
+    sampleCases: pairs('sample_input', 'sample_output').map(([input, output]) => ({ input, output, isHidden: false })),
+    checker: DEFAULT_CHECKER,
+    source: xmlText(item, 'source').trim() || undefined,
+    hints: hint ? [hint] : [],
+    solution: solutions.length > 0 ? solutions.join('\n\n') : undefined,
+    warnings
+  }
+}
+
+// 导出 FPS XML（FPS不支持子任务与检查器，只导出题面、样例与测试数据）
+export const buildFpsPackage = async (problems: Problem[]): Promise<string> => {
+  const items: string[] = []
+
+  for (const problem of problems) {
+    const testCases = await ensureTestData(problem)
+    const element = (name: string, content: string, attributes: string = '') => `<${name}${attributes}>${cdata(content)}</${name}>`
+
+    const parts = [
+      element('title', problem.title),
+      element('time_limit', String(problem.timeLimit / 1000), ' unit="s"'),
+      element('memory_limit', String(problem.memoryLimit), ' unit="mb"'),
+      element('description', problem.description),
+      element('input', problem.inputFormat),
+      element('output', problem.outputFormat),
+      ...problem.sampleCases.flatMap(sample => [
+        element('sample_input', sample.input || ''),
+        element('sample_output', sample.output || '')
+      ]),
+      ...testCases.flatMap(testCase => [
+        element('test_input', fs.readFileSync(getBlobPath(testCase.inputHash!), 'utf8')),
+        element('test_output', fs.readFileSync(getBlobPath(testCase.answerHash!), 'utf8'))
+      ]),
+      element('hint', problem.hints.join('\n\n')),
+      element('source', problem.source || '')
+    ]
+    items.push(`<item>\n${parts.join('\n')}\n</item>`)
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<fps version="1.2" url="https://github.com/zhblue/freeproblemset/">`,
+    `<generator name="${escapeXml('SSL-OJ')}" url=""/>`,
+    ...items,
+    '</fps>'
+  ].join('\n')
+}
+
+// ---------- 保存 ----------
+
+// 将导入的题目保存为草稿，分配新的题目ID
+export const saveImportedProblem = async (imported: ImportedProblem, authorId: number): Promise<Problem> => {
+  let subtasks = imported.subtasks
+  if (subtasks.length > 0) {
+    const subtaskError = validateSubtasks(subtasks, imported.testCases.length)
+    if (subtaskError) {
+      imported.warnings.push(`子任务无效，已忽略: ${subtaskError}`)
+      subtasks = []
+    }
+  }
+
+  const statement = (text: string, name: string): string => {
+    if (text.trim()) return text
+    imported.warnings.push(`缺少${name}，请导入后补充`)
+    return MISSING_STATEMENT
+  }
+
+  const problemId = await Problem.getNextProblemId()
+
+  return await Problem.create({
+    problemId,
+    title: imported.title.substring(0, 200),
+    description: statement(imported.description, '题目描述'),
+    inputFormat: statement(imported.inputFormat, '输入格式'),
+    outputFormat: statement(imported.outputFormat, '输出格式'),
+    constraints: imported.constraints,
+    difficulty: imported.difficulty,
+    status: ProblemStatus.DRAFT,
+    type: imported.type,
+    category: imported.category || DEFAULT_CATEGORY,
+    tags: imported.tags,
+    timeLimit: imported.timeLimit,
+    memoryLimit: imported.memoryLimit,
+    testCases: saveTestData(problemId, imported.testCases),
+    subtasks,
+    sampleCases: imported.sampleCases,
+    checker: imported.checker,
+    interactor: imported.interactor,
+    stats: {
+      totalSubmissions: 0,
+      acceptedSubmissions: 0,
+      acceptanceRate: 0,
+      difficulty: 0
+    },
+    authorId,
+    maintainerIds: [],
+    source: imported.source,
+    sourceUrl: imported.sourceUrl,
+    hints: imported.hints,
+    solution: imported.solution
+  })
+}
@@ -0,0 +1,158 @@
+import { Problem } from '../models/ProblemMySQL'
+import { ProblemRevision, ProblemSnapshot } from '../models/ProblemRevisionMySQL'
+import { computeTestDataHash, ensureTestData, hasBlob } from './testData'
+
+// 版本中记录的题目字段及显示名称
+export const REVISION_FIELDS: Record<keyof ProblemSnapshot, string> = {
+  title: '标题',
+  description: '题目描述',
+  inputFormat: '输入格式',
+  outputFormat: '输出格式',
+  constraints: '数据范围',
+  difficulty: '难度',
+  type: '题目类型',
+  category: '分类',
+  tags: '标签',
+  timeLimit: '时间限制',
+  memoryLimit: '内存限制',
+  testCases: '测试数据',
+  subtasks: '子任务',
+  sampleCases: '样例',
+  checker: '检查器',
+  interactor: '交互器',
+  graderFiles: '评测程序',
+  source: '来源',
+  sourceUrl: '来源链接',
+  hints: '提示',
+  solution: '题解'
+}
+
+// 字段差异
+export interface RevisionFieldDiff {
+  field: keyof ProblemSnapshot
+  label: string
+  before: unknown
+  after: unknown
+}
+
+// 记录版本的选项
+export interface RecordRevisionOptions {
+  before?: ProblemSnapshot  // 修改前的快照，没有时视为新建题目
+  summary?: string          // 修改说明，不填时按变化的字段生成
+}
+
+const fieldNames = Object.keys(REVISION_FIELDS) as (keyof ProblemSnapshot)[]
+
+// 按键排序的JSON序列化（MySQL的JSON列会调整键的顺序），undefined 与 null 视为相同
+const stableStringify = (value: unknown): string => {
+  if (value === undefined || value === null) return 'null'
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined && item !== null)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// 题目内容快照
+export const snapshotProblem = (problem: Problem): ProblemSnapshot => {
+  const snapshot: Record<string, unknown> = {}
+  for (const field of fieldNames) {
+    const value = problem.get(field)
+    // 深拷贝，避免之后修改题目时影响快照
+    snapshot[field] = value === undefined || value === null ? null : JSON.parse(JSON.stringify(value))
+  }
+  return snapshot as unknown as ProblemSnapshot
+}
+
+// 比较两个快照，返回变化的字段
+export const diffSnapshots = (before: ProblemSnapshot | null, after: ProblemSnapshot): RevisionFieldDiff[] => {
+  return fieldNames
+    .filter(field => !before || stableStringify(before[field]) !== stableStringify(after[field]))
+    .map(field => ({
+      field,
+      label: REVISION_FIELDS[field],
+      before: before ? before[field] ?? null : null,
+      after: after[field] ?? null
+    }))
+}
+
+// 按变化的字段生成修改说明
+const describeChanges = (fields: (keyof ProblemSnapshot)[]): string => {
+  return `修改了${fields.map(field => REVISION_FIELDS[field]).join('、')}`
+}
+
+// 记录题目的新版本，内容没有变化时不记录
+// 启用版本记录前创建的题目没有历史版本，首次修改时先把修改前的内容保存为基线版本
+export const recordProblemRevision = async (
+  problem: Problem,
+  authorId: number,
+  options: RecordRevisionOptions = {}
+): Promise<ProblemRevision | null> => {
+  const { before, summary } = options
+  let latest = await ProblemRevision.findOne({
+    where: { problemId: problem.problemId },
+    order: [['revision', 'DESC']]
+  })
+
+  if (!latest && before) {
+    latest = await ProblemRevision.create({
+      problemId: problem.problemId,
+      revision: problem.revision,
+      authorId: problem.authorId,
+      summary: '初始版本',
+      changedFields: [],
+      snapshot: before,
+      testDataHash: computeTestDataHash(before.testCases)
+    })
+  }
+
+  const snapshot = snapshotProblem(problem)
+  const changedFields = latest ? diffSnapshots(latest.snapshot, snapshot).map(diff => diff.field) : []
+  if (latest && changedFields.length === 0) {
+    return null
+  }
+
+  const revision = await ProblemRevision.create({
+    problemId: problem.problemId,
+    revision: latest ? latest.revision + 1 : 0,
+    authorId,
+    summary: (summary || (latest ? describeChanges(changedFields) : '创建题目')).substring(0, 500),
+    changedFields,
+    snapshot,
+    testDataHash: computeTestDataHash(snapshot.testCases)
+  })
+
+  if (problem.revision !== revision.revision) {
+    await problem.update({ revision: revision.revision })
+  }
+  return revision
+}
+
+// 将题目恢复为指定版本的内容（题目状态不变），并记录为新版本
+export const restoreProblemRevision = async (
+  problem: Problem,
+  target: ProblemRevision,
+  authorId: number
+): Promise<ProblemRevision | null> => {
+  // 数据文件按内容寻址且不会删除，正常情况下旧版本的测试数据仍然存在
+  const missing = target.snapshot.testCases.some(testCase =>
+    (testCase.inputHash && !hasBlob(testCase.inputHash)) || (testCase.answerHash && !hasBlob(testCase.answerHash))
+  )
+  if (missing) {
+    throw new Error(`版本 ${target.revision} 的测试数据文件已丢失，无法恢复`)
+  }
+
+  const before = snapshotProblem(problem)
+  problem.set(JSON.parse(JSON.stringify(target.snapshot)))
+  await problem.save()
+  // 重新链接题目数据目录
+  await ensureTestData(problem)
+
+  return await recordProblemRevision(problem, authorId, {
+    before,
+    summary: `恢复到版本 ${target.revision}`
+  })
+}
@@ -0,0 +1,191 @@
+import { Op, Transaction } from 'sequelize'
+import sequelize from '../database/mysql'
+import { Contest } from '../models/ContestMySQL'
+import { RatingHistory } from '../models/RatingHistoryMySQL'
+import { User } from '../models/UserMySQL'
+import { buildContestScoreboard } from './contestRanking'
+
+// 参与积分计算的选手
+export interface RatingParticipant {
+  userId: number
+  rank: number      // 名次，成绩相同名次相同
+  rating: number    // 赛前积分
+}
+
+// 积分变化
+export interface RatingChange {
+  userId: number
+  rank: number
+  oldRating: number
+  newRating: number
+  delta: number
+}
+
+// 积分二分查找范围
+const MIN_RATING = 1
+const MAX_RATING = 8000
+
+// 积分为 ratingA 的选手胜过积分为 ratingB 的选手的概率
+const winProbability = (ratingA: number, ratingB: number): number => {
+  return 1 / (1 + Math.pow(10, (ratingB - ratingA) / 400))
+}
+
+// 以 rating 参赛时的期望名次（与除自己外的所有选手比较）
+const expectedRank = (participants: RatingParticipant[], self: number, rating: number): number => {
+  return participants.reduce((rank, participant, index) => {
+    return index === self ? rank : rank + winProbability(participant.rating, rating)
+  }, 1)
+}
+
+// 计算积分变化（Codeforces算法）：
+// 按期望名次与实际名次的几何平均求出"应有积分"，变化量为与当前积分差值的一半，
+// 最后整体下调使变化总和不为正，并限制高分选手的总变化，避免积分膨胀
+export const calculateRatingChanges = (participants: RatingParticipant[]): RatingChange[] => {
+  const n = participants.length
+  if (n < 2) {
+    return participants.map(({ userId, rank, rating }) => ({ userId, rank, oldRating: rating, newRating: rating, delta: 0 }))
+  }
+
+  const deltas = participants.map((participant, index) => {
+    const seed = expectedRank(participants, index, participant.rating)
+    const midRank = Math.sqrt(participant.rank * seed)
+
+    // 期望名次随积分单调递减，二分查找期望名次恰为 midRank 的积分
+    let low = MIN_RATING
+    let high = MAX_RATING
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2)
+      if (expectedRank(participants, index, mid) < midRank) {
+        high = mid
+      } else {
+        low = mid
+      }
+    }
+    return Math.trunc((low - participant.rating) / 2)
+  })
+
+  // 变化总和调整为略小于0
+  const sum = deltas.reduce((total, delta) => total + delta, 0)
+  const increment = Math.trunc(-sum / n) - 1
+  for (let i = 0; i < n; i++) deltas[i] += increment
+
+  // 积分最高的一部分选手的变化总和不为正
+  const topCount = Math.min(n, 4 * Math.round(Math.sqrt(n)))
+  const top = participants
+    .map((participant, index) => ({ rating: participant.rating, index }))
+    .sort((a, b) => b.rating - a.rating)
+    .slice(0, topCount)
+  const topSum = top.reduce((total, { index }) => total + deltas[index], 0)
+  const topIncrement = Math.min(Math.max(Math.trunc(-topSum / topCount), -10), 0)
+  for (let i = 0; i < n; i++) deltas[i] += topIncrement
+
+  return participants.map(({ userId, rank, rating }, index) => ({
+    userId,
+    rank,
+    oldRating: rating,
+    newRating: rating + deltas[index],
+    delta: deltas[index]
+  }))
+}
+
+// 按比赛最终排名计算积分变化并写入积分记录
+// ratings 为选手的赛前积分，缺少的从用户表读取；计算后写回新积分
+const applyContestRatings = async (
+  contest: Contest,
+  ratings: Map<number, number>,
+  transaction: Transaction
+): Promise<RatingChange[]> => {
+  // 只有有过提交的正式选手参与计分（不含管理者与虚拟参赛）
+  const rows = (await buildContestScoreboard(contest)).getRanking()
+    .filter(row => row.isOfficial && !row.isVirtual && Object.keys(row.problemResults).length > 0)
+
+  const missing = rows.map(row => row.userId).filter(userId => !ratings.has(userId))
+  if (missing.length > 0) {
+    const users = await User.findAll({ where: { id: { [Op.in]: missing } }, attributes: ['id', 'rating'], transaction })
+    for (const user of users) ratings.set(user.id, user.rating)
+  }
+
+  // 在参与计分的选手中重新计算名次
+  const participants: RatingParticipant[] = []
+  rows.forEach((row, index) => {
+    const rank = index > 0 && row.rank === rows[index - 1].rank ? participants[index - 1].rank : index + 1
+    participants.push({ userId: row.userId, rank, rating: ratings.get(row.userId) ?? 1000 })
+  })
+
+  const changes = calculateRatingChanges(participants)
+  await RatingHistory.bulkCreate(changes.map(change => ({ ...change, contestId: contest.id })), { transaction })
+  for (const change of changes) {
+    ratings.set(change.userId, change.newRating)
+  }
+  return changes
+}
+
+// 写回用户积分与参赛次数变化
+const saveUserRatings = async (
+  ratings: Map<number, number>,
+  participated: Map<number, number>,
+  transaction: Transaction
+): Promise<void> => {
+  for (const [userId, rating] of ratings) {
+    await User.update({ rating }, { where: { id: userId }, transaction })
+    const count = participated.get(userId) || 0
+    if (count !== 0) {
+      await User.increment('contestsParticipated', { by: count, where: { id: userId }, transaction })
+    }
+  }
+}
+
+// 计算已结束的计分比赛的积分
+export const finalizeContestRatings = async (contest: Contest): Promise<RatingChange[]> => {
+  return sequelize.transaction(async transaction => {
+    const ratings = new Map<number, number>()
+    const changes = await applyContestRatings(contest, ratings, transaction)
+
+    await saveUserRatings(ratings, new Map(changes.map(change => [change.userId, 1])), transaction)
+    await contest.update({ ratedAt: new Date() }, { transaction })
+    return changes
+  })
+}
+
+// 取消比赛计分：撤销该比赛的积分变化，并按时间顺序重新计算之后已计分的比赛
+export const unrateContest = async (contest: Contest): Promise<{ recomputed: number }> => {
+  return sequelize.transaction(async transaction => {
+    const finalized = !!contest.ratedAt
+    await contest.update({ isRated: false, ratedAt: null }, { transaction })
+    if (!finalized) return { recomputed: 0 }
+
+    const later = await Contest.findAll({
+      where: {
+        id: { [Op.ne]: contest.id },
+        ratedAt: { [Op.ne]: null },
+        endTime: { [Op.gte]: contest.endTime }
+      },
+      order: [['endTime', 'ASC'], ['id', 'ASC']],
+      transaction
+    })
+    const contestIds = [contest.id, ...later.map(item => item.id)]
+    const order = new Map(contestIds.map((id, index) => [id, index]))
+
+    // 选手的积分回到这些比赛之前的值
+    const histories = await RatingHistory.findAll({ where: { contestId: { [Op.in]: contestIds } }, transaction })
+    histories.sort((a, b) => order.get(a.contestId)! - order.get(b.contestId)!)
+
+    const ratings = new Map<number, number>()
+    const participated = new Map<number, number>()
+    for (const history of histories) {
+      if (!ratings.has(history.userId)) ratings.set(history.userId, history.oldRating)
+      participated.set(history.userId, (participated.get(history.userId) || 0) - 1)
+    }
+    await RatingHistory.destroy({ where: { contestId: { [Op.in]: contestIds } }, transaction })
+
+    for (const item of later) {
+      const changes = await applyContestRatings(item, ratings, transaction)
+      for (const change of changes) {
+        participated.set(change.userId, (participated.get(change.userId) || 0) + 1)
+      }
+    }
+
+    await saveUserRatings(ratings, participated, transaction)
+    return { recomputed: later.length }
+  })
+}
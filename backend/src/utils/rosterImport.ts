@@ -0,0 +1,301 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import AdmZip from 'adm-zip'
+import handlebars from 'handlebars'
+import { Op } from 'sequelize'
+import { User, UserRole, UserStatus } from '../models/UserMySQL'
+import { parseStudentId } from '../../../shared/studentIdParser'
+import { decodeXmlEntities } from './xml'
+
+// 花名册中的一行
+export interface RosterRow {
+  line: number          // 文件中的行号（从1开始，含表头）
+  studentId: string
+  realName: string
+  email?: string
+}
+
+// 预览结果中的一行
+export interface RosterPreviewRow extends RosterRow {
+  grade: string
+  class: string
+  errors: string[]      // 格式错误或与已有账号、文件中其他行冲突
+}
+
+// 导入后生成的账号
+export interface RosterCredential {
+  studentId: string
+  username: string
+  realName: string
+  class: string
+  password: string
+}
+
+// 未填写邮箱时使用的占位邮箱域名（不会收到邮件）
+const PLACEHOLDER_EMAIL_DOMAIN = 'students.ssl-oj.local'
+
+// 初始密码字符集（去掉易混淆的 0/O、1/l/I）
+const PASSWORD_CHARSET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const PASSWORD_LENGTH = 8
+
+// 表头别名
+const HEADER_ALIASES: Record<keyof Omit<RosterRow, 'line'>, string[]> = {
+  studentId: ['学号', 'studentid', 'student id', 'id'],
+  realName: ['姓名', 'realname', 'real name', 'name'],
+  email: ['邮箱', '电子邮箱', 'email', 'e-mail']
+}
+
+// 解析CSV文本为二维数组（支持引号转义与引号内换行）
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const content = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+// 提取XML片段中所有 <t> 文本（富文本单元格由多段组成）
+const extractText = (xml: string): string => {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(match => decodeXmlEntities(match[1])).join('')
+}
+
+// 列字母转为列序号：A -> 0, AA -> 26
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/\d+$/, '')
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+// 解析XLSX第一个工作表为二维数组
+export const parseXlsx = (buffer: Buffer): string[][] => {
+  const zip = new AdmZip(buffer)
+  const sheetEntry = zip.getEntry('xl/worksheets/sheet1.xml')
+    || zip.getEntries().find(entry => /^xl\/worksheets\/sheet\d+\.xml$/.test(entry.entryName))
+  if (!sheetEntry) {
+    throw new Error('Excel文件中没有工作表')
+  }
+
+  const sharedEntry = zip.getEntry('xl/sharedStrings.xml')
+  const sharedStrings = sharedEntry
+    ? Array.from(sharedEntry.getData().toString('utf8').matchAll(/<si>([\s\S]*?)<\/si>/g)).map(match => extractText(match[1]))
+    : []
+
+  const sheet = sheetEntry.getData().toString('utf8')
+  const rows: string[][] = []
+  for (const rowMatch of sheet.matchAll(/<row[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = []
+    for (const cellMatch of rowMatch[1].matchAll(/<c([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]
+      const body = cellMatch[2] || ''
+      const ref = /\br="([A-Z]+\d+)"/.exec(attributes)?.[1]
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1]
+      const value = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1]
+
+      let text = ''
+      if (type === 's' && value !== undefined) {
+        text = sharedStrings[Number(value)] || ''
+      } else if (type === 'inlineStr') {
+        text = extractText(body)
+      } else if (value !== undefined) {
+        text = decodeXmlEntities(value)
+        // 学号等长数字可能以科学计数法保存
+        if (/^\d+(\.\d+)?E\+?\d+$/i.test(text)) {
+          text = Number(text).toFixed(0)
+        }
+      }
+
+      const index = ref ? columnIndex(ref) : row.length
+      while (row.length < index) row.push('')
+      row[index] = text
+    }
+    rows.push(row)
+  }
+  return rows
+}
+
+// 读取花名册文件（CSV或XLSX），第一行为表头时按表头识别列，否则按 学号,姓名,邮箱 的顺序
+export const readRoster = (buffer: Buffer, filename: string): RosterRow[] => {
+  const ext = path.extname(filename).toLowerCase()
+  let table: string[][]
+  if (ext === '.xlsx') {
+    table = parseXlsx(buffer)
+  } else if (ext === '.csv' || ext === '.txt') {
+    table = parseCsv(buffer.toString('utf8'))
+  } else {
+    throw new Error('只支持CSV或XLSX格式的花名册')
+  }
+
+  const header = (table[0] || []).map(cell => cell.trim().toLowerCase())
+  const columns = { studentId: 0, realName: 1, email: 2 }
+  const hasHeader = header.some(cell => Object.values(HEADER_ALIASES).some(aliases => aliases.includes(cell)))
+  if (hasHeader) {
+    for (const [field, aliases] of Object.entries(HEADER_ALIASES)) {
+      columns[field as keyof typeof columns] = header.findIndex(cell => aliases.includes(cell))
+    }
+  }
+
+  const rows: RosterRow[] = []
+  table.forEach((cells, index) => {
+    if (hasHeader && index === 0) return
+    const cell = (column: number) => (column >= 0 ? (cells[column] || '').trim() : '')
+    // 跳过空行
+    if (cells.every(value => !value.trim())) return
+    rows.push({
+      line: index + 1,
+      studentId: cell(columns.studentId),
+      realName: cell(columns.realName),
+      email: cell(columns.email) || undefined
+    })
+  })
+  return rows
+}
+
+// 校验花名册：学号格式、必填字段、文件内重复以及与已有账号冲突
+export const previewRoster = async (rows: RosterRow[]): Promise<RosterPreviewRow[]> => {
+  const studentIds = rows.map(row => row.studentId).filter(Boolean)
+  const emails = rows.map(row => row.email).filter((email): email is string => !!email)
+
+  const existing = await User.findAll({
+    where: {
+      [Op.or]: [
+        { username: { [Op.in]: studentIds } },
+        { studentId: { [Op.in]: studentIds } },
+        ...(emails.length > 0 ? [{ email: { [Op.in]: emails } }] : [])
+      ]
+    },
+    attributes: ['id', 'username', 'email', 'studentId']
+  })
+
+  const seenIds = new Map<string, number>()
+  const seenEmails = new Map<string, number>()
+
+  return rows.map(row => {
+    const errors: string[] = []
+    const info = parseStudentId(row.studentId)
+    if (!info.isValid) {
+      errors.push(info.error || '学号格式不正确')
+    }
+    if (!row.realName) {
+      errors.push('姓名不能为空')
+    } else if (row.realName.length > 50) {
+      errors.push('姓名不能超过50个字符')
+    }
+    if (row.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(row.email)) {
+      errors.push('邮箱格式不正确')
+    }
+
+    if (seenIds.has(row.studentId)) {
+      errors.push(`与第${seenIds.get(row.studentId)}行学号重复`)
+    } else {
+      seenIds.set(row.studentId, row.line)
+    }
+    if (row.email) {
+      if (seenEmails.has(row.email)) {
+        errors.push(`与第${seenEmails.get(row.email)}行邮箱重复`)
+      } else {
+        seenEmails.set(row.email, row.line)
+      }
+    }
+
+    if (existing.some(user => user.username === row.studentId || user.studentId === row.studentId)) {
+      errors.push('该学号已有账号')
+    }
+    if (row.email && existing.some(user => user.email === row.email)) {
+      errors.push('邮箱已被注册')
+    }
+
+    return { ...row, grade: info.grade, class: info.class, errors }
+  })
+}
+
+// 生成初始密码
+export const generatePassword = (): string => {
+  return Array.from({ length: PASSWORD_LENGTH }, () => PASSWORD_CHARSET[crypto.randomInt(PASSWORD_CHARSET.length)]).join('')
+}
+
+// 为校验通过的行创建学生账号，用户名为学号
+export const importRoster = async (rows: RosterPreviewRow[]): Promise<RosterCredential[]> => {
+  const valid = rows.filter(row => row.errors.length === 0)
+  const credentials: RosterCredential[] = []
+  const users = await Promise.all(valid.map(async row => {
+    const password = generatePassword()
+    credentials.push({
+      studentId: row.studentId,
+      username: row.studentId,
+      realName: row.realName,
+      class: row.class,
+      password
+    })
+    return {
+      username: row.studentId,
+      email: row.email || `${row.studentId}@${PLACEHOLDER_EMAIL_DOMAIN}`,
+      password: await User.hashPassword(password),
+      realName: row.realName,
+      studentId: row.studentId,
+      class: row.class,
+      grade: row.grade,
+      role: UserRole.STUDENT,
+      status: UserStatus.ACTIVE,
+      // 占位邮箱不发送通知
+      emailNotifications: !!row.email
+    }
+  }))
+
+  await User.bulkCreate(users)
+  return credentials
+}
+
+// 生成可打印的账号密码单（按班级分组）
+export const renderCredentialsSheet = (credentials: RosterCredential[]): string => {
+  const templatePath = path.join(__dirname, '../templates/credentials.hbs')
+  const template = handlebars.compile(fs.readFileSync(templatePath, 'utf8'))
+
+  const classes = new Map<string, RosterCredential[]>()
+  for (const credential of credentials) {
+    if (!classes.has(credential.class)) classes.set(credential.class, [])
+    classes.get(credential.class)!.push(credential)
+  }
+
+  return template({
+    generatedAt: new Date().toLocaleString('zh-CN'),
+    total: credentials.length,
+    classes: Array.from(classes.entries())
+      .sort(([a], [b]) => a.localeCompare(b, 'zh-CN'))
+      .map(([name, students]) => ({
+        name,
+        students: students.sort((a, b) => a.studentId.localeCompare(b.studentId))
+      }))
+  })
+}
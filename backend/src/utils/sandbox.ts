@@ -0,0 +1,680 @@
+import { spawn, ChildProcess } from 'child_process'
+import { Readable, Writable } from 'stream'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import crypto from 'crypto'
+import { config } from '../config'
+
+// 沙箱判定结果
+export enum SandboxVerdict {
+  OK = 'ok',
+  TIME_LIMIT_EXCEEDED = 'time_limit_exceeded',
+  MEMORY_LIMIT_EXCEEDED = 'memory_limit_exceeded',   // 被cgroup OOM杀死
+  DISALLOWED_SYSCALL = 'disallowed_syscall',         // 触发seccomp白名单之外的系统调用
+  PROCESS_LIMIT_EXCEEDED = 'process_limit_exceeded', // 进程/线程数超过pids限制
+  RUNTIME_ERROR = 'runtime_error',
+  SYSTEM_ERROR = 'system_error'
+}
+
+// 沙箱运行参数
+export interface SandboxRunOptions {
+  command: string[]        // 要执行的命令（argv）
+  workDir: string          // 工作目录，沙箱内挂载为可写的 /sandbox
+  stdin?: string           // 标准输入
+  stdinFile?: string       // 从文件读取标准输入（优先于stdin）
+  stdoutFile?: string      // 标准输出写入文件而非内存，此时结果中的stdout为空
+  timeLimit: number        // CPU时间限制（毫秒，user + sys）
+  wallTimeLimit?: number   // 墙钟时间上限（毫秒），默认按 judge.wallTimeMultiplier 计算
+  memoryLimit: number      // 内存限制（MB）
+  processLimit?: number    // 进程数限制
+  seccompProfile?: string  // 系统调用白名单名称，见 seccompProfiles
+  outputLimit?: number     // 标准输出上限（字节）
+  // 交互模式：由调用方接管标准输入输出（如与交互器对接），此时忽略stdin且不收集stdout
+  attachStdio?: (stdin: Writable, stdout: Readable) => void
+}
+
+// 沙箱运行结果
+export interface SandboxResult {
+  verdict: SandboxVerdict
+  exitCode: number | null
+  signal: string | null
+  stdout: string
+  stderr: string
+  timeUsed: number         // CPU时间（毫秒，user + sys）
+  wallTimeUsed: number     // 墙钟时间（毫秒）
+  memoryUsed: number       // 峰值内存（KB）
+  message?: string
+}
+
+// 沙箱实现接口
+export interface Sandbox {
+  readonly name: string
+  run(options: SandboxRunOptions): Promise<SandboxResult>
+  // 检查运行环境，配置不安全或不可用时抛出错误（创建实例时调用）
+  check?(): void
+}
+
+// 沙箱内工作目录挂载点
+const SANDBOX_WORK_DIR = '/sandbox'
+
+// 默认输出上限 64MB
+const DEFAULT_OUTPUT_LIMIT = 64 * 1024 * 1024
+
+// 资源采样间隔（毫秒）
+const SAMPLE_INTERVAL = 20
+
+// /proc/<pid>/stat 中时间字段的单位（USER_HZ）
+const CLOCK_TICKS_PER_SECOND = 100
+
+// 每次运行的cgroup需要的控制器
+const CGROUP_CONTROLLERS = ['memory', 'pids', 'cpu']
+
+// 删除cgroup时等待其中进程退出的轮询间隔与次数（毫秒，共约5秒）
+const CGROUP_REMOVE_INTERVAL = 50
+const CGROUP_REMOVE_ATTEMPTS = 100
+
+// 计算墙钟时间上限
+const resolveWallTimeLimit = (options: SandboxRunOptions): number => {
+  return options.wallTimeLimit || Math.ceil(options.timeLimit * config.judge.wallTimeMultiplier) + 1000
+}
+
+// 基础系统调用白名单（静态/动态链接的C/C++程序）
+const baseSyscalls = [
+  'read', 'write', 'readv', 'writev', 'pread64', 'pwrite64', 'lseek', 'close',
+  'fstat', 'newfstatat', 'stat', 'lstat', 'statx', 'access', 'faccessat', 'faccessat2',
+  'open', 'openat', 'readlink', 'readlinkat', 'getcwd', 'fcntl', 'ioctl', 'dup', 'dup2', 'dup3',
+  'brk', 'mmap', 'munmap', 'mremap', 'mprotect', 'madvise',
+  'arch_prctl', 'set_tid_address', 'set_robust_list', 'rseq', 'prlimit64', 'getrlimit',
+  'rt_sigaction', 'rt_sigprocmask', 'rt_sigreturn', 'sigaltstack',
+  'getpid', 'gettid', 'getuid', 'geteuid', 'getgid', 'getegid', 'getrandom',
+  'clock_gettime', 'clock_getres', 'gettimeofday', 'time', 'nanosleep', 'clock_nanosleep',
+  'uname', 'sysinfo', 'futex', 'sched_yield', 'sched_getaffinity',
+  'exit', 'exit_group', 'execve'
+]
+
+// 多线程运行时额外需要的系统调用
+const threadSyscalls = [
+  'clone', 'clone3', 'wait4', 'kill', 'tgkill', 'getppid', 'getpgrp',
+  'sched_setaffinity', 'sched_getparam', 'sched_getscheduler',
+  'mincore', 'membarrier', 'pipe', 'pipe2', 'poll', 'ppoll', 'select', 'pselect6',
+  'socketpair', 'getdents64', 'unlink', 'unlinkat', 'mkdir', 'mkdirat', 'ftruncate',
+  'prctl', 'getrusage', 'times', 'getsockopt'
+]
+
+// 各语言的系统调用白名单
+export const seccompProfiles: Record<string, string[]> = {
+  native: baseSyscalls,
+  java: [...baseSyscalls, ...threadSyscalls, 'fchdir', 'chdir', 'sched_getattr', 'statfs', 'fstatfs'],
+  python: [...baseSyscalls, 'getdents64', 'sysinfo', 'pipe2', 'getppid'],
+  javascript: [
+    ...baseSyscalls, ...threadSyscalls,
+    'epoll_create1', 'epoll_ctl', 'epoll_wait', 'epoll_pwait', 'eventfd2', 'statfs', 'fstatfs', 'capget'
+  ],
+  // Go 运行时启动多个线程并使用 epoll 轮询
+  go: [
+    ...baseSyscalls, ...threadSyscalls,
+    'epoll_create1', 'epoll_ctl', 'epoll_pwait', 'eventfd2', 'statfs', 'fstatfs'
+  ],
+  rust: [...baseSyscalls, 'poll', 'ppoll'],
+  // 编译器：编译驱动程序会启动多个子进程（如 cc1plus、as、ld）并读写临时文件
+  compiler: [
+    ...baseSyscalls, ...threadSyscalls,
+    'vfork', 'fork', 'rename', 'renameat', 'renameat2', 'rmdir', 'link', 'linkat', 'symlink', 'symlinkat',
+    'chmod', 'fchmod', 'fchmodat', 'umask', 'utimensat', 'fsync', 'fdatasync', 'flock', 'fadvise64', 'fallocate',
+    'chdir', 'fchdir', 'statfs', 'fstatfs', 'sched_getattr', 'setpgid', 'getpgid', 'setitimer',
+    'epoll_create1', 'epoll_ctl', 'epoll_wait', 'epoll_pwait', 'eventfd2', 'capget', 'memfd_create'
+  ]
+}
+
+// 生成kafel格式的seccomp策略
+const buildSeccompPolicy = (profile: string): string => {
+  const syscalls = Array.from(new Set(seccompProfiles[profile] || seccompProfiles.native))
+  return `POLICY judge { ALLOW { ${syscalls.join(', ')} } } USE judge DEFAULT KILL_PROCESS`
+}
+
+// 不做隔离，直接以服务进程身份运行（仅用于本地开发）
+// 资源占用通过轮询 /proc 近似测量，生产环境请使用nsjail沙箱
+class DirectSandbox implements Sandbox {
+  readonly name = 'none'
+
+  run(options: SandboxRunOptions): Promise<SandboxResult> {
+    const [cmd, ...args] = options.command
+
+    return new Promise((resolve) => {
+      if (!cmd) {
+        resolve(systemError('Invalid command'))
+        return
+      }
+
+      const startTime = Date.now()
+      const child = spawn(cmd, args, {
+        cwd: options.workDir,
+        stdio: ['pipe', 'pipe', 'pipe']
+      })
+
+      const collector = collectOutput(child, options, !options.attachStdio)
+      const memoryLimitKB = options.memoryLimit * 1024
+      let cpuTime = 0
+      let peakMemory = 0
+      let sampled = false
+      let limitHit: SandboxVerdict | null = null
+
+      const stop = (verdict: SandboxVerdict) => {
+        if (limitHit) return
+        limitHit = verdict
+        child.kill('SIGKILL')
+      }
+
+      // 轮询CPU时间与内存峰值
+      const sampler = setInterval(() => {
+        if (!child.pid) return
+        const usage = sampleProcess(child.pid)
+        if (!usage) return
+        sampled = true
+        cpuTime = Math.max(cpuTime, usage.cpuTime)
+        peakMemory = Math.max(peakMemory, usage.memory)
+
+        if (cpuTime > options.timeLimit) {
+          stop(SandboxVerdict.TIME_LIMIT_EXCEEDED)
+        } else if (peakMemory > memoryLimitKB) {
+          stop(SandboxVerdict.MEMORY_LIMIT_EXCEEDED)
+        }
+      }, SAMPLE_INTERVAL)
+
+      const wallTimer = setTimeout(() => {
+        stop(SandboxVerdict.TIME_LIMIT_EXCEEDED)
+      }, resolveWallTimeLimit(options))
+
+      child.on('close', async (code, signal) => {
+        clearInterval(sampler)
+        clearTimeout(wallTimer)
+        const wallTimeUsed = Date.now() - startTime
+        await collector.finish()
+
+        let verdict = SandboxVerdict.OK
+        if (limitHit) {
+          verdict = limitHit
+        } else if (code !== 0 || collector.overflow) {
+          verdict = SandboxVerdict.RUNTIME_ERROR
+        }
+
+        resolve({
+          verdict,
+          exitCode: code,
+          signal,
+          stdout: collector.stdout(),
+          stderr: collector.stderr(),
+          // 进程在首次采样前就已结束时，用墙钟时间近似
+          timeUsed: sampled ? cpuTime : Math.min(wallTimeUsed, options.timeLimit),
+          wallTimeUsed,
+          memoryUsed: peakMemory,
+          message: collector.overflow ? '输出超出限制' : undefined
+        })
+      })
+
+      child.on('error', (error: Error) => {
+        clearInterval(sampler)
+        clearTimeout(wallTimer)
+        collector.finish()
+        resolve(systemError(error.message))
+      })
+
+      connectStdio(child, options)
+    })
+  }
+}
+
+// 基于nsjail的沙箱：独立的mount/PID/网络命名空间、只读根文件系统、
+// cgroup v2 资源限制以及按语言区分的seccomp系统调用白名单
+class NsjailSandbox implements Sandbox {
+  readonly name = 'nsjail'
+
+  // 根文件系统必须是只包含编译器与运行时的独立目录：以宿主机根目录为根时，
+  // 选手程序可以读取宿主机上所有可读的文件，包括后端代码、配置与其他题目的测试数据
+  check(): void {
+    const { rootfs } = config.judge.sandbox
+    if (!rootfs || path.resolve(rootfs) === '/') {
+      throw new Error('JUDGE_SANDBOX_ROOTFS 必须配置为只包含编译器与运行时的最小根文件系统，不能使用宿主机根目录')
+    }
+    if (!fs.statSync(rootfs, { throwIfNoEntry: false })?.isDirectory()) {
+      throw new Error(`沙箱根文件系统不存在: ${rootfs}`)
+    }
+
+    const root = path.resolve(rootfs)
+    for (const dir of [process.cwd(), config.judge.testDataPath]) {
+      const relative = path.relative(root, path.resolve(dir))
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        throw new Error(`沙箱根文件系统不能包含后端目录或测试数据: ${dir}`)
+      }
+    }
+
+    enableCgroupControllers()
+  }
+
+  async run(options: SandboxRunOptions): Promise<SandboxResult> {
+    const [cmd] = options.command
+    if (!cmd) {
+      return systemError('Invalid command')
+    }
+
+    const runId = crypto.randomBytes(8).toString('hex')
+    let cgroupDir: string
+    try {
+      cgroupDir = createCgroup(runId, options)
+    } catch (error) {
+      return systemError(`创建cgroup失败: ${error instanceof Error ? error.message : error}`)
+    }
+
+    // 日志放在工作目录之外，避免被沙箱内的程序篡改
+    const logFile = path.join(os.tmpdir(), `nsjail-${runId}.log`)
+    const nsjailArgs = this.buildArgs(options, logFile)
+
+    try {
+      return await new Promise<SandboxResult>((resolve) => {
+        const startTime = Date.now()
+
+        // 先把shell自身放入cgroup再exec nsjail，保证沙箱内所有进程都受cgroup约束
+        const child = spawn('sh', [
+          '-c',
+          'echo $$ > "$0/cgroup.procs" && exec "$@"',
+          cgroupDir,
+          config.judge.sandbox.nsjailPath,
+          ...nsjailArgs
+        ], {
+          cwd: options.workDir,
+          stdio: ['pipe', 'pipe', 'pipe']
+        })
+
+        const collector = collectOutput(child, options, !options.attachStdio, () => {
+          killCgroup(cgroupDir)
+        })
+        let cpuLimitHit = false
+        let wallLimitHit = false
+
+        // 轮询cgroup的CPU用量，按CPU时间（user + sys）执行时间限制
+        const sampler = setInterval(() => {
+          if (readCgroupCpuTime(cgroupDir) > options.timeLimit) {
+            cpuLimitHit = true
+            killCgroup(cgroupDir)
+          }
+        }, SAMPLE_INTERVAL)
+
+        // 墙钟兜底，防止程序sleep或阻塞读
+        const wallTimer = setTimeout(() => {
+          wallLimitHit = true
+          killCgroup(cgroupDir)
+          child.kill('SIGKILL')
+        }, resolveWallTimeLimit(options))
+
+        child.on('close', async (code, signal) => {
+          clearInterval(sampler)
+          clearTimeout(wallTimer)
+          const wallTimeUsed = Date.now() - startTime
+          await collector.finish()
+          const timeUsed = readCgroupCpuTime(cgroupDir)
+          const events = readCgroupEvents(cgroupDir)
+          const sandboxLog = readFileSafe(logFile)
+          const timedOut = cpuLimitHit || wallLimitHit || timeUsed > options.timeLimit
+
+          resolve({
+            verdict: this.decideVerdict(code, timedOut, events, sandboxLog),
+            exitCode: code,
+            signal,
+            stdout: collector.stdout(),
+            stderr: collector.stderr(),
+            timeUsed,
+            wallTimeUsed,
+            memoryUsed: readCgroupPeakMemory(cgroupDir),
+            message: collector.overflow ? '输出超出限制' : undefined
+          })
+        })
+
+        child.on('error', (error: Error) => {
+          clearInterval(sampler)
+          clearTimeout(wallTimer)
+          collector.finish()
+          resolve(systemError(error.message))
+        })
+
+        connectStdio(child, options)
+      })
+    } finally {
+      await removeCgroup(cgroupDir)
+      fs.rmSync(logFile, { force: true })
+    }
+  }
+
+  // 构造nsjail参数
+  private buildArgs(options: SandboxRunOptions, logFile: string): string[] {
+    const sandboxConfig = config.judge.sandbox
+    // nsjail自身的墙钟限制只作为最后一道保险
+    const wallSeconds = Math.ceil(resolveWallTimeLimit(options) / 1000) + 1
+
+    return [
+      '--mode', 'o',
+      '--log', logFile,
+      // 根文件系统只读挂载（未指定 --rw），只有工作目录与 /tmp 可写
+      '--chroot', sandboxConfig.rootfs,
+      '--bindmount', `${options.workDir}:${SANDBOX_WORK_DIR}`,
+      '--tmpfsmount', '/tmp',
+      '--cwd', SANDBOX_WORK_DIR,
+      '--user', '65534',
+      '--group', '65534',
+      '--hostname', 'judge',
+      '--time_limit', String(wallSeconds),
+      '--rlimit_as', 'inf',
+      '--rlimit_stack', String(Math.max(8, options.memoryLimit)),
+      '--rlimit_fsize', String(Math.ceil((options.outputLimit || DEFAULT_OUTPUT_LIMIT) / 1024 / 1024)),
+      '--rlimit_nofile', '64',
+      '--env', 'PATH=/usr/local/bin:/usr/bin:/bin',
+      '--env', 'HOME=/tmp',
+      '--seccomp_string', buildSeccompPolicy(options.seccompProfile || 'native'),
+      '--',
+      ...options.command.map(arg => arg.split(options.workDir).join(SANDBOX_WORK_DIR))
+    ]
+  }
+
+  // 根据退出状态与cgroup事件判定结果
+  private decideVerdict(
+    code: number | null,
+    timedOut: boolean,
+    events: CgroupEvents,
+    sandboxLog: string
+  ): SandboxVerdict {
+    if (events.oomKilled) {
+      return SandboxVerdict.MEMORY_LIMIT_EXCEEDED
+    }
+    if (timedOut) {
+      return SandboxVerdict.TIME_LIMIT_EXCEEDED
+    }
+    // nsjail在子进程被信号杀死时返回 128 + 信号值，SIGSYS(31) 即seccomp拦截
+    if (code === 128 + 31) {
+      return SandboxVerdict.DISALLOWED_SYSCALL
+    }
+    if (code !== 0 && events.pidsLimitHit) {
+      return SandboxVerdict.PROCESS_LIMIT_EXCEEDED
+    }
+    // nsjail 自身出错（而非选手程序）时会在日志中留下致命错误
+    if (code === 255 && /^\[F\]/m.test(sandboxLog)) {
+      return SandboxVerdict.SYSTEM_ERROR
+    }
+    if (code !== 0) {
+      return SandboxVerdict.RUNTIME_ERROR
+    }
+    return SandboxVerdict.OK
+  }
+}
+
+// cgroup事件
+interface CgroupEvents {
+  oomKilled: boolean
+  pidsLimitHit: boolean
+}
+
+// 在 JUDGE_CGROUP_ROOT 中为子cgroup开启内存、进程数与CPU控制器；
+// 父cgroup未开放这些控制器时无法限制资源，直接报错而不是在没有限制的情况下运行
+const enableCgroupControllers = (): void => {
+  const { cgroupRoot } = config.judge.sandbox
+  fs.mkdirSync(cgroupRoot, { recursive: true })
+
+  const available = readFileSafe(path.join(cgroupRoot, 'cgroup.controllers')).split(/\s+/)
+  const missing = CGROUP_CONTROLLERS.filter(controller => !available.includes(controller))
+  if (missing.length > 0) {
+    throw new Error(`${cgroupRoot} 缺少cgroup控制器: ${missing.join(', ')}，请在父cgroup的 cgroup.subtree_control 中开启`)
+  }
+
+  const subtreeControl = path.join(cgroupRoot, 'cgroup.subtree_control')
+  fs.writeFileSync(subtreeControl, CGROUP_CONTROLLERS.map(controller => `+${controller}`).join(' '))
+  const enabled = readFileSafe(subtreeControl).split(/\s+/)
+  if (!CGROUP_CONTROLLERS.every(controller => enabled.includes(controller))) {
+    throw new Error(`无法在 ${subtreeControl} 中开启cgroup控制器`)
+  }
+}
+
+// 为单次运行创建cgroup并写入内存/进程数/CPU限制，写入失败时删除已创建的cgroup
+const createCgroup = (runId: string, options: SandboxRunOptions): string => {
+  const cgroupDir = path.join(config.judge.sandbox.cgroupRoot, `run-${runId}`)
+  fs.mkdirSync(cgroupDir, { recursive: true })
+
+  try {
+    const memoryBytes = options.memoryLimit * 1024 * 1024
+    fs.writeFileSync(path.join(cgroupDir, 'memory.max'), String(memoryBytes))
+    fs.writeFileSync(path.join(cgroupDir, 'memory.swap.max'), '0')
+    fs.writeFileSync(path.join(cgroupDir, 'pids.max'), String(options.processLimit || config.judge.sandbox.processLimit))
+    // 最多占用一个CPU核心
+    fs.writeFileSync(path.join(cgroupDir, 'cpu.max'), '100000 100000')
+  } catch (error) {
+    fs.rmdirSync(cgroupDir)
+    throw error
+  }
+
+  return cgroupDir
+}
+
+// 读取cgroup的OOM与pids事件计数
+const readCgroupEvents = (cgroupDir: string): CgroupEvents => {
+  const memoryEvents = parseKeyValueFile(path.join(cgroupDir, 'memory.events'))
+  const pidsEvents = parseKeyValueFile(path.join(cgroupDir, 'pids.events'))
+
+  return {
+    oomKilled: (memoryEvents.oom_kill || 0) > 0,
+    pidsLimitHit: (pidsEvents.max || 0) > 0
+  }
+}
+
+// 读取cgroup累计CPU时间（毫秒，user + sys）
+const readCgroupCpuTime = (cgroupDir: string): number => {
+  const cpuStat = parseKeyValueFile(path.join(cgroupDir, 'cpu.stat'))
+  const usec = (cpuStat.user_usec || 0) + (cpuStat.system_usec || 0)
+  return Math.round(usec / 1000)
+}
+
+// 读取cgroup内存峰值（KB）
+const readCgroupPeakMemory = (cgroupDir: string): number => {
+  const peak = parseInt(readFileSafe(path.join(cgroupDir, 'memory.peak')).trim(), 10)
+  return isNaN(peak) ? 0 : Math.round(peak / 1024)
+}
+
+// 从 /proc 采样进程的CPU时间（毫秒）与峰值常驻内存（KB）
+const sampleProcess = (pid: number): { cpuTime: number; memory: number } | null => {
+  const stat = readFileSafe(`/proc/${pid}/stat`)
+  const status = readFileSafe(`/proc/${pid}/status`)
+  if (!stat || !status) return null
+
+  // comm字段可能包含空格，从最后一个')'之后开始按空格切分，utime/stime 为第14、15个字段
+  const fields = stat.substring(stat.lastIndexOf(')') + 2).split(' ')
+  const ticks = parseInt(fields[11] || '0', 10) + parseInt(fields[12] || '0', 10)
+  const hwm = status.match(/^VmHWM:\s+(\d+)\s+kB/m)
+
+  return {
+    cpuTime: Math.round(ticks * 1000 / CLOCK_TICKS_PER_SECOND),
+    memory: hwm ? parseInt(hwm[1]!, 10) : 0
+  }
+}
+
+// 杀死cgroup内所有进程
+const killCgroup = (cgroupDir: string): void => {
+  try {
+    fs.writeFileSync(path.join(cgroupDir, 'cgroup.kill'), '1')
+  } catch (error) {
+    // cgroup可能已被移除
+  }
+}
+
+// 删除cgroup目录：杀死其中的进程，等待进程全部退出（cgroup.events 中 populated 为0）后再删除
+const removeCgroup = async (cgroupDir: string): Promise<void> => {
+  killCgroup(cgroupDir)
+  let lastError = '进程未退出'
+  for (let attempt = 0; attempt < CGROUP_REMOVE_ATTEMPTS; attempt++) {
+    if (parseKeyValueFile(path.join(cgroupDir, 'cgroup.events')).populated !== 1) {
+      try {
+        fs.rmdirSync(cgroupDir)
+        return
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return
+        lastError = error.message
+      }
+    }
+    await new Promise(resolve => setTimeout(resolve, CGROUP_REMOVE_INTERVAL))
+  }
+  console.error(`删除cgroup失败: ${cgroupDir}: ${lastError}`)
+}
+
+// 解析 "key value" 格式的cgroup文件
+const parseKeyValueFile = (filePath: string): Record<string, number> => {
+  const result: Record<string, number> = {}
+  for (const line of readFileSafe(filePath).split('\n')) {
+    const [key, value] = line.trim().split(/\s+/)
+    if (key && value !== undefined) {
+      result[key] = parseInt(value, 10)
+    }
+  }
+  return result
+}
+
+const readFileSafe = (filePath: string): string => {
+  try {
+    return fs.readFileSync(filePath, 'utf8')
+  } catch (error) {
+    return ''
+  }
+}
+
+// 收集子进程输出（内存或文件），超过上限时截断并回调
+const collectOutput = (
+  child: ChildProcess,
+  options: SandboxRunOptions,
+  collectStdout: boolean,
+  onOverflow?: () => void
+) => {
+  const outputLimit = options.outputLimit || DEFAULT_OUTPUT_LIMIT
+  const stdoutChunks: Buffer[] = []
+  const stderrChunks: Buffer[] = []
+  const stdoutFile = collectStdout && options.stdoutFile ? fs.createWriteStream(options.stdoutFile) : null
+  let stdoutSize = 0
+  let stderrSize = 0
+  const state = { overflow: false }
+
+  // 交互模式下标准输出由调用方消费
+  if (collectStdout) {
+    child.stdout?.on('data', (data: Buffer) => {
+      if (state.overflow) return
+      stdoutSize += data.length
+      if (stdoutSize > outputLimit) {
+        state.overflow = true
+        onOverflow?.()
+        child.kill('SIGKILL')
+        return
+      }
+      if (stdoutFile) {
+        stdoutFile.write(data)
+      } else {
+        stdoutChunks.push(data)
+      }
+    })
+  }
+
+  child.stderr?.on('data', (data: Buffer) => {
+    // 标准错误只保留前64KB
+    if (stderrSize < 64 * 1024) {
+      stderrChunks.push(data)
+      stderrSize += data.length
+    }
+  })
+
+  return {
+    get overflow() {
+      return state.overflow
+    },
+    stdout: () => Buffer.concat(stdoutChunks).toString(),
+    stderr: () => Buffer.concat(stderrChunks).toString(),
+    // 等待输出文件写完
+    finish: (): Promise<void> => {
+      if (!stdoutFile) return Promise.resolve()
+      return new Promise((resolve) => {
+        stdoutFile.on('error', () => resolve())
+        stdoutFile.end(() => resolve())
+      })
+    }
+  }
+}
+
+// 写入标准输入
+const writeStdin = (child: ChildProcess, input?: string): void => {
+  if (!child.stdin) return
+  // 程序可能不读输入就退出，忽略EPIPE
+  child.stdin.on('error', () => {})
+  if (input) {
+    child.stdin.write(input)
+  }
+  child.stdin.end()
+}
+
+// 连接标准输入输出：交互模式交给调用方，否则写入固定输入
+const connectStdio = (child: ChildProcess, options: SandboxRunOptions): void => {
+  if (options.attachStdio && child.stdin && child.stdout) {
+    // 对方提前退出时写入会EPIPE，由调用方根据交互结果判定
+    child.stdin.on('error', () => {})
+    options.attachStdio(child.stdin, child.stdout)
+    return
+  }
+  if (options.stdinFile && child.stdin) {
+    // 程序可能不读输入就退出，忽略EPIPE
+    child.stdin.on('error', () => {})
+    const input = fs.createReadStream(options.stdinFile)
+    input.on('error', () => child.stdin?.end())
+    input.pipe(child.stdin)
+    return
+  }
+  writeStdin(child, options.stdin)
+}
+
+const systemError = (message: string): SandboxResult => ({
+  verdict: SandboxVerdict.SYSTEM_ERROR,
+  exitCode: null,
+  signal: null,
+  stdout: '',
+  stderr: '',
+  timeUsed: 0,
+  wallTimeUsed: 0,
+  memoryUsed: 0,
+  message
+})
+
+// 已注册的沙箱实现
+const sandboxes: Record<string, () => Sandbox> = {
+  none: () => new DirectSandbox(),
+  nsjail: () => new NsjailSandbox()
+}
+
+let sandboxInstance: Sandbox | null = null
+
+// 获取当前配置的沙箱，首次创建时检查运行环境
+export const getSandbox = (): Sandbox => {
+  if (!sandboxInstance) {
+    const factory = sandboxes[config.judge.sandbox.type]
+    if (!factory) {
+      throw new Error(`未知的沙箱类型: ${config.judge.sandbox.type}`)
+    }
+    const sandbox = factory()
+    sandbox.check?.()
+    sandboxInstance = sandbox
+  }
+  return sandboxInstance
+}
+
+// 注册自定义沙箱实现
+export const registerSandbox = (name: string, factory: () => Sandbox): void => {
+  sandboxes[name] = factory
+  if (sandboxInstance?.name === name) {
+    sandboxInstance = null
+  }
+}
+
+export default {
+  getSandbox,
+  registerSandbox,
+  seccompProfiles,
+  SandboxVerdict
+}
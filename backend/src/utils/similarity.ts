@@ -0,0 +1,279 @@
+import { Language } from '../models/SubmissionMySQL'
+
+// 代码相似度分析：按语言做词法归一化（去掉注释与空白，标识符、数字、字符串统一替换），
+// 用 winnowing 算法选取指纹（同 MOSS），再以共同指纹为起点贪心匹配出相同的代码片段
+
+// 归一化后的词法单元
+export interface CodeToken {
+  value: string   // 归一化后的值：关键字与运算符保留原样，标识符为 V，数字为 N，字符串为 S
+  line: number    // 所在行（从1开始）
+}
+
+// winnowing 选出的指纹
+export interface Fingerprint {
+  hash: number
+  position: number // k-gram 第一个词法单元的下标
+}
+
+// 一份代码的分析结果
+export interface CodeFingerprint {
+  tokens: CodeToken[]
+  fingerprints: Fingerprint[]
+}
+
+// 两份代码中相同的片段（行号从1开始，含首尾）
+export interface MatchedRegion {
+  leftStart: number
+  leftEnd: number
+  rightStart: number
+  rightEnd: number
+  tokens: number  // 片段包含的词法单元数
+}
+
+// 比较结果（百分比）
+export interface SimilarityResult {
+  similarity: number      // 两侧覆盖率中的较大值，用于排序
+  leftSimilarity: number  // 左侧代码被匹配片段覆盖的比例
+  rightSimilarity: number
+  matches: MatchedRegion[]
+}
+
+// k-gram 长度（词法单元数）与 winnowing 窗口大小：
+// 长度不少于 K + WINDOW - 1 的相同片段一定能被发现，短于 K 的片段一定被忽略
+export const K = 6
+export const WINDOW = 4
+
+// 每个指纹最多尝试的匹配位置，避免重复代码（如大量相同的赋值语句）导致比较次数过多
+const MAX_SEEDS_PER_HASH = 8
+
+// 词法规则
+interface LexerRules {
+  comments: string  // 注释（含C/C++预处理指令）的正则
+  strings: string   // 字符串与字符字面量的正则
+  keywords: Set<string>
+}
+
+// 未闭合的块注释延续到代码末尾（正则使用 m 标志，不能用 $ 表示末尾）
+const C_COMMENTS = '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?(?:\\*\\/|(?![\\s\\S]))'
+const C_STRINGS = '"(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\''
+const BACKTICK_STRINGS = '`(?:\\\\.|[^`\\\\])*`'
+
+// 多字符运算符（按长度从长到短）
+const OPERATORS = [
+  '>>>=', '<<=', '>>=', '>>>', '...', '**=', '//=',
+  '->', '::', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||', '++', '--',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', ':=', '=>', '**', '//', '<-'
+].map(op => op.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')).join('|')
+
+const keywords = (words: string): Set<string> => new Set(words.split(/\s+/).filter(Boolean))
+
+const C_KEYWORDS = 'auto break case char const continue default do double else enum extern float for goto if int long register return short signed sizeof static struct switch typedef union unsigned void volatile while bool true false'
+const CPP_KEYWORDS = `${C_KEYWORDS} class namespace using template typename public private protected virtual new delete this operator friend try catch throw nullptr constexpr inline explicit mutable`
+
+const LEXER_RULES: Record<Language, LexerRules> = {
+  [Language.C]: {
+    comments: `${C_COMMENTS}|^[ \\t]*#[^\\n]*`,
+    strings: C_STRINGS,
+    keywords: keywords(C_KEYWORDS)
+  },
+  [Language.CPP]: {
+    comments: `${C_COMMENTS}|^[ \\t]*#[^\\n]*`,
+    strings: C_STRINGS,
+    keywords: keywords(CPP_KEYWORDS)
+  },
+  [Language.JAVA]: {
+    comments: `${C_COMMENTS}|^[ \\t]*(?:import|package)\\b[^\\n]*`,
+    strings: C_STRINGS,
+    keywords: keywords('abstract boolean break byte case catch char class continue default do double else enum extends final finally float for if implements instanceof int interface long new private protected public return short static super switch this throw throws try void while var true false null')
+  },
+  [Language.PYTHON]: {
+    comments: '#[^\\n]*',
+    strings: '"""[\\s\\S]*?"""|\'\'\'[\\s\\S]*?\'\'\'|"(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\'',
+    keywords: keywords('and as assert break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield True False None')
+  },
+  [Language.JAVASCRIPT]: {
+    comments: C_COMMENTS,
+    strings: `${C_STRINGS}|${BACKTICK_STRINGS}`,
+    keywords: keywords('break case catch class const continue default delete do else export extends finally for function if import in instanceof let new of return super switch this throw try typeof var void while yield async await true false null undefined')
+  },
+  [Language.GO]: {
+    comments: `${C_COMMENTS}|^[ \\t]*import\\b[^\\n(]*`,
+    strings: `${C_STRINGS}|${BACKTICK_STRINGS}`,
+    keywords: keywords('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var true false nil')
+  },
+  [Language.RUST]: {
+    comments: `${C_COMMENTS}|^[ \\t]*use\\b[^\\n]*`,
+    strings: C_STRINGS,
+    keywords: keywords('as break const continue crate else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while')
+  },
+  [Language.KOTLIN]: {
+    comments: `${C_COMMENTS}|^[ \\t]*(?:import|package)\\b[^\\n]*`,
+    strings: `"""[\\s\\S]*?"""|${C_STRINGS}`,
+    keywords: keywords('as break class continue do else for fun if in interface is object override private public return super this throw try val var when while true false null')
+  }
+}
+
+// 按语言编译的词法正则（缓存）
+const tokenPatterns = new Map<string, RegExp>()
+
+const getTokenPattern = (language: string): RegExp => {
+  let pattern = tokenPatterns.get(language)
+  if (!pattern) {
+    const rules = LEXER_RULES[language as Language] || LEXER_RULES[Language.CPP]
+    pattern = new RegExp([
+      `(?<comment>${rules.comments})`,
+      `(?<string>${rules.strings})`,
+      '(?<number>\\.?\\d[\\w.]*)',
+      '(?<word>[A-Za-z_$][\\w$]*)',
+      '(?<space>\\s+)',
+      `(?<operator>${OPERATORS})`,
+      '(?<other>.)'
+    ].join('|'), 'gm')
+    tokenPatterns.set(language, pattern)
+  }
+  return pattern
+}
+
+// 词法分析并归一化（language 为语法类别，即语言表中的 family）
+export const tokenize = (code: string, language: string): CodeToken[] => {
+  const rules = LEXER_RULES[language as Language] || LEXER_RULES[Language.CPP]
+  const pattern = getTokenPattern(language)
+  const tokens: CodeToken[] = []
+  let line = 1
+
+  for (const match of code.replace(/\r\n?/g, '\n').matchAll(pattern)) {
+    const groups = match.groups!
+    if (groups.word !== undefined) {
+      tokens.push({ value: rules.keywords.has(groups.word) ? groups.word : 'V', line })
+    } else if (groups.number !== undefined) {
+      tokens.push({ value: 'N', line })
+    } else if (groups.string !== undefined) {
+      tokens.push({ value: 'S', line })
+    } else if (groups.operator !== undefined || groups.other !== undefined) {
+      tokens.push({ value: match[0], line })
+    }
+    // 注释与空白直接丢弃
+    for (const char of match[0]) {
+      if (char === '\n') line++
+    }
+  }
+  return tokens
+}
+
+// FNV-1a 哈希
+const hashGram = (tokens: CodeToken[], start: number): number => {
+  let hash = 0x811c9dc5
+  for (let i = start; i < start + K; i++) {
+    const value = tokens[i].value
+    for (let j = 0; j < value.length; j++) {
+      hash ^= value.charCodeAt(j)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    hash ^= 0x1f
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// winnowing：每个窗口内选取最小的哈希（相同时取最右侧），相邻窗口选中同一位置时只记录一次
+export const winnow = (tokens: CodeToken[]): Fingerprint[] => {
+  const count = tokens.length - K + 1
+  if (count <= 0) return []
+
+  const hashes = Array.from({ length: count }, (_, index) => hashGram(tokens, index))
+  const fingerprints: Fingerprint[] = []
+  const windowSize = Math.min(WINDOW, count)
+  let last = -1
+
+  for (let start = 0; start + windowSize <= count; start++) {
+    let selected = start
+    for (let i = start + 1; i < start + windowSize; i++) {
+      if (hashes[i] <= hashes[selected]) selected = i
+    }
+    if (selected !== last) {
+      fingerprints.push({ hash: hashes[selected], position: selected })
+      last = selected
+    }
+  }
+  return fingerprints
+}
+
+// 分析一份代码
+export const analyzeCode = (code: string, language: string): CodeFingerprint => {
+  const tokens = tokenize(code, language)
+  return { tokens, fingerprints: winnow(tokens) }
+}
+
+// 指纹哈希集合
+export const fingerprintHashes = (code: CodeFingerprint): Set<number> => {
+  return new Set(code.fingerprints.map(fingerprint => fingerprint.hash))
+}
+
+// 比较两份代码
+// ignoredHashes 为大多数代码共有的指纹（如题目给出的模板），不作为匹配起点
+export const compareCode = (left: CodeFingerprint, right: CodeFingerprint, ignoredHashes?: Set<number>): SimilarityResult => {
+  const rightPositions = new Map<number, number[]>()
+  for (const fingerprint of right.fingerprints) {
+    const positions = rightPositions.get(fingerprint.hash) || []
+    if (positions.length < MAX_SEEDS_PER_HASH) positions.push(fingerprint.position)
+    rightPositions.set(fingerprint.hash, positions)
+  }
+
+  // 以共同指纹为起点，向两侧扩展出最长的相同片段
+  const candidates: { left: number; right: number; length: number }[] = []
+  for (const fingerprint of left.fingerprints) {
+    if (ignoredHashes?.has(fingerprint.hash)) continue
+    for (const position of rightPositions.get(fingerprint.hash) || []) {
+      let start = 0
+      while (fingerprint.position - start > 0 && position - start > 0 &&
+        left.tokens[fingerprint.position - start - 1].value === right.tokens[position - start - 1].value) {
+        start++
+      }
+      let length = start
+      while (fingerprint.position - start + length < left.tokens.length && position - start + length < right.tokens.length &&
+        left.tokens[fingerprint.position - start + length].value === right.tokens[position - start + length].value) {
+        length++
+      }
+      // 哈希冲突时片段长度不足 K
+      if (length >= K) {
+        candidates.push({ left: fingerprint.position - start, right: position - start, length })
+      }
+    }
+  }
+
+  // 从长到短选取互不重叠的片段
+  candidates.sort((a, b) => b.length - a.length || a.left - b.left)
+  const usedLeft = new Uint8Array(left.tokens.length)
+  const usedRight = new Uint8Array(right.tokens.length)
+  const tiles: { left: number; right: number; length: number }[] = []
+  for (const candidate of candidates) {
+    let overlaps = false
+    for (let i = 0; i < candidate.length && !overlaps; i++) {
+      overlaps = usedLeft[candidate.left + i] === 1 || usedRight[candidate.right + i] === 1
+    }
+    if (overlaps) continue
+    usedLeft.fill(1, candidate.left, candidate.left + candidate.length)
+    usedRight.fill(1, candidate.right, candidate.right + candidate.length)
+    tiles.push(candidate)
+  }
+
+  const covered = tiles.reduce((sum, tile) => sum + tile.length, 0)
+  const percent = (value: number, total: number) => total > 0 ? Math.round(value / total * 1000) / 10 : 0
+  const leftSimilarity = percent(covered, left.tokens.length)
+  const rightSimilarity = percent(covered, right.tokens.length)
+
+  return {
+    similarity: Math.max(leftSimilarity, rightSimilarity),
+    leftSimilarity,
+    rightSimilarity,
+    matches: tiles
+      .sort((a, b) => a.left - b.left)
+      .map(tile => ({
+        leftStart: left.tokens[tile.left].line,
+        leftEnd: left.tokens[tile.left + tile.length - 1].line,
+        rightStart: right.tokens[tile.right].line,
+        rightEnd: right.tokens[tile.right + tile.length - 1].line,
+        tokens: tile.length
+      }))
+  }
+}
@@ -0,0 +1,182 @@
+import path from 'path'
+import AdmZip from 'adm-zip'
+import { DEFAULT_EXECUTABLE, LanguageConfig } from './languages'
+
+// 多文件提交：主文件保存在提交的 code 中，其余文件（头文件、其他类、模块等）保存在 files 中；
+// 函数式题目（grader）：题目按语法类别提供评测程序文件，与选手代码一起编译运行
+
+// 源文件
+export interface SourceFile {
+  name: string     // 文件名，不含目录
+  content: string
+}
+
+// 题目提供的评测程序文件
+export interface GraderFile extends SourceFile {
+  language: string // 适用的语法类别（语言表中的 family），如 cpp、python
+}
+
+// 评测时工作目录中的源文件布局
+export interface SourceLayout {
+  files: SourceFile[] // 写入工作目录的全部文件
+  entry: string       // 程序入口所在的文件（解释型语言运行的文件，即 {source}）
+  classname: string   // 主类名（{classname}），未识别类名的语言为 main
+}
+
+// 一次提交最多包含的文件数与总大小（字节）
+export const MAX_SOURCE_FILES = 20
+export const MAX_SOURCE_SIZE = 256 * 1024
+
+// 有评测程序时选手代码的文件名（不含扩展名），评测程序通过该名称引用选手代码，如 #include "solution.h"、from solution import *
+export const GRADER_SOLUTION_NAME = 'solution'
+
+// 文件名：字母、数字、下划线、点与连字符，不能以点开头
+const FILE_NAME_PATTERN = /^[A-Za-z0-9_][\w.-]{0,99}$/
+
+export const isValidFileName = (name: unknown): boolean => {
+  return typeof name === 'string' && FILE_NAME_PATTERN.test(name)
+}
+
+// 检查文件列表，返回错误信息
+export const validateSourceFiles = (files: SourceFile[], code: string = ''): string | null => {
+  if (files.length > MAX_SOURCE_FILES) {
+    return `最多提交${MAX_SOURCE_FILES}个文件`
+  }
+  const names = new Set<string>()
+  for (const file of files) {
+    if (!isValidFileName(file.name)) {
+      return `文件名无效: ${file.name}`
+    }
+    if (names.has(file.name)) {
+      return `文件名重复: ${file.name}`
+    }
+    names.add(file.name)
+  }
+  const size = files.reduce((sum, file) => sum + Buffer.byteLength(file.content), Buffer.byteLength(code))
+  if (size > MAX_SOURCE_SIZE) {
+    return `代码总大小不能超过${MAX_SOURCE_SIZE / 1024}KB`
+  }
+  return null
+}
+
+// 去掉 Java 代码中的注释、字符串与字符字面量，避免其中的内容被识别为类声明
+const stripJavaLiterals = (code: string): string => {
+  return code.replace(/\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g, ' ')
+}
+
+// Java 代码中的 public 顶层类名（文件必须以其命名）
+export const detectPublicClass = (code: string): string | null => {
+  const match = stripJavaLiterals(code)
+    .match(/\bpublic\s+(?:(?:final|abstract|strictfp|sealed|non-sealed)\s+)*(?:class|interface|enum|record)\s+([A-Za-z_$][\w$]*)/)
+  return match ? match[1] : null
+}
+
+// Java 代码中包含 main 方法的类名：按花括号记录每层代码块所属的类，取 main 方法所在的最内层类
+export const detectMainClass = (code: string): string | null => {
+  const stripped = stripJavaLiterals(code)
+  const mainIndex = stripped.search(/\bvoid\s+main\s*\(\s*(?:final\s+)?String\b/)
+  if (mainIndex < 0) return null
+
+  const blocks: (string | null)[] = []
+  let declared: string | null = null
+  for (const match of stripped.slice(0, mainIndex).matchAll(/\b(?:class|enum|record|interface)\s+([A-Za-z_$][\w$]*)|[{}]/g)) {
+    if (match[1]) {
+      declared = match[1]
+    } else if (match[0] === '{') {
+      blocks.push(declared)
+      declared = null
+    } else {
+      blocks.pop()
+    }
+  }
+  return blocks.filter(Boolean).pop() || null
+}
+
+// 确定各文件在工作目录中的文件名与程序入口：
+// 评测程序文件优先，其次是选手的主文件，同名的其他文件被忽略
+export const layoutSources = (
+  languageConfig: LanguageConfig,
+  code: string,
+  files: SourceFile[] = [],
+  graderFiles: SourceFile[] = []
+): SourceLayout => {
+  const { extension, detectClassName } = languageConfig
+
+  let mainName = graderFiles.length > 0 ? GRADER_SOLUTION_NAME : DEFAULT_EXECUTABLE
+  if (detectClassName) {
+    // public 类必须保存在同名文件中
+    mainName = detectPublicClass(code) || detectMainClass(code) || mainName
+  }
+  const main: SourceFile = { name: `${mainName}${extension}`, content: code }
+
+  const graderNames = new Set(graderFiles.map(file => file.name))
+  const layout = [
+    ...graderFiles.map(file => ({ name: path.basename(file.name), content: file.content })),
+    ...(graderNames.has(main.name) ? [] : [main]),
+    ...files
+      .map(file => ({ name: path.basename(file.name), content: file.content }))
+      .filter(file => file.name !== main.name && !graderNames.has(file.name))
+  ]
+
+  // 有评测程序时以第一个评测程序源文件为入口
+  const entry = graderFiles.find(file => path.extname(file.name) === extension) || main
+
+  let classname = DEFAULT_EXECUTABLE
+  if (detectClassName) {
+    classname = detectMainClass(entry.content) || detectPublicClass(entry.content) || DEFAULT_EXECUTABLE
+  }
+
+  return { files: layout, entry: path.basename(entry.name), classname }
+}
+
+// 读取上传的zip中的文件（忽略目录结构），解压前检查文件数与总大小
+export const readSourceZip = (buffer: Buffer): SourceFile[] => {
+  const entries = new AdmZip(buffer).getEntries()
+    .filter(entry => !entry.isDirectory && !entry.entryName.split('/').some(part => part.startsWith('.') || part === '__MACOSX'))
+
+  if (entries.length > MAX_SOURCE_FILES) {
+    throw new Error(`zip中最多包含${MAX_SOURCE_FILES}个文件`)
+  }
+  if (entries.reduce((sum, entry) => sum + entry.header.size, 0) > MAX_SOURCE_SIZE) {
+    throw new Error(`代码总大小不能超过${MAX_SOURCE_SIZE / 1024}KB`)
+  }
+
+  return entries.map(entry => ({
+    name: path.posix.basename(entry.entryName),
+    content: entry.getData().toString('utf8')
+  }))
+}
+
+// 从多个文件中找出主文件：只有一个源文件时即为主文件，否则取 main 命名的文件，
+// 识别类名的语言（Java）取唯一包含 main 方法的文件
+export const splitMainFile = (files: SourceFile[], languageConfig: LanguageConfig): { code: string; files: SourceFile[] } => {
+  const { extension } = languageConfig
+  const sources = files.filter(file => path.extname(file.name) === extension)
+  if (sources.length === 0) {
+    throw new Error(`没有找到扩展名为 ${extension} 的源文件`)
+  }
+
+  let main = sources.length === 1 ? sources[0] : undefined
+  if (!main) {
+    main = sources.find(file => file.name.toLowerCase() === `${DEFAULT_EXECUTABLE}${extension}`)
+  }
+  if (!main && languageConfig.detectClassName) {
+    const candidates = sources.filter(file => detectMainClass(file.content))
+    if (candidates.length === 1) main = candidates[0]
+  }
+  if (!main) {
+    throw new Error(`有多个源文件时，请将程序入口所在的文件命名为 ${DEFAULT_EXECUTABLE}${extension}`)
+  }
+
+  return { code: main.content, files: files.filter(file => file !== main) }
+}
+
+export default {
+  isValidFileName,
+  validateSourceFiles,
+  detectPublicClass,
+  detectMainClass,
+  layoutSources,
+  readSourceZip,
+  splitMainFile
+}
@@ -0,0 +1,166 @@
+// 子任务计分方式
+export enum SubtaskType {
+  MIN = 'min', // 按子任务内最低得分比例计分
+  SUM = 'sum', // 按子任务内各测试点得分比例的平均值计分
+  ALL = 'all'  // 全部通过才得分
+}
+
+// 子任务定义
+export interface Subtask {
+  id: number
+  score: number          // 子任务满分
+  type: SubtaskType
+  testCases: number[]    // 测试点编号（从1开始，对应测试用例顺序）
+  dependencies?: number[] // 依赖的子任务编号，依赖未满分时本子任务跳过
+}
+
+// 子任务评测结果
+export interface SubtaskResult {
+  id: number
+  type: SubtaskType
+  score: number
+  maxScore: number
+  status: string           // 首个未通过测试点的状态，全部通过为 Accepted，跳过为 Skipped
+  failedTestCase?: number  // 首个未通过的测试点编号
+  skipped: boolean
+  summary: string          // 如 "Subtask 2: 0/30 (TLE on #7)"
+}
+
+// 评测状态缩写，用于子任务摘要
+const statusAbbreviations: Record<string, string> = {
+  'Accepted': 'AC',
+  'Wrong Answer': 'WA',
+  'Time Limit Exceeded': 'TLE',
+  'Memory Limit Exceeded': 'MLE',
+  'Runtime Error': 'RE',
+  'Presentation Error': 'PE',
+  'Partially Correct': 'PC',
+  'System Error': 'SE',
+  'Disallowed System Call': 'DSC',
+  'Process Limit Exceeded': 'PLE',
+  'Skipped': 'Skipped'
+}
+
+// 浮点误差容限，避免 0.1 + 0.2 之类的累加误差导致少给一分
+const SCORE_EPSILON = 1e-9
+
+// 校验子任务定义，返回错误信息；合法时返回null
+export const validateSubtasks = (subtasks: Subtask[], testCaseCount: number): string | null => {
+  const ids = new Set<number>()
+
+  for (const subtask of subtasks) {
+    if (!Number.isInteger(subtask.id) || subtask.id < 1) {
+      return '子任务编号必须是正整数'
+    }
+    if (ids.has(subtask.id)) {
+      return `子任务编号重复: ${subtask.id}`
+    }
+    ids.add(subtask.id)
+
+    if (!Object.values(SubtaskType).includes(subtask.type)) {
+      return `子任务 ${subtask.id} 的计分方式无效`
+    }
+    if (!Array.isArray(subtask.testCases) || subtask.testCases.length === 0) {
+      return `子任务 ${subtask.id} 至少需要一个测试点`
+    }
+    const invalidCase = subtask.testCases.find(index => !Number.isInteger(index) || index < 1 || index > testCaseCount)
+    if (invalidCase !== undefined) {
+      return `子任务 ${subtask.id} 引用了不存在的测试点: ${invalidCase}`
+    }
+  }
+
+  for (const subtask of subtasks) {
+    const missing = (subtask.dependencies || []).find(id => !ids.has(id))
+    if (missing !== undefined) {
+      return `子任务 ${subtask.id} 依赖了不存在的子任务: ${missing}`
+    }
+  }
+
+  try {
+    orderSubtasks(subtasks)
+  } catch (error) {
+    return error instanceof Error ? error.message : '子任务依赖无效'
+  }
+
+  return null
+}
+
+// 按依赖关系排序子任务（被依赖的先评测），存在循环依赖时抛出错误
+export const orderSubtasks = (subtasks: Subtask[]): Subtask[] => {
+  const byId = new Map(subtasks.map(subtask => [subtask.id, subtask]))
+  const ordered: Subtask[] = []
+  const state = new Map<number, 'visiting' | 'done'>()
+
+  const visit = (subtask: Subtask) => {
+    const current = state.get(subtask.id)
+    if (current === 'done') return
+    if (current === 'visiting') {
+      throw new Error(`子任务存在循环依赖: ${subtask.id}`)
+    }
+    state.set(subtask.id, 'visiting')
+    for (const dependencyId of subtask.dependencies || []) {
+      const dependency = byId.get(dependencyId)
+      if (dependency) visit(dependency)
+    }
+    state.set(subtask.id, 'done')
+    ordered.push(subtask)
+  }
+
+  // 在满足依赖的前提下保持定义顺序
+  subtasks.forEach(visit)
+  return ordered
+}
+
+// 当前测试点结果是否已决定子任务失败，可以跳过剩余测试点
+export const shouldStopSubtask = (type: SubtaskType, ratio: number): boolean => {
+  switch (type) {
+    case SubtaskType.ALL:
+      return ratio < 1
+    case SubtaskType.MIN:
+      return ratio <= 0
+    default:
+      return false
+  }
+}
+
+// 根据各测试点得分比例计算子任务得分
+export const scoreSubtask = (subtask: Subtask, ratios: number[]): number => {
+  if (ratios.length === 0) return 0
+
+  let ratio: number
+  switch (subtask.type) {
+    case SubtaskType.ALL:
+      ratio = ratios.every(value => value >= 1) ? 1 : 0
+      break
+    case SubtaskType.MIN:
+      ratio = Math.min(...ratios)
+      break
+    default:
+      // 被提前跳过的测试点按0分计入平均值
+      ratio = ratios.reduce((sum, value) => sum + value, 0) / subtask.testCases.length
+  }
+
+  return Math.floor(subtask.score * ratio + SCORE_EPSILON)
+}
+
+// 生成子任务摘要
+export const formatSubtaskSummary = (result: Omit<SubtaskResult, 'summary'>, blockedBy?: number): string => {
+  const head = `Subtask ${result.id}: ${result.score}/${result.maxScore}`
+  if (result.skipped) {
+    return blockedBy !== undefined ? `${head} (skipped, depends on Subtask ${blockedBy})` : `${head} (skipped)`
+  }
+  if (result.failedTestCase !== undefined) {
+    const abbreviation = statusAbbreviations[result.status] || result.status
+    return `${head} (${abbreviation} on #${result.failedTestCase})`
+  }
+  return head
+}
+
+export default {
+  validateSubtasks,
+  orderSubtasks,
+  shouldStopSubtask,
+  scoreSubtask,
+  formatSubtaskSummary,
+  SubtaskType
+}
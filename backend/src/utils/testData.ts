@@ -0,0 +1,385 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import zlib from 'zlib'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import AdmZip from 'adm-zip'
+import { config } from '../config'
+import { Problem, ITestCase } from '../models/ProblemMySQL'
+
+// 测试数据存储布局（根目录为 config.judge.testDataPath）：
+//   blobs/<哈希前两位>/<sha256>          按内容哈希去重的数据文件，内容不可变
+//   problems/<problemId>/N.in, N.ans    每题的数据文件（指向blob的硬链接）
+//   problems/<problemId>/manifest.json  各测试点的哈希，用于判断目录是否需要重建
+
+// 已写入的数据文件
+export interface StoredBlob {
+  hash: string
+  size: number
+}
+
+// 待保存的测试数据，内容也可以是已写入的数据文件
+export interface TestDataInput {
+  input: Buffer | string | StoredBlob
+  answer: Buffer | string | StoredBlob
+  score?: number
+  isHidden?: boolean
+}
+
+// 判题使用的测试数据文件
+export interface TestDataFile {
+  id: number
+  inputFile: string
+  answerFile: string
+  inputHash: string
+  answerHash: string
+  score: number
+}
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/
+
+// 预览长度（字节），提交结果中只保留截断的输入/输出
+export const PREVIEW_LENGTH = 1024
+
+// 测试点默认分数
+const DEFAULT_SCORE = 10
+
+// 压缩包解压后的总大小上限（按实际解压出的字节数计算）
+const MAX_UNCOMPRESSED_SIZE = 256 * 1024 * 1024 // 256MB
+
+// zip压缩方式
+const ZIP_STORED = 0
+const ZIP_DEFLATED = 8
+const ZIP_FLAG_ENCRYPTED = 1
+
+const MANIFEST_FILE = 'manifest.json'
+
+const dataRoot = (): string => path.resolve(config.judge.testDataPath)
+
+const randomSuffix = (): string => `${process.pid}-${crypto.randomBytes(4).toString('hex')}`
+
+// 数据文件路径
+export const getBlobPath = (hash: string): string => {
+  if (!HASH_PATTERN.test(hash)) {
+    throw new Error(`无效的数据哈希: ${hash}`)
+  }
+  return path.join(dataRoot(), 'blobs', hash.substring(0, 2), hash)
+}
+
+// 题目数据目录
+export const getProblemDataDir = (problemId: string): string => {
+  return path.join(dataRoot(), 'problems', path.basename(problemId))
+}
+
+// 写入数据文件，内容相同的文件只存一份
+const storeBlob = (content: Buffer | string | StoredBlob): StoredBlob => {
+  if (typeof content !== 'string' && !Buffer.isBuffer(content)) {
+    return content
+  }
+
+  const buffer = typeof content === 'string' ? Buffer.from(content, 'utf8') : content
+  const hash = crypto.createHash('sha256').update(buffer).digest('hex')
+  const blobPath = getBlobPath(hash)
+
+  if (!fs.existsSync(blobPath)) {
+    fs.mkdirSync(path.dirname(blobPath), { recursive: true })
+    // 先写临时文件再重命名，避免读到写了一半的文件
+    const tempPath = `${blobPath}.${randomSuffix()}.tmp`
+    fs.writeFileSync(tempPath, buffer)
+    fs.renameSync(tempPath, blobPath)
+  }
+
+  return { hash, size: buffer.length }
+}
+
+// 数据文件是否已存在
+export const hasBlob = (hash: string): boolean => fs.existsSync(getBlobPath(hash))
+
+// 从流中写入数据文件并校验哈希（远程判题机缓存服务端的测试数据）
+export const saveBlobStream = async (hash: string, stream: Readable): Promise<string> => {
+  const blobPath = getBlobPath(hash)
+  fs.mkdirSync(path.dirname(blobPath), { recursive: true })
+  const tempPath = `${blobPath}.${randomSuffix()}.tmp`
+  const digest = crypto.createHash('sha256')
+
+  try {
+    stream.on('data', (chunk: Buffer) => digest.update(chunk))
+    await pipeline(stream, fs.createWriteStream(tempPath))
+
+    const actual = digest.digest('hex')
+    if (actual !== hash) {
+      throw new Error(`测试数据校验失败: 期望 ${hash}，实际 ${actual}`)
+    }
+    fs.renameSync(tempPath, blobPath)
+    return blobPath
+  } finally {
+    fs.rmSync(tempPath, { force: true })
+  }
+}
+
+// 链接数据文件，跨文件系统时退回复制
+const linkBlob = (hash: string, target: string): void => {
+  const blobPath = getBlobPath(hash)
+  try {
+    fs.linkSync(blobPath, target)
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`测试数据文件缺失: ${hash}`)
+    }
+    fs.copyFileSync(blobPath, target)
+  }
+}
+
+// 重建题目数据目录（先在临时目录中生成，再整体替换）
+const linkProblemData = (problemId: string, testCases: ITestCase[]): void => {
+  const problemDir = getProblemDataDir(problemId)
+  const stagingDir = `${problemDir}.${randomSuffix()}.tmp`
+  fs.mkdirSync(stagingDir, { recursive: true })
+
+  testCases.forEach((testCase, index) => {
+    linkBlob(testCase.inputHash!, path.join(stagingDir, `${index + 1}.in`))
+    linkBlob(testCase.answerHash!, path.join(stagingDir, `${index + 1}.ans`))
+  })
+  fs.writeFileSync(path.join(stagingDir, MANIFEST_FILE), JSON.stringify(manifestOf(testCases)))
+
+  const oldDir = `${problemDir}.${randomSuffix()}.old`
+  if (fs.existsSync(problemDir)) {
+    fs.renameSync(problemDir, oldDir)
+  }
+  fs.renameSync(stagingDir, problemDir)
+  fs.rmSync(oldDir, { recursive: true, force: true })
+}
+
+const manifestOf = (testCases: ITestCase[]) => {
+  return testCases.map(testCase => [testCase.inputHash, testCase.answerHash])
+}
+
+// 题目数据目录是否与测试点元数据一致
+const isProblemDataCurrent = (problemId: string, testCases: ITestCase[]): boolean => {
+  try {
+    const manifest = fs.readFileSync(path.join(getProblemDataDir(problemId), MANIFEST_FILE), 'utf8')
+    return manifest === JSON.stringify(manifestOf(testCases))
+  } catch (error) {
+    return false
+  }
+}
+
+// 旧版内联数据（输入输出直接存在 testCases 字段中）
+const isInline = (testCase: ITestCase): boolean => !testCase.inputHash || !testCase.answerHash
+
+// 把内联数据写入磁盘，只保留元数据
+const storeInlineTestCase = (testCase: ITestCase): ITestCase => {
+  const { input, output, ...meta } = testCase
+  const inputBlob = storeBlob(input || '')
+  const answerBlob = storeBlob(output || '')
+  return {
+    ...meta,
+    inputHash: inputBlob.hash,
+    inputSize: inputBlob.size,
+    answerHash: answerBlob.hash,
+    answerSize: answerBlob.size
+  }
+}
+
+// 保存测试数据，返回写入题目 testCases 字段的元数据
+export const saveTestData = (problemId: string, cases: TestDataInput[]): ITestCase[] => {
+  const testCases: ITestCase[] = cases.map(testCase => {
+    const inputBlob = storeBlob(testCase.input)
+    const answerBlob = storeBlob(testCase.answer)
+    return {
+      inputHash: inputBlob.hash,
+      inputSize: inputBlob.size,
+      answerHash: answerBlob.hash,
+      answerSize: answerBlob.size,
+      score: testCase.score ?? DEFAULT_SCORE,
+      isHidden: testCase.isHidden ?? true
+    }
+  })
+
+  linkProblemData(problemId, testCases)
+  return testCases
+}
+
+// 计算题目全部测试数据的哈希（只与各测试点的内容及顺序有关，与分数、可见性无关）
+export const computeTestDataHash = (testCases: ITestCase[]): string => {
+  const contentHash = (content: string | undefined) => crypto.createHash('sha256').update(content || '').digest('hex')
+  const digest = crypto.createHash('sha256')
+  for (const testCase of testCases) {
+    const inputHash = testCase.inputHash || contentHash(testCase.input)
+    const answerHash = testCase.answerHash || contentHash(testCase.output)
+    digest.update(`${inputHash}:${answerHash}\n`)
+  }
+  return digest.digest('hex')
+}
+
+// 将请求中的测试用例（内联或已有元数据）转换为元数据
+export const normalizeTestCases = (problemId: string, testCases: ITestCase[]): ITestCase[] => {
+  const normalized = testCases.map(testCase => isInline(testCase) ? storeInlineTestCase(testCase) : testCase)
+  linkProblemData(problemId, normalized)
+  return normalized
+}
+
+// 确保题目数据已在磁盘上：旧版内联数据在首次使用时迁移，
+// 数据目录缺失或过期（如克隆的题目）时重新链接
+export const ensureTestData = async (problem: Problem): Promise<ITestCase[]> => {
+  if (problem.testCases.some(isInline)) {
+    problem.testCases = normalizeTestCases(problem.problemId, problem.testCases)
+    await problem.save()
+  } else if (!isProblemDataCurrent(problem.problemId, problem.testCases)) {
+    linkProblemData(problem.problemId, problem.testCases)
+  }
+  return problem.testCases
+}
+
+// 获取判题用的测试数据文件
+// 直接使用按内容寻址的数据文件，评测过程中题目数据被替换也不会读到混合的数据
+export const getJudgeTestData = async (problem: Problem): Promise<TestDataFile[]> => {
+  const testCases = await ensureTestData(problem)
+  return testCases.map((testCase, index) => ({
+    id: index + 1,
+    inputFile: getBlobPath(testCase.inputHash!),
+    answerFile: getBlobPath(testCase.answerHash!),
+    inputHash: testCase.inputHash!,
+    answerHash: testCase.answerHash!,
+    score: testCase.score || DEFAULT_SCORE
+  }))
+}
+
+// 解压zip中的一个文件并写入数据文件，边解压边计数，解压出的数据超过 limit 字节时中止
+const storeZipEntry = async (entry: AdmZip.IZipEntry, limit: number): Promise<StoredBlob> => {
+  const { method, flags } = entry.header
+  if (flags & ZIP_FLAG_ENCRYPTED) {
+    throw new Error(`不支持加密的文件: ${entry.entryName}`)
+  }
+  if (method !== ZIP_STORED && method !== ZIP_DEFLATED) {
+    throw new Error(`不支持的压缩方式: ${entry.entryName}`)
+  }
+
+  const blobsDir = path.join(dataRoot(), 'blobs')
+  fs.mkdirSync(blobsDir, { recursive: true })
+  const tempPath = path.join(blobsDir, `upload.${randomSuffix()}.tmp`)
+  const digest = crypto.createHash('sha256')
+  let size = 0
+
+  const counter = new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      size += chunk.length
+      if (size > limit) {
+        callback(new Error('测试数据解压后超过大小限制'))
+        return
+      }
+      digest.update(chunk)
+      callback(null, chunk)
+    }
+  })
+
+  try {
+    const source = Readable.from([entry.getCompressedData()])
+    if (method === ZIP_DEFLATED) {
+      await pipeline(source, zlib.createInflateRaw(), counter, fs.createWriteStream(tempPath))
+    } else {
+      await pipeline(source, counter, fs.createWriteStream(tempPath))
+    }
+
+    const hash = digest.digest('hex')
+    const blobPath = getBlobPath(hash)
+    if (!fs.existsSync(blobPath)) {
+      fs.mkdirSync(path.dirname(blobPath), { recursive: true })
+      fs.renameSync(tempPath, blobPath)
+    }
+    return { hash, size }
+  } finally {
+    fs.rmSync(tempPath, { force: true })
+  }
+}
+
+// 解析测试数据压缩包：按文件名配对 X.in 与 X.out / X.ans，按自然顺序排序，
+// 数据逐个解压写入数据文件，不在内存中保留解压后的内容
+export const parseTestDataZip = async (zipPath: string): Promise<TestDataInput[]> => {
+  const zip = new AdmZip(zipPath)
+  const inputs = new Map<string, AdmZip.IZipEntry>()
+  const answers = new Map<string, AdmZip.IZipEntry>()
+
+  for (const entry of zip.getEntries()) {
+    if (entry.isDirectory || entry.entryName.startsWith('__MACOSX/')) continue
+
+    const extension = path.extname(entry.entryName).toLowerCase()
+    const baseName = entry.entryName.substring(0, entry.entryName.length - extension.length)
+
+    if (extension === '.in') {
+      inputs.set(baseName, entry)
+    } else if (extension === '.out' || extension === '.ans') {
+      answers.set(baseName, entry)
+    }
+  }
+
+  const unmatched = Array.from(inputs.keys()).find(name => !answers.has(name))
+  if (unmatched !== undefined) {
+    throw new Error(`缺少输出文件: ${unmatched}.out 或 ${unmatched}.ans`)
+  }
+
+  const names = Array.from(inputs.keys()).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+  if (names.length === 0) {
+    throw new Error('压缩包中没有找到测试数据（需要成对的 .in 与 .out/.ans 文件）')
+  }
+
+  // 文件头中的大小由上传者填写，不可信，按实际解压出的字节数累计
+  let totalSize = 0
+  const cases: TestDataInput[] = []
+  for (const name of names) {
+    const input = await storeZipEntry(inputs.get(name)!, MAX_UNCOMPRESSED_SIZE - totalSize)
+    totalSize += input.size
+    const answer = await storeZipEntry(answers.get(name)!, MAX_UNCOMPRESSED_SIZE - totalSize)
+    totalSize += answer.size
+    cases.push({ input, answer })
+  }
+  return cases
+}
+
+// 打包题目测试数据
+export const buildTestDataZip = (testCases: ITestCase[]): Buffer => {
+  const zip = new AdmZip()
+  testCases.forEach((testCase, index) => {
+    zip.addLocalFile(getBlobPath(testCase.inputHash!), '', `${index + 1}.in`)
+    zip.addLocalFile(getBlobPath(testCase.answerHash!), '', `${index + 1}.ans`)
+  })
+  return zip.toBuffer()
+}
+
+// 读取文件开头作为预览
+export const readPreview = (filePath: string, length: number = PREVIEW_LENGTH): string => {
+  let fd: number | undefined
+  try {
+    fd = fs.openSync(filePath, 'r')
+    const buffer = Buffer.alloc(length + 1)
+    const bytesRead = fs.readSync(fd, buffer, 0, length + 1, 0)
+    const preview = buffer.subarray(0, Math.min(bytesRead, length)).toString('utf8')
+    return bytesRead > length ? `${preview}...` : preview
+  } catch (error) {
+    return ''
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd)
+  }
+}
+
+// 删除题目数据目录（数据文件可能被其他题目共享，保留在blobs中）
+export const removeTestData = (problemId: string): void => {
+  fs.rmSync(getProblemDataDir(problemId), { recursive: true, force: true })
+}
+
+export default {
+  saveTestData,
+  normalizeTestCases,
+  ensureTestData,
+  getJudgeTestData,
+  parseTestDataZip,
+  buildTestDataZip,
+  readPreview,
+  removeTestData,
+  getBlobPath,
+  getProblemDataDir,
+  hasBlob,
+  saveBlobStream,
+  computeTestDataHash
+}
@@ -25,18 +25,38 @@ const fileConfigs: Record<string, FileTypeConfig> = {
       'application/zip',
       'application/x-zip-compressed',
       'text/plain',
-      'application/pdf'
+      'application/pdf',
+      'text/xml',
+      'application/xml'
     ],
     maxSize: 50 * 1024 * 1024, // 50MB
     destination: 'uploads/problems'
   },
+  testlib: {
+    allowedTypes: [
+      'text/plain',
+      'text/x-c',
+      'text/x-c++src',
+      'text/x-csrc',
+      'application/octet-stream'
+    ],
+    maxSize: 1 * 1024 * 1024, // 1MB
+    destination: 'uploads/testlib'
+  },
   submission: {
     allowedTypes: [
       'text/plain',
       'text/x-c',
       'text/x-c++src',
+      'text/x-chdr',
+      'text/x-c++hdr',
       'text/x-java-source',
-      'text/x-python'
+      'text/x-python',
+      'text/javascript',
+      'application/javascript',
+      'application/zip',
+      'application/x-zip-compressed',
+      'application/octet-stream'
     ],
     maxSize: 1 * 1024 * 1024, // 1MB
     destination: 'uploads/submissions'
@@ -59,6 +79,17 @@ const fileConfigs: Record<string, FileTypeConfig> = {
     ],
     maxSize: 100 * 1024 * 1024, // 100MB
     destination: 'uploads/exports'
+  },
+  roster: {
+    allowedTypes: [
+      'text/csv',
+      'text/plain',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/octet-stream'
+    ],
+    maxSize: 5 * 1024 * 1024, // 5MB
+    destination: 'uploads/rosters'
   }
 }
 
@@ -150,8 +181,14 @@ export const uploadAvatar = createUploadMiddleware('avatar', 'avatar')
 // 题目文件上传处理
 export const uploadProblemFiles = createMultiUploadMiddleware('problem', 'files', 5)
 
-// 代码提交上传处理
-export const uploadSubmission = createUploadMiddleware('submission', 'code')
+// 检查器源代码上传处理
+export const uploadChecker = createUploadMiddleware('testlib', 'checker')
+
+// 交互器源代码上传处理
+export const uploadInteractor = createUploadMiddleware('testlib', 'interactor')
+
+// 代码提交上传处理（多个源文件或一个zip）
+export const uploadSubmission = createMultiUploadMiddleware('submission', 'files', 20)
 
 // 比赛文件上传处理
 export const uploadContestFiles = createMultiUploadMiddleware('contest', 'files', 3)
@@ -159,6 +196,9 @@ export const uploadContestFiles = createMultiUploadMiddleware('contest', 'files'
 // 数据导出文件上传处理
 export const uploadExportFile = createUploadMiddleware('export', 'file')
 
+// 学生花名册上传处理
+export const uploadRoster = createUploadMiddleware('roster', 'file')
+
 // 图片处理函数
 export const processImage = async (
   inputPath: string,
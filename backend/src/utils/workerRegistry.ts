@@ -0,0 +1,116 @@
+import crypto from 'crypto'
+import { config } from '../config'
+
+// 远程判题机信息
+export interface JudgeWorkerInfo {
+  id: string
+  name: string
+  hostname: string
+  address: string          // 判题机连接来源IP
+  version?: string
+  languages: string[]      // 支持的语言
+  concurrency: number      // 并发判题数
+  running: number          // 正在判题的任务数
+  load: number[]           // 系统负载（1/5/15分钟）
+  judged: number           // 已完成的任务数
+  failed: number           // 失败的任务数
+  registeredAt: Date
+  lastSeenAt: Date
+}
+
+// 判题机注册参数
+export interface WorkerRegistration {
+  name: string
+  hostname: string
+  address: string
+  version?: string
+  languages: string[]
+  concurrency: number
+}
+
+// 判题机状态上报
+export interface WorkerStatus {
+  running?: number
+  load?: number[]
+}
+
+// 判题机超过该时长没有轮询或心跳视为离线
+const offlineTimeout = (): number => config.judge.worker.pollTimeout * 2 + 30 * 1000
+
+// 判题机注册表（仅保存在内存中，服务重启后判题机会自动重新注册）
+const workers = new Map<string, JudgeWorkerInfo>()
+
+// 清理离线的判题机（其持有的任务由租约过期机制回收）
+const pruneOfflineWorkers = (): void => {
+  const deadline = Date.now() - offlineTimeout()
+  for (const [id, worker] of workers) {
+    if (worker.lastSeenAt.getTime() < deadline) {
+      console.log(`判题机离线: ${worker.name} (${id})`)
+      workers.delete(id)
+    }
+  }
+}
+
+// 注册判题机
+export const registerWorker = (registration: WorkerRegistration): JudgeWorkerInfo => {
+  const now = new Date()
+  const worker: JudgeWorkerInfo = {
+    ...registration,
+    id: crypto.randomBytes(8).toString('hex'),
+    running: 0,
+    load: [],
+    judged: 0,
+    failed: 0,
+    registeredAt: now,
+    lastSeenAt: now
+  }
+  workers.set(worker.id, worker)
+  console.log(`判题机已注册: ${worker.name} (${worker.id})，语言: ${worker.languages.join(', ')}，并发: ${worker.concurrency}`)
+  return worker
+}
+
+// 获取在线的判题机
+export const getWorker = (workerId: string): JudgeWorkerInfo | null => {
+  pruneOfflineWorkers()
+  return workers.get(workerId) || null
+}
+
+// 更新判题机的在线时间与状态
+export const touchWorker = (worker: JudgeWorkerInfo, status: WorkerStatus = {}): void => {
+  worker.lastSeenAt = new Date()
+  if (typeof status.running === 'number') {
+    worker.running = status.running
+  }
+  if (Array.isArray(status.load)) {
+    worker.load = status.load.slice(0, 3)
+  }
+}
+
+// 记录判题机完成的任务
+export const recordWorkerResult = (worker: JudgeWorkerInfo, success: boolean): void => {
+  if (success) {
+    worker.judged++
+  } else {
+    worker.failed++
+  }
+}
+
+// 注销判题机
+export const unregisterWorker = (workerId: string): boolean => {
+  return workers.delete(workerId)
+}
+
+// 获取所有在线的判题机
+export const listWorkers = (): JudgeWorkerInfo[] => {
+  pruneOfflineWorkers()
+  return Array.from(workers.values()).sort((a, b) => a.registeredAt.getTime() - b.registeredAt.getTime())
+}
+
+export default {
+  registerWorker,
+  getWorker,
+  touchWorker,
+  recordWorkerResult,
+  unregisterWorker,
+  listWorkers
+}
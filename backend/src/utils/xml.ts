@@ -0,0 +1,135 @@
+// 简单的XML解析与生成，用于导入导出题目包（Polygon problem.xml、FPS）
+// 只处理元素、属性、文本与CDATA，忽略注释、处理指令与DOCTYPE
+
+// XML元素
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string        // 直接包含的文本（含CDATA），未去除空白
+}
+
+// 解码XML实体
+export const decodeXmlEntities = (text: string): string => {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+}
+
+// 转义XML文本与属性值
+export const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// 以CDATA包裹文本（内容中的 "]]>" 需要拆开）
+export const cdata = (text: string): string => {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+}
+
+// 解析属性字符串
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+// 解析XML文本，返回根元素
+export const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' }
+  const stack: XmlElement[] = [root]
+  const content = source.replace(/^\uFEFF/, '')
+  let position = 0
+
+  while (position < content.length) {
+    const start = content.indexOf('<', position)
+    const current = stack[stack.length - 1]
+
+    if (start === -1) {
+      current.text += decodeXmlEntities(content.substring(position))
+      break
+    }
+    if (start > position) {
+      current.text += decodeXmlEntities(content.substring(position, start))
+    }
+
+    if (content.startsWith('<![CDATA[', start)) {
+      const end = content.indexOf(']]>', start)
+      if (end === -1) throw new Error('XML格式错误：CDATA未闭合')
+      current.text += content.substring(start + 9, end)
+      position = end + 3
+    } else if (content.startsWith('<!--', start)) {
+      const end = content.indexOf('-->', start)
+      if (end === -1) throw new Error('XML格式错误：注释未闭合')
+      position = end + 3
+    } else if (content.startsWith('<?', start) || content.startsWith('<!', start)) {
+      const end = content.indexOf('>', start)
+      if (end === -1) throw new Error('XML格式错误')
+      position = end + 1
+    } else if (content.startsWith('</', start)) {
+      const end = content.indexOf('>', start)
+      const name = content.substring(start + 2, end).trim()
+      if (end === -1 || stack.length === 1 || current.name !== name) {
+        throw new Error(`XML格式错误：标签 ${name} 不匹配`)
+      }
+      stack.pop()
+      position = end + 1
+    } else {
+      const end = content.indexOf('>', start)
+      if (end === -1) throw new Error('XML格式错误：标签未闭合')
+      const selfClosing = content[end - 1] === '/'
+      const body = content.substring(start + 1, selfClosing ? end - 1 : end)
+      const nameMatch = /^[^\s/>]+/.exec(body)
+      if (!nameMatch) throw new Error('XML格式错误：缺少标签名')
+
+      const element: XmlElement = {
+        name: nameMatch[0],
+        attributes: parseAttributes(body.substring(nameMatch[0].length)),
+        children: [],
+        text: ''
+      }
+      current.children.push(element)
+      if (!selfClosing) stack.push(element)
+      position = end + 1
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`XML格式错误：标签 ${stack[stack.length - 1].name} 未闭合`)
+  }
+  const [element] = root.children
+  if (!element) {
+    throw new Error('XML格式错误：没有根元素')
+  }
+  return element
+}
+
+// 第一个指定名称的子元素
+export const xmlChild = (element: XmlElement | undefined, name: string): XmlElement | undefined => {
+  return element?.children.find(child => child.name === name)
+}
+
+// 所有指定名称的子元素
+export const xmlChildren = (element: XmlElement | undefined, name: string): XmlElement[] => {
+  return element ? element.children.filter(child => child.name === name) : []
+}
+
+// 按路径查找子元素，如 "judging/testset"
+export const xmlPath = (element: XmlElement | undefined, path: string): XmlElement | undefined => {
+  return path.split('/').reduce<XmlElement | undefined>((current, name) => xmlChild(current, name), element)
+}
+
+// 子元素的文本
+export const xmlText = (element: XmlElement | undefined, name: string): string => {
+  return xmlChild(element, name)?.text ?? ''
+}
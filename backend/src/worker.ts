@@ -0,0 +1,310 @@
+import os from 'os'
+import { Readable } from 'stream'
+import { config } from './config'
+import { judgeSubmission, getSupportedLanguages, countProgressTotal, JudgeConfig, JudgeResult, TestCaseResult } from './utils/judge'
+import { getBlobPath, hasBlob, saveBlobStream } from './utils/testData'
+import { getSandbox } from './utils/sandbox'
+
+// 远程判题机：从服务端长轮询领取任务，按哈希下载并缓存测试数据，在本机判题后回传结果
+// 启动：JUDGE_SERVER_URL=http://oj:5000 JUDGE_WORKER_TOKEN=... npx ts-node src/worker.ts
+
+// 判题机协议版本
+const WORKER_VERSION = '1.0.0'
+
+// 请求失败后的重试间隔
+const RETRY_DELAY = 5000
+
+// 普通请求超时
+const REQUEST_TIMEOUT = 30 * 1000
+
+// 服务端下发的测试点（只包含数据哈希）
+interface RemoteTestCase {
+  id: number
+  inputHash: string
+  answerHash: string
+  score: number
+}
+
+// 服务端下发的判题任务
+interface RemoteTask {
+  taskId: string
+  submissionId: string
+  judgeConfig: Omit<JudgeConfig, 'testCases' | 'onProgress'> & { testCases: RemoteTestCase[] }
+}
+
+// 服务端返回的错误
+class WorkerApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error)
+
+class JudgeWorker {
+  private workerId: string | null = null
+  private registering: Promise<string> | null = null
+  private leaseTimeout: number = 60000
+  private pollTimeout: number = config.judge.worker.pollTimeout
+  private running: number = 0
+  private stopping: boolean = false
+  private heartbeatTimer: NodeJS.Timeout | null = null
+  private downloads: Map<string, Promise<void>> = new Map()
+
+  constructor(
+    private serverUrl: string,
+    private token: string,
+    private name: string,
+    private concurrency: number,
+    private languages: string[]
+  ) {}
+
+  // 启动判题机：每个并发槽位独立轮询
+  async start(): Promise<void> {
+    console.log(`判题机 ${this.name} 启动，服务端: ${this.serverUrl}，并发: ${this.concurrency}，语言: ${this.languages.join(', ')}`)
+    await this.ensureRegistered()
+    this.scheduleHeartbeat()
+
+    await Promise.all(Array.from({ length: this.concurrency }, () => this.runSlot()))
+  }
+
+  // 停止领取新任务，等待正在判题的任务完成后注销
+  async stop(): Promise<void> {
+    if (this.stopping) return
+    this.stopping = true
+    console.log('判题机正在停止，等待当前任务完成...')
+
+    while (this.running > 0) {
+      await sleep(500)
+    }
+
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+    if (this.workerId) {
+      await this.request('DELETE', `/workers/${this.workerId}`).catch(() => {})
+    }
+    console.log('判题机已停止')
+  }
+
+  // 请求服务端判题接口
+  private async request(method: string, pathname: string, body?: any, timeout: number = REQUEST_TIMEOUT): Promise<any> {
+    const response = await fetch(`${this.serverUrl}/api/judge${pathname}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(timeout)
+    })
+
+    const payload: any = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new WorkerApiError(payload.error || payload.message || `HTTP ${response.status}`, response.status)
+    }
+    return payload.data
+  }
+
+  // 确保已注册，服务端重启导致注册失效时重新注册（多个槽位共享同一次注册）
+  private ensureRegistered(): Promise<string> {
+    if (this.workerId) return Promise.resolve(this.workerId)
+
+    if (!this.registering) {
+      this.registering = this.register().finally(() => {
+        this.registering = null
+      })
+    }
+    return this.registering
+  }
+
+  private async register(): Promise<string> {
+    for (;;) {
+      try {
+        const data = await this.request('POST', '/workers/register', {
+          name: this.name,
+          hostname: os.hostname(),
+          version: WORKER_VERSION,
+          languages: this.languages,
+          concurrency: this.concurrency
+        })
+        this.workerId = data.workerId
+        this.leaseTimeout = data.leaseTimeout
+        this.pollTimeout = data.pollTimeout
+        console.log(`判题机已注册: ${this.workerId}`)
+        return data.workerId
+      } catch (error) {
+        console.error(`判题机注册失败: ${errorMessage(error)}，${RETRY_DELAY / 1000}秒后重试`)
+        await sleep(RETRY_DELAY)
+      }
+    }
+  }
+
+  // 注册失效（服务端返回404）时丢弃当前注册
+  private handleRequestError(workerId: string, error: unknown): void {
+    if (error instanceof WorkerApiError && error.status === 404 && this.workerId === workerId) {
+      console.warn('判题机注册已失效，重新注册')
+      this.workerId = null
+    }
+  }
+
+  // 当前状态，随轮询与心跳上报
+  private status() {
+    return {
+      running: this.running,
+      load: os.loadavg()
+    }
+  }
+
+  // 定期心跳：续期正在判的任务并保持在线状态（槽位全部忙碌时不会轮询）
+  private scheduleHeartbeat(): void {
+    this.heartbeatTimer = setTimeout(async () => {
+      const workerId = this.workerId
+      if (workerId) {
+        try {
+          await this.request('POST', `/workers/${workerId}/heartbeat`, this.status())
+        } catch (error) {
+          console.warn(`心跳失败: ${errorMessage(error)}`)
+          this.handleRequestError(workerId, error)
+        }
+      }
+      if (!this.stopping) {
+        this.scheduleHeartbeat()
+      }
+    }, Math.floor(this.leaseTimeout / 3))
+  }
+
+  // 单个并发槽位：轮询、判题、回传，循环往复
+  private async runSlot(): Promise<void> {
+    while (!this.stopping) {
+      const workerId = await this.ensureRegistered()
+      try {
+        const task: RemoteTask | null = await this.request(
+          'POST',
+          `/workers/${workerId}/poll`,
+          this.status(),
+          this.pollTimeout + REQUEST_TIMEOUT
+        )
+        if (task) {
+          await this.judge(workerId, task)
+        }
+      } catch (error) {
+        console.error(`领取任务失败: ${errorMessage(error)}`)
+        this.handleRequestError(workerId, error)
+        await sleep(RETRY_DELAY)
+      }
+    }
+  }
+
+  // 执行判题任务
+  private async judge(workerId: string, task: RemoteTask): Promise<void> {
+    const taskPath = `/workers/${workerId}/tasks/${encodeURIComponent(task.taskId)}`
+    this.running++
+    console.log(`开始判题: ${task.submissionId}（任务 ${task.taskId}）`)
+
+    try {
+      const testCases = []
+      for (const testCase of task.judgeConfig.testCases) {
+        await this.ensureTestData(testCase.inputHash)
+        await this.ensureTestData(testCase.answerHash)
+        testCases.push({
+          id: testCase.id,
+          inputFile: getBlobPath(testCase.inputHash),
+          answerFile: getBlobPath(testCase.answerHash),
+          score: testCase.score
+        })
+      }
+
+      let completed = 0
+      const total = countProgressTotal(testCases, task.judgeConfig.subtasks)
+      const result: JudgeResult = await judgeSubmission({
+        ...task.judgeConfig,
+        testCases,
+        onProgress: (testCaseResult: TestCaseResult) => {
+          completed++
+          this.request('POST', `${taskPath}/progress`, {
+            result: testCaseResult,
+            completed,
+            total
+          }).catch(error => {
+            console.warn(`上报进度失败: ${errorMessage(error)}`)
+          })
+        }
+      })
+
+      await this.request('POST', `${taskPath}/complete`, { result })
+      console.log(`判题完成: ${task.submissionId} ${result.status}`)
+    } catch (error) {
+      console.error(`判题失败: ${task.submissionId}`, error)
+      await this.request('POST', `${taskPath}/fail`, { message: errorMessage(error) || '判题机内部错误' }).catch(reportError => {
+        // 上报失败时任务租约会过期，由服务端重新分配
+        console.error(`上报判题失败出错: ${errorMessage(reportError)}`)
+      })
+    } finally {
+      this.running--
+    }
+  }
+
+  // 下载测试数据到本地缓存（按哈希去重，同一文件只下载一次）
+  private ensureTestData(hash: string): Promise<void> {
+    if (hasBlob(hash)) return Promise.resolve()
+
+    let download = this.downloads.get(hash)
+    if (!download) {
+      download = this.downloadTestData(hash).finally(() => {
+        this.downloads.delete(hash)
+      })
+      this.downloads.set(hash, download)
+    }
+    return download
+  }
+
+  private async downloadTestData(hash: string): Promise<void> {
+    const response = await fetch(`${this.serverUrl}/api/judge/data/${hash}`, {
+      headers: { 'Authorization': `Bearer ${this.token}` }
+    })
+    if (!response.ok || !response.body) {
+      throw new Error(`下载测试数据失败: ${hash}（HTTP ${response.status}）`)
+    }
+    await saveBlobStream(hash, Readable.fromWeb(response.body as any))
+  }
+}
+
+const main = async () => {
+  const workerConfig = config.judge.worker
+  if (!workerConfig.token) {
+    console.error('❌ 未配置 JUDGE_WORKER_TOKEN')
+    process.exit(1)
+  }
+
+  // 缓存的测试数据与编译产物只对运行判题机的用户可见；沙箱配置不安全时拒绝启动
+  process.umask(0o077)
+  getSandbox()
+
+  // 语言配置随判题任务下发，管理员新增的语言需在 JUDGE_WORKER_LANGUAGES 中声明并安装相应的编译器
+  const languages = workerConfig.languages.length > 0 ? workerConfig.languages : getSupportedLanguages()
+
+  const worker = new JudgeWorker(
+    workerConfig.serverUrl.replace(/\/+$/, ''),
+    workerConfig.token,
+    workerConfig.name || `${os.hostname()}-${process.pid}`,
+    Math.max(1, workerConfig.concurrency),
+    languages
+  )
+
+  const shutdown = () => {
+    worker.stop().finally(() => process.exit(0))
+  }
+  process.on('SIGTERM', shutdown)
+  process.on('SIGINT', shutdown)
+
+  await worker.start()
+}
+
+main().catch(error => {
+  console.error('❌ 判题机启动失败:', error)
+  process.exit(1)
+})
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react'
-import { BarChart3, Users, FileText, Trophy, Settings, Plus, Search, Edit, Trash2, Eye, UserPlus, Download, AlertTriangle } from 'lucide-react'
-import { adminService, AdminStats, AdminUser, AdminProblem, AdminContest, SystemConfig } from '../services/adminService'
+import { BarChart3, Users, FileText, Trophy, Settings, Server, Plus, Search, Edit, Trash2, Eye, UserPlus, Download, AlertTriangle } from 'lucide-react'
+import { adminService, AdminStats, AdminUser, AdminProblem, AdminContest, SystemConfig, JudgeWorker, JudgeQueueInfo } from '../services/adminService'
 
 export function Admin() {
   const [activeTab, setActiveTab] = useState('dashboard')
@@ -13,6 +13,8 @@ export function Admin() {
   const [problems, setProblems] = useState<AdminProblem[]>([])
   const [contests, setContests] = useState<AdminContest[]>([])
   const [systemConfig, setSystemConfig] = useState<SystemConfig | null>(null)
+  const [judgeWorkers, setJudgeWorkers] = useState<JudgeWorker[]>([])
+  const [judgeQueue, setJudgeQueue] = useState<JudgeQueueInfo | null>(null)
   
   // 分页和搜索
   const [currentPage, setCurrentPage] = useState(1)
@@ -51,6 +53,11 @@ export function Admin() {
           setContests(contestsData.contests)
           setTotalPages(contestsData.totalPages)
           break
+        case 'workers':
+          const workersData = await adminService.getJudgeWorkers()
+          setJudgeWorkers(workersData.workers)
+          setJudgeQueue(workersData.queue)
+          break
         case 'settings':
           const configData = await adminService.getSystemConfig()
           setSystemConfig(configData)
@@ -848,11 +855,119 @@ export function Admin() {
     )
   }
 
+  const renderWorkers = () => {
+    if (loading) {
+      return (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      )
+    }
+
+    if (error) {
+      return (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center">
+            <AlertTriangle className="w-5 h-5 text-red-600 mr-2" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        </div>
+      )
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* 判题队列状态 */}
+        {judgeQueue && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">排队中</p>
+              <p className="text-2xl font-semibold text-gray-900">{judgeQueue.queueLength}</p>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">判题中</p>
+              <p className="text-2xl font-semibold text-gray-900">{judgeQueue.processing}</p>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">本机判题</p>
+              <p className="text-2xl font-semibold text-gray-900">
+                {judgeQueue.localProcessing} / {judgeQueue.maxConcurrent}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* 判题机表格 */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  判题机
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  语言
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  负载
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  统计
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  最近活动
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {judgeWorkers.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500">
+                    暂无在线的远程判题机
+                  </td>
+                </tr>
+              )}
+              {judgeWorkers.map((worker) => (
+                <tr key={worker.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{worker.name}</div>
+                    <div className="text-sm text-gray-500">{worker.hostname} ({worker.address})</div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1">
+                      {worker.languages.map((language) => (
+                        <span key={language} className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
+                          {language}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div>任务: {worker.running} / {worker.concurrency}</div>
+                    <div>系统负载: {worker.load.length > 0 ? worker.load.map((value) => value.toFixed(2)).join(' ') : '-'}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div>完成: {worker.judged}</div>
+                    <div>失败: {worker.failed}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(worker.lastSeenAt).toLocaleString('zh-CN')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    )
+  }
+
   const tabs = [
     { id: 'dashboard', name: '仪表板', icon: BarChart3 },
     { id: 'users', name: '用户管理', icon: Users },
     { id: 'problems', name: '题目管理', icon: FileText },
     { id: 'contests', name: '比赛管理', icon: Trophy },
+    { id: 'workers', name: '判题机', icon: Server },
     { id: 'settings', name: '系统设置', icon: Settings }
   ]
 
@@ -896,6 +1011,7 @@ export function Admin() {
           {activeTab === 'users' && renderUsers()}
           {activeTab === 'problems' && renderProblems()}
           {activeTab === 'contests' && renderContests()}
+          {activeTab === 'workers' && renderWorkers()}
           {activeTab === 'settings' && renderSettings()}
         </div>
       </div>
@@ -109,7 +109,7 @@ export function Contest() {
         }
         return (
           <button 
-            onClick={() => handleJoinContest(contest.contestId, !!contest.password)}
+            onClick={() => handleJoinContest(contest.contestId, contest.hasPassword)}
             className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center"
           >
             <Calendar className="w-4 h-4 mr-2" />
@@ -299,7 +299,7 @@ export function Contest() {
                         私有
                       </span>
                     )}
-                    {contest.password && (
+                    {contest.hasPassword && (
                       <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
                         需要密码
                       </span>
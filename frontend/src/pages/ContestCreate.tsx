@@ -140,7 +140,7 @@ export function ContestCreate() {
         title: form.title,
         description: form.description,
         type: form.type,
-        rule: form.rules as 'acm' | 'oi',
+        rule: form.rules as 'acm' | 'oi' | 'ioi',
         startTime: form.startTime,
         duration: form.duration,
         maxParticipants: form.maxParticipants,
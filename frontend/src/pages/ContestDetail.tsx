@@ -83,7 +83,7 @@ export function ContestDetail() {
       setIsJoining(true)
       let password = ''
       
-      if (contest.password) {
+      if (contest.hasPassword) {
         password = prompt('请输入比赛密码:') || ''
         if (!password) {
           setIsJoining(false)
@@ -464,7 +464,7 @@ export function ContestDetail() {
                               <div className="text-sm text-gray-900">{item.solvedCount}</div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="text-sm text-gray-900">{Math.floor(item.totalTime / 60)}分钟</div>
+                              <div className="text-sm text-gray-900">{item.totalTime}分钟</div>
                             </td>
                           </tr>
                         ))}
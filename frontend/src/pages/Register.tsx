@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import { Eye, EyeOff, User, Lock, Mail, UserPlus, GraduationCap } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
-import { parseStudentId, validateStudentId, getStudentIdError } from '../utils/studentIdParser'
+import { parseStudentId, validateStudentId, getStudentIdError } from '@shared/studentIdParser'
 
 export function Register() {
   const { register, isLoading } = useAuth()
@@ -23,6 +23,26 @@ export interface AdminUser {
   lastLogin: string
 }
 
+// 花名册导入预览行
+export interface RosterPreviewRow {
+  line: number
+  studentId: string
+  realName: string
+  email?: string
+  grade: string
+  class: string
+  errors: string[]
+}
+
+// 花名册导入生成的账号
+export interface RosterCredential {
+  studentId: string
+  username: string
+  realName: string
+  class: string
+  password: string
+}
+
 // 题目管理接口
 export interface AdminProblem {
   id: string
@@ -66,6 +86,32 @@ export interface SystemConfig {
   announcementText: string
 }
 
+// 远程判题机接口
+export interface JudgeWorker {
+  id: string
+  name: string
+  hostname: string
+  address: string
+  version?: string
+  languages: string[]
+  concurrency: number
+  running: number
+  load: number[]
+  judged: number
+  failed: number
+  registeredAt: string
+  lastSeenAt: string
+}
+
+// 判题队列状态接口
+export interface JudgeQueueInfo {
+  queueLength: number
+  processing: number
+  localProcessing: number
+  maxConcurrent: number
+  isRunning: boolean
+}
+
 // 管理员服务
 export const adminService = {
   // 获取统计数据
@@ -111,6 +157,37 @@ export const adminService = {
     await api.post(`/admin/users/${userId}/unban`)
   },
 
+  // 花名册批量导入（教师或管理员）
+  async previewRosterImport(file: File): Promise<{
+    rows: RosterPreviewRow[]
+    summary: { total: number; valid: number; conflicts: number }
+  }> {
+    const formData = new FormData()
+    formData.append('file', file)
+    const response = await api.post('/users/import/preview', formData)
+    return response.data.data
+  },
+
+  async importRoster(file: File): Promise<{
+    credentials: RosterCredential[]
+    skipped: RosterPreviewRow[]
+  }> {
+    const formData = new FormData()
+    formData.append('file', file)
+    const response = await api.post('/users/import', formData)
+    return response.data.data
+  },
+
+  // 导入并返回可打印的账号密码单（HTML）
+  async importRosterSheet(file: File): Promise<Blob> {
+    const formData = new FormData()
+    formData.append('file', file)
+    const response = await api.post('/users/import?format=html', formData, {
+      responseType: 'blob'
+    })
+    return response.data
+  },
+
   // 题目管理
   async getProblems(page: number = 1, limit: number = 10, search?: string): Promise<{
     problems: AdminProblem[]
@@ -169,6 +246,15 @@ export const adminService = {
     return response.data
   },
 
+  // 判题机
+  async getJudgeWorkers(): Promise<{
+    workers: JudgeWorker[]
+    queue: JudgeQueueInfo
+  }> {
+    const response = await api.get('/admin/judge/workers')
+    return response.data.data
+  },
+
   // 系统配置
   async getSystemConfig(): Promise<SystemConfig> {
     const response = await api.get('/admin/config')
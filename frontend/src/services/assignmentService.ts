@@ -0,0 +1,125 @@
+import api from './api'
+
+// 作业接口类型定义
+export interface Assignment {
+  assignmentId: number
+  title: string
+  description?: string | null
+  problems: string[] | AssignmentProblem[]   // 详情接口返回题目信息
+  classes: string[]
+  startTime: string
+  deadline: string
+  latePenalty: number | null   // 逾期扣分百分比，为空表示逾期不计分
+  isStarted: boolean
+  isPastDeadline: boolean
+  solvedCount?: number         // 学生列表中附带自己的完成情况
+  score?: number
+  createdBy: {
+    id: number
+    username: string
+    realName: string
+  }
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AssignmentProblem {
+  problemId: string
+  title: string
+  difficulty?: string
+}
+
+export type CompletionStatus = 'solved' | 'late' | 'attempted' | 'unattempted'
+
+export interface CompletionCell {
+  problemId: string
+  status: CompletionStatus
+  attempts: number
+  solvedAt: string | null
+  score: number
+}
+
+export interface CompletionRow {
+  userId: number
+  username: string
+  realName: string
+  studentId: string
+  class: string
+  cells: CompletionCell[]
+  solvedCount: number
+  lateCount: number
+  score: number
+}
+
+export interface CompletionMatrix {
+  assignmentId: number
+  deadline: string
+  latePenalty: number | null
+  problems: { problemId: string; title: string; solvedCount: number }[]
+  rows: CompletionRow[]
+}
+
+export interface AssignmentData {
+  title: string
+  description?: string
+  problems: string[]
+  classes: string[]
+  startTime?: string
+  deadline: string
+  latePenalty?: number | null
+}
+
+// 作业服务
+export const assignmentService = {
+  // 获取作业列表
+  async getAssignments(params?: { page?: number; limit?: number; search?: string }) {
+    const response = await api.get('/assignments', { params })
+    return response.data.data
+  },
+
+  // 获取可布置作业的班级
+  async getClasses() {
+    const response = await api.get('/assignments/classes')
+    return response.data.data.classes as { class: string; studentCount: number }[]
+  },
+
+  // 获取作业详情（学生附带自己的完成情况）
+  async getAssignment(assignmentId: number) {
+    const response = await api.get(`/assignments/${assignmentId}`)
+    return response.data.data as { assignment: Assignment; progress?: CompletionRow }
+  },
+
+  // 布置作业
+  async createAssignment(data: AssignmentData) {
+    const response = await api.post('/assignments', data)
+    return response.data.data.assignment as Assignment
+  },
+
+  // 更新作业
+  async updateAssignment(assignmentId: number, data: Partial<AssignmentData>) {
+    const response = await api.put(`/assignments/${assignmentId}`, data)
+    return response.data.data.assignment as Assignment
+  },
+
+  // 删除作业
+  async deleteAssignment(assignmentId: number) {
+    const response = await api.delete(`/assignments/${assignmentId}`)
+    return response.data
+  },
+
+  // 获取完成情况矩阵
+  async getCompletionMatrix(assignmentId: number) {
+    const response = await api.get(`/assignments/${assignmentId}/matrix`)
+    return response.data.data.matrix as CompletionMatrix
+  },
+
+  // 导出完成情况CSV
+  async exportCompletionMatrix(assignmentId: number): Promise<Blob> {
+    const response = await api.get(`/assignments/${assignmentId}/matrix/export`, {
+      responseType: 'blob'
+    })
+    return response.data
+  }
+}
+
+export default assignmentService
@@ -6,13 +6,14 @@ export interface Contest {
   title: string
   description: string
   type: 'public' | 'private' | 'official' | 'practice'
-  rule: 'acm' | 'oi'
+  rule: 'acm' | 'oi' | 'ioi'
   status: 'upcoming' | 'running' | 'ended' | 'cancelled'
   startTime: string
   endTime: string
   duration: number
   maxParticipants?: number
-  password?: string
+  password?: string      // 仅比赛管理者可见
+  hasPassword: boolean
   isPublic: boolean
   allowedLanguages?: string[]
   problems: ContestProblem[]
@@ -21,6 +22,10 @@ export interface Contest {
   isUpcoming: boolean
   isRunning: boolean
   isEnded: boolean
+  isFrozen: boolean
+  freezeTime?: string
+  isRated: boolean
+  ratedAt?: string
   createdBy: {
     id: string
     username: string
@@ -30,6 +35,24 @@ export interface Contest {
   updatedAt: string
 }
 
+export interface Clarification {
+  clarificationId: number
+  contestId: number
+  problemLabel: string | null
+  question: string | null    // 裁判发布的公告没有提问内容
+  answer: string | null
+  isPublic: boolean
+  isBroadcast: boolean
+  isAnswered: boolean
+  user?: {                   // 仅管理者和提问者本人可见
+    id: number
+    username: string
+    realName: string
+  }
+  answeredAt: string | null
+  createdAt: string
+}
+
 export interface ContestProblem {
   problemId: string
   label: string
@@ -48,6 +71,7 @@ export interface Participant {
   realName: string
   registeredAt: string
   isOfficial: boolean
+  isVirtual: boolean
 }
 
 export interface ContestRanking {
@@ -58,12 +82,17 @@ export interface ContestRanking {
   totalScore: number
   totalTime: number
   solvedCount: number
+  isOfficial: boolean
+  isVirtual: boolean
   problemResults: {
     [problemId: string]: {
       score: number
       attempts: number
       timeUsed: number
       firstSolvedAt?: string
+      isFirstBlood?: boolean
+      pending?: number
+      subtaskScores?: { [subtaskId: number]: number }
     }
   }
 }
@@ -103,13 +132,13 @@ export const contestService = {
     sortOrder?: 'asc' | 'desc'
   }) {
     const response = await api.get('/contests', { params })
-    return response.data
+    return response.data.data
   },
 
   // 获取比赛详情
   async getContestById(contestId: string) {
     const response = await api.get(`/contests/${contestId}`)
-    return response.data.contest as Contest
+    return response.data.data.contest as Contest
   },
 
   // 创建比赛
@@ -124,10 +153,11 @@ export const contestService = {
     password?: string
     isPublic: boolean
     allowedLanguages?: string[]
-    problems: string[]
+    problems: (string | { problemId: string; label?: string; score?: number })[]
     announcement?: string
     prizes?: string[]
     tags: string[]
+    freezeTime?: string
   }) {
     const response = await api.post('/contests', contestData)
     return response.data
@@ -151,6 +181,54 @@ export const contestService = {
     return response.data
   },
 
+  // 开始虚拟参赛（比赛结束后）
+  async startVirtualContest(contestId: string, password?: string) {
+    const response = await api.post(`/contests/${contestId}/virtual`, { password })
+    return response.data.data
+  },
+
+  // 获取虚拟参赛排行榜
+  async getVirtualRanking(contestId: string) {
+    const response = await api.get(`/contests/${contestId}/virtual/ranking`)
+    return response.data.data
+  },
+
+  // 获取比赛答疑列表
+  async getClarifications(contestId: string, problemLabel?: string) {
+    const response = await api.get(`/contests/${contestId}/clarifications`, { params: { problemLabel } })
+    return response.data.data.clarifications as Clarification[]
+  },
+
+  // 提交答疑问题
+  async askClarification(contestId: string, question: string, problemLabel?: string) {
+    const response = await api.post(`/contests/${contestId}/clarifications`, { question, problemLabel })
+    return response.data.data.clarification as Clarification
+  },
+
+  // 回复答疑（比赛管理者）
+  async answerClarification(contestId: string, clarificationId: number, answer: string, isPublic = false) {
+    const response = await api.post(`/contests/${contestId}/clarifications/${clarificationId}/answer`, { answer, isPublic })
+    return response.data.data.clarification as Clarification
+  },
+
+  // 发布比赛公告（比赛管理者）
+  async broadcastClarification(contestId: string, content: string, problemLabel?: string) {
+    const response = await api.post(`/contests/${contestId}/clarifications/broadcast`, { content, problemLabel })
+    return response.data.data.clarification as Clarification
+  },
+
+  // 计算比赛积分（管理员）
+  async finalizeRating(contestId: string) {
+    const response = await api.post(`/contests/${contestId}/finalize`)
+    return response.data.data
+  },
+
+  // 取消比赛计分（管理员）
+  async unrateContest(contestId: string) {
+    const response = await api.post(`/contests/${contestId}/unrate`)
+    return response.data.data
+  },
+
   // 退出比赛
   async leaveContest(contestId: string) {
     const response = await api.post(`/contests/${contestId}/leave`)
@@ -163,13 +241,13 @@ export const contestService = {
     limit?: number
   }) {
     const response = await api.get(`/contests/${contestId}/ranking`, { params })
-    return response.data
+    return response.data.data
   },
 
   // 获取比赛题目列表
   async getContestProblems(contestId: string) {
     const response = await api.get(`/contests/${contestId}/problems`)
-    return response.data
+    return response.data.data.problems as ContestProblem[]
   },
 
   // 获取比赛提交记录
@@ -182,13 +260,13 @@ export const contestService = {
     language?: string
   }) {
     const response = await api.get(`/contests/${contestId}/submissions`, { params })
-    return response.data
+    return response.data.data
   },
 
   // 获取比赛统计信息
   async getContestStatistics(contestId: string) {
     const response = await api.get(`/contests/${contestId}/statistics`)
-    return response.data.statistics as ContestStatistics
+    return response.data.data.statistics as ContestStatistics
   },
 
   // 更新比赛状态（管理员）
@@ -197,16 +275,28 @@ export const contestService = {
     return response.data
   },
 
-  // 冻结排行榜（管理员）
+  // 立即封榜（管理员）
   async freezeRanking(contestId: string) {
     const response = await api.post(`/contests/${contestId}/freeze`)
     return response.data
   },
 
-  // 解冻排行榜（管理员）
+  // 一次性解除封榜（管理员）
   async unfreezeRanking(contestId: string) {
     const response = await api.post(`/contests/${contestId}/unfreeze`)
     return response.data
+  },
+
+  // 获取揭晓前的封榜排行榜（管理员）
+  async getResolver(contestId: string) {
+    const response = await api.get(`/contests/${contestId}/resolver`)
+    return response.data.data
+  },
+
+  // 揭晓下一个待揭晓单元格（管理员）
+  async resolveNext(contestId: string) {
+    const response = await api.post(`/contests/${contestId}/resolve`)
+    return response.data.data
   }
 }
 
@@ -0,0 +1,57 @@
+import api from './api'
+
+// 编程语言接口类型定义
+export interface JudgeLanguage {
+  languageId: string   // 提交时使用的语言标识
+  name: string
+  family: string       // 语法类别（c、cpp、java、python……）
+  version: string
+  extension: string
+}
+
+// 语言评测配置（仅管理员可见）
+export interface JudgeLanguageConfig extends JudgeLanguage {
+  id: number
+  compileCommand?: string | null
+  runCommand: string
+  executable?: string | null
+  detectClassName?: boolean
+  timeMultiplier: number
+  memoryMultiplier: number
+  seccompProfile: string
+  processLimit?: number | null
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type JudgeLanguageInput = Partial<Omit<JudgeLanguageConfig, 'id' | 'createdAt' | 'updatedAt'>>
+
+// 语言服务
+export const languageService = {
+  // 获取可提交的语言列表
+  async getLanguages() {
+    const response = await api.get('/languages')
+    return response.data.data.languages as JudgeLanguage[]
+  },
+
+  // 获取全部语言及评测配置（管理员）
+  async getAllLanguages() {
+    const response = await api.get('/languages/all')
+    return response.data.data.languages as JudgeLanguageConfig[]
+  },
+
+  // 添加语言（管理员）
+  async createLanguage(data: JudgeLanguageInput & { languageId: string }) {
+    const response = await api.post('/languages', data)
+    return response.data.data.language as JudgeLanguageConfig
+  },
+
+  // 修改语言（管理员）
+  async updateLanguage(languageId: string, data: JudgeLanguageInput) {
+    const response = await api.put(`/languages/${languageId}`, data)
+    return response.data.data.language as JudgeLanguageConfig
+  }
+}
+
+export default languageService
@@ -0,0 +1,103 @@
+import api from './api'
+
+// 查重接口类型定义
+export type PlagiarismScope = 'problem' | 'contest' | 'assignment'
+export type PlagiarismCheckStatus = 'pending' | 'running' | 'completed' | 'failed'
+export type PlagiarismPairStatus = 'pending' | 'confirmed' | 'dismissed'
+
+export interface PlagiarismCheck {
+  id: number
+  scope: PlagiarismScope
+  scopeId: string
+  minSimilarity: number
+  status: PlagiarismCheckStatus
+  submissionCount: number
+  pairCount: number
+  errorMessage?: string | null
+  createdBy: number
+  creator?: { id: number; username: string; realName?: string }
+  finishedAt?: string | null
+  createdAt: string
+}
+
+export interface PlagiarismUser {
+  id: number
+  username: string
+  realName?: string
+  studentId?: string
+  class?: string
+}
+
+// 相同的代码片段（行号从1开始，含首尾）
+export interface MatchedRegion {
+  leftStart: number
+  leftEnd: number
+  rightStart: number
+  rightEnd: number
+  tokens: number
+}
+
+export interface PlagiarismPair {
+  id: number
+  checkId: number
+  problemId: string
+  language: string
+  leftSubmissionId: string
+  rightSubmissionId: string
+  leftUser?: PlagiarismUser
+  rightUser?: PlagiarismUser
+  similarity: number
+  leftSimilarity: number
+  rightSimilarity: number
+  matches?: MatchedRegion[]    // 只在详情接口返回
+  status: PlagiarismPairStatus
+  note?: string | null
+  reviewedBy?: number | null
+  reviewedAt?: string | null
+}
+
+export interface PlagiarismSubmission {
+  submissionId: string
+  userId: number
+  problemId: string
+  language: string
+  code: string
+  status: string
+  score?: number
+  submittedAt: string
+}
+
+// 查重服务
+export const plagiarismService = {
+  // 发起查重
+  async createCheck(data: { scope: PlagiarismScope; scopeId: string | number; minSimilarity?: number }) {
+    const response = await api.post('/plagiarism/checks', data)
+    return response.data.data.check as PlagiarismCheck
+  },
+
+  // 获取查重任务列表
+  async getChecks(params: { scope?: PlagiarismScope; scopeId?: string; page?: number; limit?: number } = {}) {
+    const response = await api.get('/plagiarism/checks', { params })
+    return response.data.data
+  },
+
+  // 获取查重结果（按相似度排序的代码对）
+  async getCheck(checkId: number, params: { problemId?: string; status?: PlagiarismPairStatus; page?: number; limit?: number } = {}) {
+    const response = await api.get(`/plagiarism/checks/${checkId}`, { params })
+    return response.data.data as { check: PlagiarismCheck; pairs: PlagiarismPair[]; pagination: any }
+  },
+
+  // 获取代码对详情（左右对照）
+  async getPair(pairId: number) {
+    const response = await api.get(`/plagiarism/pairs/${pairId}`)
+    return response.data.data as { pair: PlagiarismPair; left: PlagiarismSubmission | null; right: PlagiarismSubmission | null }
+  },
+
+  // 审核代码对
+  async reviewPair(pairId: number, status: PlagiarismPairStatus, note?: string) {
+    const response = await api.patch(`/plagiarism/pairs/${pairId}`, { status, note })
+    return response.data.data.pair as Pick<PlagiarismPair, 'id' | 'status' | 'note' | 'reviewedBy' | 'reviewedAt'>
+  }
+}
+
+export default plagiarismService
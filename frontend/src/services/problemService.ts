@@ -25,10 +25,46 @@ export interface Problem {
   }>
   source?: string
   hint?: string
+  allowedLanguages?: string[] // 为空表示不限制
+  graderFiles?: GraderFile[]  // 评测程序文件（函数式题目）
+  graderLanguages?: string[] // 提供了评测程序的语法类别（不能编辑题目的用户只返回该字段）
+  revision?: number
   createdAt: string
   updatedAt: string
 }
 
+// 评测程序文件，与选手代码一起编译运行
+export interface GraderFile {
+  language: string  // 语法类别，如 cpp、python
+  name: string
+  content: string
+}
+
+// 题目版本
+export interface ProblemRevision {
+  id: number
+  problemId: string
+  revision: number
+  summary: string
+  changedFields: string[]
+  testDataHash: string
+  snapshot?: Record<string, unknown>
+  author?: {
+    id: number
+    username: string
+    realName?: string
+  }
+  createdAt: string
+}
+
+// 版本之间的字段差异
+export interface RevisionFieldDiff {
+  field: string
+  label: string
+  before: unknown
+  after: unknown
+}
+
 // 题目列表响应接口
 export interface ProblemsResponse {
   problems: Problem[]
@@ -94,6 +130,19 @@ export interface ProblemSearchParams {
   search?: string
 }
 
+// 题目包格式
+export type PackageFormat = 'native' | 'polygon' | 'fps'
+export type ExportFormat = Exclude<PackageFormat, 'polygon'>
+
+// 导入结果
+export interface ImportedProblem {
+  problemId: string
+  title: string
+  testCaseCount: number
+  file: string
+  warnings: string[]
+}
+
 // 题目服务
 export const problemService = {
   // 获取题目列表
@@ -164,6 +213,73 @@ export const problemService = {
     
     const response = await api.get(`/problems/${problemId}/submissions?${searchParams.toString()}`)
     return response.data.data
+  },
+
+  // 导入题目包（Polygon完整包、FPS XML或本系统zip），不指定格式时自动识别
+  async importProblems(files: File[], format?: PackageFormat): Promise<{ problems: ImportedProblem[] }> {
+    const formData = new FormData()
+    files.forEach(file => formData.append('files', file))
+    if (format) {
+      formData.append('format', format)
+    }
+    const response = await api.post('/problems/import', formData)
+    return response.data.data
+  },
+
+  // 导出单道题目
+  async exportProblem(problemId: string, format: ExportFormat = 'native'): Promise<Blob> {
+    const response = await api.get(`/problems/${problemId}/export?format=${format}`, {
+      responseType: 'blob'
+    })
+    return response.data
+  },
+
+  // 批量导出题目（按题目ID列表、标签或分类）
+  async exportProblems(params: {
+    format?: ExportFormat
+    problemIds?: string[]
+    tag?: string
+    category?: string
+  }): Promise<Blob> {
+    const searchParams = new URLSearchParams()
+    if (params.format) searchParams.append('format', params.format)
+    if (params.problemIds) searchParams.append('problemIds', params.problemIds.join(','))
+    if (params.tag) searchParams.append('tag', params.tag)
+    if (params.category) searchParams.append('category', params.category)
+
+    const response = await api.get(`/problems/export?${searchParams.toString()}`, {
+      responseType: 'blob'
+    })
+    return response.data
+  },
+
+  // 获取题目版本列表
+  async getProblemRevisions(problemId: string): Promise<{ currentRevision: number; revisions: ProblemRevision[] }> {
+    const response = await api.get(`/problems/${problemId}/revisions`)
+    return response.data.data
+  },
+
+  // 获取版本详情及字段差异（默认与上一版本比较）
+  async getProblemRevision(problemId: string, revision: number, compare?: number): Promise<{
+    revision: ProblemRevision
+    compareTo: number | null
+    diff: RevisionFieldDiff[]
+  }> {
+    const query = compare !== undefined ? `?compare=${compare}` : ''
+    const response = await api.get(`/problems/${problemId}/revisions/${revision}${query}`)
+    return response.data.data
+  },
+
+  // 恢复到指定版本
+  async restoreProblemRevision(problemId: string, revision: number) {
+    const response = await api.post(`/problems/${problemId}/revisions/${revision}/restore`)
+    return response.data.data
+  },
+
+  // 设置评测程序文件，传空数组时恢复为普通题目
+  async updateProblemGrader(problemId: string, files: GraderFile[]): Promise<{ languages: string[] }> {
+    const response = await api.post(`/problems/${problemId}/grader`, { files })
+    return response.data.data
   }
 }
 
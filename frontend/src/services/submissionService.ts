@@ -0,0 +1,87 @@
+import api from './api'
+
+// 提交接口类型定义
+// 语言标识（如 cpp20、pypy3），可用的语言见 languageService
+export type Language = string
+
+// 多文件提交中主文件以外的文件
+export interface SourceFile {
+  name: string
+  content: string
+}
+
+export interface CreateSubmissionRequest {
+  problemId: string
+  language: Language
+  code: string           // 主文件
+  files?: SourceFile[]
+  contestId?: number
+  isPublic?: boolean
+}
+
+export interface SubmissionCreated {
+  submissionId: string
+  status: string
+  submittedAt: string
+}
+
+export interface RunRequest {
+  language: Language
+  code: string
+  files?: SourceFile[]
+  input?: string         // 自定义输入
+  problemId?: string     // 指定题目时使用题目的时间、内存限制
+  contestId?: number
+  useSamples?: boolean   // 依次运行题目样例并与样例输出比较
+}
+
+export interface RunCaseResult {
+  status: string
+  timeUsed: number       // 毫秒
+  memoryUsed: number     // KB
+  input: string
+  expectedOutput?: string // 只在运行样例时返回
+  stdout: string
+  stderr: string
+  errorMessage: string
+}
+
+export interface RunResult {
+  status: string
+  timeUsed: number
+  memoryUsed: number
+  compileOutput: string
+  errorMessage: string
+  cases: RunCaseResult[]
+}
+
+// 提交服务
+export const submissionService = {
+  // 创建提交
+  async create(data: CreateSubmissionRequest) {
+    const response = await api.post('/submissions', data)
+    return response.data.data.submission as SubmissionCreated
+  },
+
+  // 上传源文件提交：多个源文件或一个zip，有多个源文件时程序入口所在的文件需命名为 main
+  async upload(data: Omit<CreateSubmissionRequest, 'code' | 'files'>, files: File[]) {
+    const formData = new FormData()
+    formData.append('problemId', data.problemId)
+    formData.append('language', data.language)
+    if (data.contestId !== undefined) formData.append('contestId', String(data.contestId))
+    if (data.isPublic !== undefined) formData.append('isPublic', String(data.isPublic))
+    for (const file of files) {
+      formData.append('files', file)
+    }
+    const response = await api.post('/submissions/upload', formData)
+    return response.data.data.submission as SubmissionCreated
+  },
+
+  // 自定义输入运行（不创建提交）
+  async run(data: RunRequest) {
+    const response = await api.post('/submissions/run', data)
+    return response.data.data.result as RunResult
+  }
+}
+
+export default submissionService
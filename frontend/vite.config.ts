@@ -8,10 +8,15 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      '@shared': path.resolve(__dirname, '../shared'),
     },
   },
   server: {
     port: 3000,
+    fs: {
+      // 允许引用前后端共用的代码
+      allow: ['..'],
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:5000',